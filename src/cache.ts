@@ -1,6 +1,9 @@
 import { EventEmitter } from 'node:events';
+import { mkdirSync, readFileSync } from 'node:fs';
+import { rename, rm, writeFile } from 'node:fs/promises';
 import type { ServerResponse } from 'node:http';
-import { posix as pathPosix } from 'node:path';
+import { join, posix as pathPosix } from 'node:path';
+import process from 'node:process';
 
 import { z } from 'zod';
 
@@ -8,6 +11,7 @@ import { config } from './config.js';
 import { sha256Hex } from './crypto.js';
 import { getErrorMessage } from './errors.js';
 import { stableStringify as stableJsonStringify } from './json.js';
+import { stripMetadataFooter } from './markdown-cleanup.js';
 import { logWarn } from './observability.js';
 
 /* -------------------------------------------------------------------------------------------------
@@ -21,7 +25,8 @@ const HashString = z
   .min(8)
   .max(64);
 
-const CachedPayloadSchema = z.strictObject({
+// Not strict: fetch-url payloads also carry metadata, truncation and outline.
+const CachedPayloadSchema = z.object({
   content: z.string().optional(),
   markdown: z.string().optional(),
   title: z.string().optional(),
@@ -35,6 +40,8 @@ interface CacheEntry {
   content: string;
   fetchedAt: string;
   expiresAt: string;
+  etag?: string;
+  lastModified?: string;
 }
 
 interface CacheKeyParts {
@@ -53,10 +60,43 @@ interface CacheGetOptions {
 interface CacheEntryMetadata {
   url: string;
   title?: string;
+  etag?: string;
+  lastModified?: string;
 }
 
-interface StoredCacheEntry extends CacheEntry {
+interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+// Index record kept in memory; content lives in the storage backend.
+export interface CacheIndexRecord {
+  url: string;
+  title?: string;
+  fetchedAt: string;
+  expiresAt: string;
   expiresAtMs: number;
+  size: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Storage backend for cache content. The store owns TTL, LRU order and
+ * eviction; a backend only persists records and their content.
+ */
+export interface CacheStorage {
+  /** Restores persisted records, least recently used first. */
+  load(): Iterable<readonly [string, CacheIndexRecord]>;
+  read(cacheKey: string): string | undefined;
+  write(cacheKey: string, record: CacheIndexRecord, content: string): void;
+  /** Replaces the record of an existing entry, keeping its content. */
+  update(cacheKey: string, record: CacheIndexRecord): void;
+  /** Stores the entry of `sourceKey` under `targetKey` too; false if absent. */
+  copy(sourceKey: string, targetKey: string): boolean;
+  remove(cacheKey: string): void;
+  /** Persists pending changes; called on shutdown. */
+  flush(): Promise<void>;
 }
 
 interface CacheUpdateEvent {
@@ -92,6 +132,11 @@ export function resolveCachedPayloadContent(
   return payload.markdown ?? payload.content ?? null;
 }
 
+/** Hashes Markdown without its metadata footer, which embeds the fetch date. */
+export function hashMarkdownContent(markdown: string): string {
+  return sha256Hex(stripMetadataFooter(markdown));
+}
+
 function createHashFragment(input: string, length: number): string {
   return sha256Hex(input).substring(0, length);
 }
@@ -147,25 +192,351 @@ export function parseCacheKey(cacheKey: string): CacheKeyParts | null {
   return { namespace, urlHash };
 }
 
+/* -------------------------------------------------------------------------------------------------
+ * Storage: Memory & File System Backends
+ * ------------------------------------------------------------------------------------------------- */
+
+class MemoryCacheStorage implements CacheStorage {
+  private readonly contents = new Map<string, string>();
+
+  load(): Iterable<readonly [string, CacheIndexRecord]> {
+    return [];
+  }
+
+  read(cacheKey: string): string | undefined {
+    return this.contents.get(cacheKey);
+  }
+
+  write(cacheKey: string, _record: CacheIndexRecord, content: string): void {
+    this.contents.set(cacheKey, content);
+  }
+
+  update(): void {
+    // Records are held by the store; nothing to persist.
+  }
+
+  copy(sourceKey: string, targetKey: string): boolean {
+    const content = this.contents.get(sourceKey);
+    if (content === undefined) return false;
+    this.contents.set(targetKey, content);
+    return true;
+  }
+
+  remove(cacheKey: string): void {
+    this.contents.delete(cacheKey);
+  }
+
+  async flush(): Promise<void> {
+    // Nothing is persisted.
+  }
+}
+
+const PersistedIndexSchema = z.strictObject({
+  version: z.literal(1),
+  entries: z.array(
+    z.strictObject({
+      key: z.string().min(1),
+      contentHash: z.string().regex(/^[a-f0-9]{64}$/),
+      url: z.string(),
+      title: z.string().optional(),
+      fetchedAt: z.string(),
+      expiresAt: z.string(),
+      expiresAtMs: z.number(),
+      size: z.number().int().nonnegative(),
+      etag: z.string().optional(),
+      lastModified: z.string().optional(),
+    })
+  ),
+});
+
+interface PersistedRecord extends CacheIndexRecord {
+  contentHash: string;
+}
+
+const INDEX_FILE_NAME = 'index.json';
+const OBJECTS_DIR_NAME = 'objects';
+const INDEX_FLUSH_DELAY_MS = 100;
+
+/**
+ * Content-addressed file-system storage. Blobs are stored once per content
+ * hash under `objects/`, and `index.json` maps cache keys to blobs so that
+ * alias keys (e.g. the final URL after redirects) share a single file.
+ * Blobs are written and removed asynchronously, in order, on the same queue
+ * as the batched index writes; reads are served from memory until then.
+ */
+export class FileSystemCacheStorage implements CacheStorage {
+  private readonly indexPath: string;
+  private readonly objectsDir: string;
+  private readonly records = new Map<string, PersistedRecord>();
+  private flushTimer: NodeJS.Timeout | undefined;
+  private indexDirty = false;
+  private writeQueue: Promise<void> = Promise.resolve();
+  /** Blob content by hash, until its latest queued write has finished. */
+  private readonly pendingObjects = new Map<string, { content: string }>();
+
+  constructor(private readonly rootDir: string) {
+    this.indexPath = join(rootDir, INDEX_FILE_NAME);
+    this.objectsDir = join(rootDir, OBJECTS_DIR_NAME);
+  }
+
+  load(): Iterable<readonly [string, CacheIndexRecord]> {
+    mkdirSync(this.objectsDir, { recursive: true });
+    this.records.clear();
+
+    for (const { key, contentHash, ...record } of this.readIndex()) {
+      this.records.set(key, { ...toIndexRecord(record), contentHash });
+    }
+    return [...this.records].map(([key, record]) => [
+      key,
+      toIndexRecord(record),
+    ]);
+  }
+
+  read(cacheKey: string): string | undefined {
+    const record = this.records.get(cacheKey);
+    if (!record) return undefined;
+
+    const pending = this.pendingObjects.get(record.contentHash);
+    if (pending) return pending.content;
+
+    try {
+      return readFileSync(this.objectPath(record.contentHash), 'utf8');
+    } catch (error) {
+      logWarn('Failed to read cache object', {
+        key: cacheKey,
+        error: getErrorMessage(error),
+      });
+      return undefined;
+    }
+  }
+
+  write(cacheKey: string, record: CacheIndexRecord, content: string): void {
+    const contentHash = sha256Hex(content);
+    const previous = this.records.get(cacheKey);
+
+    const pending = { content };
+    this.pendingObjects.set(contentHash, pending);
+    void this.enqueue(() => this.writeObject(contentHash, pending));
+
+    this.records.delete(cacheKey);
+    this.records.set(cacheKey, { ...record, contentHash });
+    if (previous && previous.contentHash !== contentHash) {
+      this.releaseObject(previous.contentHash);
+    }
+    this.scheduleIndexFlush();
+  }
+
+  update(cacheKey: string, record: CacheIndexRecord): void {
+    const previous = this.records.get(cacheKey);
+    if (!previous) return;
+
+    this.records.delete(cacheKey);
+    this.records.set(cacheKey, {
+      ...record,
+      contentHash: previous.contentHash,
+    });
+    this.scheduleIndexFlush();
+  }
+
+  // Blobs are content-addressed, so a copy only adds an index record.
+  copy(sourceKey: string, targetKey: string): boolean {
+    const record = this.records.get(sourceKey);
+    if (!record) return false;
+
+    const replaced = this.records.get(targetKey);
+    this.records.delete(targetKey);
+    this.records.set(targetKey, { ...record });
+    if (replaced && replaced.contentHash !== record.contentHash) {
+      this.releaseObject(replaced.contentHash);
+    }
+    this.scheduleIndexFlush();
+    return true;
+  }
+
+  remove(cacheKey: string): void {
+    const record = this.records.get(cacheKey);
+    if (!record) return;
+
+    this.records.delete(cacheKey);
+    this.releaseObject(record.contentHash);
+    this.scheduleIndexFlush();
+  }
+
+  private objectPath(contentHash: string): string {
+    return join(this.objectsDir, contentHash);
+  }
+
+  private releaseObject(contentHash: string): void {
+    for (const record of this.records.values()) {
+      if (record.contentHash === contentHash) return;
+    }
+    this.pendingObjects.delete(contentHash);
+    void this.enqueue(() => rm(this.objectPath(contentHash), { force: true }));
+  }
+
+  private async writeObject(
+    contentHash: string,
+    pending: { content: string }
+  ): Promise<void> {
+    // Released (or written again) before its turn came.
+    if (this.pendingObjects.get(contentHash) !== pending) return;
+
+    try {
+      await writeFileAtomicAsync(this.objectPath(contentHash), pending.content);
+    } catch (error) {
+      // Records pointing at the blob fail their next read and are dropped.
+      logWarn('Failed to write cache object', {
+        hash: contentHash,
+        error: getErrorMessage(error),
+      });
+    } finally {
+      if (this.pendingObjects.get(contentHash) === pending) {
+        this.pendingObjects.delete(contentHash);
+      }
+    }
+  }
+
+  // Chained so that queued blob and index writes land in order, and an older
+  // index never overwrites a newer one.
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(task).catch((error: unknown) => {
+      logWarn('Cache storage task failed', { error: getErrorMessage(error) });
+    });
+    return this.writeQueue;
+  }
+
+  private readIndex(): z.infer<typeof PersistedIndexSchema>['entries'] {
+    let raw: string;
+    try {
+      raw = readFileSync(this.indexPath, 'utf8');
+    } catch {
+      return [];
+    }
+
+    try {
+      return PersistedIndexSchema.parse(JSON.parse(raw)).entries;
+    } catch (error) {
+      logWarn('Ignoring invalid cache index', {
+        path: this.indexPath,
+        error: getErrorMessage(error),
+      });
+      return [];
+    }
+  }
+
+  async flush(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    return this.enqueue(() => this.writeIndex());
+  }
+
+  private scheduleIndexFlush(): void {
+    this.indexDirty = true;
+    this.flushTimer ??= setTimeout(() => {
+      void this.flush();
+    }, INDEX_FLUSH_DELAY_MS);
+  }
+
+  private async writeIndex(): Promise<void> {
+    if (!this.indexDirty) return;
+    this.indexDirty = false;
+
+    const entries = [...this.records].map(([key, record]) => ({
+      key,
+      ...record,
+    }));
+    try {
+      await writeFileAtomicAsync(
+        this.indexPath,
+        JSON.stringify({ version: 1, entries })
+      );
+    } catch (error) {
+      this.indexDirty = true;
+      logWarn('Failed to write cache index', {
+        path: this.indexPath,
+        error: getErrorMessage(error),
+      });
+    }
+  }
+}
+
+function toIndexRecord(record: {
+  url: string;
+  title?: string | undefined;
+  fetchedAt: string;
+  expiresAt: string;
+  expiresAtMs: number;
+  size: number;
+  etag?: string | undefined;
+  lastModified?: string | undefined;
+}): CacheIndexRecord {
+  return {
+    url: record.url,
+    fetchedAt: record.fetchedAt,
+    expiresAt: record.expiresAt,
+    expiresAtMs: record.expiresAtMs,
+    size: record.size,
+    ...(record.title ? { title: record.title } : {}),
+    ...(record.etag ? { etag: record.etag } : {}),
+    ...(record.lastModified ? { lastModified: record.lastModified } : {}),
+  };
+}
+
+function hasValidators(record: CacheValidators): boolean {
+  return Boolean(record.etag ?? record.lastModified);
+}
+
+async function writeFileAtomicAsync(
+  filePath: string,
+  content: string
+): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await writeFile(tempPath, content, 'utf8');
+  await rename(tempPath, filePath);
+}
+
+function createCacheStorage(): CacheStorage {
+  if (config.cache.backend === 'filesystem') {
+    return new FileSystemCacheStorage(config.cache.dir);
+  }
+  return new MemoryCacheStorage();
+}
+
 /* -------------------------------------------------------------------------------------------------
  * Core: In-Memory Store
  * ------------------------------------------------------------------------------------------------- */
 
+// Snapshots are stored next to the entries that replaced them.
+const PREVIOUS_KEY_PREFIX = 'previous:';
+
+function toPreviousKey(cacheKey: string): string {
+  return `${PREVIOUS_KEY_PREFIX}${cacheKey}`;
+}
+
 class InMemoryCacheStore {
   private readonly max = config.cache.maxKeys;
+  private readonly maxPrevious = config.cache.maxPreviousKeys;
   private readonly maxBytes = config.cache.maxSizeBytes;
   private readonly ttlMs = config.cache.ttl * 1000;
 
-  private readonly entries = new Map<string, StoredCacheEntry>();
+  private readonly entries = new Map<string, CacheIndexRecord>();
   private readonly updateEmitter = new EventEmitter();
+  // Versions replaced by `set`, oldest first. Their bytes count towards
+  // `maxBytes` and are reclaimed before any current entry is evicted.
+  private readonly previous = new Map<string, CacheIndexRecord>();
 
   private currentBytes = 0;
+  private previousBytes = 0;
+
+  constructor(private readonly storage: CacheStorage) {
+    this.restore();
+  }
 
   isEnabled(): boolean {
     return config.cache.enabled;
   }
 
-  private isExpired(entry: StoredCacheEntry, now = Date.now()): boolean {
+  private isExpired(entry: CacheIndexRecord, now = Date.now()): boolean {
     return entry.expiresAtMs <= now;
   }
 
@@ -180,6 +551,12 @@ class InMemoryCacheStore {
     return result;
   }
 
+  has(cacheKey: string | null): boolean {
+    if (!cacheKey || !this.isEnabled()) return false;
+    const entry = this.entries.get(cacheKey);
+    return entry !== undefined && !this.isExpired(entry);
+  }
+
   onUpdate(listener: CacheUpdateListener): () => void {
     const wrapped = (event: CacheUpdateEvent): void => {
       try {
@@ -215,23 +592,79 @@ class InMemoryCacheStore {
 
     const now = Date.now();
     if (this.isExpired(entry, now)) {
+      // Entries with validators stay around for conditional revalidation.
+      if (hasValidators(entry)) return undefined;
       this.delete(cacheKey);
       this.notify(cacheKey, true);
       return undefined;
     }
 
+    const content = this.readContent(cacheKey);
+    if (content === undefined) return undefined;
+
     // Refresh LRU position
     this.entries.delete(cacheKey);
     this.entries.set(cacheKey, entry);
 
-    return entry;
+    return toCacheEntry(entry, content);
+  }
+
+  getStale(cacheKey: string | null): CacheEntry | undefined {
+    if (!cacheKey || !this.isEnabled()) return undefined;
+
+    const entry = this.entries.get(cacheKey);
+    if (!entry || !this.isExpired(entry) || !hasValidators(entry)) {
+      return undefined;
+    }
+
+    const content = this.readContent(cacheKey);
+    return content === undefined ? undefined : toCacheEntry(entry, content);
+  }
+
+  markRevalidated(cacheKey: string, validators?: CacheValidators): boolean {
+    const entry = this.entries.get(cacheKey);
+    if (!entry) return false;
+
+    const now = Date.now();
+    const expiresAtMs = now + this.ttlMs;
+    const refreshed: CacheIndexRecord = {
+      ...entry,
+      fetchedAt: new Date(now).toISOString(),
+      expiresAt: new Date(expiresAtMs).toISOString(),
+      expiresAtMs,
+      ...(validators?.etag ? { etag: validators.etag } : {}),
+      ...(validators?.lastModified
+        ? { lastModified: validators.lastModified }
+        : {}),
+    };
+
+    try {
+      this.storage.update(cacheKey, refreshed);
+    } catch (error) {
+      this.logError('Failed to persist cache revalidation', cacheKey, error);
+      return false;
+    }
+
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, refreshed);
+    return true;
+  }
+
+  private readContent(cacheKey: string): string | undefined {
+    const content = this.storage.read(cacheKey);
+    if (content === undefined) {
+      this.delete(cacheKey);
+      this.notify(cacheKey, true);
+    }
+    return content;
   }
 
   private delete(cacheKey: string): boolean {
     const entry = this.entries.get(cacheKey);
     if (entry) {
-      this.currentBytes -= entry.content.length;
+      this.currentBytes -= entry.size;
       this.entries.delete(cacheKey);
+      this.removeFromStorage(cacheKey);
       return true;
     }
     return false;
@@ -242,9 +675,9 @@ class InMemoryCacheStore {
     content: string,
     metadata: CacheEntryMetadata,
     options?: CacheSetOptions
-  ): void {
-    if (!cacheKey || !content) return;
-    if (!this.isEnabled() && !options?.force) return;
+  ): boolean {
+    if (!cacheKey || !content) return false;
+    if (!this.isEnabled() && !options?.force) return false;
 
     const now = Date.now();
     const expiresAtMs = now + this.ttlMs;
@@ -257,45 +690,181 @@ class InMemoryCacheStore {
         size: entrySize,
         max: this.maxBytes,
       });
-      return;
+      return false;
     }
 
     let listChanged = !this.entries.has(cacheKey);
 
+    this.keepPrevious(cacheKey);
+    if (this.entries.has(cacheKey)) {
+      this.detach(cacheKey);
+    }
+
     // Evict if needed (size-based)
-    while (this.currentBytes + entrySize > this.maxBytes) {
-      const firstKey = this.entries.keys().next();
-      if (firstKey.done) break;
-      if (this.delete(firstKey.value)) {
-        listChanged = true;
-      }
+    const fits = (): boolean =>
+      this.currentBytes + this.previousBytes + entrySize <= this.maxBytes;
+    while (!fits() && this.dropOldestPrevious());
+    if (this.evictUntil(fits)) {
+      listChanged = true;
     }
 
-    const entry: StoredCacheEntry = {
+    const entry: CacheIndexRecord = {
       url: metadata.url,
-      content,
       fetchedAt: new Date(now).toISOString(),
       expiresAt: new Date(expiresAtMs).toISOString(),
       expiresAtMs,
+      size: entrySize,
       ...(metadata.title ? { title: metadata.title } : {}),
+      ...(metadata.etag ? { etag: metadata.etag } : {}),
+      ...(metadata.lastModified ? { lastModified: metadata.lastModified } : {}),
     };
 
-    if (this.entries.has(cacheKey)) {
-      this.delete(cacheKey);
+    try {
+      this.storage.write(cacheKey, entry, content);
+    } catch (error) {
+      this.logError('Failed to persist cache entry', cacheKey, error);
+      this.removeFromStorage(cacheKey);
+      this.notify(cacheKey, true);
+      return false;
     }
 
     this.entries.set(cacheKey, entry);
     this.currentBytes += entrySize;
 
     // Eviction (LRU: first insertion-order key) - Count based
-    if (this.entries.size > this.max) {
-      const firstKey = this.entries.keys().next();
-      if (!firstKey.done && this.delete(firstKey.value)) {
-        listChanged = true;
-      }
+    if (this.evictUntil(() => this.entries.size <= this.max)) {
+      listChanged = true;
     }
 
     this.notify(cacheKey, listChanged);
+    return true;
+  }
+
+  /** Returns the version the latest `set` of this key replaced. */
+  getPrevious(cacheKey: string | null): CacheEntry | undefined {
+    if (!cacheKey || !this.isEnabled()) return undefined;
+
+    const record = this.previous.get(cacheKey);
+    if (!record) return undefined;
+
+    const content = this.storage.read(toPreviousKey(cacheKey));
+    if (content === undefined) {
+      this.dropPrevious(cacheKey);
+      return undefined;
+    }
+    return toCacheEntry(record, content);
+  }
+
+  // Replaces the snapshot even when there is no entry to keep, so it always
+  // reflects the entry that was current before the latest write.
+  private keepPrevious(cacheKey: string): void {
+    this.dropPrevious(cacheKey);
+
+    const record = this.entries.get(cacheKey);
+    if (!record) return;
+
+    try {
+      if (!this.storage.copy(cacheKey, toPreviousKey(cacheKey))) return;
+    } catch (error) {
+      this.logError('Failed to keep previous cache entry', cacheKey, error);
+      return;
+    }
+
+    this.previous.set(cacheKey, record);
+    this.previousBytes += record.size;
+    while (this.previous.size > this.maxPrevious) {
+      this.dropOldestPrevious();
+    }
+  }
+
+  private dropPrevious(cacheKey: string): void {
+    const record = this.previous.get(cacheKey);
+    if (!record) return;
+    this.previousBytes -= record.size;
+    this.previous.delete(cacheKey);
+    this.removeFromStorage(toPreviousKey(cacheKey));
+  }
+
+  private dropOldestPrevious(): boolean {
+    const oldest = this.previous.keys().next();
+    if (oldest.done) return false;
+    this.dropPrevious(oldest.value);
+    return true;
+  }
+
+  async flush(): Promise<void> {
+    try {
+      await this.storage.flush();
+    } catch (error) {
+      logWarn('Failed to flush cache storage', {
+        error: getErrorMessage(error),
+      });
+    }
+  }
+
+  private restore(): void {
+    let records: Iterable<readonly [string, CacheIndexRecord]>;
+    try {
+      records = this.storage.load();
+    } catch (error) {
+      logWarn('Failed to load persisted cache', {
+        error: getErrorMessage(error),
+      });
+      return;
+    }
+
+    const now = Date.now();
+    for (const [cacheKey, record] of records) {
+      if (cacheKey.startsWith(PREVIOUS_KEY_PREFIX)) {
+        this.previous.set(cacheKey.slice(PREVIOUS_KEY_PREFIX.length), record);
+        this.previousBytes += record.size;
+        continue;
+      }
+      const expired = this.isExpired(record, now) && !hasValidators(record);
+      if (expired || record.size > this.maxBytes) {
+        this.removeFromStorage(cacheKey);
+        continue;
+      }
+      this.entries.set(cacheKey, record);
+      this.currentBytes += record.size;
+    }
+
+    // Limits may have shrunk since the entries were persisted.
+    while (
+      this.previous.size > this.maxPrevious ||
+      this.currentBytes + this.previousBytes > this.maxBytes
+    ) {
+      if (!this.dropOldestPrevious()) break;
+    }
+    this.evictUntil(
+      () => this.entries.size <= this.max && this.currentBytes <= this.maxBytes
+    );
+  }
+
+  /** Drops an entry from the index only; storage is overwritten in place. */
+  private detach(cacheKey: string): void {
+    const entry = this.entries.get(cacheKey);
+    if (!entry) return;
+    this.currentBytes -= entry.size;
+    this.entries.delete(cacheKey);
+  }
+
+  private evictUntil(isWithinLimits: () => boolean): boolean {
+    let evicted = false;
+    while (!isWithinLimits()) {
+      const firstKey = this.entries.keys().next();
+      if (firstKey.done) break;
+      if (this.delete(firstKey.value)) evicted = true;
+    }
+    return evicted;
+  }
+
+  private removeFromStorage(cacheKey: string): void {
+    try {
+      this.storage.remove(cacheKey);
+    } catch (error) {
+      this.logError('Failed to remove cache entry', cacheKey, error);
+    }
   }
 
   private notify(cacheKey: string, listChanged: boolean): void {
@@ -313,8 +882,20 @@ class InMemoryCacheStore {
   }
 }
 
+function toCacheEntry(record: CacheIndexRecord, content: string): CacheEntry {
+  return {
+    url: record.url,
+    content,
+    fetchedAt: record.fetchedAt,
+    expiresAt: record.expiresAt,
+    ...(record.title ? { title: record.title } : {}),
+    ...(record.etag ? { etag: record.etag } : {}),
+    ...(record.lastModified ? { lastModified: record.lastModified } : {}),
+  };
+}
+
 // Singleton Instance
-const store = new InMemoryCacheStore();
+const store = new InMemoryCacheStore(createCacheStorage());
 
 // Public Proxy API
 export function onCacheUpdate(listener: CacheUpdateListener): () => void {
@@ -328,19 +909,55 @@ export function get(
   return store.get(cacheKey, options);
 }
 
+/** Checks for a live entry without reading it or moving it in the LRU. */
+export function has(cacheKey: string | null): boolean {
+  return store.has(cacheKey);
+}
+
+/** Returns an expired entry that can still be revalidated conditionally. */
+export function getStale(cacheKey: string | null): CacheEntry | undefined {
+  return store.getStale(cacheKey);
+}
+
+/** Extends the lifetime of an entry after a 304 Not Modified response. */
+export function markRevalidated(
+  cacheKey: string,
+  validators?: CacheValidators
+): boolean {
+  return store.markRevalidated(cacheKey, validators);
+}
+
+/**
+ * Returns the entry replaced by the latest write to `cacheKey`, including
+ * forced refreshes. Snapshots are persisted with the entries and share their
+ * size budget.
+ */
+export function getPrevious(cacheKey: string | null): CacheEntry | undefined {
+  return store.getPrevious(cacheKey);
+}
+
+/**
+ * Stores `content` and keeps the entry it replaces for `getPrevious`.
+ * Returns false when nothing was written, e.g. for an oversized entry.
+ */
 export function set(
   cacheKey: string | null,
   content: string,
   metadata: CacheEntryMetadata,
   options?: CacheSetOptions
-): void {
-  store.set(cacheKey, content, metadata, options);
+): boolean {
+  return store.set(cacheKey, content, metadata, options);
 }
 
 export function keys(): readonly string[] {
   return store.keys();
 }
 
+/** Writes pending cache changes to storage; call before the process exits. */
+export async function flush(): Promise<void> {
+  await store.flush();
+}
+
 export function isEnabled(): boolean {
   return store.isEnabled();
 }
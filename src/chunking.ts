@@ -0,0 +1,306 @@
+import { buildMarkdownOutline } from './markdown-cleanup.js';
+import { estimateTokens } from './token-budget.js';
+
+/* -------------------------------------------------------------------------------------------------
+ * Block scanning
+ * ------------------------------------------------------------------------------------------------- */
+
+type BlockKind = 'heading' | 'fence' | 'list' | 'table' | 'paragraph';
+
+interface MarkdownBlock {
+  kind: BlockKind;
+  start: number;
+  end: number;
+  /** Heading level and text; set for `heading` blocks only. */
+  level?: number;
+  text?: string;
+}
+
+const FENCE_START = /^ {0,3}(`{3,}|~{3,})/;
+const LIST_ITEM = /^ {0,3}(?:[-*+]|\d{1,9}[.)])[ \t]/;
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function isFenceEnd(line: string, marker: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.length >= marker.length &&
+    trimmed === (marker[0] ?? '').repeat(trimmed.length)
+  );
+}
+
+function classifyFirstLine(line: string): BlockKind {
+  if (LIST_ITEM.test(line)) return 'list';
+  if (line.trimStart().startsWith('|')) return 'table';
+  return 'paragraph';
+}
+
+class BlockScanner {
+  readonly blocks: MarkdownBlock[] = [];
+  private current: MarkdownBlock | null = null;
+  private fenceMarker: string | null = null;
+  private readonly headings: Map<number, { level: number; text: string }>;
+
+  constructor(markdown: string) {
+    this.headings = new Map(
+      buildMarkdownOutline(markdown).map(({ offset, level, text }) => [
+        offset,
+        { level, text },
+      ])
+    );
+  }
+
+  push(line: string, start: number): void {
+    const end = start + line.length;
+    if (this.fenceMarker) {
+      this.extend(end);
+      if (isFenceEnd(line, this.fenceMarker)) this.close();
+      return;
+    }
+
+    const heading = this.headings.get(start);
+    const fence = FENCE_START.exec(line);
+    if (heading) {
+      this.close();
+      this.blocks.push({ kind: 'heading', start, end, ...heading });
+    } else if (fence) {
+      this.close();
+      this.fenceMarker = fence[1] ?? '```';
+      this.current = { kind: 'fence', start, end };
+    } else if (isBlank(line)) {
+      this.close();
+    } else if (this.current) {
+      this.extend(end);
+    } else {
+      this.open(line, start, end);
+    }
+  }
+
+  close(): void {
+    if (this.current) this.blocks.push(this.current);
+    this.current = null;
+    this.fenceMarker = null;
+  }
+
+  private extend(end: number): void {
+    if (this.current) this.current.end = end;
+  }
+
+  // Loose lists: items and indented paragraphs after a blank line stay in
+  // the preceding list.
+  private open(line: string, start: number, end: number): void {
+    const kind = classifyFirstLine(line);
+    const previous = this.blocks.at(-1);
+    if (previous?.kind === 'list' && (kind === 'list' || /^\s/.test(line))) {
+      this.blocks.pop();
+      this.current = { ...previous, end };
+      return;
+    }
+    this.current = { kind, start, end };
+  }
+}
+
+function scanBlocks(markdown: string): MarkdownBlock[] {
+  const scanner = new BlockScanner(markdown);
+  let offset = 0;
+  for (const line of markdown.split('\n')) {
+    scanner.push(line, offset);
+    offset += line.length + 1;
+  }
+  scanner.close();
+  return scanner.blocks;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Chunk assembly
+ * ------------------------------------------------------------------------------------------------- */
+
+export interface MarkdownChunk {
+  /** Position of the chunk in the document, from 0. */
+  index: number;
+  text: string;
+  /** Heading texts from the outermost section down to the chunk's own. */
+  headings: string[];
+  /** Character range of `text` in the Markdown, end exclusive. */
+  start: number;
+  end: number;
+  estimatedTokens: number;
+}
+
+export interface ChunkOptions {
+  /** Approximate tokens per chunk. */
+  size: number;
+  /** Approximate tokens repeated from the end of the previous chunk. */
+  overlap?: number;
+}
+
+interface SizedBlock extends MarkdownBlock {
+  tokens: number;
+}
+
+// Oversized paragraphs are cut after sentence ends; nothing else is split.
+function splitParagraph(
+  markdown: string,
+  block: MarkdownBlock,
+  size: number
+): MarkdownBlock[] {
+  const pieces: MarkdownBlock[] = [];
+  let { start } = block;
+  let tokens = 0;
+  let cursor = start;
+
+  while (cursor < block.end) {
+    const next = findSentenceEnd(markdown, cursor, block.end);
+    const cost = estimateTokens(markdown.slice(cursor, next));
+    if (tokens > 0 && tokens + cost > size) {
+      pieces.push({ kind: 'paragraph', start, end: cursor });
+      start = cursor;
+      tokens = 0;
+    }
+    tokens += cost;
+    cursor = next;
+  }
+  pieces.push({ kind: 'paragraph', start, end: block.end });
+  return pieces.map((piece) => trimRange(markdown, piece));
+}
+
+function findSentenceEnd(markdown: string, from: number, end: number): number {
+  for (let index = from; index < end - 1; index += 1) {
+    const char = markdown[index];
+    const following = markdown[index + 1] ?? '';
+    if ((char === '.' || char === '!' || char === '?') && /\s/.test(following))
+      return index + 2;
+  }
+  return end;
+}
+
+function trimRange(markdown: string, block: MarkdownBlock): MarkdownBlock {
+  let { start, end } = block;
+  while (start < end && /\s/.test(markdown[start] ?? '')) start += 1;
+  while (end > start && /\s/.test(markdown[end - 1] ?? '')) end -= 1;
+  return { ...block, start, end };
+}
+
+class ChunkBuilder {
+  readonly chunks: MarkdownChunk[] = [];
+  private readonly trail: { level: number; text: string }[] = [];
+  private current: SizedBlock[] = [];
+  private tokens = 0;
+
+  constructor(
+    private readonly markdown: string,
+    private readonly options: Required<ChunkOptions>
+  ) {}
+
+  add(block: MarkdownBlock): void {
+    if (block.kind === 'heading') {
+      this.addHeading(block);
+      return;
+    }
+
+    const tokens = this.measure(block);
+    if (block.kind === 'paragraph' && tokens > this.options.size) {
+      for (const piece of splitParagraph(
+        this.markdown,
+        block,
+        this.options.size
+      )) {
+        this.addContent({ ...piece, tokens: this.measure(piece) });
+      }
+      return;
+    }
+    this.addContent({ ...block, tokens });
+  }
+
+  flush(): void {
+    const first = this.current[0];
+    const last = this.current.at(-1);
+    if (first && last && this.hasContent()) {
+      const text = this.markdown.slice(first.start, last.end);
+      this.chunks.push({
+        index: this.chunks.length,
+        text,
+        headings: this.trail.map((heading) => heading.text),
+        start: first.start,
+        end: last.end,
+        estimatedTokens: estimateTokens(text),
+      });
+    }
+    this.current = [];
+    this.tokens = 0;
+  }
+
+  // A heading starts a new chunk unless the current one has only its parent
+  // headings; headings of empty sections are dropped.
+  private addHeading(block: MarkdownBlock): void {
+    const level = block.level ?? 1;
+    if (
+      this.hasContent() ||
+      this.current.some((heading) => (heading.level ?? 1) >= level)
+    ) {
+      this.flush();
+    }
+
+    while ((this.trail.at(-1)?.level ?? 0) >= level) this.trail.pop();
+    this.trail.push({ level, text: block.text ?? '' });
+    this.append({ ...block, tokens: this.measure(block) });
+  }
+
+  private addContent(block: SizedBlock): void {
+    if (this.hasContent() && this.tokens + block.tokens > this.options.size) {
+      const overlap = this.takeOverlap();
+      this.flush();
+      for (const carried of overlap) this.append(carried);
+    }
+    this.append(block);
+  }
+
+  // Whole trailing blocks only, so overlap never cuts a list or table.
+  private takeOverlap(): SizedBlock[] {
+    const carried: SizedBlock[] = [];
+    let tokens = 0;
+    for (let index = this.current.length - 1; index >= 0; index -= 1) {
+      const block = this.current[index];
+      if (!block || block.kind === 'heading') break;
+      if (tokens + block.tokens > this.options.overlap) break;
+      tokens += block.tokens;
+      carried.unshift(block);
+    }
+    return carried;
+  }
+
+  private append(block: SizedBlock): void {
+    this.current.push(block);
+    this.tokens += block.tokens;
+  }
+
+  private hasContent(): boolean {
+    return this.current.some((block) => block.kind !== 'heading');
+  }
+
+  private measure(block: MarkdownBlock): number {
+    return estimateTokens(this.markdown.slice(block.start, block.end));
+  }
+}
+
+/**
+ * Splits Markdown into chunks of roughly `size` tokens for embedding. Each
+ * heading starts a new chunk, and code fences, tables and lists are never
+ * split, so a chunk can exceed `size` when one of them does. Paragraphs
+ * larger than `size` are cut at sentence ends. `overlap` repeats whole
+ * trailing blocks of the previous chunk within the same section.
+ */
+export function chunkMarkdown(
+  markdown: string,
+  options: ChunkOptions
+): MarkdownChunk[] {
+  const builder = new ChunkBuilder(markdown, {
+    size: options.size,
+    overlap: options.overlap ?? 0,
+  });
+  for (const block of scanBlocks(markdown)) builder.add(block);
+  builder.flush();
+  return builder.chunks;
+}
@@ -1,6 +1,8 @@
 import { readFileSync } from 'node:fs';
 import { findPackageJSON } from 'node:module';
 import { isIP } from 'node:net';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
 import process from 'node:process';
 import { domainToASCII } from 'node:url';
 
@@ -46,6 +48,12 @@ const DEFAULT_HEADING_KEYWORDS = [
 
 type TransformWorkerMode = 'threads' | 'process';
 
+type CacheBackend = 'memory' | 'filesystem';
+
+type RobotsMode = 'enforce' | 'warn' | 'ignore';
+
+type SearchProviderKind = 'searxng' | 'brave' | 'bing';
+
 type AuthMode = 'oauth' | 'static';
 
 class ConfigError extends Error {
@@ -219,6 +227,34 @@ function parseTransformWorkerMode(
   return 'threads';
 }
 
+function parseCacheBackend(envValue: string | undefined): CacheBackend {
+  if (!envValue) return 'memory';
+  const normalized = envValue.trim().toLowerCase();
+  if (normalized === 'filesystem' || normalized === 'fs') return 'filesystem';
+  return 'memory';
+}
+
+function parseRobotsMode(envValue: string | undefined): RobotsMode {
+  if (!envValue) return 'ignore';
+  const normalized = envValue.trim().toLowerCase();
+  if (normalized === 'enforce' || normalized === 'warn') return normalized;
+  return 'ignore';
+}
+
+function parseSearchProvider(
+  envValue: string | undefined
+): SearchProviderKind | undefined {
+  const normalized = envValue?.trim().toLowerCase();
+  if (
+    normalized === 'searxng' ||
+    normalized === 'brave' ||
+    normalized === 'bing'
+  ) {
+    return normalized;
+  }
+  return undefined;
+}
+
 function parsePort(envValue: string | undefined): number {
   if (envValue?.trim() === '0') return 0;
   return parseInteger(envValue, 3000, 1024, 65535);
@@ -236,6 +272,43 @@ function readUrlEnv(name: string): URL | undefined {
   return parseUrlEnv(env[name], name);
 }
 
+function parseProxyUrlEnv(
+  value: string | undefined,
+  name: string
+): URL | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+
+  // Proxy variables are commonly set as bare host:port.
+  const url = parseUrlEnv(
+    trimmed.includes('://') ? trimmed : `http://${trimmed}`,
+    name
+  );
+  if (url && url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ConfigError(
+      `Invalid ${name} value: only http:// and https:// proxies are supported`
+    );
+  }
+  return url;
+}
+
+function resolveProxyConfig(): {
+  httpProxy: URL | undefined;
+  httpsProxy: URL | undefined;
+  noProxy: string[];
+} {
+  const explicit = parseProxyUrlEnv(env['FETCH_PROXY_URL'], 'FETCH_PROXY_URL');
+  return {
+    httpProxy:
+      explicit ??
+      parseProxyUrlEnv(env['HTTP_PROXY'] ?? env['http_proxy'], 'HTTP_PROXY'),
+    httpsProxy:
+      explicit ??
+      parseProxyUrlEnv(env['HTTPS_PROXY'] ?? env['https_proxy'], 'HTTPS_PROXY'),
+    noProxy: parseList(env['NO_PROXY'] ?? env['no_proxy']),
+  };
+}
+
 function parseAllowedHosts(envValue: string | undefined): Set<string> {
   const hosts = new Set<string>();
   for (const entry of parseList(envValue)) {
@@ -271,6 +344,29 @@ const DEFAULT_FETCH_TIMEOUT_MS = parseInteger(
   1000,
   60000
 );
+const DEFAULT_FETCH_MAX_ATTEMPTS = parseInteger(
+  env['FETCH_MAX_ATTEMPTS'],
+  3,
+  1,
+  10
+);
+const DEFAULT_ORIGIN_CONCURRENCY = parseInteger(
+  env['FETCH_ORIGIN_CONCURRENCY'],
+  4,
+  1,
+  64
+);
+const DEFAULT_ORIGIN_RATE_LIMIT = parseInteger(
+  env['FETCH_ORIGIN_RATE_LIMIT'],
+  10,
+  1
+);
+const DEFAULT_ORIGIN_RATE_INTERVAL_MS = parseInteger(
+  env['FETCH_ORIGIN_RATE_INTERVAL_MS'],
+  1000,
+  100,
+  3_600_000
+);
 const DEFAULT_TOOL_TIMEOUT_MS =
   DEFAULT_FETCH_TIMEOUT_MS +
   DEFAULT_TRANSFORM_TIMEOUT_MS +
@@ -540,6 +636,46 @@ export const config = {
     maxRedirects: 5,
     userAgent: env['USER_AGENT'] ?? DEFAULT_USER_AGENT,
     maxContentLength: MAX_HTML_BYTES,
+    proxy: resolveProxyConfig(),
+    hostHeadersFile: readOptionalFilePath(env['FETCH_HOST_HEADERS_FILE']),
+    retry: {
+      maxAttempts: DEFAULT_FETCH_MAX_ATTEMPTS,
+      baseDelayMs: 500,
+      maxDelayMs: 10_000,
+    },
+    perOrigin: {
+      maxConcurrent: DEFAULT_ORIGIN_CONCURRENCY,
+      maxRequests: DEFAULT_ORIGIN_RATE_LIMIT,
+      intervalMs: DEFAULT_ORIGIN_RATE_INTERVAL_MS,
+    },
+  },
+  renderer: {
+    url: readUrlEnv('RENDERER_URL'),
+    timeoutMs: 30_000,
+  },
+  search: {
+    provider: parseSearchProvider(env['SEARCH_PROVIDER']),
+    url: readUrlEnv('SEARCH_URL'),
+    apiKey: env['SEARCH_API_KEY'],
+    timeoutMs: 10_000,
+    maxResults: 20,
+    maxFetch: 5,
+  },
+  robots: {
+    mode: parseRobotsMode(env['ROBOTS_TXT']),
+    cacheTtlMs: 60 * 60 * 1000,
+    maxBytes: 512 * 1024,
+    maxCrawlDelayMs: 10_000,
+  },
+  hostCache: {
+    enabled: parseBoolean(env['HOST_CACHE_ENABLED'], true),
+    maxEntries: 1000,
+    dnsFallbackTtlMs: 60_000,
+    dnsMaxTtlMs: 5 * 60 * 1000,
+    redirectTtlMs: 24 * 60 * 60 * 1000,
+    failureThreshold: 5,
+    backoffBaseMs: 30_000,
+    backoffMaxMs: 10 * 60 * 1000,
   },
   transform: {
     timeoutMs: DEFAULT_TRANSFORM_TIMEOUT_MS,
@@ -550,8 +686,26 @@ export const config = {
     workerResourceLimits: resolveWorkerResourceLimits(),
   },
   tools: {
-    enabled: ['fetch-url'],
+    enabled: [
+      'fetch-url',
+      'fetch-urls',
+      'crawl',
+      'read-cached',
+      'diff-url',
+      'watch-url',
+      'search',
+      'discover-urls',
+    ],
     timeoutMs: DEFAULT_TOOL_TIMEOUT_MS,
+    batchMaxUrls: 20,
+    batchConcurrency: 4,
+    crawlMaxDepth: 5,
+    crawlMaxPages: 100,
+    discoverMaxEntries: 1000,
+    discoverMaxSitemaps: 20,
+    watchMaxPerSession: 10,
+    watchMinIntervalSeconds: 60,
+    watchMaxIntervalSeconds: 86_400,
   },
   tasks: {
     maxTotal: DEFAULT_TASKS_MAX_TOTAL,
@@ -559,8 +713,14 @@ export const config = {
   },
   cache: {
     enabled: parseBoolean(env['CACHE_ENABLED'], true),
+    backend: parseCacheBackend(env['CACHE_BACKEND']),
+    dir:
+      readOptionalFilePath(env['CACHE_DIR']) ??
+      join(homedir(), '.cache', 'fetch-url-mcp'),
     ttl: 86400,
     maxKeys: 100,
+    // Versions replaced by a refetch, kept as diff-url baselines.
+    maxPreviousKeys: 50,
     maxSizeBytes: 50 * 1024 * 1024, // 50MB
   },
   extraction: {
@@ -0,0 +1,259 @@
+/* -------------------------------------------------------------------------------------------------
+ * Block model
+ * ------------------------------------------------------------------------------------------------- */
+
+export type ContentBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'table'; rows: string[][] };
+
+/* -------------------------------------------------------------------------------------------------
+ * Inline text
+ * ------------------------------------------------------------------------------------------------- */
+
+const INLINE = {
+  IMAGE: /!\[[^[\]]*\]\([^()]*\)/g,
+  LINK: /\[([^[\]]*)\]\([^()]*\)/g,
+  AUTOLINK: /<(https?:\/\/[^\s<>]+)>/g,
+  CODE: /`([^`\n]+)`/g,
+  STRONG: /\*\*([^*\n]+)\*\*/g,
+  STRIKE: /~~([^~\n]+)~~/g,
+  EMPHASIS_STAR: /(?<![\w*\\])\*([^*\n]+)\*(?![\w*])/g,
+  EMPHASIS_UNDERSCORE: /(?<![\w\\])_([^_\n]+)_(?!\w)/g,
+  ESCAPE: /\\([\\`*_{}[\]()#+\-.!|~<>])/g,
+} as const;
+
+// Code spans are unwrapped last so their contents keep literal `*` and `_`.
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(INLINE.IMAGE, '')
+    .replace(INLINE.LINK, '$1')
+    .replace(INLINE.AUTOLINK, '$1')
+    .replace(INLINE.STRONG, '$1')
+    .replace(INLINE.STRIKE, '$1')
+    .replace(INLINE.EMPHASIS_STAR, '$1')
+    .replace(INLINE.EMPHASIS_UNDERSCORE, '$1')
+    .replace(INLINE.CODE, '$1')
+    .replace(INLINE.ESCAPE, '$1')
+    .trim();
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Line classification
+ * ------------------------------------------------------------------------------------------------- */
+
+const FENCE_START = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const LIST_ITEM = /^[ \t]*([-*+]|\d{1,9}[.)])[ \t]+(?=\S)/;
+const THEMATIC_BREAK = /^ {0,3}(?:(?:-\s*){3,}|(?:\*\s*){3,}|(?:_\s*){3,})$/;
+const TABLE_DIVIDER_CELL = /^:?-+:?$/;
+
+function parseHeading(line: string): { level: number; text: string } | null {
+  let level = 0;
+  while (level < line.length && line[level] === '#') level += 1;
+  if (level === 0 || level > 6) return null;
+  if (level < line.length && line[level] !== ' ' && line[level] !== '\t') {
+    return null;
+  }
+  return { level, text: line.slice(level).replace(/\s#+\s*$/, '') };
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((cell) => toPlainText(cell));
+}
+
+function isTableDivider(line: string | undefined): boolean {
+  if (!line?.includes('-') || !line.includes('|')) return false;
+  return splitTableRow(line).every((cell) => TABLE_DIVIDER_CELL.test(cell));
+}
+
+function isClosingFence(line: string, marker: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.length >= marker.length &&
+    trimmed === (marker[0] ?? '').repeat(trimmed.length)
+  );
+}
+
+function isComment(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.startsWith('<!--') && trimmed.endsWith('-->');
+}
+
+function isBlank(line: string | undefined): boolean {
+  return line === undefined || line.trim() === '';
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Block parser
+ * ------------------------------------------------------------------------------------------------- */
+
+class BlockParser {
+  private index = 0;
+  private readonly blocks: ContentBlock[] = [];
+
+  constructor(private readonly lines: readonly string[]) {}
+
+  parse(): ContentBlock[] {
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index] ?? '';
+      if (isBlank(line) || isComment(line) || THEMATIC_BREAK.test(line)) {
+        this.index += 1;
+      } else {
+        this.parseBlock(line);
+      }
+    }
+    return this.blocks;
+  }
+
+  private parseBlock(line: string): void {
+    const fence = FENCE_START.exec(line);
+    if (fence) {
+      this.parseCode(fence[1] ?? '```', fence[2] ?? '');
+      return;
+    }
+
+    const heading = parseHeading(line);
+    if (heading) {
+      this.index += 1;
+      const text = toPlainText(heading.text);
+      if (text)
+        this.blocks.push({ type: 'heading', level: heading.level, text });
+      return;
+    }
+
+    if (line.includes('|') && isTableDivider(this.lines[this.index + 1])) {
+      this.parseTable();
+    } else if (LIST_ITEM.test(line)) {
+      this.parseList();
+    } else {
+      this.parseParagraph();
+    }
+  }
+
+  private parseCode(marker: string, language: string): void {
+    const body: string[] = [];
+    this.index += 1;
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index] ?? '';
+      this.index += 1;
+      if (isClosingFence(line, marker)) break;
+      body.push(line);
+    }
+    this.blocks.push({
+      type: 'code',
+      ...(language ? { language } : {}),
+      text: body.join('\n'),
+    });
+  }
+
+  private parseTable(): void {
+    const header = splitTableRow(this.lines[this.index] ?? '');
+    const rows = [header];
+    this.index += 2;
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index] ?? '';
+      if (isBlank(line) || !line.includes('|')) break;
+      rows.push(splitTableRow(line));
+      this.index += 1;
+    }
+    this.blocks.push({ type: 'table', rows });
+  }
+
+  // Nested items are flattened; indented lines continue the previous item.
+  private parseList(): void {
+    const first = LIST_ITEM.exec(this.lines[this.index] ?? '');
+    const ordered = /^\d/.test(first?.[1] ?? '');
+    const items: string[] = [];
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index] ?? '';
+      const item = LIST_ITEM.exec(line);
+      const last = items.length - 1;
+      // A top-level switch between bullets and numbers starts a new list.
+      const nested = /^\s/.test(line);
+      if (item && !nested && /^\d/.test(item[1] ?? '') !== ordered) break;
+      if (item) {
+        items.push(line.slice(item[0].length));
+      } else if (!isBlank(line) && nested && last >= 0) {
+        items[last] = `${items[last] ?? ''}\n${line.trim()}`;
+      } else if (!this.listContinuesAfter(line)) {
+        break;
+      }
+      this.index += 1;
+    }
+
+    const texts = items.map((text) => toPlainText(text)).filter(Boolean);
+    if (texts.length > 0)
+      this.blocks.push({ type: 'list', ordered, items: texts });
+  }
+
+  private listContinuesAfter(line: string): boolean {
+    if (!isBlank(line)) return false;
+    const next = this.lines[this.index + 1];
+    return (
+      !isBlank(next) && (LIST_ITEM.test(next ?? '') || /^\s/.test(next ?? ''))
+    );
+  }
+
+  private parseParagraph(): void {
+    const lines: string[] = [];
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index] ?? '';
+      if (lines.length > 0 && this.startsOtherBlock(line)) break;
+      lines.push(line.replace(/^\s*(?:>\s?)+/, '').trimEnd());
+      this.index += 1;
+    }
+
+    const text = toPlainText(lines.join('\n').replace(/\\\n/g, '\n'));
+    if (text) this.blocks.push({ type: 'paragraph', text });
+  }
+
+  private startsOtherBlock(line: string): boolean {
+    return (
+      isBlank(line) ||
+      isComment(line) ||
+      FENCE_START.test(line) ||
+      parseHeading(line) !== null ||
+      LIST_ITEM.test(line) ||
+      THEMATIC_BREAK.test(line)
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Public API
+ * ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Splits Markdown into typed blocks with inline formatting removed. Images,
+ * HTML comments and horizontal rules are dropped; block quotes become
+ * paragraphs.
+ */
+export function markdownToContentBlocks(markdown: string): ContentBlock[] {
+  return new BlockParser(markdown.split(/\r?\n/)).parse();
+}
+
+function blockToText(block: ContentBlock): string {
+  switch (block.type) {
+    case 'list':
+      return block.items
+        .map((item, index) =>
+          block.ordered ? `${index + 1}. ${item}` : `- ${item}`
+        )
+        .join('\n');
+    case 'table':
+      return block.rows.map((row) => row.join('\t')).join('\n');
+    default:
+      return block.text;
+  }
+}
+
+/** Renders blocks as plain text; table cells are tab-separated. */
+export function contentBlocksToText(blocks: readonly ContentBlock[]): string {
+  return blocks.map(blockToText).join('\n\n');
+}
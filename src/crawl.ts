@@ -0,0 +1,229 @@
+/* -------------------------------------------------------------------------------------------------
+ * Types
+ * ------------------------------------------------------------------------------------------------- */
+
+export interface CrawlFetchOutcome<TPage> {
+  page: TPage;
+  /** Transformed markdown used for link discovery; absent on failure. */
+  markdown?: string;
+  /** URL the markdown was served from (after redirects). */
+  finalUrl?: string;
+}
+
+export interface CrawlOptions<TPage> {
+  startUrl: string;
+  maxDepth: number;
+  maxPages: number;
+  include?: readonly string[] | undefined;
+  exclude?: readonly string[] | undefined;
+  signal?: AbortSignal | undefined;
+  fetchPage: (url: string, depth: number) => Promise<CrawlFetchOutcome<TPage>>;
+  onPage?: (page: TPage, crawled: number) => void;
+}
+
+export interface CrawlResult<TPage> {
+  pages: TPage[];
+  /** True when `maxPages` stopped the crawl with links still queued. */
+  truncated: boolean;
+}
+
+interface QueuedUrl {
+  url: string;
+  depth: number;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Scope: same-origin links + pathname patterns
+ * ------------------------------------------------------------------------------------------------- */
+
+const MARKDOWN_LINK_TARGET = /\]\(<?([^\s()<>]+)/g;
+
+const NON_DOCUMENT_EXTENSIONS = new Set([
+  'png',
+  'jpg',
+  'jpeg',
+  'gif',
+  'svg',
+  'webp',
+  'avif',
+  'ico',
+  'bmp',
+  'css',
+  'js',
+  'mjs',
+  'map',
+  'woff',
+  'woff2',
+  'ttf',
+  'eot',
+  'zip',
+  'gz',
+  'tgz',
+  'tar',
+  'rar',
+  '7z',
+  'exe',
+  'dmg',
+  'mp3',
+  'mp4',
+  'webm',
+  'mov',
+  'avi',
+  'wav',
+]);
+
+export function isValidPathPattern(pattern: string): boolean {
+  try {
+    new URLPattern({ pathname: pattern });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function compilePathPatterns(patterns?: readonly string[]): URLPattern[] {
+  return (patterns ?? []).map((pathname) => new URLPattern({ pathname }));
+}
+
+function isNonDocumentPath(pathname: string): boolean {
+  const dot = pathname.lastIndexOf('.');
+  if (dot === -1 || dot < pathname.lastIndexOf('/')) return false;
+  return NON_DOCUMENT_EXTENSIONS.has(pathname.slice(dot + 1).toLowerCase());
+}
+
+/** Walks back from a link's closing `]` to its `[` and checks for `![`. */
+function isImageLink(markdown: string, closeIndex: number): boolean {
+  let depth = 0;
+  for (let i = closeIndex - 1; i >= 0; i -= 1) {
+    const char = markdown[i];
+    if (char === '\n' && markdown[i - 1] === '\n') return false;
+    if (char === ']') depth += 1;
+    if (char !== '[') continue;
+    if (depth === 0) return markdown[i - 1] === '!';
+    depth -= 1;
+  }
+  return false;
+}
+
+function toCrawlKey(url: URL): string {
+  const copy = new URL(url.href);
+  copy.hash = '';
+  return copy.href;
+}
+
+/**
+ * Extracts same-origin page links from transformed markdown. Image links and
+ * obvious static assets are skipped; fragments are dropped.
+ */
+export function extractSameOriginLinks(
+  markdown: string,
+  baseUrl: string,
+  origin: string
+): string[] {
+  const links = new Set<string>();
+
+  for (const match of markdown.matchAll(MARKDOWN_LINK_TARGET)) {
+    const [, href] = match;
+    if (!href || isImageLink(markdown, match.index)) continue;
+    if (!URL.canParse(href, baseUrl)) continue;
+
+    const resolved = new URL(href, baseUrl);
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') {
+      continue;
+    }
+    if (resolved.origin !== origin) continue;
+    if (isNonDocumentPath(resolved.pathname)) continue;
+
+    links.add(toCrawlKey(resolved));
+  }
+
+  return [...links];
+}
+
+class CrawlScope {
+  private readonly include: URLPattern[];
+  private readonly exclude: URLPattern[];
+
+  constructor(
+    readonly origin: string,
+    include?: readonly string[],
+    exclude?: readonly string[]
+  ) {
+    this.include = compilePathPatterns(include);
+    this.exclude = compilePathPatterns(exclude);
+  }
+
+  allows(url: string): boolean {
+    const { pathname } = new URL(url);
+    if (this.exclude.some((pattern) => pattern.test({ pathname }))) {
+      return false;
+    }
+    if (this.include.length === 0) return true;
+    return this.include.some((pattern) => pattern.test({ pathname }));
+  }
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Breadth-first crawler
+ * ------------------------------------------------------------------------------------------------- */
+
+function enqueueLinks(
+  links: readonly string[],
+  depth: number,
+  state: { seen: Set<string>; scope: CrawlScope; queue: QueuedUrl[] }
+): void {
+  for (const link of links) {
+    if (state.seen.has(link)) continue;
+    state.seen.add(link);
+    if (!state.scope.allows(link)) continue;
+    state.queue.push({ url: link, depth });
+  }
+}
+
+/**
+ * Breadth-first crawl from `startUrl`. Pages are fetched sequentially; the
+ * start URL is always fetched, discovered links must share the origin the
+ * start page was served from (after redirects) and pass the include/exclude
+ * pathname patterns.
+ */
+export async function crawl<TPage>(
+  options: CrawlOptions<TPage>
+): Promise<CrawlResult<TPage>> {
+  const startKey = toCrawlKey(new URL(options.startUrl));
+  const seen = new Set<string>([startKey]);
+  const queue: QueuedUrl[] = [{ url: startKey, depth: 0 }];
+  const pages: TPage[] = [];
+  let scope: CrawlScope | undefined;
+
+  while (queue.length > 0 && pages.length < options.maxPages) {
+    options.signal?.throwIfAborted();
+
+    const next = queue.shift();
+    if (!next) break;
+
+    const outcome = await options.fetchPage(next.url, next.depth);
+    pages.push(outcome.page);
+    options.onPage?.(outcome.page, pages.length);
+
+    const pageUrl = new URL(outcome.finalUrl ?? next.url);
+    // The start page may redirect (http→https, apex→www).
+    if (!scope) {
+      scope = new CrawlScope(pageUrl.origin, options.include, options.exclude);
+      seen.add(toCrawlKey(pageUrl));
+    }
+
+    if (next.depth >= options.maxDepth || outcome.markdown === undefined) {
+      continue;
+    }
+
+    const links = extractSameOriginLinks(
+      outcome.markdown,
+      pageUrl.href,
+      scope.origin
+    );
+    enqueueLinks(links, next.depth + 1, { seen, scope, queue });
+  }
+
+  options.signal?.throwIfAborted();
+  return { pages, truncated: queue.length > 0 };
+}
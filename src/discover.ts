@@ -0,0 +1,418 @@
+import { promisify } from 'node:util';
+import { gunzip } from 'node:zlib';
+
+import { DOMParser, parseHTML } from 'linkedom';
+
+import { FetchError, getErrorMessage } from './errors.js';
+import { decodeBuffer } from './fetch-content.js';
+import { logDebug } from './observability.js';
+import { isElement } from './type-guards.js';
+
+/* -------------------------------------------------------------------------------------------------
+ * Types
+ * ------------------------------------------------------------------------------------------------- */
+
+export type UrlDocumentType = 'sitemap' | 'sitemap-index' | 'rss' | 'atom';
+
+export interface DiscoveredUrl {
+  url: string;
+  title?: string;
+  /** ISO 8601; sitemap `lastmod` or Atom `updated`. */
+  lastmod?: string;
+  /** ISO 8601; RSS `pubDate` or Atom `published`. */
+  published?: string;
+  summary?: string;
+}
+
+export interface UrlDocument {
+  type: UrlDocumentType;
+  title?: string;
+  /** Page URLs, or the child sitemaps of a sitemap index. */
+  entries: DiscoveredUrl[];
+}
+
+export interface DiscoverOptions {
+  url: string;
+  /** Keeps URLs whose pathname starts with this prefix. */
+  pathPrefix?: string | undefined;
+  /** Keeps entries dated at or after this time; undated entries are dropped. */
+  since?: string | undefined;
+  maxEntries: number;
+  /** Child sitemaps read for a sitemap index. */
+  maxSitemaps: number;
+  signal?: AbortSignal | undefined;
+  fetchDocument: (url: string) => Promise<{ text: string; finalUrl: string }>;
+  onDocument?: (url: string, fetched: number) => void;
+}
+
+export interface DiscoverResult {
+  type: UrlDocumentType;
+  title?: string;
+  entries: DiscoveredUrl[];
+  /** Entries that passed the filters, including those beyond `maxEntries`. */
+  matched: number;
+  sitemapsFetched: number;
+  failedSitemaps: number;
+  /** True when `maxEntries` or `maxSitemaps` cut the result short. */
+  truncated: boolean;
+}
+
+const SUMMARY_MAX_CHARS = 280;
+
+const gunzipAsync = promisify(gunzip);
+
+/* -------------------------------------------------------------------------------------------------
+ * Parsing
+ * ------------------------------------------------------------------------------------------------- */
+
+// Tag names keep their namespace prefix (`dc:date`) in linkedom's XML mode.
+function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(
+    (child) => child.tagName.toLowerCase() === name
+  );
+}
+
+function childText(parent: Element, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const text = childElements(parent, name)[0]?.textContent.trim();
+    if (text) return text.replace(/\s+/g, ' ');
+  }
+  return undefined;
+}
+
+function resolveEntryUrl(
+  value: string | null | undefined,
+  baseUrl: string
+): string | undefined {
+  if (!value || !URL.canParse(value.trim(), baseUrl)) return undefined;
+  const url = new URL(value.trim(), baseUrl);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return undefined;
+  return url.href;
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+// Feed summaries are usually HTML, often whole articles.
+function toSummary(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const { document } = parseHTML(`<html><body>${value}</body></html>`);
+  const text = document.body.textContent.replace(/\s+/g, ' ').trim();
+  if (text.length <= SUMMARY_MAX_CHARS) return text || undefined;
+
+  const cut = text.slice(0, SUMMARY_MAX_CHARS);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+function compactEntry(entry: {
+  url: string | undefined;
+  title?: string | undefined;
+  lastmod?: string | undefined;
+  published?: string | undefined;
+  summary?: string | undefined;
+}): DiscoveredUrl | undefined {
+  if (!entry.url) return undefined;
+  return {
+    url: entry.url,
+    ...(entry.title ? { title: entry.title } : {}),
+    ...(entry.lastmod ? { lastmod: entry.lastmod } : {}),
+    ...(entry.published ? { published: entry.published } : {}),
+    ...(entry.summary ? { summary: entry.summary } : {}),
+  };
+}
+
+function readSitemapEntries(
+  root: Element,
+  entryName: 'url' | 'sitemap',
+  baseUrl: string
+): DiscoveredUrl[] {
+  return childElements(root, entryName).flatMap((element) => {
+    // Google News sitemaps carry a title and publication date.
+    const news = childElements(element, 'news:news')[0];
+    const entry = compactEntry({
+      url: resolveEntryUrl(childText(element, 'loc'), baseUrl),
+      title: news ? childText(news, 'news:title') : undefined,
+      lastmod: toIsoDate(childText(element, 'lastmod')),
+      published: news
+        ? toIsoDate(childText(news, 'news:publication_date'))
+        : undefined,
+    });
+    return entry ? [entry] : [];
+  });
+}
+
+function readRssItemUrl(item: Element, baseUrl: string): string | undefined {
+  const link = resolveEntryUrl(childText(item, 'link'), baseUrl);
+  if (link) return link;
+
+  const guid = childElements(item, 'guid')[0];
+  if (guid && guid.getAttribute('ispermalink') !== 'false') {
+    const permalink = resolveEntryUrl(guid.textContent, baseUrl);
+    if (permalink) return permalink;
+  }
+  // RSS 1.0 identifies items by their rdf:about URL.
+  return resolveEntryUrl(item.getAttribute('rdf:about'), baseUrl);
+}
+
+function readRssDocument(root: Element, baseUrl: string): UrlDocument {
+  const channel = childElements(root, 'channel')[0];
+  // RSS 2.0 nests items in the channel; RSS 1.0 lists them next to it.
+  const items = [
+    ...(channel ? childElements(channel, 'item') : []),
+    ...childElements(root, 'item'),
+  ];
+  const title = channel ? childText(channel, 'title') : undefined;
+
+  return {
+    type: 'rss',
+    ...(title ? { title } : {}),
+    entries: items.flatMap((item) => {
+      const entry = compactEntry({
+        url: readRssItemUrl(item, baseUrl),
+        title: childText(item, 'title'),
+        published: toIsoDate(childText(item, 'pubdate', 'dc:date')),
+        summary: toSummary(childText(item, 'description', 'content:encoded')),
+      });
+      return entry ? [entry] : [];
+    }),
+  };
+}
+
+function readAtomLink(entry: Element, baseUrl: string): string | undefined {
+  const links = childElements(entry, 'link');
+  const alternate =
+    links.find((link) => {
+      const rel = link.getAttribute('rel');
+      return rel === null || rel === 'alternate';
+    }) ?? links[0];
+  return resolveEntryUrl(alternate?.getAttribute('href'), baseUrl);
+}
+
+function readAtomDocument(root: Element, baseUrl: string): UrlDocument {
+  const title = childText(root, 'title');
+  return {
+    type: 'atom',
+    ...(title ? { title } : {}),
+    entries: childElements(root, 'entry').flatMap((element) => {
+      const entry = compactEntry({
+        url: readAtomLink(element, baseUrl),
+        title: childText(element, 'title'),
+        lastmod: toIsoDate(childText(element, 'updated')),
+        published: toIsoDate(childText(element, 'published')),
+        summary: toSummary(childText(element, 'summary', 'content')),
+      });
+      return entry ? [entry] : [];
+    }),
+  };
+}
+
+/**
+ * Parses a sitemap, sitemap index, RSS (0.9x, 1.0, 2.0) or Atom feed.
+ * Relative URLs are resolved against `documentUrl`; non-HTTP URLs are
+ * skipped.
+ */
+export function parseUrlDocument(
+  xml: string,
+  documentUrl: string
+): UrlDocument {
+  const { documentElement } = new DOMParser().parseFromString(xml, 'text/xml');
+  const root: Element | undefined = isElement(documentElement)
+    ? documentElement
+    : undefined;
+
+  switch (root?.tagName.toLowerCase()) {
+    case 'urlset':
+      return {
+        type: 'sitemap',
+        entries: readSitemapEntries(root, 'url', documentUrl),
+      };
+    case 'sitemapindex':
+      return {
+        type: 'sitemap-index',
+        entries: readSitemapEntries(root, 'sitemap', documentUrl),
+      };
+    case 'rss':
+    case 'rdf:rdf':
+      return readRssDocument(root, documentUrl);
+    case 'feed':
+      return readAtomDocument(root, documentUrl);
+    default:
+      throw new FetchError('Not a sitemap or RSS/Atom feed', documentUrl, 422, {
+        reason: 'unsupported_document',
+      });
+  }
+}
+
+/** Decodes a fetched document, inflating gzip files such as `sitemap.xml.gz`. */
+export async function decodeUrlDocument(
+  buffer: Uint8Array,
+  encoding: string,
+  url: string,
+  maxBytes: number
+): Promise<string> {
+  if (buffer[0] !== 0x1f || buffer[1] !== 0x8b) {
+    return decodeBuffer(buffer, encoding);
+  }
+
+  try {
+    const inflated = await gunzipAsync(buffer, { maxOutputLength: maxBytes });
+    return decodeBuffer(inflated, 'utf-8');
+  } catch (error: unknown) {
+    throw new FetchError('Failed to decompress gzip document', url, 422, {
+      reason: 'invalid_gzip',
+      error: getErrorMessage(error),
+    });
+  }
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Discovery
+ * ------------------------------------------------------------------------------------------------- */
+
+function createEntryFilter(
+  options: Pick<DiscoverOptions, 'pathPrefix' | 'since'>
+): (entry: DiscoveredUrl) => boolean {
+  const sinceTime = options.since ? Date.parse(options.since) : undefined;
+  return (entry) => {
+    if (
+      options.pathPrefix &&
+      !new URL(entry.url).pathname.startsWith(options.pathPrefix)
+    ) {
+      return false;
+    }
+    if (sinceTime === undefined) return true;
+    const date = entry.lastmod ?? entry.published;
+    return date !== undefined && Date.parse(date) >= sinceTime;
+  };
+}
+
+// A child sitemap's lastmod is the newest lastmod of its URLs.
+function isChildSitemapRecent(
+  entry: DiscoveredUrl,
+  since: string | undefined
+): boolean {
+  if (!since || !entry.lastmod) return true;
+  return Date.parse(entry.lastmod) >= Date.parse(since);
+}
+
+function collectEntries(
+  result: DiscoverResult,
+  entries: readonly DiscoveredUrl[],
+  seen: Set<string>,
+  matches: (entry: DiscoveredUrl) => boolean,
+  maxEntries: number
+): void {
+  for (const entry of entries) {
+    if (seen.has(entry.url) || !matches(entry)) continue;
+    seen.add(entry.url);
+    result.matched += 1;
+    if (result.entries.length < maxEntries) {
+      result.entries.push(entry);
+    } else {
+      result.truncated = true;
+    }
+  }
+}
+
+async function readChildSitemap(
+  url: string,
+  options: Pick<DiscoverOptions, 'signal' | 'fetchDocument'>
+): Promise<UrlDocument | undefined> {
+  try {
+    const { text, finalUrl } = await options.fetchDocument(url);
+    return parseUrlDocument(text, finalUrl);
+  } catch (error: unknown) {
+    options.signal?.throwIfAborted();
+    logDebug('Child sitemap failed', { url, error: getErrorMessage(error) });
+    return undefined;
+  }
+}
+
+function enqueueSitemaps(
+  queue: DiscoveredUrl[],
+  queued: Set<string>,
+  entries: readonly DiscoveredUrl[]
+): void {
+  for (const entry of entries) {
+    if (queued.has(entry.url)) continue;
+    queued.add(entry.url);
+    queue.push(entry);
+  }
+}
+
+async function readSitemapIndex(
+  sitemaps: readonly DiscoveredUrl[],
+  indexUrl: string,
+  options: DiscoverOptions,
+  result: DiscoverResult,
+  collect: (entries: readonly DiscoveredUrl[]) => void
+): Promise<void> {
+  const queue: DiscoveredUrl[] = [];
+  const queued = new Set([indexUrl]);
+  enqueueSitemaps(queue, queued, sitemaps);
+
+  for (let next = queue.shift(); next; next = queue.shift()) {
+    options.signal?.throwIfAborted();
+    if (!isChildSitemapRecent(next, options.since)) continue;
+    if (result.sitemapsFetched >= options.maxSitemaps) {
+      result.truncated = true;
+      return;
+    }
+
+    result.sitemapsFetched += 1;
+    const child = await readChildSitemap(next.url, options);
+    if (!child) {
+      result.failedSitemaps += 1;
+      continue;
+    }
+    options.onDocument?.(next.url, result.sitemapsFetched + 1);
+
+    // Nested indexes are non-standard but seen in the wild.
+    if (child.type === 'sitemap-index') {
+      enqueueSitemaps(queue, queued, child.entries);
+    } else {
+      collect(child.entries);
+    }
+  }
+}
+
+/**
+ * Reads the URLs listed by a sitemap or feed. Sitemap indexes are followed
+ * breadth-first, skipping child sitemaps whose `lastmod` predates `since`.
+ * A child sitemap that fails to load is counted and skipped.
+ */
+export async function discoverUrls(
+  options: DiscoverOptions
+): Promise<DiscoverResult> {
+  const matches = createEntryFilter(options);
+  const seen = new Set<string>();
+  const result: DiscoverResult = {
+    type: 'sitemap',
+    entries: [],
+    matched: 0,
+    sitemapsFetched: 0,
+    failedSitemaps: 0,
+    truncated: false,
+  };
+
+  const collect = (entries: readonly DiscoveredUrl[]): void => {
+    collectEntries(result, entries, seen, matches, options.maxEntries);
+  };
+
+  const { text, finalUrl } = await options.fetchDocument(options.url);
+  const root = parseUrlDocument(text, finalUrl);
+  options.onDocument?.(options.url, 1);
+  result.type = root.type;
+  if (root.title) result.title = root.title;
+  if (root.type !== 'sitemap-index') {
+    collect(root.entries);
+    return result;
+  }
+
+  await readSitemapIndex(root.entries, finalUrl, options, result, collect);
+  return result;
+}
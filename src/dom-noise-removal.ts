@@ -550,21 +550,28 @@ function processUrlElement(
   }
 }
 
-function resolveUrls(document: Document, baseUrlStr: string): void {
+function resolveUrls(
+  document: Document,
+  baseUrlStr: string
+): readonly Element[] | undefined {
   let base: URL;
   try {
     base = new URL(baseUrlStr);
   } catch {
-    return;
+    return undefined;
   }
 
-  const elements = document.querySelectorAll('a[href],img[src],source[srcset]');
-  for (const el of Array.from(elements)) {
+  // Includes lazy images without `src` so callers can inventory them too.
+  const elements = Array.from(
+    document.querySelectorAll('a[href],img,source[srcset]')
+  );
+  for (const el of elements) {
     const tag = el.tagName.toLowerCase();
     if (tag === 'a') processUrlElement(el, 'href', base, false);
     else if (tag === 'img') processUrlElement(el, 'src', base, false);
     else if (tag === 'source') processUrlElement(el, 'srcset', base, true);
   }
+  return elements;
 }
 
 function serialize(document: Document, fallback: string): string {
@@ -589,10 +596,15 @@ function mayContainNoise(html: string): boolean {
   return NOISE_PATTERNS.some((re) => re.test(sample));
 }
 
+/**
+ * Strips noise and resolves relative URLs against `baseUrl`. `onUrlsResolved`
+ * receives the link and image elements of that walk, in document order.
+ */
 export function removeNoiseFromHtml(
   html: string,
   document?: Document,
-  baseUrl?: string
+  baseUrl?: string,
+  onUrlsResolved?: (elements: readonly Element[]) => void
 ): string {
   const shouldParse =
     isFullDocumentHtml(html) ||
@@ -613,7 +625,8 @@ export function removeNoiseFromHtml(
 
     stripNoise(doc, context);
 
-    if (baseUrl) resolveUrls(doc, baseUrl);
+    const urlElements = baseUrl ? resolveUrls(doc, baseUrl) : undefined;
+    if (urlElements) onUrlsResolved?.(urlElements);
 
     return serialize(doc, html);
   } catch {
@@ -0,0 +1,278 @@
+import { Buffer } from 'node:buffer';
+import http from 'node:http';
+import https from 'node:https';
+import { BlockList, isIP, type Socket } from 'node:net';
+import { Readable } from 'node:stream';
+import tls from 'node:tls';
+
+import { createErrorWithCode } from './errors.js';
+
+export interface ProxyConfig {
+  httpProxy: URL | undefined;
+  httpsProxy: URL | undefined;
+  noProxy: readonly string[];
+}
+
+type FetchLike = (
+  input: RequestInfo | URL,
+  init?: RequestInit
+) => Promise<Response>;
+
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/* -------------------------------------------------------------------------------------------------
+ * NO_PROXY matching
+ * ------------------------------------------------------------------------------------------------- */
+
+function stripBrackets(hostname: string): string {
+  return hostname.startsWith('[') && hostname.endsWith(']')
+    ? hostname.slice(1, -1)
+    : hostname;
+}
+
+function resolvePort(url: URL): number {
+  if (url.port) return Number(url.port);
+  return url.protocol === 'https:' ? 443 : 80;
+}
+
+function splitHostPort(entry: string): { host: string; port?: number } {
+  if (entry.startsWith('[')) {
+    const end = entry.indexOf(']');
+    const port = entry.slice(end + 1).replace(/^:/, '');
+    return {
+      host: entry.slice(1, end),
+      ...(port ? { port: Number(port) } : {}),
+    };
+  }
+
+  const colon = entry.lastIndexOf(':');
+  if (colon === -1 || entry.indexOf(':') !== colon) return { host: entry };
+  return { host: entry.slice(0, colon), port: Number(entry.slice(colon + 1)) };
+}
+
+function matchesCidr(hostname: string, cidr: string): boolean {
+  const [network, prefixText] = cidr.split('/');
+  const family = network ? isIP(network) : 0;
+  const hostFamily = isIP(hostname);
+  if (!network || !family || family !== hostFamily) return false;
+
+  const prefix = Number(prefixText);
+  const type = family === 6 ? 'ipv6' : 'ipv4';
+  try {
+    const list = new BlockList();
+    list.addSubnet(network, prefix, type);
+    return list.check(hostname, type);
+  } catch {
+    return false;
+  }
+}
+
+function matchesNoProxyEntry(url: URL, rawEntry: string): boolean {
+  const entry = rawEntry.trim().toLowerCase();
+  if (!entry) return false;
+  if (entry === '*') return true;
+
+  const hostname = stripBrackets(url.hostname).toLowerCase();
+  if (entry.includes('/')) return matchesCidr(hostname, entry);
+
+  const { host, port } = splitHostPort(entry);
+  if (port !== undefined && port !== resolvePort(url)) return false;
+
+  const domain = host.replace(/^\*?\./, '');
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/** Proxy URL for `target`, or undefined when none applies (or NO_PROXY matches). */
+export function resolveProxyUrl(
+  target: URL,
+  proxy: ProxyConfig
+): URL | undefined {
+  const proxyUrl =
+    target.protocol === 'https:' ? proxy.httpsProxy : proxy.httpProxy;
+  if (!proxyUrl) return undefined;
+  if (proxy.noProxy.some((entry) => matchesNoProxyEntry(target, entry))) {
+    return undefined;
+  }
+  return proxyUrl;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Proxied requests (absolute-form for http, CONNECT tunnel for https)
+ * ------------------------------------------------------------------------------------------------- */
+
+function buildProxyAuthorization(proxyUrl: URL): Record<string, string> {
+  if (!proxyUrl.username && !proxyUrl.password) return {};
+  const credentials = `${decodeURIComponent(proxyUrl.username)}:${decodeURIComponent(proxyUrl.password)}`;
+  return {
+    'proxy-authorization': `Basic ${Buffer.from(credentials).toString('base64')}`,
+  };
+}
+
+function proxyRequestOptions(proxyUrl: URL): http.RequestOptions {
+  return {
+    host: stripBrackets(proxyUrl.hostname),
+    port: resolvePort(proxyUrl),
+    agent: false,
+  };
+}
+
+function requestModule(url: URL): typeof http | typeof https {
+  return url.protocol === 'https:' ? https : http;
+}
+
+function toHeaderRecord(
+  headers: HeadersInit | undefined
+): Record<string, string> {
+  return Object.fromEntries(new Headers(headers).entries());
+}
+
+function toResponse(message: http.IncomingMessage): Response {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(message.headers)) {
+    if (Array.isArray(value)) {
+      for (const item of value) headers.append(name, item);
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+
+  const status = message.statusCode ?? 502;
+  const body = NULL_BODY_STATUSES.has(status)
+    ? null
+    : (Readable.toWeb(message) as ReadableStream<Uint8Array>);
+  if (!body) message.resume();
+
+  return new Response(body, {
+    status,
+    statusText: message.statusMessage ?? '',
+    headers,
+  });
+}
+
+/** Prefers the signal's reason so timeouts keep their `TimeoutError` name. */
+function rejectWithSignalReason(
+  reject: (reason: unknown) => void,
+  signal: AbortSignal | undefined
+): (error: Error) => void {
+  return (error) => {
+    reject(signal?.aborted ? (signal.reason as unknown) : error);
+  };
+}
+
+function openTunnel(
+  proxyUrl: URL,
+  target: URL,
+  signal?: AbortSignal
+): Promise<Socket> {
+  const authority = `${target.hostname}:${resolvePort(target)}`;
+
+  return new Promise((resolve, reject) => {
+    const request = requestModule(proxyUrl).request({
+      ...proxyRequestOptions(proxyUrl),
+      method: 'CONNECT',
+      path: authority,
+      headers: { host: authority, ...buildProxyAuthorization(proxyUrl) },
+      ...(signal ? { signal } : {}),
+    });
+
+    request.once('connect', (response, socket) => {
+      if (response.statusCode === 200) {
+        resolve(socket);
+        return;
+      }
+      socket.destroy();
+      reject(
+        createErrorWithCode(
+          `Proxy CONNECT to ${authority} failed with status ${response.statusCode ?? 'unknown'}`,
+          'EPROXY'
+        )
+      );
+    });
+    request.once('error', rejectWithSignalReason(reject, signal));
+    request.end();
+  });
+}
+
+function sendRequest(
+  module: typeof http | typeof https,
+  options: http.RequestOptions | https.RequestOptions,
+  signal?: AbortSignal
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const request = module.request({
+      ...options,
+      ...(signal ? { signal } : {}),
+    });
+    request.once('response', (message) => {
+      resolve(toResponse(message));
+    });
+    request.once('error', rejectWithSignalReason(reject, signal));
+    request.end();
+  });
+}
+
+async function fetchViaProxy(
+  target: URL,
+  proxyUrl: URL,
+  init: RequestInit | undefined
+): Promise<Response> {
+  const signal = init?.signal ?? undefined;
+  signal?.throwIfAborted();
+
+  const method = init?.method ?? 'GET';
+  const headers = { ...toHeaderRecord(init?.headers), host: target.host };
+
+  if (target.protocol === 'http:') {
+    return sendRequest(
+      requestModule(proxyUrl),
+      {
+        ...proxyRequestOptions(proxyUrl),
+        method,
+        path: target.href,
+        headers: { ...headers, ...buildProxyAuthorization(proxyUrl) },
+      },
+      signal
+    );
+  }
+
+  const socket = await openTunnel(proxyUrl, target, signal);
+  const hostname = stripBrackets(target.hostname);
+
+  return sendRequest(
+    https,
+    {
+      host: hostname,
+      port: resolvePort(target),
+      method,
+      path: `${target.pathname}${target.search}`,
+      headers,
+      // No agent: Node only honors createConnection for agentless requests.
+      createConnection: () =>
+        tls.connect({
+          socket,
+          ...(isIP(hostname) ? {} : { servername: hostname }),
+          ALPNProtocols: ['http/1.1'],
+        }),
+    },
+    signal
+  );
+}
+
+/**
+ * Wraps `baseFetch` so requests go through the configured proxy. Target-host
+ * SSRF checks stay with the caller; the proxy host itself is never validated.
+ */
+export function createProxyAwareFetch(
+  proxy: ProxyConfig,
+  baseFetch: FetchLike
+): FetchLike {
+  if (!proxy.httpProxy && !proxy.httpsProxy) return baseFetch;
+
+  return (input, init) => {
+    const target = new URL(input instanceof Request ? input.url : input);
+    const proxyUrl = resolveProxyUrl(target, proxy);
+    return proxyUrl
+      ? fetchViaProxy(target, proxyUrl, init)
+      : baseFetch(input, init);
+  };
+}
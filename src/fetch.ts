@@ -1,5 +1,5 @@
 import { Buffer } from 'node:buffer';
-import { randomUUID } from 'node:crypto';
+import { randomInt, randomUUID } from 'node:crypto';
 import diagnosticsChannel from 'node:diagnostics_channel';
 import dns from 'node:dns';
 import { isIP } from 'node:net';
@@ -7,6 +7,7 @@ import { performance } from 'node:perf_hooks';
 import { PassThrough, Readable, Transform } from 'node:stream';
 import { buffer as consumeBuffer } from 'node:stream/consumers';
 import { finished, pipeline } from 'node:stream/promises';
+import { setTimeout as delay } from 'node:timers/promises';
 import { createBrotliDecompress, createGunzip, createInflate } from 'node:zlib';
 
 import { config } from './config.js';
@@ -17,7 +18,10 @@ import {
   isBinaryContent,
   resolveEncoding,
 } from './fetch-content.js';
+import { createProxyAwareFetch } from './fetch-proxy.js';
 import { toNodeReadableStream, toWebReadableStream } from './fetch-stream.js';
+import { HostCache, type HostCacheStats } from './host-cache.js';
+import { HostHeaders } from './host-headers.js';
 import {
   createDefaultBlockList,
   normalizeIpForBlockList,
@@ -29,11 +33,54 @@ import {
   logError,
   logWarn,
   redactUrl,
+  registerLogSecrets,
 } from './observability.js';
+import { OriginScheduler, type ReleaseSlot } from './origin-scheduler.js';
+import { PDF_MEDIA_TYPES } from './pdf-markdown.js';
+import {
+  allowAllRobots,
+  disallowAllRobots,
+  parseRobotsTxt,
+  resolveProductToken,
+  type RobotsRules,
+} from './robots.js';
 import { isError, isObject } from './type-guards.js';
 
+export interface FetchRetryEvent {
+  /** Number of the attempt about to be made (2 for the first retry). */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  status: number;
+  reason: string;
+}
+
 interface FetchOptions {
   signal?: AbortSignal;
+  /** Called before each retry, once its delay is known. */
+  onRetry?: (event: FetchRetryEvent) => void;
+  /** Accepts gzip files (e.g. `sitemap.xml.gz`) as raw bytes in buffer mode. */
+  allowGzip?: boolean;
+}
+
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface FetchedBuffer {
+  buffer: Uint8Array;
+  encoding: string;
+  mediaType?: string;
+  truncated: boolean;
+  finalUrl: string;
+  validators?: CacheValidators;
+}
+
+export interface NotModifiedResult {
+  notModified: true;
+  finalUrl: string;
+  validators?: CacheValidators;
 }
 
 interface TransformResult {
@@ -79,6 +126,12 @@ const defaultRedactor: UrlRedactor = {
 
 const defaultFetch: FetchLike = (input, init) => globalThis.fetch(input, init);
 
+// Outbound requests honor HTTP(S)_PROXY / NO_PROXY / FETCH_PROXY_URL.
+const outboundFetch: FetchLike = createProxyAwareFetch(
+  config.fetcher.proxy,
+  defaultFetch
+);
+
 type SecurityConfig = typeof config.security;
 
 class IpBlocker {
@@ -565,7 +618,8 @@ class SafeDnsResolver {
   constructor(
     private readonly ipBlocker: IpBlocker,
     private readonly security: SecurityConfig,
-    private readonly blockedHostSuffixes: readonly string[]
+    private readonly blockedHostSuffixes: readonly string[],
+    private readonly hostCache?: HostCache
   ) {}
 
   async assertSafeHostname(
@@ -599,8 +653,18 @@ class SafeDnsResolver {
       return;
     }
 
-    await this.assertNoBlockedCname(normalizedHostname, signal);
+    // A cached host skips the CNAME walk and TTL query, never the address
+    // check: the next lookup may answer differently (DNS rebinding).
+    const validated =
+      this.hostCache?.isHostnameValidated(normalizedHostname) ?? false;
+    if (!validated) {
+      await this.assertNoBlockedCname(normalizedHostname, signal);
+    }
 
+    const ttlPromise =
+      this.hostCache && !validated
+        ? this.resolveTtlMs(normalizedHostname)
+        : undefined;
     const resultPromise = dns.promises.lookup(normalizedHostname, {
       all: true,
       order: 'verbatim',
@@ -618,9 +682,23 @@ class SafeDnsResolver {
       createAbortSignalError
     );
 
+    this.assertPublicAddresses(normalizedHostname, addresses);
+
+    if (this.hostCache && ttlPromise) {
+      this.hostCache.rememberValidatedHostname(
+        normalizedHostname,
+        await ttlPromise
+      );
+    }
+  }
+
+  private assertPublicAddresses(
+    hostname: string,
+    addresses: readonly dns.LookupAddress[]
+  ): void {
     if (addresses.length === 0) {
       throw createErrorWithCode(
-        `No DNS results returned for ${normalizedHostname}`,
+        `No DNS results returned for ${hostname}`,
         'ENODATA'
       );
     }
@@ -628,19 +706,41 @@ class SafeDnsResolver {
     for (const addr of addresses) {
       if (addr.family !== 4 && addr.family !== 6) {
         throw createErrorWithCode(
-          `Invalid address family returned for ${normalizedHostname}`,
+          `Invalid address family returned for ${hostname}`,
           'EINVAL'
         );
       }
       if (this.ipBlocker.isBlockedIp(addr.address)) {
         throw createErrorWithCode(
-          `Blocked IP detected for ${normalizedHostname}`,
+          `Blocked IP detected for ${hostname}`,
           'EBLOCKED'
         );
       }
     }
   }
 
+  // `lookup` reports no TTL, so the A/AAAA records are queried for it.
+  // Never rejects; `undefined` means the cache falls back to its default.
+  private async resolveTtlMs(hostname: string): Promise<number | undefined> {
+    const results = await withTimeout(
+      Promise.allSettled([
+        dns.promises.resolve4(hostname, { ttl: true }),
+        dns.promises.resolve6(hostname, { ttl: true }),
+      ]),
+      DNS_LOOKUP_TIMEOUT_MS,
+      () => createErrorWithCode('DNS TTL lookup timed out', 'ETIMEOUT')
+    ).catch(() => []);
+
+    let minTtl: number | undefined;
+    for (const result of results) {
+      if (result.status !== 'fulfilled') continue;
+      for (const record of result.value) {
+        minTtl = Math.min(minTtl ?? record.ttl, record.ttl);
+      }
+    }
+    return minTtl === undefined ? undefined : minTtl * 1000;
+  }
+
   private isBlockedHostname(hostname: string): boolean {
     if (this.security.blockedHosts.has(hostname)) return true;
     return this.blockedHostSuffixes.some((suffix) => hostname.endsWith(suffix));
@@ -717,9 +817,7 @@ class SafeDnsResolver {
   }
 }
 
-function parseRetryAfter(header: string | null): number {
-  if (!header) return 60;
-
+function parseRetryAfter(header: string): number {
   const trimmed = header.trim();
 
   // Retry-After can be seconds or an HTTP-date.
@@ -751,25 +849,74 @@ function createRateLimitedFetchError(
   url: string,
   retryAfterHeader: string | null
 ): FetchError {
-  return new FetchError('Too many requests', url, 429, {
-    retryAfter: parseRetryAfter(retryAfterHeader),
-  });
+  // Without Retry-After the retry falls back to exponential backoff.
+  return new FetchError(
+    'Too many requests',
+    url,
+    429,
+    retryAfterHeader ? { retryAfter: parseRetryAfter(retryAfterHeader) } : {}
+  );
 }
 
 function createHttpFetchError(
   url: string,
   status: number,
-  statusText: string
+  statusText: string,
+  retryAfterHeader: string | null = null
 ): FetchError {
-  return new FetchError(`HTTP ${status}: ${statusText}`, url, status);
+  return new FetchError(
+    `HTTP ${status}: ${statusText}`,
+    url,
+    status,
+    retryAfterHeader ? { retryAfter: parseRetryAfter(retryAfterHeader) } : {}
+  );
+}
+
+function createRobotsDisallowedFetchError(
+  url: string,
+  rule?: string
+): FetchError {
+  return new FetchError('Blocked by robots.txt', url, 403, {
+    reason: 'robots_disallowed',
+    ...(rule ? { rule } : {}),
+  });
+}
+
+function createHostBackoffFetchError(
+  url: string,
+  hostname: string,
+  remainingMs: number
+): FetchError {
+  return new FetchError(
+    `Host ${hostname} is backed off after repeated failures`,
+    url,
+    503,
+    { reason: 'host_backoff', retryAfter: Math.ceil(remainingMs / 1000) }
+  );
 }
 
 function createTooManyRedirectsFetchError(url: string): FetchError {
-  return new FetchError('Too many redirects', url);
+  return new FetchError('Too many redirects', url, undefined, {
+    reason: 'too_many_redirects',
+  });
 }
 
 function createMissingRedirectLocationFetchError(url: string): FetchError {
-  return new FetchError('Redirect response missing Location header', url);
+  return new FetchError(
+    'Redirect response missing Location header',
+    url,
+    undefined,
+    { reason: 'missing_redirect_location' }
+  );
+}
+
+function createUnsupportedContentTypeFetchError(
+  url: string,
+  mediaType: string
+): FetchError {
+  return new FetchError(`Unsupported content type: ${mediaType}`, url, 415, {
+    reason: 'unsupported_content_type',
+  });
 }
 
 function buildNetworkErrorMessage(url: string): string {
@@ -885,6 +1032,18 @@ type FetchChannelEvent =
       duration: number;
       contextRequestId?: string;
       operationId?: string;
+    }
+  | {
+      v: 1;
+      type: 'retry';
+      requestId: string;
+      url: string;
+      attempt: number;
+      maxAttempts: number;
+      delay: number;
+      status: number;
+      contextRequestId?: string;
+      operationId?: string;
     };
 
 const fetchChannel = diagnosticsChannel.channel('fetch-url-mcp.fetch');
@@ -1046,6 +1205,33 @@ class FetchTelemetry {
     this.logger.error('HTTP Request Error', logData);
   }
 
+  /** Links a retry to the failed attempt `context` belongs to. */
+  recordRetry(context: FetchTelemetryContext, retry: FetchRetryEvent): void {
+    const event: FetchChannelEvent = {
+      v: 1,
+      type: 'retry',
+      requestId: context.requestId,
+      url: context.url,
+      attempt: retry.attempt,
+      maxAttempts: retry.maxAttempts,
+      delay: retry.delayMs,
+      status: retry.status,
+    };
+    if (context.contextRequestId)
+      event.contextRequestId = context.contextRequestId;
+    if (context.operationId) event.operationId = context.operationId;
+    this.publish(event);
+
+    this.logger.warn('Retrying HTTP request', {
+      requestId: context.requestId,
+      url: context.url,
+      attempt: retry.attempt,
+      maxAttempts: retry.maxAttempts,
+      delay: `${Math.round(retry.delayMs)}ms`,
+      status: retry.status,
+    });
+  }
+
   private publish(event: FetchChannelEvent): void {
     if (!fetchChannel.hasSubscribers) return;
 
@@ -1058,6 +1244,7 @@ class FetchTelemetry {
 }
 
 const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const PERMANENT_REDIRECT_STATUSES = new Set([301, 308]);
 
 function isRedirectStatus(status: number): boolean {
   return REDIRECT_STATUSES.has(status);
@@ -1080,11 +1267,17 @@ type NormalizeUrl = (urlString: string) => string;
 
 type RedirectPreflight = (url: string, signal?: AbortSignal) => Promise<void>;
 
+function resolveOrigin(url: string): string | null {
+  return URL.canParse(url) ? new URL(url).origin : null;
+}
+
 class RedirectFollower {
   constructor(
     private readonly fetchFn: FetchLike,
     private readonly normalizeUrl: NormalizeUrl,
-    private readonly preflight?: RedirectPreflight
+    private readonly preflight?: RedirectPreflight,
+    private readonly hostHeaders: HostHeaders = HostHeaders.empty(),
+    private readonly hostCache?: HostCache
   ) {}
 
   async fetchWithRedirects(
@@ -1094,12 +1287,29 @@ class RedirectFollower {
   ): Promise<{ response: Response; url: string }> {
     let currentUrl = url;
     const redirectLimit = Math.max(0, maxRedirects);
+    const initialOrigin = resolveOrigin(url);
+    let crossedOrigin = false;
 
     for (
       let redirectCount = 0;
       redirectCount <= redirectLimit;
       redirectCount += 1
     ) {
+      // A remembered permanent redirect still counts toward the limit, so
+      // cached loops end in the same error as live ones.
+      const knownTarget = this.hostCache?.permanentRedirectFor(currentUrl);
+      if (knownTarget) {
+        crossedOrigin ||= resolveOrigin(currentUrl) !== initialOrigin;
+        currentUrl = knownTarget;
+        continue;
+      }
+
+      // Host credentials are dropped for good after the first cross-origin hop.
+      crossedOrigin ||= resolveOrigin(currentUrl) !== initialOrigin;
+      const hopInit = crossedOrigin
+        ? init
+        : this.withHostHeaders(currentUrl, init);
+
       const { response, nextUrl } = await this.withRedirectErrorContext(
         currentUrl,
         async () => {
@@ -1108,7 +1318,7 @@ class RedirectFollower {
           }
           return this.performFetchCycle(
             currentUrl,
-            init,
+            hopInit,
             redirectLimit,
             redirectCount
           );
@@ -1122,6 +1332,18 @@ class RedirectFollower {
     throw createTooManyRedirectsFetchError(currentUrl);
   }
 
+  private withHostHeaders(url: string, init: RequestInit): RequestInit {
+    const extra = this.hostHeaders.headersFor(url);
+    if (!extra) return init;
+
+    const headers = new Headers(init.headers);
+    for (const [name, value] of Object.entries(extra)) {
+      const existing = name === 'cookie' ? headers.get('cookie') : null;
+      headers.set(name, existing ? `${existing}; ${value}` : value);
+    }
+    return { ...init, headers };
+  }
+
   private async performFetchCycle(
     currentUrl: string,
     init: RequestInit,
@@ -1145,10 +1367,11 @@ class RedirectFollower {
     const location = this.getRedirectLocation(response, currentUrl);
     cancelResponseBody(response);
 
-    return {
-      response,
-      nextUrl: this.resolveRedirectTarget(currentUrl, location),
-    };
+    const nextUrl = this.resolveRedirectTarget(currentUrl, location);
+    if (PERMANENT_REDIRECT_STATUSES.has(response.status)) {
+      this.hostCache?.rememberPermanentRedirect(currentUrl, nextUrl);
+    }
+    return { response, nextUrl };
   }
 
   private assertRedirectWithinLimit(
@@ -1228,7 +1451,8 @@ class ResponseTextReader {
     url: string,
     maxBytes: number,
     signal?: AbortSignal,
-    encoding?: string
+    encoding?: string,
+    allowBinary = false
   ): Promise<{
     buffer: Uint8Array;
     encoding: string;
@@ -1246,7 +1470,8 @@ class ResponseTextReader {
         url,
         maxBytes,
         signal,
-        encoding
+        encoding,
+        allowBinary
       );
     }
 
@@ -1255,7 +1480,8 @@ class ResponseTextReader {
       url,
       maxBytes,
       signal,
-      encoding
+      encoding,
+      allowBinary
     );
   }
 
@@ -1264,7 +1490,8 @@ class ResponseTextReader {
     url: string,
     maxBytes: number,
     signal?: AbortSignal,
-    encoding?: string
+    encoding?: string,
+    allowBinary = false
   ): Promise<{
     buffer: Uint8Array;
     encoding: string;
@@ -1299,7 +1526,7 @@ class ResponseTextReader {
     const effectiveEncoding =
       resolveEncoding(encoding, buffer) ?? encoding ?? 'utf-8';
 
-    if (isBinaryContent(buffer, effectiveEncoding)) {
+    if (!allowBinary && isBinaryContent(buffer, effectiveEncoding)) {
       throw new FetchError(
         'Detailed content type check failed: binary content detected',
         url,
@@ -1321,7 +1548,8 @@ class ResponseTextReader {
     url: string,
     maxBytes: number,
     signal?: AbortSignal,
-    encoding?: string
+    encoding?: string,
+    allowBinary = false
   ): Promise<{
     buffer: Uint8Array;
     encoding: string;
@@ -1356,7 +1584,7 @@ class ResponseTextReader {
               resolveEncoding(encoding, buf) ?? encoding ?? 'utf-8';
           }
 
-          if (isBinaryContent(buf, effectiveEncoding)) {
+          if (!allowBinary && isBinaryContent(buf, effectiveEncoding)) {
             callback(
               new FetchError(
                 'Detailed content type check failed: binary content detected',
@@ -1439,8 +1667,27 @@ const DEFAULT_HEADERS: Record<string, string> = {
   Connection: 'keep-alive',
 };
 
-function buildHeaders(): Record<string, string> {
-  return DEFAULT_HEADERS;
+function buildHeaders(validators?: CacheValidators): Record<string, string> {
+  if (!validators?.etag && !validators?.lastModified) return DEFAULT_HEADERS;
+
+  return {
+    ...DEFAULT_HEADERS,
+    ...(validators.etag ? { 'If-None-Match': validators.etag } : {}),
+    ...(validators.lastModified
+      ? { 'If-Modified-Since': validators.lastModified }
+      : {}),
+  };
+}
+
+function readValidators(headers: Headers): CacheValidators | undefined {
+  const etag = headers.get('etag')?.trim();
+  const lastModified = headers.get('last-modified')?.trim();
+  if (!etag && !lastModified) return undefined;
+
+  return {
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+  };
 }
 
 function buildRequestSignal(
@@ -1475,9 +1722,13 @@ function resolveResponseError(
     );
   }
 
-  return response.ok
-    ? null
-    : createHttpFetchError(finalUrl, response.status, response.statusText);
+  if (response.ok) return null;
+  return createHttpFetchError(
+    finalUrl,
+    response.status,
+    response.statusText,
+    response.status === 503 ? response.headers.get('retry-after') : null
+  );
 }
 
 function resolveMediaType(contentType: string | null): string | null {
@@ -1515,21 +1766,44 @@ function isTextLikeMediaType(mediaType: string): boolean {
   );
 }
 
-function assertSupportedContentType(
-  contentType: string | null,
+// Servers label `.gz` files inconsistently.
+const GZIP_MEDIA_TYPES: ReadonlySet<string> = new Set([
+  'application/gzip',
+  'application/x-gzip',
+  'application/octet-stream',
+]);
+
+/** `application/octet-stream` is only accepted for bodies that are gzip data. */
+function assertGzipOctetStream(
+  mediaType: string | null,
+  buffer: Uint8Array,
   url: string
 ): void {
+  if (mediaType !== 'application/octet-stream') return;
+  if (buffer[0] === 0x1f && buffer[1] === 0x8b) return;
+  throw createUnsupportedContentTypeFetchError(url, mediaType);
+}
+
+function assertSupportedContentType(
+  contentType: string | null,
+  url: string,
+  allowPdf: boolean,
+  allowGzip = false
+): string | null {
   const mediaType = resolveMediaType(contentType);
   if (!mediaType) {
     logDebug('No Content-Type header; relying on binary-content detection', {
       url: redactUrl(url),
     });
-    return;
+    return null;
   }
 
+  if (allowPdf && PDF_MEDIA_TYPES.has(mediaType)) return mediaType;
+  if (allowGzip && GZIP_MEDIA_TYPES.has(mediaType)) return mediaType;
   if (!isTextLikeMediaType(mediaType)) {
-    throw new FetchError(`Unsupported content type: ${mediaType}`, url);
+    throw createUnsupportedContentTypeFetchError(url, mediaType);
   }
+  return mediaType;
 }
 
 function extractEncodingTokens(value: string): string[] {
@@ -1764,6 +2038,7 @@ type ReadDecodedResponseResult =
       kind: 'buffer';
       buffer: Uint8Array;
       encoding: string;
+      mediaType: string | null;
       size: number;
       truncated: boolean;
     };
@@ -1776,7 +2051,8 @@ async function readAndRecordDecodedResponse(
   reader: ResponseTextReader,
   maxBytes: number,
   mode: 'text' | 'buffer',
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  allowGzip = false
 ): Promise<ReadDecodedResponseResult> {
   const responseError = resolveResponseError(response, finalUrl);
   if (responseError) {
@@ -1791,7 +2067,18 @@ async function readAndRecordDecodedResponse(
   );
 
   const contentType = decodedResponse.headers.get('content-type');
-  assertSupportedContentType(contentType, finalUrl);
+  // PDFs and gzip files are only accepted as raw bytes.
+  const mediaType = assertSupportedContentType(
+    contentType,
+    finalUrl,
+    mode === 'buffer',
+    mode === 'buffer' && allowGzip
+  );
+  const isPdf = mediaType !== null && PDF_MEDIA_TYPES.has(mediaType);
+  const isGzip =
+    mode === 'buffer' &&
+    allowGzip &&
+    (mediaType === null || GZIP_MEDIA_TYPES.has(mediaType));
 
   const declaredEncoding = getCharsetFromContentType(contentType ?? null);
 
@@ -1812,10 +2099,12 @@ async function readAndRecordDecodedResponse(
     finalUrl,
     maxBytes,
     signal,
-    declaredEncoding
+    declaredEncoding,
+    isPdf || isGzip
   );
   telemetry.recordResponse(ctx, decodedResponse, size);
-  return { kind: 'buffer', buffer, encoding, size, truncated };
+  if (isGzip) assertGzipOctetStream(mediaType, buffer, finalUrl);
+  return { kind: 'buffer', buffer, encoding, mediaType, size, truncated };
 }
 
 type FetcherConfig = typeof config.fetcher;
@@ -1837,13 +2126,265 @@ function createDnsPreflight(dnsResolver: SafeDnsResolver): HostnamePreflight {
   };
 }
 
+type RobotsConfig = typeof config.robots;
+
+interface RobotsCacheEntry {
+  rules: RobotsRules;
+  expiresAt: number;
+}
+
+const ROBOTS_UNREACHABLE_TTL_MS = 60_000;
+const ROBOTS_MAX_ORIGINS = 500;
+
+/**
+ * Per-origin robots.txt policy. Missing files (4xx) allow everything,
+ * unreachable ones (5xx/network) disallow everything for a short while.
+ * Crawl-delay is only applied in `enforce` mode, and only by `check` for
+ * requests that no `OriginScheduler` spaces already.
+ */
+class RobotsTxtPolicy {
+  private readonly entries = new Map<string, RobotsCacheEntry>();
+  private readonly inflight = new Map<string, Promise<RobotsRules>>();
+  private readonly nextRequestAt = new Map<string, number>();
+  private readonly productToken: string;
+
+  constructor(
+    private readonly robotsConfig: RobotsConfig,
+    private readonly fetcherConfig: FetcherConfig,
+    private readonly redirectFollower: RedirectFollower,
+    private readonly reader: ResponseTextReader,
+    private readonly logger: Logger,
+    private readonly redactor: UrlRedactor
+  ) {
+    this.productToken = resolveProductToken(fetcherConfig.userAgent);
+  }
+
+  async check(
+    url: string,
+    signal?: AbortSignal,
+    { waitForCrawlDelay = true }: { waitForCrawlDelay?: boolean } = {}
+  ): Promise<void> {
+    const { mode } = this.robotsConfig;
+    if (mode === 'ignore') return;
+
+    const target = new URL(url);
+    const rules = await this.getRules(target.origin, signal);
+    const verdict = rules.evaluate(`${target.pathname}${target.search}`);
+
+    if (!verdict.allowed) {
+      if (mode === 'enforce') {
+        throw createRobotsDisallowedFetchError(url, verdict.rule);
+      }
+      this.logger.warn('URL disallowed by robots.txt', {
+        url: this.redactor.redact(url),
+        ...(verdict.rule ? { rule: verdict.rule } : {}),
+      });
+      return;
+    }
+
+    if (mode === 'enforce' && waitForCrawlDelay) {
+      await this.waitForCrawlDelay(target.origin, rules, signal);
+    }
+  }
+
+  /**
+   * Crawl-delay of an origin whose robots.txt is already cached, capped like
+   * in `enforce` mode. Never fetches robots.txt itself.
+   */
+  crawlDelayMs(origin: string): number | undefined {
+    if (this.robotsConfig.mode === 'ignore') return undefined;
+    const cached = this.entries.get(origin);
+    if (!cached || cached.expiresAt <= Date.now()) return undefined;
+    const { crawlDelaySeconds } = cached.rules;
+    if (crawlDelaySeconds === undefined) return undefined;
+    return Math.min(
+      crawlDelaySeconds * 1000,
+      this.robotsConfig.maxCrawlDelayMs
+    );
+  }
+
+  private async getRules(
+    origin: string,
+    signal?: AbortSignal
+  ): Promise<RobotsRules> {
+    const cached = this.entries.get(origin);
+    if (cached && cached.expiresAt > Date.now()) return cached.rules;
+
+    let pending = this.inflight.get(origin);
+    if (!pending) {
+      pending = this.loadRules(origin).finally(() => {
+        this.inflight.delete(origin);
+      });
+      this.inflight.set(origin, pending);
+    }
+
+    return withTimeout(
+      pending,
+      0,
+      createAbortSignalError,
+      signal,
+      createAbortSignalError
+    );
+  }
+
+  private async loadRules(origin: string): Promise<RobotsRules> {
+    const robotsUrl = `${origin}/robots.txt`;
+    const { rules, ttlMs } = await this.fetchRules(robotsUrl);
+
+    if (this.entries.size >= ROBOTS_MAX_ORIGINS) {
+      const oldest = this.entries.keys().next();
+      if (!oldest.done) this.entries.delete(oldest.value);
+    }
+    this.entries.delete(origin);
+    this.entries.set(origin, { rules, expiresAt: Date.now() + ttlMs });
+
+    return rules;
+  }
+
+  private async fetchRules(
+    robotsUrl: string
+  ): Promise<{ rules: RobotsRules; ttlMs: number }> {
+    const signal = buildRequestSignal(this.fetcherConfig.timeout);
+    const init = buildRequestInit(DEFAULT_HEADERS, signal);
+
+    try {
+      const { response, url } = await this.redirectFollower.fetchWithRedirects(
+        robotsUrl,
+        init,
+        this.fetcherConfig.maxRedirects
+      );
+
+      if (response.status >= 400 && response.status < 500) {
+        cancelResponseBody(response);
+        return { rules: allowAllRobots(), ttlMs: this.robotsConfig.cacheTtlMs };
+      }
+      if (!response.ok) {
+        cancelResponseBody(response);
+        return this.unreachable(robotsUrl, `HTTP ${response.status}`);
+      }
+
+      const decoded = await decodeResponseIfNeeded(response, url, signal);
+      const { text } = await this.reader.read(
+        decoded,
+        url,
+        this.robotsConfig.maxBytes,
+        signal
+      );
+
+      return {
+        rules: parseRobotsTxt(text, this.productToken),
+        ttlMs: this.robotsConfig.cacheTtlMs,
+      };
+    } catch (error: unknown) {
+      return this.unreachable(
+        robotsUrl,
+        isError(error) ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  private unreachable(
+    robotsUrl: string,
+    reason: string
+  ): { rules: RobotsRules; ttlMs: number } {
+    this.logger.warn('robots.txt unreachable; disallowing origin', {
+      url: this.redactor.redact(robotsUrl),
+      reason,
+    });
+    return { rules: disallowAllRobots(), ttlMs: ROBOTS_UNREACHABLE_TTL_MS };
+  }
+
+  private async waitForCrawlDelay(
+    origin: string,
+    rules: RobotsRules,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (rules.crawlDelaySeconds === undefined) return;
+
+    const intervalMs = Math.min(
+      rules.crawlDelaySeconds * 1000,
+      this.robotsConfig.maxCrawlDelayMs
+    );
+    const now = Date.now();
+    const scheduledAt = Math.max(now, this.nextRequestAt.get(origin) ?? 0);
+
+    this.pruneSchedule(now);
+    this.nextRequestAt.set(origin, scheduledAt + intervalMs);
+
+    if (scheduledAt > now) {
+      await delay(scheduledAt - now, undefined, signal ? { signal } : {});
+    }
+  }
+
+  private pruneSchedule(now: number): void {
+    if (this.nextRequestAt.size < ROBOTS_MAX_ORIGINS) return;
+    for (const [origin, at] of this.nextRequestAt) {
+      if (at <= now) this.nextRequestAt.delete(origin);
+    }
+  }
+}
+
+// Server errors, rate limits, timeouts and network failures count against a
+// host; client errors and cancellations do not.
+function isHostFailure(error: FetchError): boolean {
+  return error.statusCode === 429 || error.statusCode >= 500;
+}
+
+type RetryConfig = FetcherConfig['retry'];
+
+// Network errors map to 502. A plain 500 usually means a server bug and is
+// not retried.
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+// Unknown hosts and refused proxy tunnels do not clear up within seconds.
+const NON_RETRYABLE_CODES = new Set(['ENOTFOUND', 'EPROXY']);
+// Broken redirects surface as 502 but fail the same way on every attempt.
+const NON_RETRYABLE_REASONS = new Set([
+  'host_backoff',
+  'too_many_redirects',
+  'missing_redirect_location',
+]);
+
+/**
+ * Delay before the next attempt, or `null` when the failure is not
+ * transient. Our own timeouts already used the whole fetch budget, and a
+ * `Retry-After` above the cap is left to the caller.
+ */
+function resolveRetryDelayMs(
+  error: FetchError,
+  attempt: number,
+  retry: RetryConfig
+): number | null {
+  if (!RETRYABLE_STATUSES.has(error.statusCode)) return null;
+  const { reason, retryAfter, timeout, code } = error.details;
+  if (timeout !== undefined) return null;
+  if (typeof reason === 'string' && NON_RETRYABLE_REASONS.has(reason)) {
+    return null;
+  }
+  if (typeof code === 'string' && NON_RETRYABLE_CODES.has(code)) return null;
+
+  if (typeof retryAfter === 'number') {
+    const retryAfterMs = retryAfter * 1000;
+    return retryAfterMs <= retry.maxDelayMs ? retryAfterMs : null;
+  }
+
+  // Exponential backoff with "equal jitter": half fixed, half random.
+  const backoffMs = Math.min(
+    retry.baseDelayMs * 2 ** (attempt - 1),
+    retry.maxDelayMs
+  );
+  const halfMs = Math.floor(backoffMs / 2);
+  return halfMs + randomInt(0, halfMs + 1);
+}
+
 class HttpFetcher {
   constructor(
     private readonly fetcherConfig: FetcherConfig,
     private readonly dnsResolver: SafeDnsResolver,
     private readonly redirectFollower: RedirectFollower,
     private readonly reader: ResponseTextReader,
-    private readonly telemetry: FetchTelemetry
+    private readonly telemetry: FetchTelemetry,
+    private readonly scheduler: OriginScheduler,
+    private readonly hostCache?: HostCache
   ) {}
 
   async fetchNormalizedUrl(
@@ -1856,15 +2397,22 @@ class HttpFetcher {
   async fetchNormalizedUrlBuffer(
     normalizedUrl: string,
     options?: FetchOptions
-  ): Promise<{
-    buffer: Uint8Array;
-    encoding: string;
-    truncated: boolean;
-    finalUrl: string;
-  }> {
+  ): Promise<FetchedBuffer> {
     return this.fetchNormalized(normalizedUrl, 'buffer', options);
   }
 
+  /**
+   * Conditional GET for a previously cached URL. Resolves to a
+   * `NotModifiedResult` when the origin answers 304.
+   */
+  async revalidateNormalizedUrlBuffer(
+    normalizedUrl: string,
+    validators: CacheValidators,
+    options?: FetchOptions
+  ): Promise<FetchedBuffer | NotModifiedResult> {
+    return this.fetchNormalized(normalizedUrl, 'buffer', options, validators);
+  }
+
   private async fetchNormalized(
     normalizedUrl: string,
     mode: 'text',
@@ -1874,34 +2422,108 @@ class HttpFetcher {
     normalizedUrl: string,
     mode: 'buffer',
     options?: FetchOptions
-  ): Promise<{
-    buffer: Uint8Array;
-    encoding: string;
-    truncated: boolean;
-    finalUrl: string;
-  }>;
+  ): Promise<FetchedBuffer>;
+  private async fetchNormalized(
+    normalizedUrl: string,
+    mode: 'buffer',
+    options: FetchOptions | undefined,
+    validators: CacheValidators
+  ): Promise<FetchedBuffer | NotModifiedResult>;
   private async fetchNormalized(
     normalizedUrl: string,
     mode: 'text' | 'buffer',
-    options?: FetchOptions
-  ): Promise<
-    | string
-    | {
-        buffer: Uint8Array;
-        encoding: string;
-        truncated: boolean;
-        finalUrl: string;
-      }
-  > {
+    options?: FetchOptions,
+    validators?: CacheValidators
+  ): Promise<string | FetchedBuffer | NotModifiedResult> {
     const hostname = extractHostname(normalizedUrl);
+    const backoffMs = this.hostCache?.backoffRemainingMs(hostname) ?? 0;
+    if (backoffMs > 0) {
+      throw createHostBackoffFetchError(normalizedUrl, hostname, backoffMs);
+    }
 
+    const { retry } = this.fetcherConfig;
+    for (let attempt = 1; ; attempt += 1) {
+      const release = await this.acquireSlot(normalizedUrl, options?.signal);
+      const ctx = this.telemetry.start(normalizedUrl, 'GET');
+      let mapped: FetchError;
+      try {
+        return await this.fetchAttempt(
+          ctx,
+          normalizedUrl,
+          hostname,
+          mode,
+          options,
+          validators
+        );
+      } catch (error: unknown) {
+        mapped = mapFetchError(
+          error,
+          normalizedUrl,
+          this.fetcherConfig.timeout
+        );
+      } finally {
+        release();
+      }
+
+      const delayMs =
+        attempt < retry.maxAttempts
+          ? resolveRetryDelayMs(mapped, attempt, retry)
+          : null;
+      if (delayMs === null) {
+        if (isHostFailure(mapped)) this.recordHostFailure(mapped, hostname);
+        throw mapped;
+      }
+
+      const event: FetchRetryEvent = {
+        attempt: attempt + 1,
+        maxAttempts: retry.maxAttempts,
+        delayMs,
+        status: mapped.statusCode,
+        reason: mapped.message,
+      };
+      this.telemetry.recordRetry(ctx, event);
+      options?.onRetry?.(event);
+      await this.waitBeforeRetry(normalizedUrl, delayMs, options?.signal);
+    }
+  }
+
+  // Every attempt, retries included, waits for a slot of the target origin.
+  private async acquireSlot(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<ReleaseSlot> {
+    try {
+      return await this.scheduler.acquire(new URL(url).origin, signal);
+    } catch {
+      throw createCanceledFetchError(url);
+    }
+  }
+
+  private async waitBeforeRetry(
+    url: string,
+    delayMs: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    try {
+      await delay(delayMs, undefined, signal ? { signal } : {});
+    } catch {
+      throw createCanceledFetchError(url);
+    }
+  }
+
+  private async fetchAttempt(
+    ctx: FetchTelemetryContext,
+    normalizedUrl: string,
+    hostname: string,
+    mode: 'text' | 'buffer',
+    options?: FetchOptions,
+    validators?: CacheValidators
+  ): Promise<string | FetchedBuffer | NotModifiedResult> {
     const timeoutMs = this.fetcherConfig.timeout;
-    const headers = buildHeaders();
+    const headers = buildHeaders(validators);
     const signal = buildRequestSignal(timeoutMs, options?.signal);
     const init = buildRequestInit(headers, signal);
 
-    const ctx = this.telemetry.start(normalizedUrl, 'GET');
-
     try {
       await this.dnsResolver.assertSafeHostname(hostname, signal ?? undefined);
 
@@ -1913,6 +2535,20 @@ class HttpFetcher {
         );
 
       ctx.url = this.telemetry.redact(finalUrl);
+      if (response.status < 500 && response.status !== 429) {
+        this.hostCache?.recordSuccess(hostname);
+        this.hostCache?.recordSuccess(extractHostname(finalUrl));
+      }
+
+      if (validators && response.status === 304) {
+        cancelResponseBody(response);
+        this.telemetry.recordResponse(ctx, response, 0);
+        return {
+          notModified: true,
+          finalUrl,
+          validators: readValidators(response.headers) ?? validators,
+        };
+      }
 
       const payload = await readAndRecordDecodedResponse(
         response,
@@ -1922,16 +2558,20 @@ class HttpFetcher {
         this.reader,
         this.fetcherConfig.maxContentLength,
         mode,
-        init.signal ?? undefined
+        init.signal ?? undefined,
+        options?.allowGzip
       );
 
       if (payload.kind === 'text') return payload.text;
 
+      const responseValidators = readValidators(response.headers);
       return {
         buffer: payload.buffer,
         encoding: payload.encoding,
+        ...(payload.mediaType ? { mediaType: payload.mediaType } : {}),
         truncated: payload.truncated,
         finalUrl,
+        ...(responseValidators ? { validators: responseValidators } : {}),
       };
     } catch (error: unknown) {
       const mapped = mapFetchError(error, normalizedUrl, timeoutMs);
@@ -1940,6 +2580,18 @@ class HttpFetcher {
       throw mapped;
     }
   }
+
+  private recordHostFailure(error: FetchError, fallbackHostname: string): void {
+    if (!this.hostCache) return;
+    const failedHostname = URL.canParse(error.url)
+      ? new URL(error.url).hostname
+      : fallbackHostname;
+    const { retryAfter } = error.details;
+    this.hostCache.recordFailure(
+      failedHostname,
+      typeof retryAfter === 'number' ? retryAfter * 1000 : undefined
+    );
+  }
 }
 
 const ipBlocker = new IpBlocker(config.security);
@@ -1950,10 +2602,14 @@ const urlNormalizer = new UrlNormalizer(
   BLOCKED_HOST_SUFFIXES
 );
 const rawUrlTransformer = new RawUrlTransformer(defaultLogger);
+const hostCache = config.hostCache.enabled
+  ? new HostCache(config.hostCache)
+  : undefined;
 const dnsResolver = new SafeDnsResolver(
   ipBlocker,
   config.security,
-  BLOCKED_HOST_SUFFIXES
+  BLOCKED_HOST_SUFFIXES,
+  hostCache
 );
 const telemetry = new FetchTelemetry(
   defaultLogger,
@@ -1963,23 +2619,55 @@ const telemetry = new FetchTelemetry(
 const normalizeRedirectUrl = (url: string): string =>
   urlNormalizer.validateAndNormalize(url);
 const dnsPreflight = createDnsPreflight(dnsResolver);
+const responseReader = new ResponseTextReader();
+
+const hostHeaders = HostHeaders.fromFile(config.fetcher.hostHeadersFile);
+registerLogSecrets(hostHeaders.secretValues());
+
+// robots.txt itself is fetched with DNS preflight only.
+const robotsPolicy = new RobotsTxtPolicy(
+  config.robots,
+  config.fetcher,
+  new RedirectFollower(
+    outboundFetch,
+    normalizeRedirectUrl,
+    dnsPreflight,
+    hostHeaders
+  ),
+  responseReader,
+  defaultLogger,
+  defaultRedactor
+);
 
-// Redirect follower with per-hop DNS preflight.
+// Redirect follower with per-hop DNS and robots.txt preflight. Crawl-delay is
+// left to the `OriginScheduler` of `httpFetcher`, so no hop sleeps while
+// holding an origin slot.
 const secureRedirectFollower = new RedirectFollower(
-  defaultFetch,
+  outboundFetch,
   normalizeRedirectUrl,
-  dnsPreflight
+  async (url, signal) => {
+    await dnsPreflight(url, signal);
+    await robotsPolicy.check(url, signal, { waitForCrawlDelay: false });
+  },
+  hostHeaders,
+  hostCache
 );
-
-const responseReader = new ResponseTextReader();
 const httpFetcher = new HttpFetcher(
   config.fetcher,
   dnsResolver,
   secureRedirectFollower,
   responseReader,
-  telemetry
+  telemetry,
+  new OriginScheduler(config.fetcher.perOrigin, (origin) =>
+    robotsPolicy.crawlDelayMs(origin)
+  ),
+  hostCache
 );
 
+export function getHostCacheStats(): HostCacheStats | null {
+  return hostCache?.stats() ?? null;
+}
+
 export function isBlockedIp(ip: string): boolean {
   return ipBlocker.isBlockedIp(ip);
 }
@@ -1995,6 +2683,21 @@ export function validateAndNormalizeUrl(urlString: string): string {
   return urlNormalizer.validateAndNormalize(urlString);
 }
 
+/**
+ * Applies the checks `HttpFetcher` runs before a request: URL policy, DNS
+ * resolution to public addresses, and robots.txt. For fetches made on the
+ * server's behalf by another component, such as a page renderer.
+ */
+export async function assertFetchableUrl(
+  url: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const normalizedUrl = urlNormalizer.validateAndNormalize(url);
+  await dnsPreflight(normalizedUrl, signal);
+  await robotsPolicy.check(normalizedUrl, signal);
+  return normalizedUrl;
+}
+
 export function transformToRawUrl(url: string): TransformResult {
   return rawUrlTransformer.transformToRawUrl(url);
 }
@@ -2062,11 +2765,18 @@ export async function fetchNormalizedUrl(
 export async function fetchNormalizedUrlBuffer(
   normalizedUrl: string,
   options?: FetchOptions
-): Promise<{
-  buffer: Uint8Array;
-  encoding: string;
-  truncated: boolean;
-  finalUrl: string;
-}> {
+): Promise<FetchedBuffer> {
   return httpFetcher.fetchNormalizedUrlBuffer(normalizedUrl, options);
 }
+
+export async function revalidateNormalizedUrlBuffer(
+  normalizedUrl: string,
+  validators: CacheValidators,
+  options?: FetchOptions
+): Promise<FetchedBuffer | NotModifiedResult> {
+  return httpFetcher.revalidateNormalizedUrlBuffer(
+    normalizedUrl,
+    validators,
+    options
+  );
+}
@@ -0,0 +1,182 @@
+/* -------------------------------------------------------------------------------------------------
+ * Types
+ * ------------------------------------------------------------------------------------------------- */
+
+export interface HostCacheOptions {
+  maxEntries: number;
+  /** Used when the DNS TTL of a host cannot be resolved. */
+  dnsFallbackTtlMs: number;
+  dnsMaxTtlMs: number;
+  redirectTtlMs: number;
+  /** Consecutive failures before a host is backed off. */
+  failureThreshold: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+}
+
+export interface HostCacheStats {
+  dns: { entries: number; hits: number; misses: number };
+  redirects: { entries: number; hits: number };
+  backoff: { failingHosts: number; backedOffHosts: number; rejected: number };
+}
+
+interface ExpiringEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+interface HostHealth {
+  failures: number;
+  backoffUntil: number;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Host cache
+ * ------------------------------------------------------------------------------------------------- */
+
+// Insertion-ordered maps: re-inserting moves a key to the end, so the first
+// key is the least recently written one.
+function setBounded<K, V>(map: Map<K, V>, key: K, value: V, max: number): void {
+  map.delete(key);
+  if (map.size >= max) {
+    const oldest = map.keys().next();
+    if (!oldest.done) map.delete(oldest.value);
+  }
+  map.set(key, value);
+}
+
+function readUnexpired<K, T>(
+  map: Map<K, ExpiringEntry<T>>,
+  key: K,
+  now: number
+): T | undefined {
+  const entry = map.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt > now) return entry.value;
+  map.delete(key);
+  return undefined;
+}
+
+/**
+ * Per-host decisions remembered across fetches: hostnames whose CNAME chain
+ * passed the DNS safety checks, permanent (301/308) redirects, and hosts
+ * that keep failing or rate-limiting. Held in memory for the life of the
+ * process; nothing is written to disk.
+ */
+export class HostCache {
+  private readonly validatedHosts = new Map<string, ExpiringEntry<true>>();
+  private readonly redirects = new Map<string, ExpiringEntry<string>>();
+  private readonly health = new Map<string, HostHealth>();
+  private readonly counters = {
+    dnsHits: 0,
+    dnsMisses: 0,
+    redirectHits: 0,
+    rejected: 0,
+  };
+
+  constructor(
+    private readonly options: HostCacheOptions,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  isHostnameValidated(hostname: string): boolean {
+    const hit = readUnexpired(this.validatedHosts, hostname, this.now());
+    if (hit) this.counters.dnsHits += 1;
+    else this.counters.dnsMisses += 1;
+    return hit === true;
+  }
+
+  /** `ttlMs` is the DNS TTL of the answer; a TTL of 0 is not cached. */
+  rememberValidatedHostname(hostname: string, ttlMs?: number): void {
+    const resolvedTtl = Math.min(
+      ttlMs ?? this.options.dnsFallbackTtlMs,
+      this.options.dnsMaxTtlMs
+    );
+    if (resolvedTtl <= 0) return;
+    setBounded(
+      this.validatedHosts,
+      hostname,
+      { value: true, expiresAt: this.now() + resolvedTtl },
+      this.options.maxEntries
+    );
+  }
+
+  permanentRedirectFor(url: string): string | undefined {
+    const target = readUnexpired(this.redirects, url, this.now());
+    if (target !== undefined) this.counters.redirectHits += 1;
+    return target;
+  }
+
+  rememberPermanentRedirect(url: string, target: string): void {
+    if (url === target) return;
+    setBounded(
+      this.redirects,
+      url,
+      { value: target, expiresAt: this.now() + this.options.redirectTtlMs },
+      this.options.maxEntries
+    );
+  }
+
+  /** Milliseconds left in the host's back-off window, or 0. */
+  backoffRemainingMs(hostname: string): number {
+    const entry = this.health.get(hostname);
+    if (!entry) return 0;
+    const remaining = entry.backoffUntil - this.now();
+    if (remaining <= 0) return 0;
+    this.counters.rejected += 1;
+    return remaining;
+  }
+
+  /**
+   * Counts a failed request. From `failureThreshold` consecutive failures
+   * on, the host is backed off for an exponentially growing window, or for
+   * its `Retry-After` when that is longer.
+   */
+  recordFailure(hostname: string, retryAfterMs?: number): void {
+    const failures = (this.health.get(hostname)?.failures ?? 0) + 1;
+    const { failureThreshold, backoffBaseMs, backoffMaxMs } = this.options;
+    let backoffUntil = 0;
+    if (failures >= failureThreshold) {
+      const exponential = backoffBaseMs * 2 ** (failures - failureThreshold);
+      const windowMs = Math.min(
+        Math.max(exponential, retryAfterMs ?? 0),
+        backoffMaxMs
+      );
+      backoffUntil = this.now() + windowMs;
+    }
+    setBounded(
+      this.health,
+      hostname,
+      { failures, backoffUntil },
+      this.options.maxEntries
+    );
+  }
+
+  recordSuccess(hostname: string): void {
+    this.health.delete(hostname);
+  }
+
+  stats(): HostCacheStats {
+    const now = this.now();
+    let backedOffHosts = 0;
+    for (const entry of this.health.values()) {
+      if (entry.backoffUntil > now) backedOffHosts += 1;
+    }
+    return {
+      dns: {
+        entries: this.validatedHosts.size,
+        hits: this.counters.dnsHits,
+        misses: this.counters.dnsMisses,
+      },
+      redirects: {
+        entries: this.redirects.size,
+        hits: this.counters.redirectHits,
+      },
+      backoff: {
+        failingHosts: this.health.size,
+        backedOffHosts,
+        rejected: this.counters.rejected,
+      },
+    };
+  }
+}
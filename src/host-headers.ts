@@ -0,0 +1,182 @@
+import { readFileSync } from 'node:fs';
+
+import { z } from 'zod';
+
+import { getErrorMessage } from './errors.js';
+
+/* -------------------------------------------------------------------------------------------------
+ * Schema
+ * ------------------------------------------------------------------------------------------------- */
+
+const HEADER_TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+const FORBIDDEN_HEADERS = new Set([
+  'host',
+  'connection',
+  'content-length',
+  'transfer-encoding',
+  'proxy-authorization',
+]);
+
+const headerValueSchema = z
+  .string()
+  .refine(
+    (value) => !/[\r\n\0]/.test(value),
+    'Header values must be single-line'
+  );
+
+// Names are checked at the record level so errors name the offending key.
+function checkNames(
+  label: string,
+  isForbidden: (name: string) => boolean = () => false
+) {
+  return (record: Record<string, string>, ctx: z.RefinementCtx): void => {
+    for (const name of Object.keys(record)) {
+      if (!HEADER_TOKEN.test(name)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Invalid ${label} name`,
+          path: [name],
+        });
+      } else if (isForbidden(name)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `${label} cannot be overridden`,
+          path: [name],
+        });
+      }
+    }
+  };
+}
+
+const headersSchema = z
+  .record(z.string(), headerValueSchema)
+  .superRefine(
+    checkNames('header', (name) => FORBIDDEN_HEADERS.has(name.toLowerCase()))
+  );
+
+const cookiesSchema = z
+  .record(
+    z.string(),
+    headerValueSchema.refine(
+      (value) => !value.includes(';'),
+      'Cookie values cannot contain ";"'
+    )
+  )
+  .superRefine(checkNames('cookie'));
+
+const hostHeadersFileSchema = z.record(
+  z.string().min(1),
+  z.strictObject({
+    headers: headersSchema.optional(),
+    cookies: cookiesSchema.optional(),
+  })
+);
+
+/* -------------------------------------------------------------------------------------------------
+ * Host header rules
+ * ------------------------------------------------------------------------------------------------- */
+
+interface HostHeaderRule {
+  pattern: URLPattern;
+  headers: Readonly<Record<string, string>>;
+  secrets: readonly string[];
+}
+
+function trimTrailingSlashes(value: string): string {
+  let end = value.length;
+  while (end > 0 && value[end - 1] === '/') end -= 1;
+  return value.slice(0, end);
+}
+
+function compileHostPattern(key: string): URLPattern {
+  // Origins ("https://*.corp.example") match scheme/host/port; bare keys match the hostname.
+  return key.includes('://')
+    ? new URLPattern(`${trimTrailingSlashes(key)}/*`)
+    : new URLPattern({ hostname: key });
+}
+
+function buildRuleHeaders(entry: {
+  headers?: Record<string, string> | undefined;
+  cookies?: Record<string, string> | undefined;
+}): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(entry.headers ?? {})) {
+    headers[name.toLowerCase()] = value;
+  }
+
+  const cookies = Object.entries(entry.cookies ?? {}).map(
+    ([name, value]) => `${name}=${value}`
+  );
+  if (cookies.length > 0) {
+    const existing = headers['cookie'];
+    headers['cookie'] = [existing, ...cookies].filter(Boolean).join('; ');
+  }
+
+  return headers;
+}
+
+/**
+ * Extra request headers (credentials, cookies) keyed by host pattern. The first
+ * matching pattern in file order wins.
+ */
+export class HostHeaders {
+  private constructor(private readonly rules: readonly HostHeaderRule[]) {}
+
+  static empty(): HostHeaders {
+    return new HostHeaders([]);
+  }
+
+  static parse(raw: unknown, source: string): HostHeaders {
+    const parsed = hostHeadersFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid host headers file ${source}:\n${z.prettifyError(parsed.error)}`
+      );
+    }
+
+    const rules = Object.entries(parsed.data).map(([key, entry]) => {
+      try {
+        return {
+          pattern: compileHostPattern(key),
+          headers: buildRuleHeaders(entry),
+          secrets: [
+            ...Object.values(entry.headers ?? {}),
+            ...Object.values(entry.cookies ?? {}),
+          ],
+        };
+      } catch (error: unknown) {
+        throw new Error(
+          `Invalid host pattern "${key}" in ${source}: ${getErrorMessage(error)}`
+        );
+      }
+    });
+    return new HostHeaders(rules);
+  }
+
+  static fromFile(path: string | undefined): HostHeaders {
+    if (!path) return HostHeaders.empty();
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error: unknown) {
+      throw new Error(
+        `Failed to read host headers file ${path}: ${getErrorMessage(error)}`
+      );
+    }
+    return HostHeaders.parse(raw, path);
+  }
+
+  headersFor(url: string): Readonly<Record<string, string>> | undefined {
+    if (this.rules.length === 0) return undefined;
+    return this.rules.find((rule) => rule.pattern.test(url))?.headers;
+  }
+
+  /** Every configured header and cookie value, for log redaction. */
+  secretValues(): string[] {
+    return this.rules.flatMap((rule) => [
+      ...Object.values(rule.headers),
+      ...rule.secrets,
+    ]);
+  }
+}
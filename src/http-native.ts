@@ -30,9 +30,15 @@ import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 
-import { keys as cacheKeys, handleDownload } from './cache.js';
+import {
+  keys as cacheKeys,
+  flush as flushCache,
+  handleDownload,
+} from './cache.js';
 import { config, enableHttpMode, serverVersion } from './config.js';
 import { hmacSha256Hex, timingSafeEqualUtf8 } from './crypto.js';
+import { getHostCacheStats } from './fetch.js';
+import type { HostCacheStats } from './host-cache.js';
 import { normalizeHost } from './host-normalization.js';
 import {
   createDefaultBlockList,
@@ -72,6 +78,7 @@ import {
 } from './session.js';
 import { getTransformPoolStats } from './transform.js';
 import { isObject } from './type-guards.js';
+import { stopWatchesForOwner } from './watch.js';
 
 type NetworkServer = Server | HttpsServer;
 
@@ -1081,6 +1088,7 @@ interface HealthResponse {
       activeWorkers: number;
       capacity: number;
     };
+    hostCache: HostCacheStats | null;
   };
 }
 
@@ -1123,6 +1131,7 @@ function buildHealthResponse(
         activeWorkers: 0,
         capacity: 0,
       },
+      hostCache: getHostCacheStats(),
     },
   };
 }
@@ -1414,6 +1423,7 @@ class McpSessionGateway {
       `session:${sessionId}`,
       'The task was cancelled because the MCP session ended.'
     );
+    stopWatchesForOwner(`session:${sessionId}`);
 
     unregisterMcpSessionServer(sessionId);
     void closeMcpServerBestEffort(session.server, `${context}-server`);
@@ -1432,6 +1442,7 @@ class McpSessionGateway {
               `session:${sessionId}`,
               'The task was cancelled because the MCP session was evicted.'
             );
+            stopWatchesForOwner(`session:${sessionId}`);
             unregisterMcpSessionServer(sessionId);
           }
 
@@ -1730,6 +1741,7 @@ function createShutdownHandler(options: {
               `session:${sessionId}`,
               'The task was cancelled because the HTTP server is shutting down.'
             );
+            stopWatchesForOwner(`session:${sessionId}`);
             unregisterMcpSessionServer(sessionId);
           }
 
@@ -1746,6 +1758,7 @@ function createShutdownHandler(options: {
       );
     }
 
+    await flushCache();
     await new Promise<void>((resolve, reject): void => {
       options.server.close((err): void => {
         if (err) reject(err);
@@ -1,6 +1,6 @@
 import { config } from './config.js';
 import { FetchError } from './errors.js';
-import type { MetadataBlock } from './transform-types.js';
+import type { MarkdownOutlineEntry, MetadataBlock } from './transform-types.js';
 
 // --- Constants & Regex ---
 
@@ -13,6 +13,9 @@ const REGEX = {
   FENCE_START: /^\s*(`{3,}|~{3,})/,
   LIST_MARKER: /^(?:[-*+])\s/m,
   TOC_LINK: /^- \[[^\]]+\]\(#[^)]+\)\s*$/,
+  INLINE_LINK: /\[([^[\]]*)\]\([^()]*\)/g,
+  INLINE_IMAGE: /!\[[^[\]]*\]\([^()]*\)/g,
+  SLUG_STRIP: /[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu,
   TOC_HEADING: /^(?:#{1,6}\s+)?(?:table of contents|contents)\s*$/i,
   HTML_DOC_START: /^(<!doctype|<html)/i,
   COMBINED_LINE_REMOVALS:
@@ -472,6 +475,203 @@ export function cleanupMarkdownArtifacts(
   return segments.join('\n').trim();
 }
 
+// --- Section Extraction ---
+
+interface MarkdownHeading {
+  line: number;
+  /** Character offset of the heading line in the document. */
+  offset: number;
+  level: number;
+  /** Heading text without `#` markers, inline links or emphasis. */
+  text: string;
+}
+
+function cleanHeadingText(text: string): string {
+  return text
+    .replace(REGEX.INLINE_IMAGE, '')
+    .replace(REGEX.INLINE_LINK, '$1')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function normalizeHeadingText(text: string): string {
+  return cleanHeadingText(text).toLocaleLowerCase(config.i18n.locale);
+}
+
+function parseHeadingLine(
+  line: string
+): { level: number; text: string } | null {
+  let level = 0;
+  while (level < line.length && line[level] === '#') level += 1;
+  if (level === 0 || level > 6) return null;
+
+  const rest = line.slice(level);
+  if (rest && !/^[ \t]/.test(rest)) return null;
+
+  // Closing sequence: "## Title ##".
+  let end = rest.length;
+  while (end > 0 && rest[end - 1] === '#') end -= 1;
+  const text =
+    end < rest.length && /\s$/.test(rest.slice(0, end))
+      ? rest.slice(0, end)
+      : rest;
+  return { level, text: cleanHeadingText(text) };
+}
+
+function collectHeadings(
+  lines: readonly string[],
+  lineEnding: string
+): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  let fenceMarker: string | null = null;
+  let offset = 0;
+
+  lines.forEach((line, index) => {
+    const lineOffset = offset;
+    offset += line.length + lineEnding.length;
+
+    const trimmed = line.trimStart();
+    if (fenceMarker) {
+      if (isFenceClosure(trimmed, fenceMarker)) fenceMarker = null;
+      return;
+    }
+
+    fenceMarker = checkFenceStart(line);
+    if (fenceMarker) return;
+
+    const heading = parseHeadingLine(line);
+    if (heading) headings.push({ line: index, offset: lineOffset, ...heading });
+  });
+
+  return headings;
+}
+
+// GitHub-style anchor: lowercase, punctuation dropped, spaces to hyphens.
+function slugifyHeading(text: string): string {
+  return text
+    .toLocaleLowerCase(config.i18n.locale)
+    .replace(REGEX.SLUG_STRIP, '')
+    .replaceAll(' ', '-');
+}
+
+/**
+ * Lists the document's headings outside code fences with GitHub-style
+ * anchors (repeated anchors get `-1`, `-2`, ... suffixes) and the character
+ * offset of each heading line.
+ */
+export function buildMarkdownOutline(content: string): MarkdownOutlineEntry[] {
+  const lineEnding = getLineEnding(content);
+  const seen = new Map<string, number>();
+
+  return collectHeadings(content.split(lineEnding), lineEnding)
+    .filter((heading) => heading.text.length > 0)
+    .map(({ level, text, offset }) => {
+      const slug = slugifyHeading(text);
+      const count = seen.get(slug) ?? 0;
+      seen.set(slug, count + 1);
+      return {
+        level,
+        text,
+        anchor: count === 0 ? slug : `${slug}-${count}`,
+        offset,
+      };
+    });
+}
+
+/**
+ * Returns the section starting at the first heading whose text equals
+ * `heading` (falling back to the first that contains it), up to the next
+ * heading of the same or a higher level. Matching ignores case and inline
+ * formatting. Returns `null` when no heading matches.
+ */
+export function extractMarkdownSection(
+  content: string,
+  heading: string
+): string | null {
+  const target = normalizeHeadingText(heading);
+  if (!target) return null;
+
+  const lineEnding = getLineEnding(content);
+  const lines = content.split(lineEnding);
+  const headings = collectHeadings(lines, lineEnding).map((candidate) => ({
+    ...candidate,
+    text: candidate.text.toLocaleLowerCase(config.i18n.locale),
+  }));
+
+  const match =
+    headings.find((candidate) => candidate.text === target) ??
+    headings.find((candidate) => candidate.text.includes(target));
+  if (!match) return null;
+
+  const next = headings.find(
+    (candidate) => candidate.line > match.line && candidate.level <= match.level
+  );
+  return lines
+    .slice(match.line, next?.line ?? lines.length)
+    .join(lineEnding)
+    .trim();
+}
+
+export interface MarkdownSection {
+  /** Heading line as written; absent for content before the first heading. */
+  heading?: string;
+  /** Blank-line separated blocks; a fenced code block is never split. */
+  blocks: string[];
+}
+
+class SectionSplitter {
+  readonly sections: MarkdownSection[] = [];
+  private current: MarkdownSection = { blocks: [] };
+  private block: string[] = [];
+  private fenceMarker: string | null = null;
+
+  push(line: string): void {
+    if (this.fenceMarker) {
+      this.block.push(line);
+      if (isFenceClosure(line.trimStart(), this.fenceMarker)) {
+        this.fenceMarker = null;
+      }
+      return;
+    }
+
+    this.fenceMarker = checkFenceStart(line);
+    if (this.fenceMarker) {
+      this.block.push(line);
+    } else if (parseHeadingLine(line)) {
+      this.flushSection();
+      this.current = { heading: line, blocks: [] };
+    } else if (isBlank(line)) {
+      this.flushBlock();
+    } else {
+      this.block.push(line);
+    }
+  }
+
+  flushSection(): void {
+    this.flushBlock();
+    if (this.current.heading !== undefined || this.current.blocks.length > 0) {
+      this.sections.push(this.current);
+    }
+  }
+
+  private flushBlock(): void {
+    if (this.block.length === 0) return;
+    this.current.blocks.push(this.block.join('\n'));
+    this.block = [];
+  }
+}
+
+/** Splits Markdown into heading-delimited sections of paragraph blocks. */
+export function splitMarkdownSections(content: string): MarkdownSection[] {
+  const splitter = new SectionSplitter();
+  for (const line of content.split(getLineEnding(content))) {
+    splitter.push(line);
+  }
+  splitter.flushSection();
+  return splitter.sections;
+}
+
 // --- Frontmatter & Metadata Utilities ---
 
 interface FrontmatterRange {
@@ -700,3 +900,18 @@ export function buildMetadataFooter(
 
   return lines.join('\n');
 }
+
+const FOOTER_START = '---\n\n ';
+
+/**
+ * Removes a trailing footer built by `buildMetadataFooter`. Its lines start
+ * with a space, which keeps it apart from a closing thematic break.
+ */
+export function stripMetadataFooter(content: string): string {
+  const start = content.lastIndexOf(`\n${FOOTER_START}`) + 1;
+  if (!content.startsWith(FOOTER_START, start)) return content;
+
+  const lines = content.slice(start + FOOTER_START.length - 1).split('\n');
+  if (!lines.every((line) => line.startsWith(' '))) return content;
+  return content.slice(0, start).trimEnd();
+}
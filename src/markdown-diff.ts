@@ -0,0 +1,324 @@
+import {
+  buildMarkdownOutline,
+  splitMarkdownSections,
+} from './markdown-cleanup.js';
+
+/* -------------------------------------------------------------------------------------------------
+ * Line diff (Myers)
+ * ------------------------------------------------------------------------------------------------- */
+
+type DiffMarker = ' ' | '+' | '-';
+
+interface DiffLine {
+  marker: DiffMarker;
+  text: string;
+  /** Lines of the old and new document before this one. */
+  oldIndex: number;
+  newIndex: number;
+}
+
+// Beyond this many edits the changed region is reported as replaced whole;
+// the trace grows with the square of the edit count.
+const MAX_EDIT_DISTANCE = 2000;
+
+function shortestEditTrace(
+  a: readonly string[],
+  b: readonly string[]
+): Int32Array[] | null {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d += 1) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      const down =
+        k === -d ||
+        (k !== d && (v[offset + k - 1] ?? 0) < (v[offset + k + 1] ?? 0));
+      let x = down ? (v[offset + k + 1] ?? 0) : (v[offset + k - 1] ?? 0) + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x += 1;
+        y += 1;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) return trace;
+    }
+  }
+  return null;
+}
+
+function backtrack(
+  a: readonly string[],
+  b: readonly string[],
+  trace: readonly Int32Array[]
+): DiffMarker[] {
+  const markers: DiffMarker[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d -= 1) {
+    const v = trace[d];
+    if (!v) break;
+    const at = (k: number): number => v[k + d + 1] ?? 0;
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      markers.push(' ');
+      x -= 1;
+      y -= 1;
+    }
+    if (d > 0) markers.push(x === prevX ? '+' : '-');
+    x = prevX;
+    y = prevY;
+  }
+  return markers.reverse();
+}
+
+function diffMiddle(a: readonly string[], b: readonly string[]): DiffMarker[] {
+  const trace = shortestEditTrace(a, b);
+  if (trace) return backtrack(a, b, trace);
+  return [...a.map((): DiffMarker => '-'), ...b.map((): DiffMarker => '+')];
+}
+
+function diffLines(a: readonly string[], b: readonly string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const markers: DiffMarker[] = [
+    ...Array.from({ length: prefix }, (): DiffMarker => ' '),
+    ...diffMiddle(
+      a.slice(prefix, a.length - suffix),
+      b.slice(prefix, b.length - suffix)
+    ),
+    ...Array.from({ length: suffix }, (): DiffMarker => ' '),
+  ];
+
+  const lines: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const marker of markers) {
+    const text = marker === '+' ? b[newIndex] : a[oldIndex];
+    lines.push({ marker, text: text ?? '', oldIndex, newIndex });
+    if (marker !== '+') oldIndex += 1;
+    if (marker !== '-') newIndex += 1;
+  }
+  return lines;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Unified format
+ * ------------------------------------------------------------------------------------------------- */
+
+function formatRange(index: number, length: number): string {
+  if (length === 1) return String(index + 1);
+  // An empty range names the line before it, as `diff -u` does.
+  return `${length === 0 ? index : index + 1},${length}`;
+}
+
+function formatHunk(lines: readonly DiffLine[]): string {
+  const first = lines[0];
+  const oldLength = lines.filter((line) => line.marker !== '+').length;
+  const newLength = lines.filter((line) => line.marker !== '-').length;
+  const header = `@@ -${formatRange(first?.oldIndex ?? 0, oldLength)} +${formatRange(first?.newIndex ?? 0, newLength)} @@`;
+  return [header, ...lines.map((line) => `${line.marker}${line.text}`)].join(
+    '\n'
+  );
+}
+
+function formatHunks(lines: readonly DiffLine[], context: number): string[] {
+  const changes = lines.flatMap((line, index) =>
+    line.marker === ' ' ? [] : [index]
+  );
+  const hunks: string[] = [];
+
+  let cursor = 0;
+  while (cursor < changes.length) {
+    const first = changes[cursor] ?? 0;
+    let last = first;
+    // Hunks whose context would touch are merged.
+    while (
+      cursor + 1 < changes.length &&
+      (changes[cursor + 1] ?? 0) - last <= 2 * context + 1
+    ) {
+      cursor += 1;
+      last = changes[cursor] ?? last;
+    }
+    hunks.push(
+      formatHunk(lines.slice(Math.max(0, first - context), last + context + 1))
+    );
+    cursor += 1;
+  }
+  return hunks;
+}
+
+function splitLines(markdown: string): string[] {
+  return markdown === '' ? [] : markdown.split(/\r?\n/);
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Section comparison
+ * ------------------------------------------------------------------------------------------------- */
+
+export interface SectionChange {
+  /** Heading line as written; absent for content before the first heading. */
+  heading?: string;
+  status: 'added' | 'removed' | 'changed';
+  /** Unified hunks of the section body, without file header lines. */
+  diff: string;
+}
+
+// Repeated headings are matched by occurrence: the second "## Example"
+// before is compared with the second one after.
+function keyedSections(markdown: string): Map<string, string> {
+  const counts = new Map<string, number>();
+  const sections = new Map<string, string>();
+  for (const section of splitMarkdownSections(markdown)) {
+    const heading = section.heading?.trim() ?? '';
+    const count = counts.get(heading) ?? 0;
+    counts.set(heading, count + 1);
+    sections.set(`${count}\u0000${heading}`, section.blocks.join('\n\n'));
+  }
+  return sections;
+}
+
+function headingFromKey(key: string): { heading?: string } {
+  const heading = key.slice(key.indexOf('\u0000') + 1);
+  return heading ? { heading } : {};
+}
+
+function diffSection(
+  key: string,
+  status: SectionChange['status'],
+  bodies: readonly [string, string],
+  context: number
+): SectionChange {
+  const lines = diffLines(splitLines(bodies[0]), splitLines(bodies[1]));
+  return {
+    ...headingFromKey(key),
+    status,
+    diff: formatHunks(lines, context).join('\n'),
+  };
+}
+
+function diffSections(
+  before: string,
+  after: string,
+  context: number
+): SectionChange[] {
+  const previous = keyedSections(before);
+  const current = keyedSections(after);
+  const changes: SectionChange[] = [];
+
+  for (const [key, body] of current) {
+    const old = previous.get(key);
+    if (old === undefined) {
+      changes.push(diffSection(key, 'added', ['', body], context));
+    } else if (old !== body) {
+      changes.push(diffSection(key, 'changed', [old, body], context));
+    }
+  }
+  for (const [key, body] of previous) {
+    if (!current.has(key)) {
+      changes.push(diffSection(key, 'removed', [body, ''], context));
+    }
+  }
+  return changes;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Public API
+ * ------------------------------------------------------------------------------------------------- */
+
+export interface MarkdownDiffOptions {
+  mode: 'unified' | 'sections';
+  /** Unchanged lines shown around each change. */
+  context: number;
+  /** Labels for the `---` and `+++` header lines of a unified diff. */
+  labels?: readonly [string, string];
+}
+
+export interface MarkdownDiff {
+  changed: boolean;
+  addedLines: number;
+  removedLines: number;
+  /** Heading texts only in the new document, in document order. */
+  addedHeadings: string[];
+  removedHeadings: string[];
+  /** Unified diff; set in `unified` mode when something changed. */
+  unified?: string;
+  /** Changed sections in new-document order, then removed ones. */
+  sections?: SectionChange[];
+}
+
+function subtractHeadings(
+  from: readonly string[],
+  other: readonly string[]
+): string[] {
+  const remaining = new Map<string, number>();
+  for (const text of other) remaining.set(text, (remaining.get(text) ?? 0) + 1);
+  return from.filter((text) => {
+    const count = remaining.get(text) ?? 0;
+    remaining.set(text, count - 1);
+    return count <= 0;
+  });
+}
+
+/**
+ * Compares two Markdown documents line by line. Heading changes are
+ * counted as multisets of heading texts, so a moved heading is neither
+ * added nor removed.
+ */
+export function diffMarkdown(
+  before: string,
+  after: string,
+  options: MarkdownDiffOptions
+): MarkdownDiff {
+  const lines = diffLines(splitLines(before), splitLines(after));
+  const addedLines = lines.filter((line) => line.marker === '+').length;
+  const removedLines = lines.filter((line) => line.marker === '-').length;
+  const changed = addedLines > 0 || removedLines > 0;
+
+  const beforeHeadings = buildMarkdownOutline(before).map(({ text }) => text);
+  const afterHeadings = buildMarkdownOutline(after).map(({ text }) => text);
+  const result: MarkdownDiff = {
+    changed,
+    addedLines,
+    removedLines,
+    addedHeadings: subtractHeadings(afterHeadings, beforeHeadings),
+    removedHeadings: subtractHeadings(beforeHeadings, afterHeadings),
+  };
+
+  if (options.mode === 'sections') {
+    return {
+      ...result,
+      sections: diffSections(before, after, options.context),
+    };
+  }
+  if (!changed) return result;
+
+  const [from, to] = options.labels ?? ['previous', 'current'];
+  return {
+    ...result,
+    unified: [
+      `--- ${from}`,
+      `+++ ${to}`,
+      ...formatHunks(lines, options.context),
+    ].join('\n'),
+  };
+}
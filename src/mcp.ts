@@ -5,19 +5,42 @@ import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import {
   CallToolRequestSchema,
+  type CallToolResult,
   ErrorCode,
   McpError,
   type ServerResult,
 } from '@modelcontextprotocol/sdk/types.js';
 
+import { config } from './config.js';
 import { logWarn, runWithRequestContext } from './observability.js';
 import { type CreateTaskResult, taskManager, type TaskState } from './tasks.js';
 import {
+  CRAWL_TOOL_NAME,
+  crawlInputSchema,
+  crawlToolHandler,
+  DIFF_URL_TOOL_NAME,
+  diffUrlInputSchema,
+  diffUrlToolHandler,
+  DISCOVER_URLS_TOOL_NAME,
+  discoverUrlsInputSchema,
+  discoverUrlsToolHandler,
   FETCH_URL_TOOL_NAME,
-  type FetchUrlInput,
+  FETCH_URLS_TOOL_NAME,
   fetchUrlInputSchema,
+  fetchUrlsInputSchema,
+  fetchUrlsToolHandler,
   fetchUrlToolHandler,
   type ProgressNotification,
+  READ_CACHED_TOOL_NAME,
+  readCachedInputSchema,
+  readCachedToolHandler,
+  SEARCH_TOOL_NAME,
+  searchInputSchema,
+  searchToolHandler,
+  type ToolHandlerExtra,
+  WATCH_URL_TOOL_NAME,
+  watchUrlInputSchema,
+  watchUrlToolHandler,
 } from './tools.js';
 import { isObject } from './type-guards.js';
 
@@ -140,6 +163,7 @@ interface HandlerExtra {
 
 interface ToolCallContext {
   ownerKey: string;
+  sessionId?: string;
   signal?: AbortSignal;
   requestId?: string | number;
   sendNotification?: (notification: ProgressNotification) => Promise<void>;
@@ -217,6 +241,7 @@ function resolveToolCallContext(extra?: HandlerExtra): ToolCallContext {
     ownerKey: resolveTaskOwnerKey(extra),
   };
 
+  if (extra?.sessionId) context.sessionId = extra.sessionId;
   if (extra?.signal) context.signal = extra.signal;
   if (extra?.requestId !== undefined) context.requestId = extra.requestId;
   if (extra?.sendNotification)
@@ -225,15 +250,122 @@ function resolveToolCallContext(extra?: HandlerExtra): ToolCallContext {
   return context;
 }
 
-function requireFetchUrlArgs(args: unknown): FetchUrlInput {
-  const parsed = fetchUrlInputSchema.safeParse(args);
-  if (!parsed.success) {
-    throw new McpError(
-      ErrorCode.InvalidParams,
-      'Invalid arguments for fetch-url'
-    );
-  }
-  return parsed.data;
+/* -------------------------------------------------------------------------------------------------
+ * Tool dispatch table
+ * ------------------------------------------------------------------------------------------------- */
+
+type BoundToolCall = (extra: ToolHandlerExtra) => Promise<CallToolResult>;
+
+interface ToolDispatchEntry {
+  /** Whether the tool may only run as a task. */
+  taskRequired: boolean;
+  /** Whether the tool may not run as a task. */
+  taskForbidden: boolean;
+  /** Validates raw arguments and binds them to the tool handler. */
+  bind: (args: unknown) => BoundToolCall;
+}
+
+function createToolDispatchEntry<T>(
+  name: string,
+  schema: z.ZodType<T>,
+  handler: (args: T, extra?: ToolHandlerExtra) => Promise<CallToolResult>,
+  options?: { taskRequired?: boolean; taskForbidden?: boolean }
+): ToolDispatchEntry {
+  return {
+    taskRequired: options?.taskRequired ?? false,
+    taskForbidden: options?.taskForbidden ?? false,
+    bind: (args) => {
+      const parsed = schema.safeParse(args);
+      if (!parsed.success) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid arguments for ${name}`
+        );
+      }
+      return (extra) => handler(parsed.data, extra);
+    },
+  };
+}
+
+const TOOL_DISPATCH = new Map<string, ToolDispatchEntry>([
+  [
+    FETCH_URL_TOOL_NAME,
+    createToolDispatchEntry(
+      FETCH_URL_TOOL_NAME,
+      fetchUrlInputSchema,
+      fetchUrlToolHandler
+    ),
+  ],
+  [
+    FETCH_URLS_TOOL_NAME,
+    createToolDispatchEntry(
+      FETCH_URLS_TOOL_NAME,
+      fetchUrlsInputSchema,
+      fetchUrlsToolHandler
+    ),
+  ],
+  [
+    CRAWL_TOOL_NAME,
+    createToolDispatchEntry(
+      CRAWL_TOOL_NAME,
+      crawlInputSchema,
+      crawlToolHandler,
+      {
+        taskRequired: true,
+      }
+    ),
+  ],
+  [
+    READ_CACHED_TOOL_NAME,
+    createToolDispatchEntry(
+      READ_CACHED_TOOL_NAME,
+      readCachedInputSchema,
+      readCachedToolHandler,
+      {
+        taskForbidden: true,
+      }
+    ),
+  ],
+  [
+    DIFF_URL_TOOL_NAME,
+    createToolDispatchEntry(
+      DIFF_URL_TOOL_NAME,
+      diffUrlInputSchema,
+      diffUrlToolHandler
+    ),
+  ],
+  [
+    WATCH_URL_TOOL_NAME,
+    createToolDispatchEntry(
+      WATCH_URL_TOOL_NAME,
+      watchUrlInputSchema,
+      watchUrlToolHandler,
+      {
+        taskForbidden: true,
+      }
+    ),
+  ],
+  [
+    SEARCH_TOOL_NAME,
+    createToolDispatchEntry(
+      SEARCH_TOOL_NAME,
+      searchInputSchema,
+      searchToolHandler
+    ),
+  ],
+  [
+    DISCOVER_URLS_TOOL_NAME,
+    createToolDispatchEntry(
+      DISCOVER_URLS_TOOL_NAME,
+      discoverUrlsInputSchema,
+      discoverUrlsToolHandler
+    ),
+  ],
+]);
+
+function resolveToolDispatch(name: string): ToolDispatchEntry | undefined {
+  if (!config.tools.enabled.includes(name)) return undefined;
+  return TOOL_DISPATCH.get(name);
 }
 
 function throwTaskNotFound(): never {
@@ -243,8 +375,9 @@ function throwTaskNotFound(): never {
   );
 }
 
-function requireFetchUrlToolName(name: string): void {
-  if (name === FETCH_URL_TOOL_NAME) return;
+function requireTaskCapableTool(name: string): ToolDispatchEntry {
+  const entry = resolveToolDispatch(name);
+  if (entry && !entry.taskForbidden) return entry;
   throw new McpError(
     ErrorCode.MethodNotFound,
     `Tool '${name}' does not support task execution`
@@ -380,14 +513,14 @@ function updateWorkingTaskStatus(
   if (updated) emitTaskStatusNotification(server, updated);
 }
 
-async function runFetchTaskExecution(params: {
+async function runToolTaskExecution(params: {
   server: McpServer;
   taskId: string;
-  args: FetchUrlInput;
+  run: BoundToolCall;
   meta?: ExtendedCallToolRequest['params']['_meta'];
   sendNotification?: (notification: ProgressNotification) => Promise<void>;
 }): Promise<void> {
-  const { server, taskId, args, meta, sendNotification } = params;
+  const { server, taskId, run, meta, sendNotification } = params;
 
   return runWithRequestContext(
     { requestId: taskId, operationId: taskId },
@@ -397,7 +530,7 @@ async function runFetchTaskExecution(params: {
       try {
         const relatedMeta = buildRelatedTaskMeta(taskId, meta);
 
-        const result = await fetchUrlToolHandler(args, {
+        const result = await run({
           signal: controller.signal,
           requestId: taskId, // Correlation
           _meta: relatedMeta,
@@ -457,8 +590,7 @@ function handleTaskToolCall(
   params: ExtendedCallToolRequest['params'],
   context: ToolCallContext
 ): CreateTaskResult {
-  requireFetchUrlToolName(params.name);
-  const validArgs = requireFetchUrlArgs(params.arguments);
+  const run = requireTaskCapableTool(params.name).bind(params.arguments);
 
   const task = taskManager.createTask(
     params.task?.ttl !== undefined ? { ttl: params.task.ttl } : undefined,
@@ -466,10 +598,10 @@ function handleTaskToolCall(
     context.ownerKey
   );
 
-  void runFetchTaskExecution({
+  void runToolTaskExecution({
     server,
     taskId: task.taskId,
-    args: validArgs,
+    run,
     ...(params._meta ? { meta: params._meta } : {}),
     ...(context.sendNotification
       ? { sendNotification: context.sendNotification }
@@ -488,12 +620,14 @@ function handleTaskToolCall(
 }
 
 async function handleDirectToolCall(
+  entry: ToolDispatchEntry,
   params: ExtendedCallToolRequest['params'],
   context: ToolCallContext
 ): Promise<ServerResult> {
-  const args = requireFetchUrlArgs(params.arguments);
+  const run = entry.bind(params.arguments);
 
   const extra = {
+    ...(context.sessionId ? { sessionId: context.sessionId } : {}),
     ...(context.signal ? { signal: context.signal } : {}),
     ...(context.requestId !== undefined
       ? { requestId: context.requestId }
@@ -504,7 +638,7 @@ async function handleDirectToolCall(
     ...(params._meta ? { _meta: params._meta } : {}),
   };
 
-  return fetchUrlToolHandler(args, extra);
+  return run(extra);
 }
 
 async function handleToolCallRequest(
@@ -518,8 +652,15 @@ async function handleToolCallRequest(
     return handleTaskToolCall(server, params, context);
   }
 
-  if (params.name === FETCH_URL_TOOL_NAME) {
-    return handleDirectToolCall(params, context);
+  const entry = resolveToolDispatch(params.name);
+  if (entry?.taskRequired) {
+    throw new McpError(
+      ErrorCode.MethodNotFound,
+      `Tool '${params.name}' requires task execution`
+    );
+  }
+  if (entry) {
+    return handleDirectToolCall(entry, params, context);
   }
 
   throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${params.name}`);
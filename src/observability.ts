@@ -5,6 +5,7 @@ import { inspect, stripVTControlCharacters } from 'node:util';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
 import { config, type LogLevel } from './config.js';
+import { isError } from './type-guards.js';
 
 type LogMetadata = Record<string, unknown>;
 
@@ -20,6 +21,10 @@ const requestContext = new AsyncLocalStorage<RequestContext>({
 let mcpServer: McpServer | undefined;
 const sessionServers = new Map<string, McpServer>();
 let stderrAvailable = true;
+const logSecrets = new Set<string>();
+
+const REDACTED = '[REDACTED]';
+const MIN_SECRET_LENGTH = 4;
 
 process.stderr.on('error', () => {
   stderrAvailable = false;
@@ -120,6 +125,67 @@ function formatMetadata(meta?: LogMetadata): string {
   return ` ${inspect(merged, { breakLength: Infinity, colors: false, compact: true, sorted: true })}`;
 }
 
+/** Registers values (e.g. credential headers) that must never appear in logs. */
+export function registerLogSecrets(values: Iterable<string>): void {
+  for (const value of values) {
+    if (value.length < MIN_SECRET_LENGTH) continue;
+    logSecrets.add(value);
+    // Also match the form the value takes inside JSON strings.
+    logSecrets.add(JSON.stringify(value).slice(1, -1));
+  }
+}
+
+function redactSecrets(text: string): string {
+  let result = text;
+  for (const secret of logSecrets) {
+    if (result.includes(secret)) result = result.replaceAll(secret, REDACTED);
+  }
+  return result;
+}
+
+function isPlainRecord(value: object): value is Record<string, unknown> {
+  const prototype: unknown = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function redactLogValue(value: unknown, ancestors: Set<object>): unknown {
+  if (typeof value === 'string') return redactSecrets(value);
+  if (typeof value !== 'object' || value === null) return value;
+  if (ancestors.has(value)) return '[Circular]';
+
+  ancestors.add(value);
+  try {
+    if (isError(value)) {
+      return {
+        name: value.name,
+        message: redactSecrets(value.message),
+        ...(value.cause === undefined
+          ? {}
+          : { cause: redactLogValue(value.cause, ancestors) }),
+      };
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => redactLogValue(item, ancestors));
+    }
+    // Other class instances (Date, URL, ...) keep their own serialization.
+    if (!isPlainRecord(value)) return value;
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        redactLogValue(item, ancestors),
+      ])
+    );
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+/** Redacts string leaves of MCP log data; errors become `{ name, message }`. */
+function redactLogData(data: unknown): unknown {
+  return redactLogValue(data, new Set());
+}
+
 function createTimestamp(): string {
   return new Date().toISOString();
 }
@@ -190,7 +256,7 @@ function safeWriteStderr(line: string): void {
 function writeLog(level: LogLevel, message: string, meta?: LogMetadata): void {
   if (!shouldLog(level)) return;
 
-  const line = formatLogEntry(level, message, meta);
+  const line = redactSecrets(formatLogEntry(level, message, meta));
   safeWriteStderr(`${stripVTControlCharacters(line)}\n`);
 
   const sessionId = getSessionId();
@@ -205,7 +271,7 @@ function writeLog(level: LogLevel, message: string, meta?: LogMetadata): void {
         {
           level: mapToMcpLevel(level),
           // Preserve existing behavior: MCP payload includes only message + provided meta (not ALS context meta).
-          data: meta ? { message, ...meta } : message,
+          data: redactLogData(meta ? { message, ...meta } : message),
         },
         sessionId
       )
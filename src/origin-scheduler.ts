@@ -0,0 +1,184 @@
+/* -------------------------------------------------------------------------------------------------
+ * Types
+ * ------------------------------------------------------------------------------------------------- */
+
+export interface OriginSchedulerOptions {
+  /** Requests to one origin that may be in flight at once. */
+  maxConcurrent: number;
+  /** Requests to one origin that may start within `intervalMs`. */
+  maxRequests: number;
+  intervalMs: number;
+}
+
+/** Minimum spacing between request starts for an origin, e.g. robots.txt crawl-delay. */
+type MinIntervalLookup = (origin: string) => number | undefined;
+
+/** Frees the slot; safe to call more than once. */
+export type ReleaseSlot = () => void;
+
+interface Waiter {
+  resolve: (release: ReleaseSlot) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+interface OriginState {
+  active: number;
+  queue: Waiter[];
+  /** Start times within the current interval, oldest first. */
+  starts: number[];
+  lastStartAt: number;
+  timer?: NodeJS.Timeout;
+}
+
+const MAX_TRACKED_ORIGINS = 1000;
+
+function createAbortError(): Error {
+  const error = new Error('Request was canceled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Scheduler
+ * ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Queues outbound requests per origin so that concurrent sessions cannot
+ * exceed a concurrency cap, a request rate, or the origin's crawl-delay.
+ * Waiters are served in arrival order.
+ */
+export class OriginScheduler {
+  private readonly origins = new Map<string, OriginState>();
+
+  constructor(
+    private readonly options: OriginSchedulerOptions,
+    private readonly minIntervalFor: MinIntervalLookup = () => undefined,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Resolves once a request to `origin` may start. Rejects with an
+   * `AbortError` when `signal` fires while the request is still queued.
+   */
+  async acquire(origin: string, signal?: AbortSignal): Promise<ReleaseSlot> {
+    if (signal?.aborted) throw createAbortError();
+
+    const state = this.getState(origin);
+    return new Promise<ReleaseSlot>((resolve, reject) => {
+      const waiter: Waiter = { resolve };
+      if (signal) {
+        waiter.signal = signal;
+        waiter.onAbort = () => {
+          this.removeWaiter(state, waiter);
+          reject(createAbortError());
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      state.queue.push(waiter);
+      this.drain(origin, state);
+    });
+  }
+
+  private getState(origin: string): OriginState {
+    const existing = this.origins.get(origin);
+    if (existing) return existing;
+
+    if (this.origins.size >= MAX_TRACKED_ORIGINS) this.pruneIdle();
+    const state: OriginState = {
+      active: 0,
+      queue: [],
+      starts: [],
+      lastStartAt: Number.NEGATIVE_INFINITY,
+    };
+    this.origins.set(origin, state);
+    return state;
+  }
+
+  private drain(origin: string, state: OriginState): void {
+    while (state.queue.length > 0) {
+      if (state.active >= this.options.maxConcurrent) return;
+
+      const waitMs = this.resolveWaitMs(origin, state);
+      if (waitMs > 0) {
+        this.scheduleDrain(origin, state, waitMs);
+        return;
+      }
+
+      const waiter = state.queue.shift();
+      if (!waiter) return;
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+
+      const startedAt = this.now();
+      state.active += 1;
+      state.starts.push(startedAt);
+      state.lastStartAt = startedAt;
+      waiter.resolve(this.createRelease(origin, state));
+    }
+  }
+
+  private resolveWaitMs(origin: string, state: OriginState): number {
+    const now = this.now();
+    const windowStart = now - this.options.intervalMs;
+    while (state.starts.length > 0 && (state.starts[0] ?? 0) <= windowStart) {
+      state.starts.shift();
+    }
+
+    const [oldest] = state.starts;
+    const rateWaitMs =
+      state.starts.length >= this.options.maxRequests && oldest !== undefined
+        ? oldest + this.options.intervalMs - now
+        : 0;
+    const minIntervalMs = this.minIntervalFor(origin) ?? 0;
+    const spacingWaitMs = state.lastStartAt + minIntervalMs - now;
+    return Math.max(rateWaitMs, spacingWaitMs, 0);
+  }
+
+  private scheduleDrain(
+    origin: string,
+    state: OriginState,
+    waitMs: number
+  ): void {
+    if (state.timer) return;
+    state.timer = setTimeout(() => {
+      delete state.timer;
+      this.drain(origin, state);
+    }, waitMs);
+  }
+
+  private createRelease(origin: string, state: OriginState): ReleaseSlot {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      state.active -= 1;
+      this.drain(origin, state);
+    };
+  }
+
+  private removeWaiter(state: OriginState, waiter: Waiter): void {
+    const index = state.queue.indexOf(waiter);
+    if (index !== -1) state.queue.splice(index, 1);
+    if (state.queue.length === 0 && state.timer) {
+      clearTimeout(state.timer);
+      delete state.timer;
+    }
+  }
+
+  private pruneIdle(): void {
+    const now = this.now();
+    for (const [origin, state] of this.origins) {
+      const spacingMs = Math.max(
+        this.options.intervalMs,
+        this.minIntervalFor(origin) ?? 0
+      );
+      const idle =
+        state.active === 0 &&
+        state.queue.length === 0 &&
+        now - state.lastStartAt >= spacingMs;
+      if (idle) this.origins.delete(origin);
+    }
+  }
+}
@@ -0,0 +1,416 @@
+import { getDocumentProxy } from 'unpdf';
+
+import { FetchError, getErrorMessage } from './errors.js';
+import type {
+  ExtractedMetadata,
+  MarkdownTransformResult,
+} from './transform-types.js';
+import { isObject } from './type-guards.js';
+
+/* -------------------------------------------------------------------------------------------------
+ * Layout model
+ * ------------------------------------------------------------------------------------------------- */
+
+export interface PdfTextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  hasEOL: boolean;
+}
+
+interface PdfLine {
+  y: number;
+  fontSize: number;
+  cells: string[];
+}
+
+// Ratios are relative to the font size of the line being built.
+const SAME_LINE_TOLERANCE = 0.5;
+const WORD_GAP_RATIO = 0.15;
+const COLUMN_GAP_RATIO = 1.5;
+const PARAGRAPH_GAP_RATIO = 1.8;
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 120;
+const MAX_HEADING_LEVEL = 3;
+const MIN_TABLE_ROWS = 2;
+
+const BULLET_PATTERN = /^[•◦▪‣●○■□–-]\s+/u;
+
+function roundSize(size: number): number {
+  return Math.round(size * 2) / 2;
+}
+
+class LineBuilder {
+  private readonly lines: PdfLine[] = [];
+  private current: PdfLine | null = null;
+  private lastEnd = 0;
+  private columnBreak = false;
+
+  add(item: PdfTextItem): void {
+    if (item.str.length > 0) this.append(item);
+    if (item.hasEOL) this.flush();
+  }
+
+  finish(): PdfLine[] {
+    this.flush();
+    return this.lines;
+  }
+
+  private append(item: PdfTextItem): void {
+    const line = this.current;
+    const size = Math.max(item.fontSize, line?.fontSize ?? 0);
+    if (line && Math.abs(item.y - line.y) > size * SAME_LINE_TOLERANCE) {
+      this.flush();
+    }
+
+    if (!this.current) {
+      if (!item.str.trim()) return;
+      this.current = { y: item.y, fontSize: item.fontSize, cells: [item.str] };
+      this.lastEnd = item.x + item.width;
+      return;
+    }
+
+    // pdf.js fills horizontal gaps with whitespace items as wide as the gap.
+    if (!item.str.trim()) {
+      if (item.width > size * COLUMN_GAP_RATIO) this.columnBreak = true;
+      else this.appendToCell(item.str);
+      this.lastEnd = item.x + item.width;
+      return;
+    }
+
+    const gap = item.x - this.lastEnd;
+    if (this.columnBreak || gap > size * COLUMN_GAP_RATIO) {
+      this.current.cells.push(item.str);
+    } else {
+      this.appendToCell(
+        gap > size * WORD_GAP_RATIO ? ` ${item.str}` : item.str
+      );
+    }
+
+    this.columnBreak = false;
+    this.current.fontSize = size;
+    this.lastEnd = item.x + item.width;
+  }
+
+  private appendToCell(text: string): void {
+    const cells = this.current?.cells;
+    if (!cells) return;
+    const last = cells.length - 1;
+    cells[last] = `${cells[last] ?? ''}${text}`;
+  }
+
+  private flush(): void {
+    if (!this.current) return;
+
+    const cells = this.current.cells
+      .map((cell) => cell.replace(/\s+/g, ' ').trim())
+      .filter((cell) => cell.length > 0);
+    if (cells.length > 0) this.lines.push({ ...this.current, cells });
+    this.current = null;
+    this.columnBreak = false;
+  }
+}
+
+function groupLines(items: readonly PdfTextItem[]): PdfLine[] {
+  const builder = new LineBuilder();
+  for (const item of items) builder.add(item);
+  return builder.finish();
+}
+
+function lineText(line: PdfLine): string {
+  return line.cells.join(' ');
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Heading detection
+ * ------------------------------------------------------------------------------------------------- */
+
+// Body size is the size carrying the most characters across the document.
+function resolveBodySize(pages: readonly PdfLine[][]): number {
+  const weights = new Map<number, number>();
+  for (const line of pages.flat()) {
+    const size = roundSize(line.fontSize);
+    weights.set(size, (weights.get(size) ?? 0) + lineText(line).length);
+  }
+
+  let body = 0;
+  let best = -1;
+  for (const [size, weight] of weights) {
+    if (weight > best) {
+      body = size;
+      best = weight;
+    }
+  }
+  return body;
+}
+
+function isHeadingCandidate(line: PdfLine, bodySize: number): boolean {
+  if (line.cells.length !== 1) return false;
+  if (line.fontSize < bodySize * HEADING_SIZE_RATIO) return false;
+
+  const text = lineText(line);
+  return text.length <= MAX_HEADING_LENGTH && /\p{L}/u.test(text);
+}
+
+function buildHeadingLevels(
+  pages: readonly PdfLine[][],
+  bodySize: number
+): Map<number, number> {
+  const sizes = new Set<number>();
+  for (const line of pages.flat()) {
+    if (isHeadingCandidate(line, bodySize)) sizes.add(roundSize(line.fontSize));
+  }
+
+  const levels = new Map<number, number>();
+  [...sizes]
+    .sort((a, b) => b - a)
+    .forEach((size, index) => {
+      levels.set(size, Math.min(index + 1, MAX_HEADING_LEVEL));
+    });
+  return levels;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Markdown rendering
+ * ------------------------------------------------------------------------------------------------- */
+
+function escapeTableCell(cell: string): string {
+  return cell.replaceAll('|', '\\|');
+}
+
+function renderTable(rows: readonly PdfLine[]): string {
+  const [header, ...body] = rows.map(
+    (row) => `| ${row.cells.map(escapeTableCell).join(' | ')} |`
+  );
+  const columns = rows[0]?.cells.length ?? 0;
+  const separator = `|${' --- |'.repeat(columns)}`;
+  return [header, separator, ...body].join('\n');
+}
+
+function joinParagraphLine(paragraph: string, next: string): string {
+  if (/\p{L}-$/u.test(paragraph) && /^\p{Ll}/u.test(next)) {
+    return `${paragraph.slice(0, -1)}${next}`;
+  }
+  return `${paragraph} ${next}`;
+}
+
+function countTableRun(lines: readonly PdfLine[], start: number): number {
+  const columns = lines[start]?.cells.length ?? 0;
+  if (columns < 2) return 0;
+
+  let end = start;
+  while (lines[end]?.cells.length === columns) end += 1;
+  return end - start >= MIN_TABLE_ROWS ? end - start : 0;
+}
+
+class PageRenderer {
+  private readonly blocks: string[] = [];
+  private paragraph: string | null = null;
+  private previous: PdfLine | null = null;
+  firstHeading: string | undefined;
+
+  constructor(
+    private readonly bodySize: number,
+    private readonly headingLevels: ReadonlyMap<number, number>
+  ) {}
+
+  render(lines: readonly PdfLine[]): string[] {
+    let index = 0;
+    while (index < lines.length) {
+      const tableRows = countTableRun(lines, index);
+      if (tableRows > 0) {
+        this.pushBlock(renderTable(lines.slice(index, index + tableRows)));
+        index += tableRows;
+        continue;
+      }
+
+      const line = lines[index];
+      if (line) this.renderLine(line);
+      index += 1;
+    }
+
+    this.flushParagraph();
+    return this.blocks;
+  }
+
+  private renderLine(line: PdfLine): void {
+    const text = lineText(line);
+
+    const level = isHeadingCandidate(line, this.bodySize)
+      ? this.headingLevels.get(roundSize(line.fontSize))
+      : undefined;
+    if (level !== undefined) {
+      this.firstHeading ??= text;
+      this.pushBlock(`${'#'.repeat(level)} ${text}`);
+      return;
+    }
+
+    if (BULLET_PATTERN.test(text)) {
+      this.flushParagraph();
+      this.paragraph = `- ${text.replace(BULLET_PATTERN, '')}`;
+    } else if (this.paragraph !== null && !this.startsNewParagraph(line)) {
+      this.paragraph = joinParagraphLine(this.paragraph, text);
+    } else {
+      this.flushParagraph();
+      this.paragraph = text;
+    }
+    this.previous = line;
+  }
+
+  private startsNewParagraph(line: PdfLine): boolean {
+    if (!this.previous) return true;
+    const gap = this.previous.y - line.y;
+    return gap < 0 || gap > this.previous.fontSize * PARAGRAPH_GAP_RATIO;
+  }
+
+  private pushBlock(block: string): void {
+    this.flushParagraph();
+    this.blocks.push(block);
+    this.previous = null;
+  }
+
+  private flushParagraph(): void {
+    if (this.paragraph !== null) this.blocks.push(this.paragraph);
+    this.paragraph = null;
+  }
+}
+
+/**
+ * Converts positioned PDF text items (one array per page) into Markdown.
+ * Lines set larger than the body text become headings, runs of lines with
+ * the same number of column-separated cells become tables.
+ */
+export function pdfTextToMarkdown(pages: readonly (readonly PdfTextItem[])[]): {
+  markdown: string;
+  firstHeading: string | undefined;
+} {
+  const pageLines = pages.map(groupLines);
+  const bodySize = resolveBodySize(pageLines);
+  const headingLevels = buildHeadingLevels(pageLines, bodySize);
+
+  let firstHeading: string | undefined;
+  const sections = pageLines.map((lines, index) => {
+    const renderer = new PageRenderer(bodySize, headingLevels);
+    const blocks = renderer.render(lines);
+    firstHeading ??= renderer.firstHeading;
+    return [`<!-- Page ${index + 1} -->`, ...blocks].join('\n\n');
+  });
+
+  return { markdown: sections.join('\n\n'), firstHeading };
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * PDF loading
+ * ------------------------------------------------------------------------------------------------- */
+
+export const PDF_MEDIA_TYPES: ReadonlySet<string> = new Set([
+  'application/pdf',
+  'application/x-pdf',
+]);
+
+function toPdfTextItem(item: unknown): PdfTextItem | null {
+  if (!isObject(item) || typeof item['str'] !== 'string') return null;
+
+  const transform = Array.isArray(item['transform'])
+    ? (item['transform'] as number[])
+    : [];
+  const [, , c = 0, d = 0, x = 0, y = 0] = transform;
+  return {
+    str: item['str'],
+    x,
+    y,
+    width: typeof item['width'] === 'number' ? item['width'] : 0,
+    fontSize: Math.hypot(c, d),
+    hasEOL: item['hasEOL'] === true,
+  };
+}
+
+function readInfoString(
+  info: Record<string, unknown>,
+  key: string
+): string | undefined {
+  const value = info[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function createPdfError(
+  message: string,
+  url: string,
+  reason: string
+): FetchError {
+  return new FetchError(message, url, 422, { reason, stage: 'transform:pdf' });
+}
+
+/**
+ * Parses a PDF document and renders its text layer as Markdown with
+ * `<!-- Page N -->` markers. Aborting `signal` destroys the document.
+ */
+export async function transformPdfToMarkdown(
+  buffer: Uint8Array,
+  url: string,
+  signal?: AbortSignal
+): Promise<MarkdownTransformResult> {
+  signal?.throwIfAborted();
+
+  // pdf.js detaches the buffer it is given; keep the caller's copy intact.
+  const pdf = await getDocumentProxy(new Uint8Array(buffer), {
+    verbosity: 0,
+  }).catch((error: unknown) => {
+    throw createPdfError(
+      `Failed to parse PDF: ${getErrorMessage(error)}`,
+      url,
+      'pdf_parse_failed'
+    );
+  });
+
+  const destroy = (): void => {
+    void pdf.loadingTask.destroy().catch(() => undefined);
+  };
+  signal?.addEventListener('abort', destroy, { once: true });
+
+  try {
+    const pages: PdfTextItem[][] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber += 1) {
+      signal?.throwIfAborted();
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(
+        content.items
+          .map(toPdfTextItem)
+          .filter((item): item is PdfTextItem => item !== null)
+      );
+      page.cleanup();
+    }
+
+    if (!pages.some((items) => items.some((item) => item.str.trim()))) {
+      throw createPdfError(
+        'PDF contains no extractable text',
+        url,
+        'pdf_no_text'
+      );
+    }
+    const { markdown, firstHeading } = pdfTextToMarkdown(pages);
+
+    const { info } = await pdf.getMetadata().catch(() => ({ info: {} }));
+    const infoRecord = isObject(info) ? info : {};
+    const metadata: ExtractedMetadata = {};
+    const infoTitle = readInfoString(infoRecord, 'Title');
+    const author = readInfoString(infoRecord, 'Author');
+    const description = readInfoString(infoRecord, 'Subject');
+    if (infoTitle) metadata.title = infoTitle;
+    if (author) metadata.author = author;
+    if (description) metadata.description = description;
+
+    return {
+      markdown,
+      title: infoTitle ?? firstHeading,
+      truncated: false,
+      ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+    };
+  } finally {
+    signal?.removeEventListener('abort', destroy);
+    destroy();
+  }
+}
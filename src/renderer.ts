@@ -0,0 +1,106 @@
+import { config } from './config.js';
+import { FetchError } from './errors.js';
+import { assertFetchableUrl, readResponseText } from './fetch.js';
+import { logDebug } from './observability.js';
+
+/* -------------------------------------------------------------------------------------------------
+ * Types
+ * ------------------------------------------------------------------------------------------------- */
+
+export interface RenderRequest {
+  /** Normalized page URL; already passed the fetcher's safety checks. */
+  url: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Produces the HTML of a page after its scripts ran. Used when a fetched
+ * page is an empty single-page app shell.
+ */
+export interface PageRenderer {
+  render(request: RenderRequest): Promise<string>;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Endpoint renderer
+ * ------------------------------------------------------------------------------------------------- */
+
+// The endpoint receives `{ "url": "..." }` and answers with the rendered HTML.
+class EndpointRenderer implements PageRenderer {
+  constructor(
+    private readonly endpoint: URL,
+    private readonly timeoutMs: number
+  ) {}
+
+  async render({ url, signal }: RenderRequest): Promise<string> {
+    const timeout = AbortSignal.timeout(this.timeoutMs);
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'text/html' },
+      body: JSON.stringify({ url }),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new FetchError(
+        `Renderer responded with status ${response.status}`,
+        url,
+        502,
+        { reason: 'render_failed', rendererStatus: response.status }
+      );
+    }
+
+    const { text } = await readResponseText(
+      response,
+      url,
+      config.fetcher.maxContentLength,
+      signal
+    );
+    return text;
+  }
+}
+
+export function createEndpointRenderer(
+  endpoint: URL,
+  timeoutMs = config.renderer.timeoutMs
+): PageRenderer {
+  return new EndpointRenderer(endpoint, timeoutMs);
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Active renderer
+ * ------------------------------------------------------------------------------------------------- */
+
+let activeRenderer: PageRenderer | null = config.renderer.url
+  ? createEndpointRenderer(config.renderer.url)
+  : null;
+
+/** Replaces the renderer; `null` turns rendering off. */
+export function setPageRenderer(renderer: PageRenderer | null): void {
+  activeRenderer = renderer;
+}
+
+export function isRenderingEnabled(): boolean {
+  return activeRenderer !== null;
+}
+
+/**
+ * Renders a page with the active renderer after the same URL, DNS and
+ * robots.txt checks as a direct fetch. Resolves to `null` when no renderer
+ * is configured.
+ */
+export async function renderPage(
+  url: string,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const renderer = activeRenderer;
+  if (!renderer) return null;
+
+  const normalizedUrl = await assertFetchableUrl(url, signal);
+  logDebug('Rendering single-page app', { url: normalizedUrl });
+  return renderer.render({
+    url: normalizedUrl,
+    ...(signal ? { signal } : {}),
+  });
+}
@@ -0,0 +1,88 @@
+/* -------------------------------------------------------------------------------------------------
+ * Types
+ * ------------------------------------------------------------------------------------------------- */
+
+interface InFlightTask {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting for the result. */
+  refs: number;
+}
+
+function createAbortError(): Error {
+  const error = new Error('Request was canceled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Coalescer
+ * ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Shares one run of a task between concurrent callers with the same key.
+ * The task gets its own signal, which aborts only once every caller that
+ * passed a signal has aborted; a caller without a signal keeps it alive.
+ */
+export class RequestCoalescer {
+  private readonly inFlight = new Map<string, InFlightTask>();
+
+  /**
+   * Joins the running task for `key`, or starts `task` when there is none.
+   * Rejects with an `AbortError` when `signal` fires, without affecting
+   * the other callers.
+   */
+  async run<T>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (signal?.aborted) throw createAbortError();
+
+    const entry = this.inFlight.get(key) ?? this.start(key, task);
+    entry.refs += 1;
+    const promise = entry.promise as Promise<T>;
+    if (!signal) return promise;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = (): void => {
+        reject(createAbortError());
+        this.detach(key, entry);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort);
+      });
+    });
+  }
+
+  get size(): number {
+    return this.inFlight.size;
+  }
+
+  private start<T>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>
+  ): InFlightTask {
+    const controller = new AbortController();
+    const entry: InFlightTask = {
+      promise: Promise.resolve(),
+      controller,
+      refs: 0,
+    };
+    entry.promise = task(controller.signal).finally(() => {
+      if (this.inFlight.get(key) === entry) this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, entry);
+    return entry;
+  }
+
+  private detach(key: string, entry: InFlightTask): void {
+    entry.refs -= 1;
+    if (entry.refs > 0) return;
+
+    // Later callers start a fresh run instead of joining an aborted one.
+    if (this.inFlight.get(key) === entry) this.inFlight.delete(key);
+    entry.controller.abort();
+  }
+}
@@ -12,6 +12,8 @@ import {
 
 import {
   get as getCacheEntry,
+  getPrevious as getPreviousCacheEntry,
+  hashMarkdownContent,
   keys as listCacheKeys,
   onCacheUpdate,
   parseCachedPayload,
@@ -120,6 +122,17 @@ function toCacheResourceUri(parts: CacheResourceParts): string {
   return `${CACHE_RESOURCE_PREFIX}${namespace}/${hash}`;
 }
 
+function toCacheKey(parts: CacheResourceParts): string {
+  return `${parts.namespace}:${parts.hash}`;
+}
+
+/** Maps an `internal://cache/{namespace}/{hash}` URI to its cache key. */
+export function cacheKeyFromResourceUri(uri: string): string | null {
+  if (!URL.canParse(uri)) return null;
+  const parts = parseCacheResourceFromUri(new URL(uri));
+  return parts ? toCacheKey(parts) : null;
+}
+
 function listCacheNamespaces(): string[] {
   const namespaces = new Set<string>();
   for (const key of listCacheKeys()) {
@@ -207,6 +220,24 @@ function normalizeSubscriptionUri(uri: string): string {
   return parsedUri.href;
 }
 
+function readCachedMarkdown(content: string): string {
+  const payload = parseCachedPayload(content);
+  return (payload ? resolveCachedPayloadContent(payload) : null) ?? content;
+}
+
+// Rewrites that leave the Markdown as it was, such as a watch re-fetch or a
+// forced refresh of an unchanged page, are not reported as updates.
+function hasMarkdownChanged(cacheKey: string): boolean {
+  const previous = getPreviousCacheEntry(cacheKey);
+  const current = getCacheEntry(cacheKey);
+  if (!previous || !current) return true;
+
+  return (
+    hashMarkdownContent(readCachedMarkdown(previous.content)) !==
+    hashMarkdownContent(readCachedMarkdown(current.content))
+  );
+}
+
 function registerCacheResourceNotifications(server: McpServer): void {
   const subscribedResourceUris = new Set<string>();
 
@@ -226,7 +257,11 @@ function registerCacheResourceNotifications(server: McpServer): void {
       hash: event.urlHash,
     });
 
-    if (server.isConnected() && subscribedResourceUris.has(changedUri)) {
+    if (
+      server.isConnected() &&
+      subscribedResourceUris.has(changedUri) &&
+      hasMarkdownChanged(event.cacheKey)
+    ) {
       void server.server
         .sendResourceUpdated({ uri: changedUri })
         .catch((error: unknown) => {
@@ -312,24 +347,19 @@ function readCacheResource(
   variables: Record<string, TemplateVariableValue>
 ): ReadResourceResult {
   const parts = resolveCacheResourceParts(uri, variables);
-  const cacheKey = `${parts.namespace}:${parts.hash}`;
-  const entry = getCacheEntry(cacheKey);
+  const entry = getCacheEntry(toCacheKey(parts));
   if (!entry) {
     throw new McpError(RESOURCE_NOT_FOUND_ERROR_CODE, 'Resource not found', {
       uri: uri.href,
     });
   }
 
-  const payload = parseCachedPayload(entry.content);
-  const markdown = payload ? resolveCachedPayloadContent(payload) : null;
-  const text = markdown ?? entry.content;
-
   return {
     contents: [
       {
         uri: uri.href,
         mimeType: 'text/markdown',
-        text,
+        text: readCachedMarkdown(entry.content),
       },
     ],
   };
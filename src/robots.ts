@@ -0,0 +1,216 @@
+/* -------------------------------------------------------------------------------------------------
+ * robots.txt parsing and evaluation (RFC 9309)
+ * ------------------------------------------------------------------------------------------------- */
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  /** The matching rule pattern, when a rule decided the verdict. */
+  rule?: string;
+}
+
+export interface RobotsRules {
+  /** Evaluates a URL path (pathname + search). */
+  evaluate(path: string): RobotsVerdict;
+  /** Crawl-delay in seconds for the matched group, if declared. */
+  readonly crawlDelaySeconds: number | undefined;
+  readonly sitemaps: readonly string[];
+}
+
+const WILDCARD_AGENT = '*';
+
+function stripComment(line: string): string {
+  const hashIndex = line.indexOf('#');
+  return (hashIndex === -1 ? line : line.slice(0, hashIndex)).trim();
+}
+
+function splitDirective(
+  line: string
+): { key: string; value: string } | undefined {
+  const colonIndex = line.indexOf(':');
+  if (colonIndex <= 0) return undefined;
+  return {
+    key: line.slice(0, colonIndex).trim().toLowerCase(),
+    value: line.slice(colonIndex + 1).trim(),
+  };
+}
+
+function parseCrawlDelay(value: string): number | undefined {
+  const seconds = Number.parseFloat(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+function applyGroupDirective(
+  group: RobotsGroup,
+  key: string,
+  value: string
+): void {
+  if (key === 'allow' || key === 'disallow') {
+    // An empty pattern matches nothing (RFC 9309 §2.2.2).
+    if (value) group.rules.push({ allow: key === 'allow', pattern: value });
+    return;
+  }
+  if (key === 'crawl-delay') {
+    const seconds = parseCrawlDelay(value);
+    if (seconds !== undefined) group.crawlDelaySeconds = seconds;
+  }
+}
+
+function parseGroups(text: string): {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+} {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | undefined;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const directive = splitDirective(stripComment(rawLine));
+    if (!directive) continue;
+
+    const { key, value } = directive;
+    if (key === 'sitemap') {
+      if (value) sitemaps.push(value);
+    } else if (key === 'user-agent') {
+      // Consecutive user-agent lines share one group.
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+    } else if (current) {
+      collectingAgents = false;
+      applyGroupDirective(current, key, value);
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+function selectGroups(
+  groups: readonly RobotsGroup[],
+  productToken: string
+): RobotsGroup[] {
+  const token = productToken.toLowerCase();
+  const matching = groups.filter((group) => group.agents.includes(token));
+  if (matching.length > 0) return matching;
+  return groups.filter((group) => group.agents.includes(WILDCARD_AGENT));
+}
+
+/**
+ * Matches `path` against a robots pattern where `*` matches any sequence and a
+ * trailing `$` anchors the end. Iterative wildcard matching keeps the cost at
+ * O(path × pattern) without building regular expressions from remote input.
+ */
+function matchesPattern(path: string, pattern: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+
+  let pathIndex = 0;
+  let patternIndex = 0;
+  let starIndex = -1;
+  let starPathIndex = 0;
+
+  while (pathIndex < path.length) {
+    if (patternIndex === body.length && !anchored) return true;
+
+    const char = body[patternIndex];
+    if (char === '*') {
+      starIndex = patternIndex;
+      starPathIndex = pathIndex;
+      patternIndex += 1;
+    } else if (patternIndex < body.length && char === path[pathIndex]) {
+      patternIndex += 1;
+      pathIndex += 1;
+    } else if (starIndex !== -1) {
+      patternIndex = starIndex + 1;
+      starPathIndex += 1;
+      pathIndex = starPathIndex;
+    } else {
+      return false;
+    }
+  }
+
+  while (body[patternIndex] === '*') patternIndex += 1;
+  return patternIndex === body.length;
+}
+
+function resolveVerdict(
+  rules: readonly RobotsRule[],
+  path: string
+): RobotsVerdict {
+  let best: RobotsRule | undefined;
+
+  for (const rule of rules) {
+    if (!matchesPattern(path, rule.pattern)) continue;
+    // Most specific (longest) match wins; allow wins ties.
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? { allowed: best.allow, rule: best.pattern } : { allowed: true };
+}
+
+function createRules(
+  rules: readonly RobotsRule[],
+  crawlDelaySeconds: number | undefined,
+  sitemaps: readonly string[]
+): RobotsRules {
+  return {
+    crawlDelaySeconds,
+    sitemaps,
+    evaluate: (path) =>
+      path === '/robots.txt' ? { allowed: true } : resolveVerdict(rules, path),
+  };
+}
+
+export function parseRobotsTxt(
+  text: string,
+  productToken: string
+): RobotsRules {
+  const { groups, sitemaps } = parseGroups(text);
+  const selected = selectGroups(groups, productToken);
+
+  const crawlDelay = selected.find(
+    (group) => group.crawlDelaySeconds !== undefined
+  )?.crawlDelaySeconds;
+
+  return createRules(
+    selected.flatMap((group) => group.rules),
+    crawlDelay,
+    sitemaps
+  );
+}
+
+/** Rules used when robots.txt is missing (4xx): everything is allowed. */
+export function allowAllRobots(): RobotsRules {
+  return createRules([], undefined, []);
+}
+
+/** Rules used when robots.txt is unreachable (5xx/network): nothing is allowed. */
+export function disallowAllRobots(): RobotsRules {
+  return createRules([{ allow: false, pattern: '/' }], undefined, []);
+}
+
+/** Product token used for group matching, e.g. `fetch-url-mcp` from `fetch-url-mcp/1.2.0 (+...)`. */
+export function resolveProductToken(userAgent: string): string {
+  const token = /^[A-Za-z0-9_-]+/.exec(userAgent.trim())?.[0];
+  return token ?? WILDCARD_AGENT;
+}
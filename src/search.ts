@@ -0,0 +1,290 @@
+import { parseHTML } from 'linkedom';
+
+import { config } from './config.js';
+import { FetchError, getErrorMessage } from './errors.js';
+import { readResponseText } from './fetch.js';
+import { logDebug, logWarn } from './observability.js';
+import { isObject } from './type-guards.js';
+
+/* -------------------------------------------------------------------------------------------------
+ * Types
+ * ------------------------------------------------------------------------------------------------- */
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet?: string;
+}
+
+export interface SearchRequest {
+  query: string;
+  /** Upper bound on returned results; providers may return fewer. */
+  limit: number;
+  signal?: AbortSignal;
+}
+
+/** Turns a query into web results. */
+export interface SearchProvider {
+  readonly name: string;
+  search(request: SearchRequest): Promise<SearchResult[]>;
+}
+
+export type SearchProviderKind = NonNullable<typeof config.search.provider>;
+
+interface RawSearchResult {
+  title: unknown;
+  url: unknown;
+  snippet: unknown;
+}
+
+/** Request and response shape of one search API. */
+interface SearchApi {
+  defaultUrl?: string;
+  /** Query parameters besides the query itself. */
+  params: (limit: number) => Record<string, string>;
+  /** Header carrying the API key. */
+  keyHeader?: string;
+  readResults: (body: unknown) => RawSearchResult[];
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Search APIs
+ * ------------------------------------------------------------------------------------------------- */
+
+function readArray(value: unknown, ...path: string[]): unknown[] {
+  let current = value;
+  for (const key of path) {
+    current = isObject(current) ? current[key] : undefined;
+  }
+  return Array.isArray(current) ? current : [];
+}
+
+function mapEntries(
+  entries: unknown[],
+  keys: { title: string; snippet: string }
+): RawSearchResult[] {
+  return entries.filter(isObject).map((entry) => ({
+    title: entry[keys.title],
+    url: entry['url'],
+    snippet: entry[keys.snippet],
+  }));
+}
+
+const SEARCH_APIS: Record<SearchProviderKind, SearchApi> = {
+  // SearXNG returns its page size regardless; results are cut client-side.
+  searxng: {
+    params: () => ({ format: 'json' }),
+    readResults: (body) =>
+      mapEntries(readArray(body, 'results'), {
+        title: 'title',
+        snippet: 'content',
+      }),
+  },
+  brave: {
+    defaultUrl: 'https://api.search.brave.com/res/v1/web/search',
+    params: (limit) => ({ count: String(limit) }),
+    keyHeader: 'x-subscription-token',
+    readResults: (body) =>
+      mapEntries(readArray(body, 'web', 'results'), {
+        title: 'title',
+        snippet: 'description',
+      }),
+  },
+  bing: {
+    defaultUrl: 'https://api.bing.microsoft.com/v7.0/search',
+    params: (limit) => ({ count: String(limit) }),
+    keyHeader: 'ocp-apim-subscription-key',
+    readResults: (body) =>
+      mapEntries(readArray(body, 'webPages', 'value'), {
+        title: 'name',
+        snippet: 'snippet',
+      }),
+  },
+};
+
+// Snippets may carry highlighting markup such as `<strong>` and entities.
+function toPlainText(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const { document } = parseHTML(`<html><body>${value}</body></html>`);
+  const text = document.body.textContent.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+function isWebUrl(value: unknown): value is string {
+  if (typeof value !== 'string' || !URL.canParse(value)) return false;
+  const { protocol } = new URL(value);
+  return protocol === 'http:' || protocol === 'https:';
+}
+
+function normalizeResults(
+  raw: RawSearchResult[],
+  limit: number
+): SearchResult[] {
+  const results: SearchResult[] = [];
+  const seen = new Set<string>();
+  for (const entry of raw) {
+    if (results.length >= limit) break;
+    if (!isWebUrl(entry.url) || seen.has(entry.url)) continue;
+    seen.add(entry.url);
+
+    const snippet = toPlainText(entry.snippet);
+    results.push({
+      title: toPlainText(entry.title) ?? entry.url,
+      url: entry.url,
+      ...(snippet ? { snippet } : {}),
+    });
+  }
+  return results;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Endpoint provider
+ * ------------------------------------------------------------------------------------------------- */
+
+class EndpointSearchProvider implements SearchProvider {
+  constructor(
+    readonly name: string,
+    private readonly api: SearchApi,
+    private readonly endpoint: URL,
+    private readonly apiKey: string | undefined,
+    private readonly timeoutMs: number
+  ) {}
+
+  async search({
+    query,
+    limit,
+    signal,
+  }: SearchRequest): Promise<SearchResult[]> {
+    const url = new URL(this.endpoint);
+    url.searchParams.set('q', query);
+    for (const [key, value] of Object.entries(this.api.params(limit))) {
+      url.searchParams.set(key, value);
+    }
+    // Never report credentials embedded in the endpoint.
+    const label = `${url.origin}${url.pathname}`;
+
+    const timeout = AbortSignal.timeout(this.timeoutMs);
+    const response = await fetch(url, {
+      headers: {
+        accept: 'application/json',
+        ...(this.api.keyHeader && this.apiKey
+          ? { [this.api.keyHeader]: this.apiKey }
+          : {}),
+      },
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new FetchError(
+        `Search provider responded with status ${response.status}`,
+        label,
+        502,
+        { reason: 'search_failed', providerStatus: response.status }
+      );
+    }
+
+    const { text } = await readResponseText(
+      response,
+      label,
+      config.fetcher.maxContentLength,
+      signal
+    );
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new FetchError(
+        'Search provider returned invalid JSON',
+        label,
+        502,
+        {
+          reason: 'search_failed',
+        }
+      );
+    }
+    return normalizeResults(this.api.readResults(body), limit);
+  }
+}
+
+/**
+ * Creates a provider for a SearXNG instance (`endpoint` is its `/search`
+ * URL) or for the Brave or Bing web search API, which need `apiKey`.
+ */
+export function createSearchProvider(
+  kind: SearchProviderKind,
+  options: { endpoint?: URL; apiKey?: string; timeoutMs?: number } = {}
+): SearchProvider {
+  const api = SEARCH_APIS[kind];
+  const endpoint =
+    options.endpoint ?? (api.defaultUrl ? new URL(api.defaultUrl) : undefined);
+  if (!endpoint) {
+    throw new Error(`Search provider "${kind}" needs an endpoint URL`);
+  }
+  if (api.keyHeader && !options.apiKey) {
+    throw new Error(`Search provider "${kind}" needs an API key`);
+  }
+  return new EndpointSearchProvider(
+    kind,
+    api,
+    endpoint,
+    options.apiKey,
+    options.timeoutMs ?? config.search.timeoutMs
+  );
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Active provider
+ * ------------------------------------------------------------------------------------------------- */
+
+function createConfiguredProvider(): SearchProvider | null {
+  const { provider, url, apiKey } = config.search;
+  if (!provider) return null;
+  try {
+    return createSearchProvider(provider, {
+      ...(url ? { endpoint: url } : {}),
+      ...(apiKey ? { apiKey } : {}),
+    });
+  } catch (error: unknown) {
+    logWarn('Search provider disabled', {
+      provider,
+      error: getErrorMessage(error),
+    });
+    return null;
+  }
+}
+
+let activeProvider: SearchProvider | null = createConfiguredProvider();
+
+/** Replaces the search provider; `null` turns search off. */
+export function setSearchProvider(provider: SearchProvider | null): void {
+  activeProvider = provider;
+}
+
+export function isSearchEnabled(): boolean {
+  return activeProvider !== null;
+}
+
+/**
+ * Runs `query` against the active provider. Fails with
+ * `details.reason: "search_disabled"` when no provider is configured.
+ */
+export async function searchWeb(
+  request: SearchRequest
+): Promise<{ provider: string; results: SearchResult[] }> {
+  const provider = activeProvider;
+  if (!provider) {
+    throw new FetchError('No search provider is configured', '', 400, {
+      reason: 'search_disabled',
+    });
+  }
+
+  logDebug('Searching the web', { provider: provider.name });
+  const results = await provider.search(request);
+  return {
+    provider: provider.name,
+    results: results
+      .filter((result) => isWebUrl(result.url))
+      .slice(0, request.limit),
+  };
+}
@@ -10,6 +10,7 @@ import {
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 
+import { flush as flushCache } from './cache.js';
 import { config } from './config.js';
 import { getErrorMessage } from './errors.js';
 import { abortAllTaskExecutions, registerTaskHandlers } from './mcp.js';
@@ -21,6 +22,7 @@ import {
 } from './resources.js';
 import { registerTools } from './tools.js';
 import { shutdownTransformWorkerPool } from './transform.js';
+import { stopAllWatches } from './watch.js';
 
 /* -------------------------------------------------------------------------------------------------
  * Icons + server info
@@ -177,8 +179,10 @@ async function shutdownServer(
 
   // Ensure any in-flight tool executions are aborted promptly.
   abortAllTaskExecutions();
+  stopAllWatches();
 
   await shutdownTransformWorkerPool();
+  await flushCache();
   await server.close();
 }
 
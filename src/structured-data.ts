@@ -0,0 +1,335 @@
+import type {
+  ExtractedMetadata,
+  StructuredDataItem,
+  StructuredDataValue,
+} from './transform-types.js';
+import { isObject } from './type-guards.js';
+
+/* -------------------------------------------------------------------------------------------------
+ * Limits
+ * ------------------------------------------------------------------------------------------------- */
+
+const MAX_ITEMS = 20;
+const MAX_DEPTH = 6;
+const MAX_ARRAY_LENGTH = 50;
+const MAX_STRING_LENGTH = 2000;
+const MAX_JSON_LD_LENGTH = 500_000;
+
+/* -------------------------------------------------------------------------------------------------
+ * Value normalization
+ * ------------------------------------------------------------------------------------------------- */
+
+// `https://schema.org/Recipe` and `schema:Recipe` both become `Recipe`.
+function shortTypeName(value: string): string {
+  const trimmed = value.trim();
+  const cut = Math.max(
+    trimmed.lastIndexOf('/'),
+    trimmed.lastIndexOf('#'),
+    trimmed.lastIndexOf(':')
+  );
+  return cut >= 0 ? trimmed.slice(cut + 1) : trimmed;
+}
+
+function readTypeName(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? (value as unknown[])[0] : value;
+  if (typeof first !== 'string') return undefined;
+  return shortTypeName(first) || undefined;
+}
+
+function clipString(value: string): string {
+  const collapsed = value.replace(/\s+/g, ' ').trim();
+  return collapsed.length > MAX_STRING_LENGTH
+    ? `${collapsed.slice(0, MAX_STRING_LENGTH)}…`
+    : collapsed;
+}
+
+function normalizeArray(values: readonly unknown[], depth: number): unknown {
+  const normalized = values
+    .slice(0, MAX_ARRAY_LENGTH)
+    .map((entry) => normalizeValue(entry, depth + 1))
+    .filter((entry) => entry !== undefined);
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+// JSON-LD keywords other than `@type` and `@value` carry no page content.
+function normalizeObject(
+  value: Record<PropertyKey, unknown>,
+  depth: number
+): unknown {
+  if ('@value' in value) return normalizeValue(value['@value'], depth);
+
+  const normalized: Record<string, unknown> = {};
+  const type = readTypeName(value['@type']);
+  if (type) normalized['@type'] = type;
+
+  for (const [key, entry] of Object.entries(value)) {
+    if (key.startsWith('@')) continue;
+    const child = normalizeValue(entry, depth + 1);
+    if (child !== undefined) normalized[key] = child;
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+// Returns a StructuredDataValue, or undefined for empty and unsupported values.
+function normalizeValue(value: unknown, depth: number): unknown {
+  if (depth > MAX_DEPTH) return undefined;
+  if (typeof value === 'string') return clipString(value) || undefined;
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'boolean') return value;
+  if (Array.isArray(value)) return normalizeArray(value, depth);
+  if (isObject(value)) return normalizeObject(value, depth);
+  return undefined;
+}
+
+function toItem(
+  node: Record<PropertyKey, unknown>,
+  source: StructuredDataItem['source']
+): StructuredDataItem | null {
+  const type = readTypeName(node['@type']);
+  if (!type) return null;
+
+  const normalized = normalizeObject(node, 0);
+  if (!isObject(normalized)) return null;
+
+  const properties: Record<string, StructuredDataValue> = {};
+  for (const [key, value] of Object.entries(normalized)) {
+    if (key !== '@type') properties[key] = value as StructuredDataValue;
+  }
+  return { type, source, properties };
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * JSON-LD
+ * ------------------------------------------------------------------------------------------------- */
+
+const JSON_LD_WRAPPER =
+  /^\s*(?:<!--|\/\/\s*<!\[CDATA\[)|(?:-->|\/\/\s*\]\]>)\s*$/g;
+
+function parseJsonLd(text: string): unknown {
+  if (text.length > MAX_JSON_LD_LENGTH) return undefined;
+  try {
+    return JSON.parse(text.replace(JSON_LD_WRAPPER, '')) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+// Top-level arrays and `@graph` containers both hold independent nodes.
+function collectJsonLdNodes(
+  value: unknown,
+  nodes: Record<PropertyKey, unknown>[]
+): void {
+  if (Array.isArray(value)) {
+    for (const entry of value) collectJsonLdNodes(entry, nodes);
+    return;
+  }
+  if (!isObject(value)) return;
+
+  const graph = value['@graph'];
+  if (graph !== undefined && value['@type'] === undefined) {
+    collectJsonLdNodes(graph, nodes);
+    return;
+  }
+  nodes.push(value);
+}
+
+function extractJsonLdItems(document: Document): StructuredDataItem[] {
+  const nodes: Record<PropertyKey, unknown>[] = [];
+  const scripts = document.querySelectorAll(
+    'script[type="application/ld+json"]'
+  );
+  for (const script of Array.from(scripts)) {
+    collectJsonLdNodes(parseJsonLd(script.textContent), nodes);
+  }
+
+  return nodes
+    .map((node) => toItem(node, 'json-ld'))
+    .filter((item) => item !== null);
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Microdata
+ * ------------------------------------------------------------------------------------------------- */
+
+const URL_ATTRIBUTES = new Map<string, string>([
+  ['a', 'href'],
+  ['area', 'href'],
+  ['link', 'href'],
+  ['audio', 'src'],
+  ['embed', 'src'],
+  ['iframe', 'src'],
+  ['img', 'src'],
+  ['source', 'src'],
+  ['track', 'src'],
+  ['video', 'src'],
+  ['object', 'data'],
+]);
+
+function resolveUrlValue(value: string, baseUrl: string | undefined): string {
+  if (!baseUrl) return value;
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return value;
+  }
+}
+
+function readPropertyValue(
+  element: Element,
+  baseUrl: string | undefined,
+  depth: number
+): unknown {
+  if (element.hasAttribute('itemscope')) {
+    return readMicrodataItem(element, baseUrl, depth + 1);
+  }
+
+  const tag = element.tagName.toLowerCase();
+  if (tag === 'meta') return element.getAttribute('content') ?? '';
+
+  const urlAttribute = URL_ATTRIBUTES.get(tag);
+  if (urlAttribute) {
+    const url = element.getAttribute(urlAttribute);
+    return url ? resolveUrlValue(url, baseUrl) : undefined;
+  }
+
+  if (tag === 'time' && element.hasAttribute('datetime')) {
+    return element.getAttribute('datetime');
+  }
+  if ((tag === 'data' || tag === 'meter') && element.hasAttribute('value')) {
+    return element.getAttribute('value');
+  }
+  return element.textContent;
+}
+
+// Properties belong to the nearest enclosing item, not to outer ones.
+function ownsProperty(scope: Element, element: Element): boolean {
+  return element.parentElement?.closest('[itemscope]') === scope;
+}
+
+function addProperty(
+  item: Record<string, unknown>,
+  name: string,
+  value: unknown
+): void {
+  const existing = item[name];
+  if (existing === undefined) {
+    item[name] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    item[name] = [existing, value];
+  }
+}
+
+function readMicrodataItem(
+  scope: Element,
+  baseUrl: string | undefined,
+  depth: number
+): Record<string, unknown> {
+  const item: Record<string, unknown> = {};
+  const type = scope.getAttribute('itemtype');
+  if (type) item['@type'] = type.trim().split(/\s+/)[0];
+  if (depth > MAX_DEPTH) return item;
+
+  for (const element of Array.from(scope.querySelectorAll('[itemprop]'))) {
+    if (!ownsProperty(scope, element)) continue;
+    const value = readPropertyValue(element, baseUrl, depth);
+    if (value === undefined) continue;
+
+    const names = (element.getAttribute('itemprop') ?? '').split(/\s+/);
+    for (const name of names) {
+      if (name) addProperty(item, name, value);
+    }
+  }
+  return item;
+}
+
+function extractMicrodataItems(
+  document: Document,
+  baseUrl: string | undefined
+): StructuredDataItem[] {
+  const scopes = document.querySelectorAll('[itemscope]:not([itemprop])');
+  return Array.from(scopes, (scope) =>
+    toItem(readMicrodataItem(scope, baseUrl, 0), 'microdata')
+  ).filter((item) => item !== null);
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Public API
+ * ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Reads schema.org items from `application/ld+json` scripts and microdata
+ * (`itemscope`/`itemprop`). JSON-LD items come first, in document order.
+ * Unparseable blocks are skipped.
+ */
+export function extractStructuredData(
+  document: Document,
+  baseUrl?: string
+): StructuredDataItem[] {
+  return [
+    ...extractJsonLdItems(document),
+    ...extractMicrodataItems(document, baseUrl),
+  ].slice(0, MAX_ITEMS);
+}
+
+// Site-wide entities that describe the publisher rather than the page.
+const SITE_LEVEL_TYPES = new Set([
+  'BreadcrumbList',
+  'ImageObject',
+  'Organization',
+  'Person',
+  'SearchAction',
+  'SiteNavigationElement',
+  'WebPage',
+  'WebSite',
+]);
+
+function readText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value || undefined;
+  if (Array.isArray(value)) return readText(value[0]);
+  if (isObject(value)) return readText(value['name']);
+  return undefined;
+}
+
+function readAuthor(value: unknown): string | undefined {
+  const names = (Array.isArray(value) ? value : [value])
+    .map(readText)
+    .filter((name) => name !== undefined);
+  return names.length > 0 ? names.join(', ') : undefined;
+}
+
+function findProperty(
+  items: readonly StructuredDataItem[],
+  name: string
+): unknown {
+  return items.find((item) => item.properties[name] !== undefined)?.properties[
+    name
+  ];
+}
+
+/**
+ * Metadata from the page's main structured-data item, for fields that
+ * `<meta>` tags did not provide. Dates may also come from `WebPage` items.
+ */
+export function resolveStructuredDataMetadata(
+  items: readonly StructuredDataItem[]
+): ExtractedMetadata {
+  const primary = items.find((item) => !SITE_LEVEL_TYPES.has(item.type));
+  const title = primary
+    ? readText(primary.properties['headline'] ?? primary.properties['name'])
+    : undefined;
+  const author = primary ? readAuthor(primary.properties['author']) : undefined;
+  const ordered = primary ? [primary, ...items] : items;
+  const publishedAt = readText(findProperty(ordered, 'datePublished'));
+  const modifiedAt = readText(findProperty(ordered, 'dateModified'));
+
+  return {
+    ...(title ? { title } : {}),
+    ...(author ? { author } : {}),
+    ...(publishedAt ? { publishedAt } : {}),
+    ...(modifiedAt ? { modifiedAt } : {}),
+  };
+}
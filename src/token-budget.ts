@@ -0,0 +1,148 @@
+import { splitMarkdownSections } from './markdown-cleanup.js';
+
+/* -------------------------------------------------------------------------------------------------
+ * Token estimation
+ * ------------------------------------------------------------------------------------------------- */
+
+const TOKEN_PIECE = /[\p{L}\p{M}\p{N}_]+|[^\s\p{L}\p{M}\p{N}_]/gu;
+const CJK_PIECE =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const CHARS_PER_WORD_TOKEN = 4;
+// Blank line between blocks in the condensed output.
+const BLOCK_SEPARATOR_TOKENS = 1;
+
+function estimatePieceTokens(piece: string): number {
+  if (piece.length === 1) return 1;
+  if (CJK_PIECE.test(piece)) return piece.length;
+  return Math.ceil(piece.length / CHARS_PER_WORD_TOKEN);
+}
+
+/**
+ * Approximates BPE tokenizer counts without a vocabulary: words cost one
+ * token per four characters, CJK characters and punctuation one each. It
+ * errs on the high side for symbol-heavy text such as URLs.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(TOKEN_PIECE)) {
+    tokens += estimatePieceTokens(piece);
+  }
+  return tokens;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Budgeted condensing
+ * ------------------------------------------------------------------------------------------------- */
+
+interface BudgetedSection {
+  heading?: string;
+  blocks: readonly string[];
+  kept: string[];
+  /** Set once a block of this section was skipped; later ones are too. */
+  closed: boolean;
+}
+
+function isFencedBlock(block: string): boolean {
+  const start = block.trimStart();
+  return start.startsWith('```') || start.startsWith('~~~');
+}
+
+// Cuts a paragraph at the last word that fits; fenced code is never cut.
+function clipBlock(block: string, maxTokens: number): string | null {
+  if (isFencedBlock(block)) return null;
+
+  let tokens = 0;
+  let end = 0;
+  for (const match of block.matchAll(TOKEN_PIECE)) {
+    tokens += estimatePieceTokens(match[0]);
+    if (tokens > maxTokens) break;
+    end = match.index + match[0].length;
+  }
+  return end > 0 ? `${block.slice(0, end)} …` : null;
+}
+
+class TokenBudget {
+  constructor(private remaining: number) {}
+
+  take(text: string): boolean {
+    const cost = estimateTokens(text) + BLOCK_SEPARATOR_TOKENS;
+    if (cost > this.remaining) return false;
+    this.remaining -= cost;
+    return true;
+  }
+
+  clip(block: string): string | null {
+    // Reserve the separator and the trailing ellipsis.
+    const clipped = clipBlock(block, this.remaining - 2);
+    if (clipped) this.take(clipped);
+    return clipped;
+  }
+}
+
+function keepHeadings(
+  sections: readonly BudgetedSection[],
+  budget: TokenBudget
+): BudgetedSection[] {
+  return sections.filter(
+    (section) => section.heading === undefined || budget.take(section.heading)
+  );
+}
+
+function fillSection(
+  section: BudgetedSection,
+  round: number,
+  budget: TokenBudget
+): void {
+  const block = section.blocks[round];
+  if (section.closed || block === undefined) return;
+
+  if (budget.take(block)) {
+    section.kept.push(block);
+    return;
+  }
+
+  section.closed = true;
+  if (round !== 0) return;
+  const clipped = budget.clip(block);
+  if (clipped) section.kept.push(clipped);
+}
+
+/**
+ * Shrinks Markdown to roughly `maxTokens` while keeping its outline: every
+ * heading that fits is kept, then the first block of each section, then the
+ * second, and so on. A section's blocks stay contiguous, so a section is
+ * closed at the first block that does not fit. Returns the input unchanged
+ * when it is already within budget.
+ */
+export function condenseMarkdownToTokenBudget(
+  markdown: string,
+  maxTokens: number
+): string {
+  if (estimateTokens(markdown) <= maxTokens) return markdown;
+
+  const budget = new TokenBudget(maxTokens);
+  const sections = keepHeadings(
+    splitMarkdownSections(markdown).map((section) => ({
+      ...section,
+      kept: [],
+      closed: false,
+    })),
+    budget
+  );
+
+  const rounds = sections.reduce(
+    (max, section) => Math.max(max, section.blocks.length),
+    0
+  );
+  for (let round = 0; round < rounds; round += 1) {
+    for (const section of sections) fillSection(section, round, budget);
+  }
+
+  return sections
+    .flatMap((section) =>
+      section.heading === undefined
+        ? section.kept
+        : [section.heading, ...section.kept]
+    )
+    .join('\n\n');
+}
@@ -2,10 +2,7 @@ import { randomUUID } from 'node:crypto';
 
 import { z } from 'zod';
 
-import type {
-  McpServer,
-  ToolCallback,
-} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type {
   CallToolResult,
   ContentBlock,
@@ -14,13 +11,30 @@ import type {
 } from '@modelcontextprotocol/sdk/types.js';
 
 import * as cache from './cache.js';
+import {
+  chunkMarkdown,
+  type ChunkOptions,
+  type MarkdownChunk,
+} from './chunking.js';
 import { config } from './config.js';
+import {
+  contentBlocksToText,
+  markdownToContentBlocks,
+} from './content-blocks.js';
+import { crawl, type CrawlFetchOutcome, isValidPathPattern } from './crawl.js';
+import { decodeUrlDocument, discoverUrls } from './discover.js';
 import { FetchError, getErrorMessage, isSystemError } from './errors.js';
 import {
+  type CacheValidators,
+  type FetchedBuffer,
   fetchNormalizedUrlBuffer,
+  type FetchRetryEvent,
   normalizeUrl,
+  revalidateNormalizedUrlBuffer,
   transformToRawUrl,
 } from './fetch.js';
+import { stripMetadataFooter } from './markdown-cleanup.js';
+import { diffMarkdown } from './markdown-diff.js';
 import {
   getRequestId,
   logDebug,
@@ -28,15 +42,47 @@ import {
   logWarn,
   runWithRequestContext,
 } from './observability.js';
-import type { MarkdownTransformResult } from './transform-types.js';
+import { renderPage } from './renderer.js';
+import { RequestCoalescer } from './request-coalescer.js';
+import { cacheKeyFromResourceUri } from './resources.js';
+import { searchWeb } from './search.js';
+import {
+  condenseMarkdownToTokenBudget,
+  estimateTokens,
+} from './token-budget.js';
+import type {
+  MarkdownTransformResult,
+  StructuredDataItem,
+  TransformOptions,
+} from './transform-types.js';
 import { transformBufferToMarkdown } from './transform.js';
 import { isObject } from './type-guards.js';
+import { listWatches, startWatch, stopWatch, type UrlWatch } from './watch.js';
 
 export interface FetchUrlInput {
   url: string;
   skipNoiseRemoval?: boolean | undefined;
   forceRefresh?: boolean | undefined;
   maxInlineChars?: number | undefined;
+  maxTokens?: number | undefined;
+  selector?: string | undefined;
+  heading?: string | undefined;
+  includeLinks?: boolean | undefined;
+  format?: OutputFormat | undefined;
+  chunkSize?: number | undefined;
+  chunkOverlap?: number | undefined;
+}
+
+const OUTPUT_FORMATS = ['markdown', 'text', 'html', 'blocks'] as const;
+type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** Per-call extraction options; every field is part of the cache key. */
+interface ExtractionOptions {
+  selector?: string | undefined;
+  heading?: string | undefined;
+  includeLinks?: boolean | undefined;
+  format?: OutputFormat | undefined;
+  chunk?: ChunkOptions | undefined;
 }
 
 interface ToolContentBlock {
@@ -66,9 +112,19 @@ interface FetchPipelineOptions<T> {
   signal?: AbortSignal;
   cacheVary?: Record<string, unknown> | string;
   forceRefresh?: boolean;
+  /** Skips fresh cache hits but still sends the entry's validators. */
+  revalidate?: boolean;
+  onRetry?: (event: FetchRetryEvent) => void;
   transform: (
-    input: { buffer: Uint8Array; encoding: string; truncated?: boolean },
-    url: string
+    input: {
+      buffer: Uint8Array;
+      encoding: string;
+      mediaType?: string;
+      truncated?: boolean;
+    },
+    url: string,
+    /** Aborts once every caller sharing this fetch has aborted. */
+    signal?: AbortSignal
   ) => T | Promise<T>;
   serialize?: (result: T) => string;
   deserialize?: (cached: string) => T | undefined;
@@ -82,6 +138,8 @@ interface PipelineResult<T> {
   finalUrl?: string;
   fetchedAt: string;
   cacheKey?: string | null;
+  /** This fetch wrote `data` to the cache under `cacheKey`. */
+  stored?: boolean;
 }
 
 type ProgressToken = string | number;
@@ -104,7 +162,7 @@ export interface ProgressNotification {
   params: ProgressNotificationParams;
 }
 
-interface ToolHandlerExtra {
+export interface ToolHandlerExtra {
   signal?: AbortSignal;
   requestId?: string | number;
   sessionId?: unknown;
@@ -115,6 +173,10 @@ interface ToolHandlerExtra {
 }
 
 const TRUNCATION_MARKER = '...[truncated]';
+const MIN_TOKEN_BUDGET = 50;
+const MAX_TOKEN_BUDGET = 2_000_000;
+const MIN_CHUNK_TOKENS = 50;
+const MAX_CHUNK_TOKENS = 32_000;
 const FETCH_PROGRESS_TOTAL = 4;
 const PROGRESS_NOTIFICATION_TIMEOUT_MS = 5000;
 
@@ -145,6 +207,136 @@ export const fetchUrlInputSchema = z.strictObject({
     .describe(
       'Optional per-call inline markdown limit. 0 means unlimited. If a global inline limit is configured, the lower value is used.'
     ),
+  maxTokens: z
+    .number()
+    .int()
+    .min(MIN_TOKEN_BUDGET)
+    .max(MAX_TOKEN_BUDGET)
+    .optional()
+    .describe(
+      'Approximate token budget for the returned markdown. Larger pages keep their heading outline and the first paragraphs of each section instead of being cut at the end.'
+    ),
+  selector: z
+    .string()
+    .trim()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe(
+      'CSS selector (e.g. "#configuration", "main .api-table"). Only matching elements are converted; article extraction and noise removal are skipped.'
+    ),
+  heading: z
+    .string()
+    .trim()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe(
+      'Heading text (case-insensitive). Returns only the section under the first matching heading, up to the next heading of the same or higher level.'
+    ),
+  includeLinks: z
+    .boolean()
+    .optional()
+    .describe(
+      'Also return deduplicated links and images found in the extracted HTML content.'
+    ),
+  format: z
+    .enum(OUTPUT_FORMATS)
+    .optional()
+    .describe(
+      'Output format (default "markdown"). "text" returns plain text and "html" the cleaned article HTML, both in `content`; "blocks" returns typed JSON blocks in `blocks`. "html" cannot be combined with heading or maxTokens.'
+    ),
+  chunkSize: z
+    .number()
+    .int()
+    .min(MIN_CHUNK_TOKENS)
+    .max(MAX_CHUNK_TOKENS)
+    .optional()
+    .describe(
+      'Also split the full Markdown into heading-aware `chunks` of about this many tokens. Code blocks, tables and lists are never split.'
+    ),
+  chunkOverlap: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_CHUNK_TOKENS)
+    .optional()
+    .describe(
+      'Approximate tokens of trailing blocks repeated at the start of the next chunk in the same section. Must be smaller than chunkSize.'
+    ),
+});
+
+const markdownOutlineEntrySchema = z.strictObject({
+  level: z.number().int().min(1).max(6).describe('Heading level (1-6)'),
+  text: z.string().describe('Heading text without Markdown formatting'),
+  anchor: z.string().describe('GitHub-style anchor slug'),
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .describe('Character offset of the heading in the full Markdown'),
+});
+
+const pageLinkSchema = z.strictObject({
+  href: z.string().describe('Absolute link URL'),
+  text: z.string().describe('Anchor text (or image alt for image links)'),
+  internal: z.boolean().describe('Whether the link stays on the same host'),
+  rel: z.string().optional().describe('The rel attribute, if present'),
+});
+
+const pageImageSchema = z.strictObject({
+  src: z.string().describe('Absolute image URL'),
+  alt: z.string().describe('Alt text (may be empty)'),
+});
+
+const contentBlockSchema = z.discriminatedUnion('type', [
+  z.strictObject({
+    type: z.literal('heading'),
+    level: z.number().int().min(1).max(6),
+    text: z.string(),
+  }),
+  z.strictObject({ type: z.literal('paragraph'), text: z.string() }),
+  z.strictObject({
+    type: z.literal('code'),
+    language: z.string().optional(),
+    text: z.string(),
+  }),
+  z.strictObject({
+    type: z.literal('list'),
+    ordered: z.boolean(),
+    items: z.array(z.string()),
+  }),
+  z.strictObject({
+    type: z.literal('table'),
+    rows: z.array(z.array(z.string())),
+  }),
+]);
+
+const markdownChunkSchema = z.strictObject({
+  index: z.number().int().min(0).describe('Position of the chunk, from 0'),
+  text: z.string().describe('Chunk Markdown'),
+  headings: z
+    .array(z.string())
+    .describe('Heading breadcrumb from the outermost section inward'),
+  start: z
+    .number()
+    .int()
+    .min(0)
+    .describe('Character offset of the chunk in the full Markdown'),
+  end: z
+    .number()
+    .int()
+    .min(0)
+    .describe('End offset (exclusive) of the chunk in the full Markdown'),
+  estimatedTokens: z.number().int().min(0),
+});
+
+const structuredDataItemSchema = z.strictObject({
+  type: z.string().describe('schema.org type, e.g. "Article" or "Recipe"'),
+  source: z.enum(['json-ld', 'microdata']).describe('Where the item was found'),
+  properties: z
+    .record(z.string(), z.unknown())
+    .describe('Item properties; nested items carry "@type"'),
 });
 
 const fetchUrlOutputSchema = z.strictObject({
@@ -214,6 +406,20 @@ const fetchUrlOutputSchema = z.strictObject({
   )
     .optional()
     .describe('The extracted content in Markdown format'),
+  format: z
+    .enum(OUTPUT_FORMATS)
+    .optional()
+    .describe('The output format, when not markdown'),
+  content: (config.constants.maxInlineContentChars > 0
+    ? z.string().max(config.constants.maxInlineContentChars)
+    : z.string()
+  )
+    .optional()
+    .describe('The extracted content as plain text or HTML'),
+  blocks: z
+    .array(contentBlockSchema)
+    .optional()
+    .describe('The extracted content as typed blocks'),
   fromCache: z
     .boolean()
     .optional()
@@ -234,6 +440,40 @@ const fetchUrlOutputSchema = z.strictObject({
     .boolean()
     .optional()
     .describe('Whether the returned markdown was truncated'),
+  estimatedTokens: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Estimated token count of the returned content'),
+  outline: z
+    .array(markdownOutlineEntrySchema)
+    .optional()
+    .describe(
+      'Headings of the full Markdown in document order; offsets index into the cached content'
+    ),
+  links: z
+    .array(pageLinkSchema)
+    .optional()
+    .describe('Links in the extracted content (only with includeLinks)'),
+  images: z
+    .array(pageImageSchema)
+    .optional()
+    .describe('Images in the extracted content (only with includeLinks)'),
+  structuredData: z
+    .array(structuredDataItemSchema)
+    .optional()
+    .describe('schema.org items from JSON-LD and microdata on the page'),
+  chunks: z
+    .array(
+      markdownChunkSchema.extend({
+        url: z.string().describe('Source URL of the chunk'),
+      })
+    )
+    .optional()
+    .describe(
+      'Heading-aware chunks of the full Markdown (only with chunkSize)'
+    ),
   error: z
     .string()
     .max(2048)
@@ -332,6 +572,27 @@ function buildToolAbortSignal(
   return AbortSignal.any([extraSignal, timeoutSignal]);
 }
 
+async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      results[index] = await fn(items[index] as T, index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
 /* -------------------------------------------------------------------------------------------------
  * Progress reporting
  * ------------------------------------------------------------------------------------------------- */
@@ -348,6 +609,7 @@ class ToolProgressReporter implements ProgressReporter {
   private reportQueue: Promise<void> = Promise.resolve();
 
   private constructor(
+    private readonly total: number,
     private readonly token: ProgressToken | null,
     private readonly sendNotification:
       | ((notification: ProgressNotification) => Promise<void>)
@@ -358,7 +620,10 @@ class ToolProgressReporter implements ProgressReporter {
       | undefined
   ) {}
 
-  static create(extra?: ToolHandlerExtra): ProgressReporter {
+  static create(
+    extra?: ToolHandlerExtra,
+    total = FETCH_PROGRESS_TOTAL
+  ): ProgressReporter {
     const token = extra?._meta?.progressToken ?? null;
     const sendNotification = extra?.sendNotification;
     const relatedTaskMeta = resolveRelatedTaskMeta(extra?._meta);
@@ -369,6 +634,7 @@ class ToolProgressReporter implements ProgressReporter {
     }
 
     return new ToolProgressReporter(
+      total,
       token,
       sendNotification,
       relatedTaskMeta,
@@ -397,7 +663,7 @@ class ToolProgressReporter implements ProgressReporter {
       params: {
         progressToken: this.token,
         progress,
-        total: FETCH_PROGRESS_TOTAL,
+        total: this.total,
         message,
         ...(this.relatedTaskMeta
           ? {
@@ -443,9 +709,10 @@ class ToolProgressReporter implements ProgressReporter {
 }
 
 export function createProgressReporter(
-  extra?: ToolHandlerExtra
+  extra?: ToolHandlerExtra,
+  total?: number
 ): ProgressReporter {
-  return ToolProgressReporter.create(extra);
+  return ToolProgressReporter.create(extra, total);
 }
 
 /* -------------------------------------------------------------------------------------------------
@@ -460,14 +727,20 @@ interface InlineContentResult {
 
 type InlineResult = ReturnType<InlineContentLimiter['apply']>;
 
-function getOpenCodeFence(
-  content: string
-): { fenceChar: string; fenceLength: number } | null {
+interface OpenCodeFence {
+  fenceChar: string;
+  fenceLength: number;
+  /** Offset of the line that opened the fence. */
+  index: number;
+}
+
+function getOpenCodeFence(content: string): OpenCodeFence | null {
   const FENCE_PATTERN = /^([ \t]*)(`{3,}|~{3,})/gm;
   let match;
   let inFence = false;
   let fenceChar: string | null = null;
   let fenceLength = 0;
+  let index = 0;
 
   while ((match = FENCE_PATTERN.exec(content)) !== null) {
     const marker = match[2];
@@ -481,6 +754,7 @@ function getOpenCodeFence(
       inFence = true;
       fenceChar = char;
       fenceLength = length;
+      ({ index } = match);
     } else if (char === fenceChar && length >= fenceLength) {
       inFence = false;
       fenceChar = null;
@@ -489,11 +763,15 @@ function getOpenCodeFence(
   }
 
   if (inFence && fenceChar) {
-    return { fenceChar, fenceLength };
+    return { fenceChar, fenceLength, index };
   }
   return null;
 }
 
+function formatFence(fence: OpenCodeFence): string {
+  return fence.fenceChar.repeat(fence.fenceLength);
+}
+
 function findSafeLinkBoundary(content: string, limit: number): number {
   const lastBracket = content.lastIndexOf('[', limit);
   if (lastBracket === -1) return limit;
@@ -517,7 +795,7 @@ function truncateWithMarker(
   const tentativeContent = content.substring(0, maxContentLength);
   const openFence = getOpenCodeFence(tentativeContent);
   if (openFence) {
-    const fenceCloser = `\n${openFence.fenceChar.repeat(openFence.fenceLength)}\n`;
+    const fenceCloser = `\n${formatFence(openFence)}\n`;
     const adjustedLength = Math.max(
       0,
       limit - marker.length - fenceCloser.length
@@ -539,7 +817,7 @@ function appendTruncationMarker(content: string, marker: string): string {
 
   const openFence = getOpenCodeFence(content);
   const contentWithFence = openFence
-    ? `${content}\n${openFence.fenceChar.repeat(openFence.fenceLength)}\n`
+    ? `${content}\n${formatFence(openFence)}\n`
     : content;
 
   const safeBoundary = findSafeLinkBoundary(
@@ -553,21 +831,89 @@ function appendTruncationMarker(content: string, marker: string): string {
   return `${contentWithFence}${marker}`;
 }
 
+/* -------------------------------------------------------------------------------------------------
+ * Cached content paging
+ * ------------------------------------------------------------------------------------------------- */
+
+interface ContentPage {
+  text: string;
+  /** Offset where the next page starts; absent on the last page. */
+  nextOffset?: number;
+}
+
+// Prefers a paragraph break, then a line break, in the second half of the
+// window; a mid-line cut is moved before any unfinished link.
+function findPageBoundary(
+  content: string,
+  start: number,
+  limit: number
+): number {
+  const minEnd = start + Math.floor((limit - start) / 2);
+  const paragraph = content.lastIndexOf('\n\n', limit - 2);
+  if (paragraph >= minEnd) return paragraph + 2;
+  const line = content.lastIndexOf('\n', limit - 1);
+  if (line >= minEnd) return line + 1;
+
+  const safeBoundary = findSafeLinkBoundary(content, limit);
+  return safeBoundary > start ? safeBoundary : limit;
+}
+
+function resolvePageEnd(
+  content: string,
+  start: number,
+  maxChars: number
+): number {
+  const limit = start + maxChars;
+  if (limit >= content.length) return content.length;
+
+  const end = findPageBoundary(content, start, limit);
+  const openFence = getOpenCodeFence(content.substring(0, end));
+  // Keep a code block whole when it starts inside this page; blocks that
+  // already span the page start are split and re-fenced instead.
+  return openFence && openFence.index > start ? openFence.index : end;
+}
+
+function readContentPage(
+  content: string,
+  start: number,
+  maxChars: number
+): ContentPage {
+  const end = resolvePageEnd(content, start, maxChars);
+  let text = content.substring(start, end);
+
+  const reopened = getOpenCodeFence(content.substring(0, start));
+  if (reopened) text = `${formatFence(reopened)}\n${text}`;
+
+  if (end >= content.length) return { text };
+
+  const unclosed = getOpenCodeFence(content.substring(0, end));
+  if (unclosed) {
+    text = `${text}${text.endsWith('\n') ? '' : '\n'}${formatFence(unclosed)}\n`;
+  }
+  return { text, nextOffset: end };
+}
+
 class InlineContentLimiter {
-  apply(content: string, inlineLimitOverride?: number): InlineContentResult {
+  apply(
+    content: string,
+    inlineLimitOverride?: number,
+    maxTokens?: number
+  ): InlineContentResult {
     const contentSize = content.length;
+    const budgeted = this.applyTokenBudget(content, maxTokens);
+    const condensed = budgeted !== content;
     const inlineLimit = this.resolveInlineLimit(inlineLimitOverride);
 
-    if (inlineLimit <= 0) {
-      return { content, contentSize };
-    }
-
-    if (contentSize <= inlineLimit) {
-      return { content, contentSize };
+    if (inlineLimit <= 0 || budgeted.length <= inlineLimit) {
+      return {
+        content: budgeted,
+        contentSize,
+        ...(condensed ? { truncated: true } : {}),
+      };
     }
 
     const truncatedContent = truncateWithMarker(
-      content,
+      budgeted,
       inlineLimit,
       TRUNCATION_MARKER
     );
@@ -579,6 +925,18 @@ class InlineContentLimiter {
     };
   }
 
+  private applyTokenBudget(content: string, maxTokens?: number): string {
+    if (maxTokens === undefined) return content;
+    if (estimateTokens(content) <= maxTokens) return content;
+
+    const markerTokens = estimateTokens(TRUNCATION_MARKER);
+    const condensed = condenseMarkdownToTokenBudget(
+      content,
+      Math.max(0, maxTokens - markerTokens)
+    );
+    return appendTruncationMarker(condensed, TRUNCATION_MARKER);
+  }
+
   private resolveInlineLimit(inlineLimitOverride?: number): number {
     const globalLimit = config.constants.maxInlineContentChars;
 
@@ -596,9 +954,10 @@ const inlineLimiter = new InlineContentLimiter();
 
 function applyInlineContentLimit(
   content: string,
-  inlineLimitOverride?: number
+  inlineLimitOverride?: number,
+  maxTokens?: number
 ): InlineContentResult {
-  return inlineLimiter.apply(content, inlineLimitOverride);
+  return inlineLimiter.apply(content, inlineLimitOverride, maxTokens);
 }
 
 /* -------------------------------------------------------------------------------------------------
@@ -733,35 +1092,50 @@ function logCacheMiss(
   });
 }
 
-function attemptCacheRetrieval<T>(params: {
-  cacheKey: string | null;
-  deserialize: ((cached: string) => T | undefined) | undefined;
-  cacheNamespace: string;
-  normalizedUrl: string;
-}): PipelineResult<T> | null {
-  const { cacheKey, deserialize, cacheNamespace, normalizedUrl } = params;
-  if (!cacheKey) return null;
-
-  const cached = cache.get(cacheKey);
-  if (!cached) return null;
-
+function deserializeCachedContent<T>(
+  content: string,
+  deserialize: ((cached: string) => T | undefined) | undefined,
+  cacheNamespace: string,
+  normalizedUrl: string
+): T | undefined {
   if (!deserialize) {
     logCacheMiss('missing deserializer', cacheNamespace, normalizedUrl);
-    return null;
+    return undefined;
   }
 
   let data: T | undefined;
   try {
-    data = deserialize(cached.content);
+    data = deserialize(content);
   } catch (error: unknown) {
     logCacheMiss('deserialize exception', cacheNamespace, normalizedUrl, error);
-    return null;
+    return undefined;
   }
 
   if (data === undefined) {
     logCacheMiss('deserialize failure', cacheNamespace, normalizedUrl);
-    return null;
   }
+  return data;
+}
+
+function attemptCacheRetrieval<T>(params: {
+  cacheKey: string | null;
+  deserialize: ((cached: string) => T | undefined) | undefined;
+  cacheNamespace: string;
+  normalizedUrl: string;
+}): PipelineResult<T> | null {
+  const { cacheKey, deserialize, cacheNamespace, normalizedUrl } = params;
+  if (!cacheKey) return null;
+
+  const cached = cache.get(cacheKey);
+  if (!cached) return null;
+
+  const data = deserializeCachedContent(
+    cached.content,
+    deserialize,
+    cacheNamespace,
+    normalizedUrl
+  );
+  if (data === undefined) return null;
 
   logDebug('Cache hit', { namespace: cacheNamespace, url: normalizedUrl });
   const finalUrl = cached.url !== normalizedUrl ? cached.url : undefined;
@@ -776,27 +1150,115 @@ function attemptCacheRetrieval<T>(params: {
   };
 }
 
+interface RevalidationCandidate<T> {
+  data: T;
+  validators: CacheValidators;
+}
+
+type RevalidatedFetch<T> =
+  | { kind: 'fetched'; fetched: FetchedBuffer }
+  | { kind: 'not-modified'; data: T; finalUrl: string };
+
+// Stale entries are only revalidated when their payload still deserializes,
+// so a 304 can always be answered from cache. `includeFresh` also accepts
+// entries that have not expired yet.
+function findRevalidationCandidate<T>(
+  params: {
+    cacheKey: string | null;
+    deserialize: ((cached: string) => T | undefined) | undefined;
+    cacheNamespace: string;
+    normalizedUrl: string;
+  },
+  includeFresh = false
+): RevalidationCandidate<T> | null {
+  const { cacheKey, deserialize, cacheNamespace, normalizedUrl } = params;
+  const stale =
+    cache.getStale(cacheKey) ??
+    (includeFresh ? cache.get(cacheKey) : undefined);
+  if (!stale || (!stale.etag && !stale.lastModified)) return null;
+
+  const data = deserializeCachedContent(
+    stale.content,
+    deserialize,
+    cacheNamespace,
+    normalizedUrl
+  );
+  if (data === undefined) return null;
+
+  return {
+    data,
+    validators: {
+      ...(stale.etag ? { etag: stale.etag } : {}),
+      ...(stale.lastModified ? { lastModified: stale.lastModified } : {}),
+    },
+  };
+}
+
+async function fetchOrRevalidate<T>(
+  cacheKey: string | null,
+  normalizedUrl: string,
+  candidate: RevalidationCandidate<T> | null,
+  signal?: AbortSignal,
+  onRetry?: (event: FetchRetryEvent) => void
+): Promise<RevalidatedFetch<T>> {
+  const requestOptions = {
+    ...withSignal(signal),
+    ...(onRetry ? { onRetry } : {}),
+  };
+  if (!candidate) {
+    const fetched = await fetchNormalizedUrlBuffer(
+      normalizedUrl,
+      requestOptions
+    );
+    return { kind: 'fetched', fetched };
+  }
+
+  const result = await revalidateNormalizedUrlBuffer(
+    normalizedUrl,
+    candidate.validators,
+    requestOptions
+  );
+  if (!('notModified' in result)) return { kind: 'fetched', fetched: result };
+
+  if (cacheKey) cache.markRevalidated(cacheKey, result.validators);
+  logDebug('Cache entry revalidated', { url: normalizedUrl });
+  return {
+    kind: 'not-modified',
+    data: candidate.data,
+    finalUrl: result.finalUrl,
+  };
+}
+
 function persistCache<T>(params: {
   cacheKey: string | null;
   data: T;
   serialize: ((result: T) => string) | undefined;
   normalizedUrl: string;
   cacheNamespace: string;
+  validators?: CacheValidators | undefined;
   force?: boolean;
-}): void {
-  const { cacheKey, data, serialize, normalizedUrl, cacheNamespace, force } =
-    params;
-  if (!cacheKey) return;
+}): boolean {
+  const {
+    cacheKey,
+    data,
+    serialize,
+    normalizedUrl,
+    cacheNamespace,
+    validators,
+    force,
+  } = params;
+  if (!cacheKey) return false;
 
   const serializer = serialize ?? JSON.stringify;
   const title = extractTitle(data);
   const metadata = {
     url: normalizedUrl,
     ...(title === undefined ? {} : { title }),
+    ...validators,
   };
 
   try {
-    cache.set(
+    return cache.set(
       cacheKey,
       serializer(data),
       metadata,
@@ -808,7 +1270,80 @@ function persistCache<T>(params: {
       url: normalizedUrl,
       error: getErrorMessage(error),
     });
+    return false;
+  }
+}
+
+function toTransformInput({
+  buffer,
+  encoding,
+  mediaType,
+  truncated,
+}: FetchedBuffer): Parameters<FetchPipelineOptions<unknown>['transform']>[0] {
+  return {
+    buffer,
+    encoding,
+    ...(mediaType ? { mediaType } : {}),
+    ...(truncated ? { truncated: true } : {}),
+  };
+}
+
+// Concurrent misses for the same request share one fetch and transform.
+const inFlightPipelines = new RequestCoalescer();
+// Retry listeners of every caller attached to a shared run, by run key.
+const sharedRetryListeners = new Map<
+  string,
+  Set<(event: FetchRetryEvent) => void>
+>();
+
+// A conditional request is only shared with callers holding the same
+// validators, so nobody gets a 304 answered from another caller's entry.
+function createPipelineRunKey<T>(
+  cacheKey: string,
+  candidate: RevalidationCandidate<T> | null
+): string {
+  if (!candidate) return cacheKey;
+  const { etag, lastModified } = candidate.validators;
+  return JSON.stringify([cacheKey, etag ?? null, lastModified ?? null]);
+}
+
+function attachRetryListener(
+  runKey: string,
+  onRetry: ((event: FetchRetryEvent) => void) | undefined
+): () => void {
+  if (!onRetry) return () => undefined;
+
+  const listeners = sharedRetryListeners.get(runKey) ?? new Set();
+  sharedRetryListeners.set(runKey, listeners);
+  listeners.add(onRetry);
+  return () => {
+    listeners.delete(onRetry);
+    if (
+      listeners.size === 0 &&
+      sharedRetryListeners.get(runKey) === listeners
+    ) {
+      sharedRetryListeners.delete(runKey);
+    }
+  };
+}
+
+function emitSharedRetry(runKey: string, event: FetchRetryEvent): void {
+  for (const listener of sharedRetryListeners.get(runKey) ?? []) {
+    listener(event);
+  }
+}
+
+function createPipelineAbortError(
+  url: string,
+  signal: AbortSignal
+): FetchError {
+  const { reason } = signal as { reason: unknown };
+  if (reason instanceof Error && reason.name === 'TimeoutError') {
+    return new FetchError('Request timeout', url, 504, { reason: 'timeout' });
   }
+  return new FetchError('Request was canceled', url, 499, {
+    reason: 'aborted',
+  });
 }
 
 export async function executeFetchPipeline<T>(
@@ -823,41 +1358,117 @@ export async function executeFetchPipeline<T>(
     options.cacheVary
   );
 
-  if (!options.forceRefresh) {
-    const cachedResult = attemptCacheRetrieval({
-      cacheKey,
-      deserialize: options.deserialize,
-      cacheNamespace: options.cacheNamespace,
-      normalizedUrl: resolvedUrl.normalizedUrl,
-    });
+  const cacheLookup = {
+    cacheKey,
+    deserialize: options.deserialize,
+    cacheNamespace: options.cacheNamespace,
+    normalizedUrl: resolvedUrl.normalizedUrl,
+  };
+
+  let candidate: RevalidationCandidate<T> | null = null;
+  if (options.revalidate) {
+    candidate = findRevalidationCandidate(cacheLookup, true);
+  } else if (!options.forceRefresh) {
+    const cachedResult = attemptCacheRetrieval(cacheLookup);
     if (cachedResult) {
       return { ...cachedResult, originalUrl: resolvedUrl.originalUrl };
     }
+    candidate = findRevalidationCandidate(cacheLookup);
   }
 
-  logDebug('Fetching URL', { url: resolvedUrl.normalizedUrl });
-
-  const { buffer, encoding, truncated, finalUrl } =
-    await fetchNormalizedUrlBuffer(
+  const { signal, onRetry } = options;
+  if (!cacheKey) {
+    const result = await fetchAndTransform(
+      options,
       resolvedUrl.normalizedUrl,
-      withSignal(options.signal)
+      cacheKey,
+      candidate,
+      signal,
+      onRetry
+    );
+    return { ...result, originalUrl: resolvedUrl.originalUrl };
+  }
+
+  const runKey = createPipelineRunKey(cacheKey, candidate);
+  const detachRetryListener = attachRetryListener(runKey, onRetry);
+  try {
+    const shared = await inFlightPipelines.run(
+      runKey,
+      (sharedSignal) =>
+        fetchAndTransform(
+          options,
+          resolvedUrl.normalizedUrl,
+          cacheKey,
+          candidate,
+          sharedSignal,
+          (event) => {
+            emitSharedRetry(runKey, event);
+          }
+        ),
+      signal
     );
-  const transformUrl = finalUrl || resolvedUrl.normalizedUrl;
+    return { ...shared, originalUrl: resolvedUrl.originalUrl };
+  } catch (error: unknown) {
+    if (signal?.aborted && !(error instanceof FetchError)) {
+      throw createPipelineAbortError(resolvedUrl.normalizedUrl, signal);
+    }
+    throw error;
+  } finally {
+    detachRetryListener();
+  }
+}
+
+async function fetchAndTransform<T>(
+  options: FetchPipelineOptions<T>,
+  normalizedUrl: string,
+  cacheKey: string | null,
+  candidate: RevalidationCandidate<T> | null,
+  signal?: AbortSignal,
+  onRetry?: (event: FetchRetryEvent) => void
+): Promise<PipelineResult<T>> {
+  logDebug('Fetching URL', { url: normalizedUrl });
+
+  const outcome = await fetchOrRevalidate(
+    cacheKey,
+    normalizedUrl,
+    candidate,
+    signal,
+    onRetry
+  );
+
+  if (outcome.kind === 'not-modified') {
+    return {
+      data: outcome.data,
+      fromCache: true,
+      url: normalizedUrl,
+      ...(outcome.finalUrl !== normalizedUrl
+        ? { finalUrl: outcome.finalUrl }
+        : {}),
+      fetchedAt: new Date().toISOString(),
+      cacheKey,
+    };
+  }
+
+  const { finalUrl, validators } = outcome.fetched;
+  const transformUrl = finalUrl || normalizedUrl;
   const data = await options.transform(
-    { buffer, encoding, ...(truncated ? { truncated: true } : {}) },
-    transformUrl
+    toTransformInput(outcome.fetched),
+    transformUrl,
+    signal
   );
 
+  let stored = false;
   if (cache.isEnabled()) {
-    persistCache({
+    stored = persistCache({
       cacheKey,
       data,
       serialize: options.serialize,
-      normalizedUrl: finalUrl || resolvedUrl.normalizedUrl,
+      normalizedUrl: finalUrl || normalizedUrl,
       cacheNamespace: options.cacheNamespace,
+      validators,
     });
 
-    if (finalUrl && finalUrl !== resolvedUrl.normalizedUrl) {
+    if (finalUrl && finalUrl !== normalizedUrl) {
       const finalCacheKey = cache.createCacheKey(
         options.cacheNamespace,
         finalUrl,
@@ -870,6 +1481,7 @@ export async function executeFetchPipeline<T>(
           serialize: options.serialize,
           normalizedUrl: finalUrl,
           cacheNamespace: options.cacheNamespace,
+          validators,
         });
       }
     }
@@ -878,11 +1490,11 @@ export async function executeFetchPipeline<T>(
   return {
     data,
     fromCache: false,
-    url: resolvedUrl.normalizedUrl,
-    originalUrl: resolvedUrl.originalUrl,
+    url: normalizedUrl,
     finalUrl,
     fetchedAt: new Date().toISOString(),
     cacheKey,
+    ...(stored ? { stored } : {}),
   };
 }
 
@@ -895,10 +1507,19 @@ interface SharedFetchOptions<T extends { content: string }> {
   readonly signal?: AbortSignal;
   readonly cacheVary?: Record<string, unknown> | string;
   readonly forceRefresh?: boolean;
+  readonly revalidate?: boolean;
+  readonly onRetry?: (event: FetchRetryEvent) => void;
   readonly maxInlineChars?: number;
+  readonly maxTokens?: number;
   readonly transform: (
-    input: { buffer: Uint8Array; encoding: string; truncated?: boolean },
-    normalizedUrl: string
+    input: {
+      buffer: Uint8Array;
+      encoding: string;
+      mediaType?: string;
+      truncated?: boolean;
+    },
+    normalizedUrl: string,
+    signal?: AbortSignal
   ) => T | Promise<T>;
   readonly serialize?: (result: T) => string;
   readonly deserialize?: (cached: string) => T | undefined;
@@ -923,6 +1544,8 @@ export async function performSharedFetch<T extends { content: string }>(
     ...withSignal(options.signal),
     ...(options.cacheVary ? { cacheVary: options.cacheVary } : {}),
     ...(options.forceRefresh ? { forceRefresh: true } : {}),
+    ...(options.revalidate ? { revalidate: true } : {}),
+    ...(options.onRetry ? { onRetry: options.onRetry } : {}),
     transform: options.transform,
     ...(options.serialize ? { serialize: options.serialize } : {}),
     ...(options.deserialize ? { deserialize: options.deserialize } : {}),
@@ -931,7 +1554,8 @@ export async function performSharedFetch<T extends { content: string }>(
   const pipeline = await executePipeline<T>(pipelineOptions);
   const inlineResult = applyInlineContentLimit(
     pipeline.data.content,
-    options.maxInlineChars
+    options.maxInlineChars,
+    options.maxTokens
   );
 
   return { pipeline, inlineResult };
@@ -1004,6 +1628,7 @@ export function handleToolError(
 
 type MarkdownPipelineResult = MarkdownTransformResult & {
   readonly content: string;
+  chunks?: MarkdownChunk[];
 };
 
 function normalizeExtractedMetadata(
@@ -1052,6 +1677,12 @@ const cachedMarkdownSchema = z
       })
       .optional(),
     truncated: z.boolean().optional(),
+    outline: z.array(markdownOutlineEntrySchema).optional(),
+    links: z.array(pageLinkSchema).optional(),
+    images: z.array(pageImageSchema).optional(),
+    structuredData: z.array(structuredDataItemSchema).optional(),
+    html: z.string().optional(),
+    chunks: z.array(markdownChunkSchema).optional(),
   })
   .catchall(z.unknown())
   .refine(
@@ -1077,42 +1708,125 @@ export function parseCachedMarkdownResult(
     ? appendTruncationMarker(markdown, TRUNCATION_MARKER)
     : markdown;
 
+  const { outline, links, images, structuredData, html, chunks } = result.data;
+
   return {
-    content: persistedMarkdown,
+    // HTML-format entries page out the HTML they stored.
+    content: html ?? persistedMarkdown,
     markdown: persistedMarkdown,
     title: result.data.title,
     ...(metadata ? { metadata } : {}),
+    ...(outline && outline.length > 0 ? { outline } : {}),
+    ...(links ? { links } : {}),
+    ...(images ? { images } : {}),
+    ...(structuredData
+      ? { structuredData: structuredData as StructuredDataItem[] }
+      : {}),
+    ...(html === undefined ? {} : { html }),
+    ...(chunks ? { chunks } : {}),
     truncated,
   };
 }
 
+// A failed render keeps the shell's Markdown: the fetch itself succeeded.
+async function transformRenderedPage(
+  url: string,
+  options: TransformOptions,
+  signal?: AbortSignal
+): Promise<MarkdownTransformResult | undefined> {
+  let html: string | null;
+  try {
+    html = await renderPage(url, signal);
+  } catch (error: unknown) {
+    if (signal?.aborted) throw error;
+    logWarn('Page rendering failed', { url, error: getErrorMessage(error) });
+    return undefined;
+  }
+  if (!html) return undefined;
+
+  return transformBufferToMarkdown(new TextEncoder().encode(html), url, {
+    ...options,
+    encoding: 'utf-8',
+    mediaType: 'text/html',
+  });
+}
+
 const markdownTransform = async (
-  input: { buffer: Uint8Array; encoding: string; truncated?: boolean },
+  input: {
+    buffer: Uint8Array;
+    encoding: string;
+    mediaType?: string;
+    truncated?: boolean;
+  },
   url: string,
   signal?: AbortSignal,
-  skipNoiseRemoval?: boolean
+  skipNoiseRemoval?: boolean,
+  options?: ExtractionOptions
 ): Promise<MarkdownPipelineResult> => {
-  const result = await transformBufferToMarkdown(input.buffer, url, {
+  const transformOptions = {
     includeMetadata: true,
-    encoding: input.encoding,
     ...withSignal(signal),
     ...(skipNoiseRemoval ? { skipNoiseRemoval: true } : {}),
+    ...(options?.selector ? { selector: options.selector } : {}),
+    ...(options?.heading ? { heading: options.heading } : {}),
+    ...(options?.includeLinks ? { includeLinks: true } : {}),
+    ...(options?.format === 'html' ? { includeHtml: true } : {}),
+  };
+  const transformed = await transformBufferToMarkdown(input.buffer, url, {
+    ...transformOptions,
+    encoding: input.encoding,
+    ...(input.mediaType ? { mediaType: input.mediaType } : {}),
     ...(input.truncated ? { inputTruncated: true } : {}),
   });
+  const result = transformed.spaShell
+    ? ((await transformRenderedPage(url, transformOptions, signal)) ??
+      transformed)
+    : transformed;
   const truncated = Boolean(result.truncated || input.truncated);
-  return { ...result, content: result.markdown, truncated };
-};
+  const chunks = options?.chunk
+    ? chunkMarkdown(result.markdown, options.chunk)
+    : undefined;
+  if (options?.format !== 'html') {
+    return {
+      ...result,
+      content: result.markdown,
+      truncated,
+      ...(chunks ? { chunks } : {}),
+    };
+  }
 
-function serializeMarkdownResult(result: MarkdownPipelineResult): string {
-  const persistedMarkdown = result.truncated
-    ? appendTruncationMarker(result.markdown, TRUNCATION_MARKER)
-    : result.markdown;
+  if (result.html === undefined) {
+    throw new FetchError('Format "html" requires an HTML response', url, 422, {
+      reason: 'format_unavailable',
+      format: 'html',
+    });
+  }
+  return {
+    ...result,
+    content: result.html,
+    truncated,
+    ...(chunks ? { chunks } : {}),
+  };
+};
+
+function toPersistedMarkdown(result: MarkdownPipelineResult): string {
+  return result.truncated
+    ? appendTruncationMarker(result.markdown, TRUNCATION_MARKER)
+    : result.markdown;
+}
 
+function serializeMarkdownResult(result: MarkdownPipelineResult): string {
   return JSON.stringify({
-    markdown: persistedMarkdown,
+    markdown: toPersistedMarkdown(result),
     title: result.title,
     metadata: result.metadata,
     truncated: result.truncated,
+    outline: result.outline,
+    links: result.links,
+    images: result.images,
+    structuredData: result.structuredData,
+    html: result.html,
+    chunks: result.chunks,
   });
 }
 
@@ -1120,32 +1834,104 @@ function serializeMarkdownResult(result: MarkdownPipelineResult): string {
  * fetch-url tool implementation
  * ------------------------------------------------------------------------------------------------- */
 
+interface FormattedContent {
+  fields: Record<string, unknown>;
+  estimatedTokens?: number;
+}
+
+// Blocks drop the truncation marker; `truncated` already reports the cut.
+function toContentBlocks(
+  markdown: string,
+  truncated: boolean
+): ReturnType<typeof markdownToContentBlocks> {
+  const blocks = markdownToContentBlocks(markdown);
+  const last = blocks.at(-1);
+  if (!truncated || last?.type !== 'paragraph') return blocks;
+  if (!last.text.endsWith(TRUNCATION_MARKER)) return blocks;
+
+  const text = last.text.slice(0, -TRUNCATION_MARKER.length).trimEnd();
+  return text
+    ? [...blocks.slice(0, -1), { type: 'paragraph', text }]
+    : blocks.slice(0, -1);
+}
+
+/**
+ * Text and blocks are derived from the inline Markdown, so inline limits and
+ * `maxTokens` apply to them too; HTML is limited directly.
+ */
+function formatInlineContent(
+  format: OutputFormat,
+  content: string | undefined,
+  truncated: boolean
+): FormattedContent {
+  if (content === undefined) return { fields: {} };
+
+  switch (format) {
+    case 'markdown':
+      return {
+        fields: { markdown: content },
+        estimatedTokens: estimateTokens(content),
+      };
+    case 'html':
+      return {
+        fields: { format, content },
+        estimatedTokens: estimateTokens(content),
+      };
+    case 'text': {
+      const text = contentBlocksToText(markdownToContentBlocks(content));
+      return {
+        fields: { format, content: text },
+        estimatedTokens: estimateTokens(text),
+      };
+    }
+    case 'blocks': {
+      const blocks = toContentBlocks(content, truncated);
+      return {
+        fields: { format, blocks },
+        estimatedTokens: estimateTokens(JSON.stringify(blocks)),
+      };
+    }
+  }
+}
+
 function buildStructuredContent(
   pipeline: PipelineResult<MarkdownPipelineResult>,
   inlineResult: InlineResult,
-  inputUrl: string
+  inputUrl: string,
+  format: OutputFormat = 'markdown'
 ): Record<string, unknown> {
   const cacheResourceUri = resolveCacheResourceUri(pipeline.cacheKey);
   const truncated = inlineResult.truncated ?? pipeline.data.truncated;
-  const markdown = applyTruncationMarker(
-    inlineResult.content,
-    pipeline.data.truncated
+  const formatted = formatInlineContent(
+    format,
+    applyTruncationMarker(inlineResult.content, pipeline.data.truncated),
+    truncated
   );
-  const { metadata } = pipeline.data;
+  const { metadata, outline, links, images, structuredData, chunks } =
+    pipeline.data;
+  const url = pipeline.originalUrl ?? pipeline.url;
 
   return {
-    url: pipeline.originalUrl ?? pipeline.url,
+    url,
     resolvedUrl: pipeline.url,
     ...(pipeline.finalUrl ? { finalUrl: pipeline.finalUrl } : {}),
     ...(cacheResourceUri ? { cacheResourceUri } : {}),
     inputUrl,
     title: pipeline.data.title,
     ...(metadata ? { metadata } : {}),
-    markdown,
+    ...formatted.fields,
     fromCache: pipeline.fromCache,
     fetchedAt: pipeline.fetchedAt,
     contentSize: inlineResult.contentSize,
     ...(truncated ? { truncated: true } : {}),
+    ...(formatted.estimatedTokens !== undefined
+      ? { estimatedTokens: formatted.estimatedTokens }
+      : {}),
+    ...(outline ? { outline } : {}),
+    ...(links ? { links } : {}),
+    ...(images ? { images } : {}),
+    ...(structuredData ? { structuredData } : {}),
+    ...(chunks ? { chunks: chunks.map((chunk) => ({ ...chunk, url })) } : {}),
   };
 }
 
@@ -1162,7 +1948,7 @@ function resolveCacheResourceUri(
 ): string | undefined {
   if (!cacheKey) return undefined;
   if (!cache.isEnabled()) return undefined;
-  if (!cache.get(cacheKey)) return undefined;
+  if (!cache.has(cacheKey)) return undefined;
 
   const parsed = cache.parseCacheKey(cacheKey);
   if (!parsed) return undefined;
@@ -1173,12 +1959,15 @@ function resolveCacheResourceUri(
 function buildFetchUrlContentBlocks(
   structuredContent: Record<string, unknown>,
   pipeline: PipelineResult<MarkdownPipelineResult>,
-  inlineResult: InlineResult
+  inlineResult: InlineResult,
+  format: OutputFormat
 ): ToolContentBlockUnion[] {
   const cacheResourceUri = readString(structuredContent, 'cacheResourceUri');
-  const contentToEmbed = config.runtime.httpMode
+  const inlineOrFull = config.runtime.httpMode
     ? inlineResult.content
     : pipeline.data.content;
+  // The embedded resource is Markdown; other formats live in the text block.
+  const contentToEmbed = format === 'markdown' ? inlineOrFull : undefined;
 
   const resourceLink = cacheResourceUri
     ? buildCacheResourceLink(
@@ -1199,17 +1988,20 @@ function buildFetchUrlContentBlocks(
 function buildResponse(
   pipeline: PipelineResult<MarkdownPipelineResult>,
   inlineResult: InlineResult,
-  inputUrl: string
+  inputUrl: string,
+  format: OutputFormat
 ): ToolResponseBase {
   const structuredContent = buildStructuredContent(
     pipeline,
     inlineResult,
-    inputUrl
+    inputUrl,
+    format
   );
   const content = buildFetchUrlContentBlocks(
     structuredContent,
     pipeline,
-    inlineResult
+    inlineResult,
+    format
   );
 
   // Runtime validation guard: verify output matches schema
@@ -1227,32 +2019,99 @@ function buildResponse(
   };
 }
 
+function buildMarkdownCacheVary(
+  skipNoiseRemoval?: boolean,
+  options?: ExtractionOptions
+): Record<string, unknown> | undefined {
+  const vary = {
+    ...(skipNoiseRemoval ? { skipNoiseRemoval: true } : {}),
+    ...(options?.selector ? { selector: options.selector } : {}),
+    ...(options?.heading ? { heading: options.heading } : {}),
+    ...(options?.includeLinks ? { includeLinks: true } : {}),
+    ...(options?.format && options.format !== 'markdown'
+      ? { format: options.format }
+      : {}),
+    ...(options?.chunk
+      ? {
+          chunkSize: options.chunk.size,
+          chunkOverlap: options.chunk.overlap ?? 0,
+        }
+      : {}),
+  };
+  return Object.keys(vary).length > 0 ? vary : undefined;
+}
+
+// Retries report fractions of the "Fetching content" step, so progress keeps
+// increasing as MCP requires.
+function createRetryProgress(
+  progress: ProgressReporter
+): (event: FetchRetryEvent) => void {
+  return ({ attempt, maxAttempts, delayMs, reason }) => {
+    const seconds = Math.ceil(delayMs / 1000);
+    void progress.report(
+      2 + (attempt - 1) / maxAttempts,
+      `Retrying in ${seconds}s (attempt ${attempt}/${maxAttempts}): ${reason}`
+    );
+  };
+}
+
+interface MarkdownFetchOptions {
+  signal?: AbortSignal | undefined;
+  progress?: ProgressReporter;
+  skipNoiseRemoval?: boolean | undefined;
+  forceRefresh?: boolean | undefined;
+  /** Skips fresh cache hits but still sends the entry's validators. */
+  revalidate?: boolean;
+  maxInlineChars?: number | undefined;
+  maxTokens?: number | undefined;
+  extraction?: ExtractionOptions;
+}
+
 async function fetchPipeline(
   url: string,
-  signal?: AbortSignal,
-  progress?: ProgressReporter,
-  skipNoiseRemoval?: boolean,
-  forceRefresh?: boolean,
-  maxInlineChars?: number
+  {
+    signal,
+    progress,
+    skipNoiseRemoval,
+    forceRefresh,
+    revalidate,
+    maxInlineChars,
+    maxTokens,
+    extraction,
+  }: MarkdownFetchOptions = {}
 ): Promise<{
   pipeline: PipelineResult<MarkdownPipelineResult>;
   inlineResult: InlineResult;
 }> {
+  const cacheVary = buildMarkdownCacheVary(skipNoiseRemoval, extraction);
   return performSharedFetch<MarkdownPipelineResult>({
     url,
     ...withSignal(signal),
-    ...(skipNoiseRemoval ? { cacheVary: { skipNoiseRemoval: true } } : {}),
+    ...(cacheVary ? { cacheVary } : {}),
     ...(forceRefresh ? { forceRefresh: true } : {}),
+    ...(revalidate ? { revalidate: true } : {}),
+    ...(progress ? { onRetry: createRetryProgress(progress) } : {}),
     ...(maxInlineChars !== undefined ? { maxInlineChars } : {}),
-    transform: async ({ buffer, encoding, truncated }, normalizedUrl) => {
+    ...(maxTokens !== undefined ? { maxTokens } : {}),
+    transform: async (
+      { buffer, encoding, mediaType, truncated },
+      normalizedUrl,
+      transformSignal
+    ) => {
       if (progress) {
         void progress.report(3, 'Transforming content');
       }
       return markdownTransform(
-        { buffer, encoding, ...(truncated ? { truncated } : {}) },
+        {
+          buffer,
+          encoding,
+          ...(mediaType ? { mediaType } : {}),
+          ...(truncated ? { truncated } : {}),
+        },
         normalizedUrl,
-        signal,
-        skipNoiseRemoval
+        transformSignal,
+        skipNoiseRemoval,
+        extraction
       );
     },
     serialize: serializeMarkdownResult,
@@ -1260,6 +2119,38 @@ async function fetchPipeline(
   });
 }
 
+function validateFetchOptions(
+  input: FetchUrlInput,
+  format: OutputFormat
+): void {
+  if (format === 'html' && (input.heading || input.maxTokens !== undefined)) {
+    throw new FetchError(
+      'Format "html" cannot be combined with heading or maxTokens',
+      input.url,
+      400,
+      { reason: 'unsupported_option', format }
+    );
+  }
+
+  if (input.chunkOverlap === undefined) return;
+  if (input.chunkSize === undefined || input.chunkOverlap >= input.chunkSize) {
+    throw new FetchError(
+      'chunkOverlap requires a larger chunkSize',
+      input.url,
+      400,
+      { reason: 'unsupported_option', chunkOverlap: input.chunkOverlap }
+    );
+  }
+}
+
+function resolveChunkOptions(input: FetchUrlInput): ChunkOptions | undefined {
+  if (input.chunkSize === undefined) return undefined;
+  return {
+    size: input.chunkSize,
+    ...(input.chunkOverlap ? { overlap: input.chunkOverlap } : {}),
+  };
+}
+
 async function executeFetch(
   input: FetchUrlInput,
   extra?: ToolHandlerExtra
@@ -1269,6 +2160,9 @@ async function executeFetch(
     return createToolErrorResponse('URL is required', '');
   }
 
+  const format = input.format ?? 'markdown';
+  validateFetchOptions(input, format);
+
   const signal = buildToolAbortSignal(extra?.signal);
   const progress = createProgressReporter(extra);
 
@@ -1276,21 +2170,28 @@ async function executeFetch(
   logDebug('Fetching URL', { url });
 
   void progress.report(2, 'Fetching content');
-  const { pipeline, inlineResult } = await fetchPipeline(
-    url,
+  const { pipeline, inlineResult } = await fetchPipeline(url, {
     signal,
     progress,
-    input.skipNoiseRemoval,
-    input.forceRefresh,
-    input.maxInlineChars
-  );
+    skipNoiseRemoval: input.skipNoiseRemoval,
+    forceRefresh: input.forceRefresh,
+    maxInlineChars: input.maxInlineChars,
+    maxTokens: input.maxTokens,
+    extraction: {
+      selector: input.selector,
+      heading: input.heading,
+      includeLinks: input.includeLinks,
+      format: input.format,
+      chunk: resolveChunkOptions(input),
+    },
+  });
 
   if (pipeline.fromCache) {
     void progress.report(3, 'Using cached content');
   }
 
   void progress.report(4, 'Finalizing response');
-  return buildResponse(pipeline, inlineResult, url);
+  return buildResponse(pipeline, inlineResult, url, format);
 }
 
 export async function fetchUrlToolHandler(
@@ -1307,98 +2208,1431 @@ export async function fetchUrlToolHandler(
 }
 
 /* -------------------------------------------------------------------------------------------------
- * MCP tool definition + registration
+ * fetch-urls tool implementation
  * ------------------------------------------------------------------------------------------------- */
 
-type FetchUrlToolHandler = ToolCallback<typeof fetchUrlInputSchema>;
+export const FETCH_URLS_TOOL_NAME = 'fetch-urls';
+const FETCH_URLS_TOOL_DESCRIPTION = `
+Fetches several webpages in one call and converts each to Markdown.
 
-const TOOL_DEFINITION = {
-  name: FETCH_URL_TOOL_NAME,
-  title: 'Fetch URL',
-  description: FETCH_URL_TOOL_DESCRIPTION,
-  inputSchema: fetchUrlInputSchema,
-  outputSchema: fetchUrlOutputSchema,
-  handler: fetchUrlToolHandler,
-  execution: {
-    taskSupport: 'optional',
-  },
-  annotations: {
-    readOnlyHint: true,
-    destructiveHint: false,
-    idempotentHint: true,
-    openWorldHint: true,
-  } satisfies ToolAnnotations,
-} satisfies {
-  name: string;
-  title: string;
-  description: string;
-  inputSchema: typeof fetchUrlInputSchema;
-  outputSchema: typeof fetchUrlOutputSchema;
-  execution: { taskSupport: 'optional' | 'required' | 'forbidden' };
-  annotations: ToolAnnotations;
-  handler: FetchUrlToolHandler;
-};
+Each URL goes through the same pipeline as fetch-url (cache, noise removal, inline limits).
+Results are returned in input order; a failing URL yields an error entry without failing the batch.
 
-export function withRequestContextIfMissing<TParams, TResult, TExtra = unknown>(
-  handler: (params: TParams, extra?: TExtra) => Promise<TResult>
-): (params: TParams, extra?: TExtra) => Promise<TResult> {
-  return async (params, extra) => {
-    const existingRequestId = getRequestId();
-    if (existingRequestId) {
-      return handler(params, extra);
-    }
+Limitations:
+- At most ${config.tools.batchMaxUrls} URLs per call, fetched ${config.tools.batchConcurrency} at a time.
+- Inline markdown limits apply per URL.
+`.trim();
 
-    const derivedRequestId = resolveRequestIdFromExtra(extra) ?? randomUUID();
-    const derivedSessionId = resolveSessionIdFromExtra(extra);
+export const fetchUrlsInputSchema = z.strictObject({
+  urls: z
+    .array(fetchUrlInputSchema.shape.url)
+    .min(1)
+    .max(config.tools.batchMaxUrls)
+    .describe('The URLs of the webpages to fetch and convert to Markdown'),
+  skipNoiseRemoval: fetchUrlInputSchema.shape.skipNoiseRemoval,
+  forceRefresh: fetchUrlInputSchema.shape.forceRefresh,
+  maxInlineChars: fetchUrlInputSchema.shape.maxInlineChars,
+});
 
-    return runWithRequestContext(
-      {
-        requestId: derivedRequestId,
-        operationId: derivedRequestId,
-        ...(derivedSessionId ? { sessionId: derivedSessionId } : {}),
-      },
-      () => handler(params, extra)
+export type FetchUrlsInput = z.infer<typeof fetchUrlsInputSchema>;
+
+const fetchUrlsOutputSchema = z.strictObject({
+  results: z
+    .array(fetchUrlOutputSchema)
+    .describe('Per-URL results in input order; failures carry an error field'),
+  succeeded: z.number().int().min(0).describe('Number of successful fetches'),
+  failed: z.number().int().min(0).describe('Number of failed fetches'),
+});
+
+async function fetchBatchEntry(
+  url: string,
+  input: Pick<
+    FetchUrlsInput,
+    'skipNoiseRemoval' | 'forceRefresh' | 'maxInlineChars'
+  >,
+  parentSignal?: AbortSignal
+): Promise<Record<string, unknown>> {
+  try {
+    const { pipeline, inlineResult } = await fetchPipeline(url, {
+      signal: buildToolAbortSignal(parentSignal),
+      skipNoiseRemoval: input.skipNoiseRemoval,
+      forceRefresh: input.forceRefresh,
+      maxInlineChars: input.maxInlineChars,
+    });
+    return buildStructuredContent(pipeline, inlineResult, url);
+  } catch (error: unknown) {
+    logDebug('fetch-urls entry failed', {
+      url,
+      error: getErrorMessage(error),
+    });
+    return handleToolError(error, url, 'Failed to fetch URL').structuredContent;
+  }
+}
+
+function buildBatchResourceLinks(
+  results: readonly Record<string, unknown>[]
+): ToolContentBlockUnion[] {
+  const links: ToolContentBlockUnion[] = [];
+  for (const result of results) {
+    const cacheResourceUri = readString(result, 'cacheResourceUri');
+    if (!cacheResourceUri) continue;
+
+    const contentSize = readUnknown(result, 'contentSize');
+    links.push(
+      buildCacheResourceLink(
+        cacheResourceUri,
+        typeof contentSize === 'number' ? contentSize : 0,
+        readString(result, 'fetchedAt') ?? new Date().toISOString()
+      )
     );
+  }
+  return links;
+}
+
+async function executeBatchFetch(
+  input: FetchUrlsInput,
+  extra?: ToolHandlerExtra
+): Promise<ToolResponseBase> {
+  const { urls } = input;
+  const progress = createProgressReporter(extra, urls.length);
+  let completed = 0;
+
+  const results = await mapWithConcurrency(
+    urls,
+    config.tools.batchConcurrency,
+    async (url) => {
+      const result = await fetchBatchEntry(url, input, extra?.signal);
+      completed += 1;
+      const outcome = readString(result, 'error') ? 'Failed' : 'Fetched';
+      void progress.report(completed, `${outcome} ${completed}/${urls.length}`);
+      return result;
+    }
+  );
+
+  const failed = results.filter((result) => readString(result, 'error')).length;
+  const structuredContent = {
+    results,
+    succeeded: results.length - failed,
+    failed,
+  };
+
+  const validation = fetchUrlsOutputSchema.safeParse(structuredContent);
+  if (!validation.success) {
+    logWarn('Tool output schema validation failed', {
+      tool: FETCH_URLS_TOOL_NAME,
+      issues: validation.error.issues,
+    });
+  }
+
+  return {
+    content: buildToolContentBlocks(structuredContent).concat(
+      buildBatchResourceLinks(results)
+    ),
+    structuredContent,
+    ...(failed === results.length ? { isError: true } : {}),
   };
 }
 
-function resolveRequestIdFromExtra(extra: unknown): string | undefined {
-  if (!isObject(extra)) return undefined;
+export async function fetchUrlsToolHandler(
+  input: FetchUrlsInput,
+  extra?: ToolHandlerExtra
+): Promise<ToolResponseBase> {
+  return executeBatchFetch(input, extra).catch((error: unknown) => {
+    logError(
+      'fetch-urls tool error',
+      error instanceof Error ? error : undefined
+    );
+    return handleToolError(error, input.urls[0] ?? '', 'Failed to fetch URLs');
+  });
+}
 
-  const { requestId } = extra as { requestId?: unknown };
-  if (typeof requestId === 'string') return requestId;
-  if (typeof requestId === 'number') return String(requestId);
+/* -------------------------------------------------------------------------------------------------
+ * crawl tool implementation
+ * ------------------------------------------------------------------------------------------------- */
 
-  return undefined;
+export const CRAWL_TOOL_NAME = 'crawl';
+const CRAWL_DEFAULT_MAX_DEPTH = 2;
+const CRAWL_DEFAULT_MAX_PAGES = 20;
+const CRAWL_MAX_PATTERNS = 20;
+const CRAWL_TOOL_DESCRIPTION = `
+Crawls a website breadth-first from a start URL and caches every page as Markdown.
+
+Links are discovered in each page's transformed Markdown; only same-origin links are followed.
+The result is a manifest of pages with internal://cache/... resource links; read page content via resources/read.
+
+Limitations:
+- Requires task execution (tools/call with a task); poll tasks/get and fetch the manifest via tasks/result.
+- Depth is capped at ${config.tools.crawlMaxDepth} and page count at ${config.tools.crawlMaxPages}.
+- Pages are fetched one at a time.
+- Requires the cache; pages are only readable as cached resources.
+`.trim();
+
+const crawlPathPatternsSchema = z
+  .array(
+    z
+      .string()
+      .min(1)
+      .max(512)
+      .refine(isValidPathPattern, { message: 'Invalid URL pathname pattern' })
+  )
+  .max(CRAWL_MAX_PATTERNS);
+
+export const crawlInputSchema = z.strictObject({
+  url: fetchUrlInputSchema.shape.url.describe(
+    'The start URL of the crawl (must be http or https)'
+  ),
+  maxDepth: z
+    .number()
+    .int()
+    .min(0)
+    .max(config.tools.crawlMaxDepth)
+    .optional()
+    .describe(
+      `Maximum link depth from the start URL (0 = start page only). Default: ${CRAWL_DEFAULT_MAX_DEPTH}.`
+    ),
+  maxPages: z
+    .number()
+    .int()
+    .min(1)
+    .max(config.tools.crawlMaxPages)
+    .optional()
+    .describe(
+      `Maximum number of pages to fetch, including failures. Default: ${CRAWL_DEFAULT_MAX_PAGES}.`
+    ),
+  include: crawlPathPatternsSchema
+    .optional()
+    .describe(
+      'URL pathname patterns (URLPattern syntax, e.g. "/docs/*"); when set, only matching links are followed'
+    ),
+  exclude: crawlPathPatternsSchema
+    .optional()
+    .describe(
+      'URL pathname patterns (URLPattern syntax) for links that must not be followed'
+    ),
+  skipNoiseRemoval: fetchUrlInputSchema.shape.skipNoiseRemoval,
+  forceRefresh: fetchUrlInputSchema.shape.forceRefresh,
+});
+
+export type CrawlInput = z.infer<typeof crawlInputSchema>;
+
+const crawlOutputSchema = z.strictObject({
+  url: z.string().describe('The start URL of the crawl'),
+  pages: z
+    .array(
+      z.strictObject({
+        url: z.string().describe('The crawled page URL'),
+        depth: z.number().int().min(0).describe('Link depth from the start'),
+        title: z.string().optional().describe('The page title'),
+        cacheResourceUri: z
+          .string()
+          .optional()
+          .describe('Resource URI of the cached Markdown'),
+        contentSize: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe('Markdown length in characters'),
+        fromCache: z.boolean().optional(),
+        fetchedAt: z.string().optional(),
+        error: z.string().optional().describe('Error message on failure'),
+        statusCode: z.number().int().optional(),
+      })
+    )
+    .describe('Crawled pages in breadth-first order'),
+  crawled: z.number().int().min(0).describe('Number of pages fetched'),
+  failed: z.number().int().min(0).describe('Number of failed pages'),
+  truncated: z
+    .boolean()
+    .describe('True when maxPages was reached with links left unvisited'),
+});
+
+async function fetchCrawlPage(
+  url: string,
+  depth: number,
+  input: CrawlInput,
+  parentSignal?: AbortSignal
+): Promise<CrawlFetchOutcome<Record<string, unknown>>> {
+  try {
+    const { pipeline, inlineResult } = await fetchPipeline(url, {
+      signal: buildToolAbortSignal(parentSignal),
+      skipNoiseRemoval: input.skipNoiseRemoval,
+      forceRefresh: input.forceRefresh,
+    });
+    const cacheResourceUri = resolveCacheResourceUri(pipeline.cacheKey);
+    const { title } = pipeline.data;
+
+    return {
+      page: {
+        url,
+        depth,
+        ...(title ? { title } : {}),
+        ...(cacheResourceUri ? { cacheResourceUri } : {}),
+        contentSize: inlineResult.contentSize,
+        fromCache: pipeline.fromCache,
+        fetchedAt: pipeline.fetchedAt,
+      },
+      markdown: pipeline.data.markdown,
+      finalUrl: pipeline.finalUrl ?? pipeline.url,
+    };
+  } catch (error: unknown) {
+    parentSignal?.throwIfAborted();
+    logDebug('crawl page failed', { url, error: getErrorMessage(error) });
+
+    const { structuredContent } = handleToolError(
+      error,
+      url,
+      'Failed to fetch URL'
+    );
+    return {
+      page: {
+        url,
+        depth,
+        error: structuredContent.error,
+        ...(structuredContent.statusCode !== undefined
+          ? { statusCode: structuredContent.statusCode }
+          : {}),
+      },
+    };
+  }
 }
 
-function resolveSessionIdFromExtra(extra: unknown): string | undefined {
-  if (!isObject(extra)) return undefined;
+async function executeCrawl(
+  input: CrawlInput,
+  extra?: ToolHandlerExtra
+): Promise<ToolResponseBase> {
+  if (!cache.isEnabled()) {
+    throw new FetchError(
+      'crawl needs the cache to publish pages as resources',
+      input.url,
+      400,
+      { reason: 'cache_disabled' }
+    );
+  }
 
-  const { sessionId } = extra as { sessionId?: unknown };
-  if (typeof sessionId === 'string') return sessionId;
+  const maxPages = input.maxPages ?? CRAWL_DEFAULT_MAX_PAGES;
+  const progress = createProgressReporter(extra, maxPages);
+
+  const { pages, truncated } = await crawl({
+    startUrl: normalizeUrl(input.url).normalizedUrl,
+    maxDepth: input.maxDepth ?? CRAWL_DEFAULT_MAX_DEPTH,
+    maxPages,
+    include: input.include,
+    exclude: input.exclude,
+    signal: extra?.signal,
+    fetchPage: (url, depth) => fetchCrawlPage(url, depth, input, extra?.signal),
+    onPage: (page, crawled) => {
+      const outcome = readString(page, 'error') ? 'Failed' : 'Crawled';
+      void progress.report(
+        crawled,
+        `${outcome} ${crawled}/${maxPages}: ${readString(page, 'url') ?? ''}`
+      );
+    },
+  });
 
-  const headers = readNestedRecord(extra, ['requestInfo', 'headers']);
-  const headerValue = headers ? headers['mcp-session-id'] : undefined;
+  const failed = pages.filter((page) => readString(page, 'error')).length;
+  const structuredContent = {
+    url: input.url,
+    pages,
+    crawled: pages.length,
+    failed,
+    truncated,
+  };
 
-  return typeof headerValue === 'string' ? headerValue : undefined;
+  const validation = crawlOutputSchema.safeParse(structuredContent);
+  if (!validation.success) {
+    logWarn('Tool output schema validation failed', {
+      tool: CRAWL_TOOL_NAME,
+      issues: validation.error.issues,
+    });
+  }
+
+  return {
+    content: buildToolContentBlocks(structuredContent).concat(
+      buildBatchResourceLinks(pages)
+    ),
+    structuredContent,
+    ...(failed === pages.length ? { isError: true } : {}),
+  };
 }
 
-export function registerTools(server: McpServer): void {
-  if (!config.tools.enabled.includes(FETCH_URL_TOOL_NAME)) return;
+export async function crawlToolHandler(
+  input: CrawlInput,
+  extra?: ToolHandlerExtra
+): Promise<ToolResponseBase> {
+  return executeCrawl(input, extra).catch((error: unknown) => {
+    logError('crawl tool error', error instanceof Error ? error : undefined);
+    return handleToolError(error, input.url, 'Failed to crawl URL');
+  });
+}
 
-  const registeredTool = server.registerTool(
-    TOOL_DEFINITION.name,
-    {
-      title: TOOL_DEFINITION.title,
-      description: TOOL_DEFINITION.description,
-      inputSchema: TOOL_DEFINITION.inputSchema,
-      outputSchema: TOOL_DEFINITION.outputSchema,
-      annotations: TOOL_DEFINITION.annotations,
-      execution: TOOL_DEFINITION.execution,
-      icons: [TOOL_ICON],
-    } as { inputSchema: typeof fetchUrlInputSchema } & Record<string, unknown>,
-    withRequestContextIfMissing(TOOL_DEFINITION.handler)
-  );
-  registeredTool.execution = TOOL_DEFINITION.execution;
+/* -------------------------------------------------------------------------------------------------
+ * read-cached tool implementation
+ * ------------------------------------------------------------------------------------------------- */
+
+export const READ_CACHED_TOOL_NAME = 'read-cached';
+const READ_CACHED_DEFAULT_MAX_CHARS = 20_000;
+const READ_CACHED_MIN_CHARS = 1_000;
+const READ_CACHED_MAX_CHARS = 1_000_000;
+const CURSOR_PATTERN = /^\d{1,10}$/;
+const READ_CACHED_TOOL_DESCRIPTION = `
+Reads cached Markdown from a previous fetch-url or crawl call one page at a time.
+
+Use this when fetch-url output was truncated and the full document does not fit in context.
+Pass the cacheResourceUri from the earlier result; repeat with nextCursor until it is absent.
+
+Limitations:
+- Only reads content that is still cached; fetch the URL again after the entry expires.
+- Pages end on paragraph or line breaks, so they are usually somewhat shorter than maxChars.
+`.trim();
+
+export const readCachedInputSchema = z.strictObject({
+  uri: z
+    .string()
+    .min(1)
+    .max(512)
+    .describe(
+      'The cacheResourceUri returned by fetch-url, fetch-urls or crawl'
+    ),
+  cursor: z
+    .string()
+    .regex(CURSOR_PATTERN)
+    .optional()
+    .describe(
+      'The nextCursor from the previous page. Omit to start at the top.'
+    ),
+  maxChars: z
+    .number()
+    .int()
+    .min(READ_CACHED_MIN_CHARS)
+    .max(READ_CACHED_MAX_CHARS)
+    .optional()
+    .describe(
+      `Maximum characters of cached content per page; fence lines added around split code blocks are not counted. Default: ${READ_CACHED_DEFAULT_MAX_CHARS}.`
+    ),
+});
+
+export type ReadCachedInput = z.infer<typeof readCachedInputSchema>;
+
+const readCachedOutputSchema = z.strictObject({
+  uri: z.string().describe('The cache resource URI that was read'),
+  title: z.string().optional().describe('The cached page title'),
+  markdown: z
+    .string()
+    .describe(
+      'Markdown for this page; code blocks split across pages are closed and reopened'
+    ),
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .describe('Character offset of this page in the full document'),
+  contentSize: z
+    .number()
+    .int()
+    .min(0)
+    .describe('Length of the full cached Markdown in characters'),
+  nextCursor: z
+    .string()
+    .optional()
+    .describe('Cursor for the next page; absent on the last page'),
+});
+
+function readCachedMarkdown(uri: string): { markdown: string; title?: string } {
+  const cacheKey = cacheKeyFromResourceUri(uri);
+  if (!cacheKey) {
+    throw new FetchError('Invalid cache resource URI', uri, 400, {
+      reason: 'invalid_cache_uri',
+    });
+  }
+
+  const entry = cache.get(cacheKey);
+  if (!entry) {
+    throw new FetchError(
+      'Cached content not found or expired; fetch the URL again',
+      uri,
+      404,
+      { reason: 'cache_entry_not_found' }
+    );
+  }
+
+  const payload = cache.parseCachedPayload(entry.content);
+  const markdown = payload ? cache.resolveCachedPayloadContent(payload) : null;
+  return {
+    markdown: markdown ?? entry.content,
+    ...(payload?.title ? { title: payload.title } : {}),
+  };
+}
+
+function executeReadCached(input: ReadCachedInput): ToolResponseBase {
+  const { markdown, title } = readCachedMarkdown(input.uri);
+  const offset = input.cursor ? Number(input.cursor) : 0;
+  if (offset > markdown.length) {
+    throw new FetchError(
+      'Cursor is past the end of the content',
+      input.uri,
+      400,
+      {
+        reason: 'invalid_cursor',
+      }
+    );
+  }
+
+  const page = readContentPage(
+    markdown,
+    offset,
+    input.maxChars ?? READ_CACHED_DEFAULT_MAX_CHARS
+  );
+  const structuredContent = {
+    uri: input.uri,
+    ...(title ? { title } : {}),
+    markdown: page.text,
+    offset,
+    contentSize: markdown.length,
+    ...(page.nextOffset !== undefined
+      ? { nextCursor: String(page.nextOffset) }
+      : {}),
+  };
+
+  return {
+    content: buildToolContentBlocks(structuredContent),
+    structuredContent,
+  };
+}
+
+export function readCachedToolHandler(
+  input: ReadCachedInput
+): Promise<ToolResponseBase> {
+  try {
+    return Promise.resolve(executeReadCached(input));
+  } catch (error: unknown) {
+    return Promise.resolve(
+      handleToolError(error, input.uri, 'Failed to read cached content')
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * diff-url tool implementation
+ * ------------------------------------------------------------------------------------------------- */
+
+export const DIFF_URL_TOOL_NAME = 'diff-url';
+const DIFF_URL_DEFAULT_CONTEXT_LINES = 3;
+const DIFF_URL_MAX_CONTEXT_LINES = 20;
+const DIFF_URL_TOOL_DESCRIPTION = `
+Fetches a webpage fresh and compares its Markdown with the version cached by the previous fetch.
+
+This tool is useful for:
+- Tracking changes to changelogs, release notes, and API documentation.
+- Seeing which sections changed, and which headings were added or removed.
+
+The fresh content replaces the cache entry, so the next diff compares against it.
+
+Limitations:
+- The first call for a URL returns status "baseline" with nothing to compare.
+- Previous versions are kept with the cache for the last ${config.cache.maxPreviousKeys} refetched URLs; older ones are dropped first.
+`.trim();
+
+export const diffUrlInputSchema = z.strictObject({
+  url: fetchUrlInputSchema.shape.url.describe(
+    'The URL of the webpage to fetch and compare with its cached version'
+  ),
+  mode: z
+    .enum(['unified', 'sections'])
+    .optional()
+    .describe(
+      'Diff shape. "unified" (default) returns one unified diff; "sections" returns added, removed, and changed sections with a diff each.'
+    ),
+  contextLines: z
+    .number()
+    .int()
+    .min(0)
+    .max(DIFF_URL_MAX_CONTEXT_LINES)
+    .optional()
+    .describe(
+      `Unchanged lines shown around each change. Default: ${DIFF_URL_DEFAULT_CONTEXT_LINES}.`
+    ),
+  skipNoiseRemoval: fetchUrlInputSchema.shape.skipNoiseRemoval,
+});
+
+export type DiffUrlInput = z.infer<typeof diffUrlInputSchema>;
+
+const sectionChangeSchema = z.strictObject({
+  heading: z
+    .string()
+    .optional()
+    .describe('Heading line; absent for content before the first heading'),
+  status: z.enum(['added', 'removed', 'changed']),
+  diff: z.string().describe('Unified diff hunks of the section body'),
+});
+
+const diffUrlOutputSchema = z.strictObject({
+  url: z.string().describe('The fetched URL'),
+  resolvedUrl: z
+    .string()
+    .optional()
+    .describe('The normalized or transformed URL that was fetched'),
+  finalUrl: z
+    .string()
+    .optional()
+    .describe('The final response URL after redirects'),
+  cacheResourceUri: z
+    .string()
+    .optional()
+    .describe('Cache resource URI of the fresh Markdown'),
+  title: z.string().optional().describe('Page title'),
+  status: z
+    .enum(['baseline', 'unchanged', 'changed'])
+    .describe('"baseline" when there was no cached version to compare with'),
+  fetchedAt: z.string().describe('ISO timestamp of the fresh fetch'),
+  previousFetchedAt: z
+    .string()
+    .optional()
+    .describe('ISO timestamp of the version compared against'),
+  summary: z
+    .strictObject({
+      addedLines: z.number().int().min(0),
+      removedLines: z.number().int().min(0),
+      addedHeadings: z.array(z.string()),
+      removedHeadings: z.array(z.string()),
+    })
+    .optional()
+    .describe('Line counts and heading changes; absent for a baseline'),
+  diff: z
+    .string()
+    .optional()
+    .describe('Unified diff (mode "unified", only when changed)'),
+  sections: z
+    .array(sectionChangeSchema)
+    .optional()
+    .describe('Changed sections in page order, then removed ones'),
+});
+
+function readPreviousMarkdown(
+  cacheKey: string | null | undefined
+): { markdown: string; fetchedAt: string } | undefined {
+  const entry = cache.getPrevious(cacheKey ?? null);
+  if (!entry) return undefined;
+  const previous = parseCachedMarkdownResult(entry.content);
+  return previous
+    ? { markdown: previous.markdown, fetchedAt: entry.fetchedAt }
+    : undefined;
+}
+
+function buildDiffStructuredContent(
+  pipeline: PipelineResult<MarkdownPipelineResult>,
+  input: DiffUrlInput
+): Record<string, unknown> {
+  const cacheResourceUri = resolveCacheResourceUri(pipeline.cacheKey);
+  const base = {
+    url: pipeline.originalUrl ?? pipeline.url,
+    resolvedUrl: pipeline.url,
+    ...(pipeline.finalUrl ? { finalUrl: pipeline.finalUrl } : {}),
+    ...(cacheResourceUri ? { cacheResourceUri } : {}),
+    ...(pipeline.data.title ? { title: pipeline.data.title } : {}),
+    fetchedAt: pipeline.fetchedAt,
+  };
+
+  // Without a write of its own, the snapshot may predate the cached version.
+  const previous = pipeline.stored
+    ? readPreviousMarkdown(pipeline.cacheKey)
+    : undefined;
+  if (!previous) return { ...base, status: 'baseline' };
+
+  // The footer carries the fetch date, which changes on its own.
+  const result = diffMarkdown(
+    stripMetadataFooter(previous.markdown),
+    stripMetadataFooter(toPersistedMarkdown(pipeline.data)),
+    {
+      mode: input.mode ?? 'unified',
+      context: input.contextLines ?? DIFF_URL_DEFAULT_CONTEXT_LINES,
+      labels: [
+        `previous\t${previous.fetchedAt}`,
+        `current\t${pipeline.fetchedAt}`,
+      ],
+    }
+  );
+
+  return {
+    ...base,
+    status: result.changed ? 'changed' : 'unchanged',
+    previousFetchedAt: previous.fetchedAt,
+    summary: {
+      addedLines: result.addedLines,
+      removedLines: result.removedLines,
+      addedHeadings: result.addedHeadings,
+      removedHeadings: result.removedHeadings,
+    },
+    ...(result.unified ? { diff: result.unified } : {}),
+    ...(result.sections ? { sections: result.sections } : {}),
+  };
+}
+
+async function executeDiffUrl(
+  input: DiffUrlInput,
+  extra?: ToolHandlerExtra
+): Promise<ToolResponseBase> {
+  if (!cache.isEnabled()) {
+    throw new FetchError(
+      'diff-url needs the cache to keep previous versions',
+      input.url,
+      400,
+      { reason: 'cache_disabled' }
+    );
+  }
+
+  const signal = buildToolAbortSignal(extra?.signal);
+  const progress = createProgressReporter(extra);
+  void progress.report(1, 'Fetching content');
+  const { pipeline } = await fetchPipeline(input.url, {
+    signal,
+    progress,
+    skipNoiseRemoval: input.skipNoiseRemoval,
+    forceRefresh: true,
+  });
+
+  void progress.report(4, 'Comparing with cached version');
+  const structuredContent = buildDiffStructuredContent(pipeline, input);
+  return {
+    content: buildToolContentBlocks(structuredContent),
+    structuredContent,
+  };
+}
+
+export async function diffUrlToolHandler(
+  input: DiffUrlInput,
+  extra?: ToolHandlerExtra
+): Promise<ToolResponseBase> {
+  return executeDiffUrl(input, extra).catch((error: unknown) => {
+    logError('diff-url tool error', error instanceof Error ? error : undefined);
+    return handleToolError(error, input.url, 'Failed to diff URL');
+  });
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * watch-url tool implementation
+ * ------------------------------------------------------------------------------------------------- */
+
+export const WATCH_URL_TOOL_NAME = 'watch-url';
+const WATCH_URL_DEFAULT_INTERVAL_SECONDS = 300;
+const WATCH_URL_TOOL_DESCRIPTION = `
+Re-fetches a webpage on an interval and updates its cache resource when the Markdown changes.
+
+This tool is useful for:
+- Following changelogs, status pages, and documentation that change over time.
+- Getting \`notifications/resources/updated\` for a page without polling it yourself.
+
+Subscribe to the returned \`cacheResourceUri\` with \`resources/subscribe\` to be notified; notifications are sent only when the extracted Markdown changes.
+
+Limitations:
+- Requires the cache; watches are kept in memory and end with the session.
+- Checks replace the version diff-url compares against; read the resource instead of calling diff-url after a notification.
+- At most ${config.tools.watchMaxPerSession} active watches per session.
+`.trim();
+
+export const watchUrlInputSchema = z.strictObject({
+  url: fetchUrlInputSchema.shape.url.describe(
+    'The URL of the webpage to watch'
+  ),
+  action: z
+    .enum(['start', 'stop'])
+    .optional()
+    .describe(
+      '"start" (default) begins a watch or changes its interval; "stop" ends it.'
+    ),
+  intervalSeconds: z
+    .number()
+    .int()
+    .min(config.tools.watchMinIntervalSeconds)
+    .max(config.tools.watchMaxIntervalSeconds)
+    .optional()
+    .describe(
+      `Seconds between checks. Default: ${WATCH_URL_DEFAULT_INTERVAL_SECONDS}.`
+    ),
+  skipNoiseRemoval: fetchUrlInputSchema.shape.skipNoiseRemoval,
+});
+
+export type WatchUrlInput = z.infer<typeof watchUrlInputSchema>;
+
+const urlWatchSchema = z.strictObject({
+  url: z.string().describe('The watched URL'),
+  cacheResourceUri: z
+    .string()
+    .optional()
+    .describe('Cache resource URI to subscribe to'),
+  intervalSeconds: z.number().int().min(1),
+  startedAt: z.string().describe('ISO timestamp of the watch start'),
+  checks: z.number().int().min(0).describe('Re-fetches so far'),
+  changes: z
+    .number()
+    .int()
+    .min(0)
+    .describe('Checks that found changed Markdown'),
+  contentHash: z
+    .string()
+    .describe('SHA-256 of the Markdown, without the metadata footer'),
+  lastCheckedAt: z.string().optional(),
+  lastChangedAt: z.string().optional(),
+  lastError: z
+    .string()
+    .optional()
+    .describe('Error of the latest check, if it failed'),
+});
+
+const watchUrlOutputSchema = z.strictObject({
+  url: z.string().describe('The URL passed in'),
+  action: z.enum(['start', 'stop']),
+  watching: z.boolean().describe('Whether the URL is watched after this call'),
+  cacheResourceUri: z
+    .string()
+    .optional()
+    .describe('Subscribe to this URI to receive change notifications'),
+  watches: z
+    .array(urlWatchSchema)
+    .describe('Active watches of this session, including this one'),
+});
+
+function resolveWatchOwnerKey(extra?: ToolHandlerExtra): string {
+  const sessionId = resolveSessionIdFromExtra(extra);
+  return sessionId ? `session:${sessionId}` : 'default';
+}
+
+function resolveWatchKey(input: WatchUrlInput): string {
+  const { normalizedUrl } = resolveNormalizedUrl(input.url);
+  const key = cache.createCacheKey(
+    'markdown',
+    normalizedUrl,
+    buildMarkdownCacheVary(input.skipNoiseRemoval)
+  );
+  if (!key) {
+    throw new FetchError('Cannot derive a cache key for the URL', input.url);
+  }
+  return key;
+}
+
+function toWatchOutput(watch: UrlWatch): Record<string, unknown> {
+  const { key, ...fields } = watch;
+  const cacheResourceUri = resolveCacheResourceUri(key);
+  return { ...fields, ...(cacheResourceUri ? { cacheResourceUri } : {}) };
+}
+
+// The initial fetch may be served from cache; checks revalidate the entry
+// with its ETag or Last-Modified validators when it has them.
+async function startUrlWatch(
+  input: WatchUrlInput,
+  key: string,
+  ownerKey: string,
+  extra?: ToolHandlerExtra
+): Promise<void> {
+  if (!cache.isEnabled()) {
+    throw new FetchError(
+      'watch-url needs the cache to publish changes as resources',
+      input.url,
+      400,
+      { reason: 'cache_disabled' }
+    );
+  }
+
+  const { pipeline } = await fetchPipeline(input.url, {
+    signal: buildToolAbortSignal(extra?.signal),
+    skipNoiseRemoval: input.skipNoiseRemoval,
+  });
+
+  startWatch({
+    ownerKey,
+    key,
+    url: input.url,
+    intervalSeconds:
+      input.intervalSeconds ?? WATCH_URL_DEFAULT_INTERVAL_SECONDS,
+    markdown: toPersistedMarkdown(pipeline.data),
+    check: async (signal) => {
+      const { pipeline: refreshed } = await fetchPipeline(input.url, {
+        signal: buildToolAbortSignal(signal),
+        skipNoiseRemoval: input.skipNoiseRemoval,
+        revalidate: true,
+      });
+      return toPersistedMarkdown(refreshed.data);
+    },
+  });
+}
+
+async function executeWatchUrl(
+  input: WatchUrlInput,
+  extra?: ToolHandlerExtra
+): Promise<ToolResponseBase> {
+  const action = input.action ?? 'start';
+  const ownerKey = resolveWatchOwnerKey(extra);
+  const key = resolveWatchKey(input);
+
+  if (action === 'start') {
+    await startUrlWatch(input, key, ownerKey, extra);
+  } else {
+    stopWatch(ownerKey, key);
+  }
+
+  const cacheResourceUri = resolveCacheResourceUri(key);
+  const structuredContent = {
+    url: input.url,
+    action,
+    watching: action === 'start',
+    ...(cacheResourceUri ? { cacheResourceUri } : {}),
+    watches: listWatches(ownerKey).map(toWatchOutput),
+  };
+  return {
+    content: buildToolContentBlocks(structuredContent),
+    structuredContent,
+  };
+}
+
+export async function watchUrlToolHandler(
+  input: WatchUrlInput,
+  extra?: ToolHandlerExtra
+): Promise<ToolResponseBase> {
+  return executeWatchUrl(input, extra).catch((error: unknown) => {
+    logError(
+      'watch-url tool error',
+      error instanceof Error ? error : undefined
+    );
+    return handleToolError(error, input.url, 'Failed to watch URL');
+  });
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * search tool implementation
+ * ------------------------------------------------------------------------------------------------- */
+
+export const SEARCH_TOOL_NAME = 'search';
+const SEARCH_DEFAULT_MAX_RESULTS = 10;
+const SEARCH_TOOL_DESCRIPTION = `
+Searches the web through the server's search provider and returns titles, URLs, and snippets.
+
+This tool is useful for:
+- Finding the page to fetch when only a topic or question is known.
+- Searching and reading the top results in one call with fetchTop.
+
+Pages fetched with fetchTop go through the same pipeline as fetch-url (cache, noise removal, inline limits).
+
+Limitations:
+- Requires a search provider configured on the server; fails with details.reason "search_disabled" otherwise.
+- At most ${config.search.maxResults} results and ${config.search.maxFetch} fetched pages per call.
+`.trim();
+
+export const searchInputSchema = z.strictObject({
+  query: z.string().trim().min(1).max(500).describe('The search query'),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(config.search.maxResults)
+    .optional()
+    .describe(`Results to return. Default: ${SEARCH_DEFAULT_MAX_RESULTS}.`),
+  fetchTop: z
+    .number()
+    .int()
+    .min(0)
+    .max(config.search.maxFetch)
+    .optional()
+    .describe(
+      'Also fetch the first N results as Markdown, like fetch-urls. Default: 0.'
+    ),
+  skipNoiseRemoval: fetchUrlInputSchema.shape.skipNoiseRemoval,
+  forceRefresh: fetchUrlInputSchema.shape.forceRefresh,
+  maxInlineChars: fetchUrlInputSchema.shape.maxInlineChars,
+});
+
+export type SearchInput = z.infer<typeof searchInputSchema>;
+
+const searchResultSchema = z.strictObject({
+  title: z.string().describe('Result title'),
+  url: z.string().describe('Result URL'),
+  snippet: z.string().optional().describe('Text excerpt from the provider'),
+});
+
+const searchOutputSchema = z.strictObject({
+  query: z.string().describe('The query that was searched'),
+  provider: z.string().describe('Search provider that answered'),
+  results: z.array(searchResultSchema).describe('Results in ranking order'),
+  pages: z
+    .array(fetchUrlOutputSchema)
+    .optional()
+    .describe(
+      'fetch-url results for the first fetchTop results; failures carry an error field'
+    ),
+});
+
+async function executeSearch(
+  input: SearchInput,
+  extra?: ToolHandlerExtra
+): Promise<ToolResponseBase> {
+  const fetchTop = input.fetchTop ?? 0;
+  const progress = createProgressReporter(extra, 1 + fetchTop);
+  void progress.report(0, 'Searching');
+
+  const { provider, results } = await searchWeb({
+    query: input.query,
+    limit: input.maxResults ?? SEARCH_DEFAULT_MAX_RESULTS,
+    ...withSignal(buildToolAbortSignal(extra?.signal)),
+  });
+  void progress.report(1, `Found ${results.length} results`);
+
+  const urls = results.slice(0, fetchTop).map((result) => result.url);
+  let completed = 0;
+  const pages = await mapWithConcurrency(
+    urls,
+    config.tools.batchConcurrency,
+    async (url) => {
+      const page = await fetchBatchEntry(url, input, extra?.signal);
+      completed += 1;
+      void progress.report(
+        1 + completed,
+        `Fetched ${completed}/${urls.length}`
+      );
+      return page;
+    }
+  );
+
+  const structuredContent = {
+    query: input.query,
+    provider,
+    results,
+    ...(fetchTop > 0 ? { pages } : {}),
+  };
+
+  const validation = searchOutputSchema.safeParse(structuredContent);
+  if (!validation.success) {
+    logWarn('Tool output schema validation failed', {
+      tool: SEARCH_TOOL_NAME,
+      issues: validation.error.issues,
+    });
+  }
+
+  return {
+    content: buildToolContentBlocks(structuredContent).concat(
+      buildBatchResourceLinks(pages)
+    ),
+    structuredContent,
+  };
+}
+
+export async function searchToolHandler(
+  input: SearchInput,
+  extra?: ToolHandlerExtra
+): Promise<ToolResponseBase> {
+  return executeSearch(input, extra).catch((error: unknown) => {
+    logError('search tool error', error instanceof Error ? error : undefined);
+    return handleToolError(error, '', 'Failed to search');
+  });
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * discover-urls tool implementation
+ * ------------------------------------------------------------------------------------------------- */
+
+export const DISCOVER_URLS_TOOL_NAME = 'discover-urls';
+const DISCOVER_DEFAULT_MAX_ENTRIES = 100;
+const DISCOVER_URLS_TOOL_DESCRIPTION = `
+Lists the pages announced by a sitemap.xml or an RSS/Atom feed, with titles, dates, and summaries.
+
+This tool is useful for:
+- Finding a site's recent pages before fetching them with fetch-urls or crawl.
+- Reading a feed's latest entries without fetching each article.
+
+Sitemap indexes are followed into their child sitemaps; gzip files such as sitemap.xml.gz are inflated.
+Filter with pathPrefix (e.g. "/blog/") and since (an ISO 8601 date); entries without a date are dropped when since is set.
+
+Limitations:
+- At most ${config.tools.discoverMaxEntries} entries per call and ${config.tools.discoverMaxSitemaps} child sitemaps per index.
+- Only http(s) URLs are listed; nothing is fetched or cached beyond the sitemap or feed itself.
+`.trim();
+
+export const discoverUrlsInputSchema = z.strictObject({
+  url: fetchUrlInputSchema.shape.url.describe(
+    'URL of a sitemap, sitemap index (optionally gzipped), or RSS/Atom feed'
+  ),
+  pathPrefix: z
+    .string()
+    .startsWith('/')
+    .max(2048)
+    .optional()
+    .describe(
+      'Only list URLs whose path starts with this prefix, e.g. "/blog/"'
+    ),
+  since: z
+    .union([z.iso.date(), z.iso.datetime({ offset: true })])
+    .optional()
+    .describe(
+      'Only list entries updated or published at or after this ISO 8601 date or date-time'
+    ),
+  maxEntries: z
+    .number()
+    .int()
+    .min(1)
+    .max(config.tools.discoverMaxEntries)
+    .optional()
+    .describe(`Entries to return. Default: ${DISCOVER_DEFAULT_MAX_ENTRIES}.`),
+});
+
+export type DiscoverUrlsInput = z.infer<typeof discoverUrlsInputSchema>;
+
+const discoverUrlsOutputSchema = z.strictObject({
+  url: z.string().describe('The sitemap or feed URL'),
+  type: z
+    .enum(['sitemap', 'sitemap-index', 'rss', 'atom'])
+    .describe('Kind of document at url'),
+  title: z.string().optional().describe('Feed title'),
+  entries: z
+    .array(
+      z.strictObject({
+        url: z.string().describe('Page URL'),
+        title: z.string().optional().describe('Page title'),
+        lastmod: z
+          .string()
+          .optional()
+          .describe('Last modification time (ISO 8601)'),
+        published: z
+          .string()
+          .optional()
+          .describe('Publication time (ISO 8601)'),
+        summary: z.string().optional().describe('Plain-text summary'),
+      })
+    )
+    .describe('Matching entries in document order'),
+  matched: z
+    .number()
+    .int()
+    .min(0)
+    .describe('Entries that passed the filters, including those not returned'),
+  sitemapsFetched: z
+    .number()
+    .int()
+    .min(0)
+    .describe('Child sitemaps read from a sitemap index'),
+  failedSitemaps: z
+    .number()
+    .int()
+    .min(0)
+    .describe('Child sitemaps that could not be fetched or parsed'),
+  truncated: z
+    .boolean()
+    .describe('True when maxEntries or the sitemap limit cut the result short'),
+});
+
+async function fetchDiscoveryDocument(
+  url: string,
+  signal?: AbortSignal
+): Promise<{ text: string; finalUrl: string }> {
+  const { normalizedUrl } = normalizeUrl(url);
+  const { buffer, encoding, finalUrl } = await fetchNormalizedUrlBuffer(
+    normalizedUrl,
+    { allowGzip: true, ...withSignal(signal) }
+  );
+  const text = await decodeUrlDocument(
+    buffer,
+    encoding,
+    finalUrl,
+    config.fetcher.maxContentLength
+  );
+  return { text, finalUrl };
+}
+
+async function executeDiscoverUrls(
+  input: DiscoverUrlsInput,
+  extra?: ToolHandlerExtra
+): Promise<ToolResponseBase> {
+  const signal = buildToolAbortSignal(extra?.signal);
+  const progress = createProgressReporter(
+    extra,
+    1 + config.tools.discoverMaxSitemaps
+  );
+
+  const result = await discoverUrls({
+    url: input.url,
+    pathPrefix: input.pathPrefix,
+    since: input.since,
+    maxEntries: input.maxEntries ?? DISCOVER_DEFAULT_MAX_ENTRIES,
+    maxSitemaps: config.tools.discoverMaxSitemaps,
+    signal,
+    fetchDocument: (url) => fetchDiscoveryDocument(url, signal),
+    onDocument: (url, fetched) => {
+      void progress.report(fetched, `Read ${url}`);
+    },
+  });
+
+  const structuredContent = { url: input.url, ...result };
+
+  const validation = discoverUrlsOutputSchema.safeParse(structuredContent);
+  if (!validation.success) {
+    logWarn('Tool output schema validation failed', {
+      tool: DISCOVER_URLS_TOOL_NAME,
+      issues: validation.error.issues,
+    });
+  }
+
+  return {
+    content: buildToolContentBlocks(structuredContent),
+    structuredContent,
+  };
+}
+
+export async function discoverUrlsToolHandler(
+  input: DiscoverUrlsInput,
+  extra?: ToolHandlerExtra
+): Promise<ToolResponseBase> {
+  return executeDiscoverUrls(input, extra).catch((error: unknown) => {
+    logError(
+      'discover-urls tool error',
+      error instanceof Error ? error : undefined
+    );
+    return handleToolError(error, input.url, 'Failed to discover URLs');
+  });
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * MCP tool definition + registration
+ * ------------------------------------------------------------------------------------------------- */
+
+type ToolTaskSupport = 'optional' | 'required' | 'forbidden';
+
+interface ToolDefinition<TInput extends z.ZodType = z.ZodType> {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: TInput;
+  outputSchema: z.ZodType;
+  execution: { taskSupport: ToolTaskSupport };
+  annotations: ToolAnnotations;
+  // Method syntax, so that definitions with a narrower input still fit the
+  // default `ToolDefinition` that `registerToolDefinition` takes.
+  handler(
+    input: z.output<TInput>,
+    extra?: ToolHandlerExtra
+  ): Promise<ToolResponseBase>;
+}
+
+const TOOL_DEFINITION = {
+  name: FETCH_URL_TOOL_NAME,
+  title: 'Fetch URL',
+  description: FETCH_URL_TOOL_DESCRIPTION,
+  inputSchema: fetchUrlInputSchema,
+  outputSchema: fetchUrlOutputSchema,
+  handler: fetchUrlToolHandler,
+  execution: {
+    taskSupport: 'optional',
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  } satisfies ToolAnnotations,
+} satisfies ToolDefinition<typeof fetchUrlInputSchema>;
+
+const FETCH_URLS_TOOL_DEFINITION = {
+  name: FETCH_URLS_TOOL_NAME,
+  title: 'Fetch URLs',
+  description: FETCH_URLS_TOOL_DESCRIPTION,
+  inputSchema: fetchUrlsInputSchema,
+  outputSchema: fetchUrlsOutputSchema,
+  handler: fetchUrlsToolHandler,
+  execution: {
+    taskSupport: 'optional',
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  } satisfies ToolAnnotations,
+} satisfies ToolDefinition<typeof fetchUrlsInputSchema>;
+
+const CRAWL_TOOL_DEFINITION = {
+  name: CRAWL_TOOL_NAME,
+  title: 'Crawl Site',
+  description: CRAWL_TOOL_DESCRIPTION,
+  inputSchema: crawlInputSchema,
+  outputSchema: crawlOutputSchema,
+  handler: crawlToolHandler,
+  execution: {
+    taskSupport: 'required',
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  } satisfies ToolAnnotations,
+} satisfies ToolDefinition<typeof crawlInputSchema>;
+
+const READ_CACHED_TOOL_DEFINITION = {
+  name: READ_CACHED_TOOL_NAME,
+  title: 'Read Cached Markdown',
+  description: READ_CACHED_TOOL_DESCRIPTION,
+  inputSchema: readCachedInputSchema,
+  outputSchema: readCachedOutputSchema,
+  handler: readCachedToolHandler,
+  execution: {
+    taskSupport: 'forbidden',
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  } satisfies ToolAnnotations,
+} satisfies ToolDefinition<typeof readCachedInputSchema>;
+
+const DIFF_URL_TOOL_DEFINITION = {
+  name: DIFF_URL_TOOL_NAME,
+  title: 'Diff URL',
+  description: DIFF_URL_TOOL_DESCRIPTION,
+  inputSchema: diffUrlInputSchema,
+  outputSchema: diffUrlOutputSchema,
+  handler: diffUrlToolHandler,
+  execution: {
+    taskSupport: 'optional',
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  } satisfies ToolAnnotations,
+} satisfies ToolDefinition<typeof diffUrlInputSchema>;
+
+const WATCH_URL_TOOL_DEFINITION = {
+  name: WATCH_URL_TOOL_NAME,
+  title: 'Watch URL',
+  description: WATCH_URL_TOOL_DESCRIPTION,
+  inputSchema: watchUrlInputSchema,
+  outputSchema: watchUrlOutputSchema,
+  handler: watchUrlToolHandler,
+  execution: {
+    taskSupport: 'forbidden',
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  } satisfies ToolAnnotations,
+} satisfies ToolDefinition<typeof watchUrlInputSchema>;
+
+const SEARCH_TOOL_DEFINITION = {
+  name: SEARCH_TOOL_NAME,
+  title: 'Search',
+  description: SEARCH_TOOL_DESCRIPTION,
+  inputSchema: searchInputSchema,
+  outputSchema: searchOutputSchema,
+  handler: searchToolHandler,
+  execution: {
+    taskSupport: 'optional',
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  } satisfies ToolAnnotations,
+} satisfies ToolDefinition<typeof searchInputSchema>;
+
+const DISCOVER_URLS_TOOL_DEFINITION = {
+  name: DISCOVER_URLS_TOOL_NAME,
+  title: 'Discover URLs',
+  description: DISCOVER_URLS_TOOL_DESCRIPTION,
+  inputSchema: discoverUrlsInputSchema,
+  outputSchema: discoverUrlsOutputSchema,
+  handler: discoverUrlsToolHandler,
+  execution: {
+    taskSupport: 'optional',
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  } satisfies ToolAnnotations,
+} satisfies ToolDefinition<typeof discoverUrlsInputSchema>;
+
+export function withRequestContextIfMissing<TParams, TResult, TExtra = unknown>(
+  handler: (params: TParams, extra?: TExtra) => Promise<TResult>
+): (params: TParams, extra?: TExtra) => Promise<TResult> {
+  return async (params, extra) => {
+    const existingRequestId = getRequestId();
+    if (existingRequestId) {
+      return handler(params, extra);
+    }
+
+    const derivedRequestId = resolveRequestIdFromExtra(extra) ?? randomUUID();
+    const derivedSessionId = resolveSessionIdFromExtra(extra);
+
+    return runWithRequestContext(
+      {
+        requestId: derivedRequestId,
+        operationId: derivedRequestId,
+        ...(derivedSessionId ? { sessionId: derivedSessionId } : {}),
+      },
+      () => handler(params, extra)
+    );
+  };
+}
+
+function resolveRequestIdFromExtra(extra: unknown): string | undefined {
+  if (!isObject(extra)) return undefined;
+
+  const { requestId } = extra as { requestId?: unknown };
+  if (typeof requestId === 'string') return requestId;
+  if (typeof requestId === 'number') return String(requestId);
+
+  return undefined;
+}
+
+function resolveSessionIdFromExtra(extra: unknown): string | undefined {
+  if (!isObject(extra)) return undefined;
+
+  const { sessionId } = extra as { sessionId?: unknown };
+  if (typeof sessionId === 'string') return sessionId;
+
+  const headers = readNestedRecord(extra, ['requestInfo', 'headers']);
+  const headerValue = headers ? headers['mcp-session-id'] : undefined;
+
+  return typeof headerValue === 'string' ? headerValue : undefined;
+}
+
+function registerToolDefinition(
+  server: McpServer,
+  definition: ToolDefinition
+): void {
+  if (!config.tools.enabled.includes(definition.name)) return;
+
+  const registeredTool = server.registerTool(
+    definition.name,
+    {
+      title: definition.title,
+      description: definition.description,
+      inputSchema: definition.inputSchema,
+      outputSchema: definition.outputSchema,
+      annotations: definition.annotations,
+      execution: definition.execution,
+      icons: [TOOL_ICON],
+    } as { inputSchema: z.ZodType } & Record<string, unknown>,
+    withRequestContextIfMissing((input, extra?: ToolHandlerExtra) =>
+      definition.handler(input, extra)
+    )
+  );
+  registeredTool.execution = definition.execution;
+}
+
+export function registerTools(server: McpServer): void {
+  for (const definition of [
+    TOOL_DEFINITION,
+    FETCH_URLS_TOOL_DEFINITION,
+    CRAWL_TOOL_DEFINITION,
+    READ_CACHED_TOOL_DEFINITION,
+    DIFF_URL_TOOL_DEFINITION,
+    WATCH_URL_TOOL_DEFINITION,
+    SEARCH_TOOL_DEFINITION,
+    DISCOVER_URLS_TOOL_DEFINITION,
+  ]) {
+    registerToolDefinition(server, definition);
+  }
 }
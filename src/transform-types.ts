@@ -48,6 +48,57 @@ export interface ExtractionResult {
   metadata: ExtractedMetadata;
 }
 
+/**
+ * Heading in the generated Markdown.
+ */
+export interface MarkdownOutlineEntry {
+  level: number;
+  text: string;
+  /** GitHub-style anchor slug, unique within the document. */
+  anchor: string;
+  /** Character offset of the heading line in the Markdown. */
+  offset: number;
+}
+
+/**
+ * Hyperlink found in the converted HTML.
+ */
+export interface PageLink {
+  /** Absolute URL. */
+  href: string;
+  text: string;
+  /** True when the link points to the page's own host. */
+  internal: boolean;
+  rel?: string | undefined;
+}
+
+/**
+ * Image found in the converted HTML.
+ */
+export interface PageImage {
+  /** Absolute URL, resolved from lazy-loading attributes when needed. */
+  src: string;
+  alt: string;
+}
+
+export type StructuredDataValue =
+  | string
+  | number
+  | boolean
+  | StructuredDataValue[]
+  | { [key: string]: StructuredDataValue };
+
+/**
+ * schema.org item read from JSON-LD or microdata. Nested items keep their
+ * type under `@type`; other JSON-LD keywords are dropped.
+ */
+export interface StructuredDataItem {
+  /** Type name without the vocabulary URL, e.g. `Recipe`. */
+  type: string;
+  source: 'json-ld' | 'microdata';
+  properties: Record<string, StructuredDataValue>;
+}
+
 /**
  * Result of HTML to markdown transformation.
  */
@@ -56,6 +107,14 @@ export interface MarkdownTransformResult {
   title: string | undefined;
   truncated: boolean;
   metadata?: ExtractedMetadata;
+  outline?: MarkdownOutlineEntry[];
+  links?: PageLink[];
+  images?: PageImage[];
+  structuredData?: StructuredDataItem[];
+  /** Cleaned HTML the Markdown was converted from (HTML input only). */
+  html?: string;
+  /** The page looks like an unrendered single-page app shell. */
+  spaShell?: boolean;
 }
 
 /**
@@ -66,6 +125,14 @@ export interface TransformOptions {
   signal?: AbortSignal;
   skipNoiseRemoval?: boolean;
   inputTruncated?: boolean;
+  /** CSS selector scoping extraction to the matching elements. */
+  selector?: string;
+  /** Heading text scoping output to the Markdown section below it. */
+  heading?: string;
+  /** Collect link and image inventories from the converted HTML. */
+  includeLinks?: boolean;
+  /** Also return the cleaned HTML that was converted. */
+  includeHtml?: boolean;
 }
 
 /**
@@ -106,6 +173,10 @@ export interface TransformWorkerTransformMessage {
   includeMetadata: boolean;
   skipNoiseRemoval?: boolean | undefined;
   inputTruncated?: boolean | undefined;
+  selector?: string | undefined;
+  heading?: string | undefined;
+  includeLinks?: boolean | undefined;
+  includeHtml?: boolean | undefined;
 }
 
 export interface TransformWorkerCancelMessage {
@@ -126,6 +197,11 @@ export interface TransformWorkerResultMessage {
     title?: string;
     truncated: boolean;
     metadata?: ExtractedMetadata;
+    links?: PageLink[];
+    images?: PageImage[];
+    structuredData?: StructuredDataItem[];
+    html?: string;
+    spaShell?: boolean;
   };
 }
 
@@ -30,8 +30,10 @@ import {
 } from './language-detection.js';
 import {
   addSourceToMarkdown,
+  buildMarkdownOutline,
   buildMetadataFooter,
   cleanupMarkdownArtifacts,
+  extractMarkdownSection,
   extractTitleFromRawMarkdown,
   isRawTextContent,
 } from './markdown-cleanup.js';
@@ -44,6 +46,11 @@ import {
   logWarn,
   redactUrl,
 } from './observability.js';
+import { PDF_MEDIA_TYPES, transformPdfToMarkdown } from './pdf-markdown.js';
+import {
+  extractStructuredData,
+  resolveStructuredDataMetadata,
+} from './structured-data.js';
 import { type CancellableTimeout, createUnrefTimeout } from './timer-utils.js';
 import type {
   ExtractedArticle,
@@ -51,6 +58,9 @@ import type {
   ExtractionResult,
   MarkdownTransformResult,
   MetadataBlock,
+  PageImage,
+  PageLink,
+  StructuredDataItem,
   TransformOptions,
   TransformStageContext,
   TransformStageEvent,
@@ -96,6 +106,7 @@ function asError(value: unknown): Error | undefined {
 interface ExtractionContext extends ExtractionResult {
   document: Document;
   truncated?: boolean;
+  structuredData?: StructuredDataItem[];
 }
 
 interface StageBudget {
@@ -142,6 +153,37 @@ function createAbortError(url: string, stage: string): FetchError {
 
 const abortPolicy = { throwIfAborted, createAbortError };
 
+function createSectionNotFoundError(
+  url: string,
+  scope: { selector: string } | { heading: string }
+): FetchError {
+  const target =
+    'selector' in scope
+      ? `selector "${scope.selector}"`
+      : `heading "${scope.heading}"`;
+  return new FetchError(`No content matches ${target}`, url, 422, {
+    reason: 'section_not_found',
+    ...scope,
+  });
+}
+
+function createSelectorUnsupportedError(url: string): FetchError {
+  return new FetchError('CSS selectors only apply to HTML content', url, 422, {
+    reason: 'selector_unsupported',
+  });
+}
+
+function scopeToHeading(
+  markdown: string,
+  heading: string | undefined,
+  url: string
+): string {
+  if (!heading) return markdown;
+  const section = extractMarkdownSection(markdown, heading);
+  if (section === null) throw createSectionNotFoundError(url, { heading });
+  return section;
+}
+
 function buildTransformSignal(signal?: AbortSignal): AbortSignal | undefined {
   const { timeoutMs } = config.transform;
   if (timeoutMs <= 0) return signal;
@@ -516,29 +558,41 @@ function buildMetaContext(document: Document): MetaContext {
   return ctx;
 }
 
-function resolveMetadataFromContext(ctx: MetaContext): ExtractedMetadata {
+// Structured data outranks <title> but not og:/twitter: tags.
+function resolveMetadataFromContext(
+  ctx: MetaContext,
+  fallback: ExtractedMetadata = {}
+): ExtractedMetadata {
   const metadata: ExtractedMetadata = {};
 
-  const resolvedTitle = ctx.title.og ?? ctx.title.twitter ?? ctx.title.standard;
+  const resolvedTitle =
+    ctx.title.og ?? ctx.title.twitter ?? fallback.title ?? ctx.title.standard;
   const resolvedDesc =
     ctx.description.og ?? ctx.description.twitter ?? ctx.description.standard;
+  const author = ctx.author ?? fallback.author;
+  const publishedAt = ctx.publishedAt ?? fallback.publishedAt;
+  const modifiedAt = ctx.modifiedAt ?? fallback.modifiedAt;
 
   if (resolvedTitle) metadata.title = resolvedTitle;
   if (resolvedDesc) metadata.description = resolvedDesc;
-  if (ctx.author) metadata.author = ctx.author;
+  if (author) metadata.author = author;
   if (ctx.image) metadata.image = ctx.image;
-  if (ctx.publishedAt) metadata.publishedAt = ctx.publishedAt;
-  if (ctx.modifiedAt) metadata.modifiedAt = ctx.modifiedAt;
+  if (publishedAt) metadata.publishedAt = publishedAt;
+  if (modifiedAt) metadata.modifiedAt = modifiedAt;
 
   return metadata;
 }
 
 function extractMetadata(
   document: Document,
-  baseUrl?: string
+  baseUrl?: string,
+  structuredData?: readonly StructuredDataItem[]
 ): ExtractedMetadata {
   const ctx = buildMetaContext(document);
-  const metadata = resolveMetadataFromContext(ctx);
+  const metadata = resolveMetadataFromContext(
+    ctx,
+    structuredData ? resolveStructuredDataMetadata(structuredData) : undefined
+  );
   if (baseUrl) {
     const icon32 = document.querySelector<HTMLLinkElement>(
       'link[rel="icon"][sizes="32x32"]'
@@ -753,8 +807,13 @@ function extractContentContext(
 
     applyBaseUri(document, url);
 
+    const structuredData = stageTracker.run(
+      url,
+      'extract:structured-data',
+      () => extractStructuredData(document, url)
+    );
     const lateMetadata = stageTracker.run(url, 'extract:metadata', () =>
-      extractMetadata(document, url)
+      extractMetadata(document, url, structuredData)
     );
     abortPolicy.throwIfAborted(options.signal, url, 'extract:metadata');
 
@@ -774,6 +833,7 @@ function extractContentContext(
       metadata,
       document,
       ...(truncated ? { truncated: true } : {}),
+      ...(structuredData.length > 0 ? { structuredData } : {}),
     };
   } catch (error: unknown) {
     if (error instanceof FetchError) throw error;
@@ -969,6 +1029,8 @@ function resolveLazySrc(
   return undefined;
 }
 
+const DATA_URI_PLACEHOLDER = '[data URI removed]';
+
 function resolveImageSrc(
   getAttribute: ((name: string) => string | null) | undefined
 ): string {
@@ -989,7 +1051,7 @@ function resolveImageSrc(
   }
 
   // If the only available src is a data URI, we choose to omit it rather than include the raw data in the alt text or URL, as data URIs can be very long and are not useful in Markdown output.
-  if (srcRaw.startsWith('data:')) return '[data URI removed]';
+  if (srcRaw.startsWith('data:')) return DATA_URI_PLACEHOLDER;
 
   return '';
 }
@@ -1449,25 +1511,168 @@ function resolveRelativeUrls(markdown: string, baseUrl: string): string {
   return output;
 }
 
+/* -------------------------------------------------------------------------------------------------
+ * Link & image inventory
+ * ------------------------------------------------------------------------------------------------- */
+
+interface LinkInventory {
+  links: PageLink[];
+  images: PageImage[];
+}
+
+const MAX_INVENTORY_ENTRIES = 1000;
+
+function resolveInventoryUrl(value: string, base: URL): URL | null {
+  if (!value.trim() || value === DATA_URI_PLACEHOLDER) return null;
+  try {
+    const resolved = new URL(value.trim(), base);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:'
+      ? resolved
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function collapseWhitespace(value: string | null | undefined): string {
+  return (value ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function isSamePageAnchor(target: URL, base: URL): boolean {
+  if (!target.hash) return false;
+  return (
+    target.origin === base.origin &&
+    target.pathname === base.pathname &&
+    target.search === base.search
+  );
+}
+
+function readLinkText(anchor: Element): string {
+  const text = collapseWhitespace(anchor.textContent);
+  if (text) return text;
+  // Image-only links are named by their image.
+  return collapseWhitespace(anchor.querySelector('img')?.getAttribute('alt'));
+}
+
+function collectLinks(anchors: readonly Element[], base: URL): PageLink[] {
+  const links = new Map<string, PageLink>();
+
+  for (const anchor of anchors) {
+    const target = resolveInventoryUrl(anchor.getAttribute('href') ?? '', base);
+    if (!target || isSamePageAnchor(target, base)) continue;
+
+    const text = readLinkText(anchor);
+    const existing = links.get(target.href);
+    if (existing) {
+      existing.text ||= text;
+      continue;
+    }
+    if (links.size >= MAX_INVENTORY_ENTRIES) break;
+
+    const rel = collapseWhitespace(anchor.getAttribute('rel'));
+    links.set(target.href, {
+      href: target.href,
+      text,
+      internal: target.hostname === base.hostname,
+      ...(rel ? { rel } : {}),
+    });
+  }
+
+  return [...links.values()];
+}
+
+function collectImages(
+  imageElements: readonly Element[],
+  base: URL
+): PageImage[] {
+  const images = new Map<string, PageImage>();
+
+  for (const image of imageElements) {
+    const src = resolveImageSrc(image.getAttribute.bind(image));
+    const target = resolveInventoryUrl(src, base);
+    if (!target || images.has(target.href)) continue;
+    if (images.size >= MAX_INVENTORY_ENTRIES) break;
+
+    images.set(target.href, {
+      src: target.href,
+      alt: collapseWhitespace(image.getAttribute('alt')),
+    });
+  }
+
+  return [...images.values()];
+}
+
+function buildLinkInventory(
+  elements: readonly Element[],
+  url: string
+): LinkInventory {
+  let base: URL;
+  try {
+    base = new URL(url);
+  } catch {
+    return { links: [], images: [] };
+  }
+
+  const byTag = (tag: string): Element[] =>
+    elements.filter((element) => element.tagName.toLowerCase() === tag);
+  return {
+    links: collectLinks(
+      byTag('a').filter((anchor) => anchor.hasAttribute('href')),
+      base
+    ),
+    images: collectImages(byTag('img'), base),
+  };
+}
+
+/** Parses `html` for its inventory; used when no noise-removal walk saw it. */
+function collectLinkInventory(html: string, url: string): LinkInventory {
+  const document = resolveHtmlDocument(html);
+  return buildLinkInventory(
+    Array.from(document.querySelectorAll('a[href],img')),
+    url
+  );
+}
+
+interface TranslatedMarkdown {
+  content: string;
+  inventory?: LinkInventory;
+  /** The cleaned HTML that was converted. */
+  html?: string;
+}
+
 function translateHtmlToMarkdown(params: {
   html: string;
   url: string;
   signal?: AbortSignal | undefined;
   document?: Document | undefined;
   skipNoiseRemoval?: boolean | undefined;
-}): string {
+  urlElements?: readonly Element[] | undefined;
+  includeLinks?: boolean | undefined;
+  includeHtml?: boolean | undefined;
+}): TranslatedMarkdown {
   const { html, url, signal, document, skipNoiseRemoval } = params;
+  let { urlElements } = params;
 
   abortPolicy.throwIfAborted(signal, url, 'markdown:begin');
 
   const cleanedHtml = skipNoiseRemoval
     ? html
     : stageTracker.run(url, 'markdown:noise', () =>
-        removeNoiseFromHtml(html, document, url)
+        removeNoiseFromHtml(html, document, url, (elements) => {
+          urlElements = elements;
+        })
       );
 
   abortPolicy.throwIfAborted(signal, url, 'markdown:cleaned');
 
+  const inventory = params.includeLinks
+    ? stageTracker.run(url, 'markdown:inventory', () =>
+        urlElements
+          ? buildLinkInventory(urlElements, url)
+          : collectLinkInventory(cleanedHtml, url)
+      )
+    : undefined;
+
   const content = stageTracker.run(url, 'markdown:translate', () =>
     translateHtmlFragmentToMarkdown(cleanedHtml)
   );
@@ -1478,7 +1683,11 @@ function translateHtmlToMarkdown(params: {
     content,
     signal ? { signal, url } : { url }
   );
-  return url ? resolveRelativeUrls(cleaned, url) : cleaned;
+  return {
+    content: url ? resolveRelativeUrls(cleaned, url) : cleaned,
+    ...(inventory ? { inventory } : {}),
+    ...(params.includeHtml ? { html: cleanedHtml } : {}),
+  };
 }
 
 function appendMetadataFooter(
@@ -1496,29 +1705,62 @@ function appendMetadataFooter(
   return footer ? `${content}\n\n${footer}` : content;
 }
 
+interface HtmlToMarkdownOptions {
+  url?: string;
+  signal?: AbortSignal;
+  document?: Document;
+  skipNoiseRemoval?: boolean;
+  /** Link and image elements of the already cleaned `html`, if walked. */
+  urlElements?: readonly Element[];
+  heading?: string;
+  includeLinks?: boolean;
+  includeHtml?: boolean;
+}
+
 export function htmlToMarkdown(
   html: string,
   metadata?: MetadataBlock,
-  options?: {
-    url?: string;
-    signal?: AbortSignal;
-    document?: Document;
-    skipNoiseRemoval?: boolean;
-  }
+  options?: HtmlToMarkdownOptions
 ): string {
+  return convertHtmlToMarkdown(html, metadata, options).markdown;
+}
+
+function convertHtmlToMarkdown(
+  html: string,
+  metadata?: MetadataBlock,
+  options?: HtmlToMarkdownOptions
+): { markdown: string; inventory?: LinkInventory; html?: string } {
   const url = options?.url ?? metadata?.url ?? '';
-  if (!html) return buildMetadataFooter(metadata, url);
+  if (!html && !options?.heading) {
+    return { markdown: buildMetadataFooter(metadata, url) };
+  }
 
   try {
-    const content = translateHtmlToMarkdown({
+    const {
+      content,
+      inventory,
+      html: cleanedHtml,
+    } = translateHtmlToMarkdown({
       html,
       url,
       signal: options?.signal,
       document: options?.document,
       skipNoiseRemoval: options?.skipNoiseRemoval,
+      urlElements: options?.urlElements,
+      includeLinks: options?.includeLinks,
+      includeHtml: options?.includeHtml,
     });
 
-    return appendMetadataFooter(content, metadata, url);
+    const markdown = appendMetadataFooter(
+      scopeToHeading(content, options?.heading, url),
+      metadata,
+      url
+    );
+    return {
+      markdown,
+      ...(inventory ? { inventory } : {}),
+      ...(cleanedHtml === undefined ? {} : { html: cleanedHtml }),
+    };
   } catch (error: unknown) {
     if (error instanceof FetchError) throw error;
 
@@ -1545,11 +1787,13 @@ function buildRawMarkdownPayload(params: {
   rawContent: string;
   url: string;
   includeMetadata: boolean;
+  heading?: string;
 }): { content: string; title: string | undefined } {
   const title = extractTitleFromRawMarkdown(params.rawContent);
+  const scoped = scopeToHeading(params.rawContent, params.heading, params.url);
   let content = params.includeMetadata
-    ? addSourceToMarkdown(params.rawContent, params.url)
-    : params.rawContent;
+    ? addSourceToMarkdown(scoped, params.url)
+    : scoped;
 
   if (params.url) {
     content = resolveRelativeUrls(content, params.url);
@@ -1563,8 +1807,11 @@ function tryTransformRawContent(params: {
   url: string;
   includeMetadata: boolean;
   inputTruncated?: boolean;
+  selector?: string;
+  heading?: string;
 }): MarkdownTransformResult | null {
   if (!shouldPreserveRawContent(params.url, params.html)) return null;
+  if (params.selector) throw createSelectorUnsupportedError(params.url);
 
   logDebug('Preserving raw markdown content', {
     url: params.url.substring(0, 80),
@@ -1574,6 +1821,7 @@ function tryTransformRawContent(params: {
     rawContent: params.html,
     url: params.url,
     includeMetadata: params.includeMetadata,
+    ...(params.heading ? { heading: params.heading } : {}),
   });
 
   return {
@@ -1699,6 +1947,33 @@ export function isExtractionSufficient(
   return articleLength / originalLength >= MIN_CONTENT_RATIO;
 }
 
+const SPA_SHELL_MAX_TEXT_LENGTH = 200;
+const SPA_MOUNT_SELECTOR =
+  '#root, #app, #__next, #__nuxt, #___gatsby, #svelte, app-root, [data-reactroot], [ng-version]';
+const JAVASCRIPT_NOTICE = /\b(?:enable|requires?) javascript\b/i;
+
+function hasJavaScriptNotice(document: Document): boolean {
+  for (const noscript of document.querySelectorAll('noscript')) {
+    if (JAVASCRIPT_NOTICE.test(noscript.textContent)) return true;
+  }
+  return false;
+}
+
+/**
+ * Detects an unrendered single-page app: scripts plus an app mount point or
+ * an "enable JavaScript" notice, with almost no visible text.
+ */
+export function isSpaShell(document: Document): boolean {
+  if (!document.querySelector('script')) return false;
+  if (
+    !document.querySelector(SPA_MOUNT_SELECTOR) &&
+    !hasJavaScriptNotice(document)
+  ) {
+    return false;
+  }
+  return getVisibleTextLength(document) < SPA_SHELL_MAX_TEXT_LENGTH;
+}
+
 // Heuristic to detect if the content was truncated due to length limits by checking for incomplete sentences.
 const SENTENCE_ENDING_CODES = new Set([46, 33, 63, 58, 59]);
 
@@ -1801,7 +2076,13 @@ interface ContentSource {
   readonly extractedMetadata: ExtractedMetadata;
   readonly document?: Document;
   readonly skipNoiseRemoval?: boolean;
+  /** Link and image elements within `sourceHtml` seen by noise removal. */
+  readonly urlElements?: readonly Element[];
+  /** Content was narrowed by a selector; the page title is not prepended. */
+  readonly scoped?: boolean;
   readonly truncated: boolean;
+  readonly structuredData?: StructuredDataItem[];
+  readonly spaShell?: boolean;
 }
 
 const CONTENT_ROOT_SELECTORS = [
@@ -1821,7 +2102,9 @@ const CONTENT_ROOT_SELECTORS = [
   '.article-body',
 ] as const;
 
-function findContentRoot(document: Document): string | undefined {
+function findContentRoot(
+  document: Document
+): { element: Element; html: string } | undefined {
   for (const selector of CONTENT_ROOT_SELECTORS) {
     const element = document.querySelector(selector);
     if (!element) continue;
@@ -1831,7 +2114,9 @@ function findContentRoot(document: Document): string | undefined {
         ? (element as HTMLElement).innerHTML
         : undefined;
 
-    if (innerHTML && innerHTML.trim().length > 100) return innerHTML;
+    if (innerHTML && innerHTML.trim().length > 100) {
+      return { element, html: innerHTML };
+    }
   }
   return undefined;
 }
@@ -1900,11 +2185,16 @@ function buildContentSource(params: {
     includeMetadata
   );
 
+  let urlElements: readonly Element[] | undefined;
+  const keepUrlElements = (elements: readonly Element[]): void => {
+    urlElements = elements;
+  };
+
   if (useArticleContent && article) {
     // Readability output can still be noisy (unless user requested skip).
     const cleanedArticleHtml = skipNoiseRemoval
       ? article.content
-      : removeNoiseFromHtml(article.content, undefined, url);
+      : removeNoiseFromHtml(article.content, undefined, url, keepUrlElements);
     return {
       sourceHtml: cleanedArticleHtml,
       title: article.title,
@@ -1912,6 +2202,7 @@ function buildContentSource(params: {
       metadata,
       extractedMetadata: extractedMeta,
       skipNoiseRemoval: true,
+      ...(urlElements ? { urlElements } : {}),
       truncated,
     };
   }
@@ -1919,29 +2210,20 @@ function buildContentSource(params: {
   if (document) {
     const cleanedHtml = skipNoiseRemoval
       ? html
-      : removeNoiseFromHtml(html, document, url);
+      : removeNoiseFromHtml(html, document, url, keepUrlElements);
 
     const contentRoot = findContentRoot(document);
-    if (contentRoot) {
-      return {
-        sourceHtml: contentRoot,
-        title: extractedMeta.title,
-        favicon: extractedMeta.favicon,
-        metadata,
-        extractedMetadata: extractedMeta,
-        skipNoiseRemoval: true,
-        document,
-        truncated,
-      };
-    }
-
+    const rootElements = contentRoot
+      ? urlElements?.filter((element) => contentRoot.element.contains(element))
+      : urlElements;
     return {
-      sourceHtml: cleanedHtml,
+      sourceHtml: contentRoot ? contentRoot.html : cleanedHtml,
       title: extractedMeta.title,
       favicon: extractedMeta.favicon,
       metadata,
       extractedMetadata: extractedMeta,
       skipNoiseRemoval: true,
+      ...(rootElements ? { urlElements: rootElements } : {}),
       document,
       truncated,
     };
@@ -1957,6 +2239,54 @@ function buildContentSource(params: {
   };
 }
 
+function selectElementsHtml(
+  document: Document,
+  selector: string,
+  url: string
+): string {
+  let elements: ArrayLike<Element>;
+  try {
+    elements = document.querySelectorAll(selector);
+  } catch {
+    throw new FetchError(`Invalid CSS selector: ${selector}`, url, 400, {
+      reason: 'invalid_selector',
+      selector,
+    });
+  }
+
+  const html = Array.from(elements, (element) => element.outerHTML).join('\n');
+  if (!html.trim()) throw createSectionNotFoundError(url, { selector });
+  return html;
+}
+
+// Selected subtrees bypass Readability and noise removal: the caller asked for them explicitly.
+function buildSelectedContentSource(params: {
+  url: string;
+  selector: string;
+  document: Document;
+  extractedMeta: ExtractedMetadata;
+  includeMetadata: boolean;
+  truncated: boolean;
+}): ContentSource {
+  const { url, extractedMeta } = params;
+  return {
+    sourceHtml: selectElementsHtml(params.document, params.selector, url),
+    title: extractedMeta.title,
+    favicon: extractedMeta.favicon,
+    metadata: createContentMetadataBlock(
+      url,
+      null,
+      extractedMeta,
+      false,
+      params.includeMetadata
+    ),
+    extractedMetadata: extractedMeta,
+    skipNoiseRemoval: true,
+    scoped: true,
+    truncated: params.truncated,
+  };
+}
+
 function resolveContentSource(params: {
   html: string;
   url: string;
@@ -1964,18 +2294,63 @@ function resolveContentSource(params: {
   signal?: AbortSignal;
   skipNoiseRemoval?: boolean;
   inputTruncated?: boolean;
+  selector?: string;
 }): ContentSource {
   const {
     article,
     metadata: extractedMeta,
     document,
     truncated,
+    structuredData,
   } = extractContentContext(params.html, params.url, {
-    extractArticle: true,
+    extractArticle: !params.selector,
     ...(params.signal ? { signal: params.signal } : {}),
     ...(params.inputTruncated ? { inputTruncated: true } : {}),
   });
 
+  // Checked before source selection, which strips scripts from the document.
+  const spaShell = !params.selector && isSpaShell(document);
+  const source = selectContentSource(params, {
+    article,
+    extractedMeta,
+    document,
+    truncated: truncated ?? false,
+  });
+  return {
+    ...source,
+    ...(structuredData ? { structuredData } : {}),
+    ...(spaShell ? { spaShell: true } : {}),
+  };
+}
+
+function selectContentSource(
+  params: {
+    html: string;
+    url: string;
+    includeMetadata: boolean;
+    skipNoiseRemoval?: boolean;
+    selector?: string;
+  },
+  extracted: {
+    article: ExtractedArticle | null;
+    extractedMeta: ExtractedMetadata;
+    document: Document;
+    truncated: boolean;
+  }
+): ContentSource {
+  const { article, extractedMeta, document, truncated } = extracted;
+
+  if (params.selector) {
+    return buildSelectedContentSource({
+      url: params.url,
+      selector: params.selector,
+      document,
+      extractedMeta,
+      includeMetadata: params.includeMetadata,
+      truncated,
+    });
+  }
+
   const useArticleContent = article
     ? shouldUseArticleContent(article, document)
     : false;
@@ -1988,7 +2363,7 @@ function resolveContentSource(params: {
     includeMetadata: params.includeMetadata,
     useArticleContent,
     document,
-    truncated: truncated ?? false,
+    truncated,
     ...(params.skipNoiseRemoval ? { skipNoiseRemoval: true } : {}),
   });
 }
@@ -1996,17 +2371,27 @@ function resolveContentSource(params: {
 function buildMarkdownFromContext(
   context: ContentSource,
   url: string,
-  signal?: AbortSignal
+  options: Pick<
+    TransformOptions,
+    'signal' | 'heading' | 'includeLinks' | 'includeHtml'
+  >
 ): MarkdownTransformResult {
-  let content = stageTracker.run(url, 'transform:markdown', () =>
-    htmlToMarkdown(context.sourceHtml, context.metadata, {
+  const { signal, heading } = options;
+  const converted = stageTracker.run(url, 'transform:markdown', () =>
+    convertHtmlToMarkdown(context.sourceHtml, context.metadata, {
       url,
       ...(signal ? { signal } : {}),
       ...(context.document ? { document: context.document } : {}),
       ...(context.skipNoiseRemoval ? { skipNoiseRemoval: true } : {}),
+      ...(context.urlElements ? { urlElements: context.urlElements } : {}),
+      ...(heading ? { heading } : {}),
+      ...(options.includeLinks ? { includeLinks: true } : {}),
+      ...(options.includeHtml ? { includeHtml: true } : {}),
     })
   );
-  if (context.title && !content.trim().startsWith('# ')) {
+  let content = converted.markdown;
+  const scoped = context.scoped === true || Boolean(heading);
+  if (context.title && !scoped && !content.trim().startsWith('# ')) {
     const icon = context.favicon;
     let prefix = ' ';
     if (icon) {
@@ -2026,6 +2411,12 @@ function buildMarkdownFromContext(
     title: context.title,
     truncated: context.truncated,
     metadata: context.extractedMetadata,
+    ...(converted.inventory ?? {}),
+    ...(context.structuredData
+      ? { structuredData: context.structuredData }
+      : {}),
+    ...(converted.html === undefined ? {} : { html: converted.html }),
+    ...(context.spaShell ? { spaShell: true } : {}),
   };
 }
 
@@ -2074,6 +2465,8 @@ export function transformHtmlToMarkdownInProcess(
         url,
         includeMetadata: options.includeMetadata,
         ...(options.inputTruncated ? { inputTruncated: true } : {}),
+        ...(options.selector ? { selector: options.selector } : {}),
+        ...(options.heading ? { heading: options.heading } : {}),
       })
     );
     if (raw) {
@@ -2089,10 +2482,16 @@ export function transformHtmlToMarkdownInProcess(
         ...(signal ? { signal } : {}),
         ...(options.skipNoiseRemoval ? { skipNoiseRemoval: true } : {}),
         ...(options.inputTruncated ? { inputTruncated: true } : {}),
+        ...(options.selector ? { selector: options.selector } : {}),
       })
     );
 
-    const result = buildMarkdownFromContext(context, url, signal);
+    const result = buildMarkdownFromContext(context, url, {
+      ...(signal ? { signal } : {}),
+      ...(options.heading ? { heading: options.heading } : {}),
+      ...(options.includeLinks ? { includeLinks: true } : {}),
+      ...(options.includeHtml ? { includeHtml: true } : {}),
+    });
     completed = result;
     return result;
   } finally {
@@ -2104,7 +2503,17 @@ function isWorkerResultPayload(
   value: unknown
 ): value is TransformWorkerResultMessage['result'] {
   if (!isObject(value)) return false;
-  const { markdown, metadata, title, truncated } = value;
+  const {
+    markdown,
+    metadata,
+    title,
+    truncated,
+    links,
+    images,
+    structuredData,
+    html,
+    spaShell,
+  } = value;
   const isMetadataObject = metadata === undefined || isObject(metadata);
 
   if (!isMetadataObject) return false;
@@ -2116,7 +2525,12 @@ function isWorkerResultPayload(
   return (
     typeof markdown === 'string' &&
     typeof truncated === 'boolean' &&
-    (title === undefined || typeof title === 'string')
+    (title === undefined || typeof title === 'string') &&
+    (links === undefined || Array.isArray(links)) &&
+    (images === undefined || Array.isArray(images)) &&
+    (structuredData === undefined || Array.isArray(structuredData)) &&
+    (html === undefined || typeof html === 'string') &&
+    (spaShell === undefined || typeof spaShell === 'boolean')
   );
 }
 
@@ -2210,6 +2624,10 @@ interface PendingTask {
   includeMetadata: boolean;
   skipNoiseRemoval?: boolean;
   inputTruncated?: boolean;
+  selector?: string;
+  heading?: string;
+  includeLinks?: boolean;
+  includeHtml?: boolean;
   signal: AbortSignal | undefined;
   abortListener: (() => void) | undefined;
   context: TaskContext;
@@ -2233,6 +2651,10 @@ function buildWorkerDispatchPayload(
     includeMetadata: task.includeMetadata,
     ...(task.skipNoiseRemoval ? { skipNoiseRemoval: true } : {}),
     ...(task.inputTruncated ? { inputTruncated: true } : {}),
+    ...(task.selector ? { selector: task.selector } : {}),
+    ...(task.heading ? { heading: task.heading } : {}),
+    ...(task.includeLinks ? { includeLinks: true } : {}),
+    ...(task.includeHtml ? { includeHtml: true } : {}),
   };
 
   if (!task.htmlBuffer) {
@@ -2307,6 +2729,10 @@ interface TransformWorkerPool {
       signal?: AbortSignal;
       skipNoiseRemoval?: boolean;
       inputTruncated?: boolean;
+      selector?: string;
+      heading?: string;
+      includeLinks?: boolean;
+      includeHtml?: boolean;
     }
   ): Promise<MarkdownTransformResult>;
   close(): Promise<void>;
@@ -2520,6 +2946,10 @@ class WorkerPool implements TransformWorkerPool {
       signal?: AbortSignal;
       skipNoiseRemoval?: boolean;
       inputTruncated?: boolean;
+      selector?: string;
+      heading?: string;
+      includeLinks?: boolean;
+      includeHtml?: boolean;
     }
   ): Promise<MarkdownTransformResult>;
   async transform(
@@ -2530,6 +2960,10 @@ class WorkerPool implements TransformWorkerPool {
       signal?: AbortSignal;
       skipNoiseRemoval?: boolean;
       inputTruncated?: boolean;
+      selector?: string;
+      heading?: string;
+      includeLinks?: boolean;
+      includeHtml?: boolean;
       encoding?: string;
     }
   ): Promise<MarkdownTransformResult>;
@@ -2541,6 +2975,10 @@ class WorkerPool implements TransformWorkerPool {
       signal?: AbortSignal;
       skipNoiseRemoval?: boolean;
       inputTruncated?: boolean;
+      selector?: string;
+      heading?: string;
+      includeLinks?: boolean;
+      includeHtml?: boolean;
       encoding?: string;
     }
   ): Promise<MarkdownTransformResult> {
@@ -2637,6 +3075,10 @@ class WorkerPool implements TransformWorkerPool {
       signal?: AbortSignal;
       skipNoiseRemoval?: boolean;
       inputTruncated?: boolean;
+      selector?: string;
+      heading?: string;
+      includeLinks?: boolean;
+      includeHtml?: boolean;
       encoding?: string;
     },
     resolve: (result: MarkdownTransformResult) => void,
@@ -2662,6 +3104,10 @@ class WorkerPool implements TransformWorkerPool {
       includeMetadata: options.includeMetadata,
       ...(options.skipNoiseRemoval ? { skipNoiseRemoval: true } : {}),
       ...(options.inputTruncated ? { inputTruncated: true } : {}),
+      ...(options.selector ? { selector: options.selector } : {}),
+      ...(options.heading ? { heading: options.heading } : {}),
+      ...(options.includeLinks ? { includeLinks: true } : {}),
+      ...(options.includeHtml ? { includeHtml: true } : {}),
       signal: options.signal,
       abortListener,
       context,
@@ -2876,6 +3322,15 @@ class WorkerPool implements TransformWorkerPool {
           ...(message.result.metadata
             ? { metadata: message.result.metadata }
             : {}),
+          ...(message.result.links ? { links: message.result.links } : {}),
+          ...(message.result.images ? { images: message.result.images } : {}),
+          ...(message.result.structuredData
+            ? { structuredData: message.result.structuredData }
+            : {}),
+          ...(message.result.html === undefined
+            ? {}
+            : { html: message.result.html }),
+          ...(message.result.spaShell ? { spaShell: true } : {}),
         });
       });
     } else {
@@ -3146,7 +3601,10 @@ export async function shutdownTransformWorkerPool(): Promise<void> {
   await shutdownWorkerPool();
 }
 
-type TransformExecutionOptions = TransformOptions & { encoding?: string };
+type TransformExecutionOptions = TransformOptions & {
+  encoding?: string;
+  mediaType?: string;
+};
 
 function transformInputInProcess(
   htmlOrBuffer: string | Uint8Array,
@@ -3177,12 +3635,20 @@ function buildWorkerTransformOptions(options: TransformOptions): {
   signal?: AbortSignal;
   skipNoiseRemoval?: boolean;
   inputTruncated?: boolean;
+  selector?: string;
+  heading?: string;
+  includeLinks?: boolean;
+  includeHtml?: boolean;
 } {
   return {
     includeMetadata: options.includeMetadata,
     ...(options.signal ? { signal: options.signal } : {}),
     ...(options.skipNoiseRemoval ? { skipNoiseRemoval: true } : {}),
     ...(options.inputTruncated ? { inputTruncated: true } : {}),
+    ...(options.selector ? { selector: options.selector } : {}),
+    ...(options.heading ? { heading: options.heading } : {}),
+    ...(options.includeLinks ? { includeLinks: true } : {}),
+    ...(options.includeHtml ? { includeHtml: true } : {}),
   };
 }
 
@@ -3276,12 +3742,63 @@ async function transformInputToMarkdown(
   }
 }
 
+function withOutline(
+  result: MarkdownTransformResult,
+  url: string
+): MarkdownTransformResult {
+  const outline = stageTracker.run(url, 'transform:outline', () =>
+    buildMarkdownOutline(result.markdown)
+  );
+  return outline.length > 0 ? { ...result, outline } : result;
+}
+
 export async function transformHtmlToMarkdown(
   html: string,
   url: string,
   options: TransformOptions
 ): Promise<MarkdownTransformResult> {
-  return transformInputToMarkdown(html, url, options);
+  return withOutline(await transformInputToMarkdown(html, url, options), url);
+}
+
+async function transformPdfInput(
+  buffer: Uint8Array,
+  url: string,
+  options: TransformExecutionOptions
+): Promise<MarkdownTransformResult> {
+  // A cut-off PDF loses its cross-reference table and cannot be parsed.
+  if (options.inputTruncated) {
+    throw new FetchError(
+      `PDF exceeds the maximum content length of ${config.fetcher.maxContentLength} bytes`,
+      url,
+      413,
+      { reason: 'pdf_too_large', stage: 'transform:pdf' }
+    );
+  }
+
+  if (options.selector) throw createSelectorUnsupportedError(url);
+
+  const signal = buildTransformSignal(options.signal);
+  const totalStage = stageTracker.start(url, 'transform:total');
+  let completed: MarkdownTransformResult | null = null;
+
+  try {
+    const result = await stageTracker.runAsync(url, 'transform:pdf', () =>
+      transformPdfToMarkdown(buffer, url, signal)
+    );
+    const markdown = scopeToHeading(result.markdown, options.heading, url);
+    completed = {
+      ...result,
+      markdown: options.includeMetadata
+        ? addSourceToMarkdown(markdown, url)
+        : markdown,
+    };
+    return completed;
+  } catch (error: unknown) {
+    abortPolicy.throwIfAborted(signal, url, 'transform:pdf');
+    throw error;
+  } finally {
+    endTotalTransformStage(totalStage, completed);
+  }
 }
 
 export async function transformBufferToMarkdown(
@@ -3289,5 +3806,9 @@ export async function transformBufferToMarkdown(
   url: string,
   options: TransformExecutionOptions
 ): Promise<MarkdownTransformResult> {
-  return transformInputToMarkdown(htmlBuffer, url, options);
+  const result =
+    options.mediaType && PDF_MEDIA_TYPES.has(options.mediaType)
+      ? await transformPdfInput(htmlBuffer, url, options)
+      : await transformInputToMarkdown(htmlBuffer, url, options);
+  return withOutline(result, url);
 }
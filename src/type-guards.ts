@@ -29,3 +29,8 @@ interface LikeNode {
 export function isLikeNode(value: unknown): value is LikeNode {
   return isObject(value);
 }
+
+// linkedom types its nodes with its own classes, which implement the DOM ones.
+export function isElement(value: unknown): value is Element {
+  return isLikeNode(value) && typeof value.tagName === 'string';
+}
@@ -0,0 +1,166 @@
+import { hashMarkdownContent } from './cache.js';
+import { config } from './config.js';
+import { FetchError, getErrorMessage } from './errors.js';
+import { logDebug, logWarn } from './observability.js';
+
+/* -------------------------------------------------------------------------------------------------
+ * Types
+ * ------------------------------------------------------------------------------------------------- */
+
+/** Re-fetches the watched URL and returns its current Markdown. */
+type WatchCheck = (signal: AbortSignal) => Promise<string>;
+
+export interface UrlWatch {
+  url: string;
+  /** Cache key of the watched entry; unique per owner. */
+  key: string;
+  intervalSeconds: number;
+  startedAt: string;
+  checks: number;
+  changes: number;
+  /** SHA-256 of the Markdown without its metadata footer. */
+  contentHash: string;
+  lastCheckedAt?: string;
+  lastChangedAt?: string;
+  /** Message of the most recent failed check; cleared by a successful one. */
+  lastError?: string;
+}
+
+export interface StartWatchOptions {
+  ownerKey: string;
+  key: string;
+  url: string;
+  intervalSeconds: number;
+  /** Markdown of the initial fetch, hashed as the baseline. */
+  markdown: string;
+  check: WatchCheck;
+}
+
+interface WatchRecord {
+  state: UrlWatch;
+  check: WatchCheck;
+  controller: AbortController;
+  timer?: NodeJS.Timeout;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Registry
+ * ------------------------------------------------------------------------------------------------- */
+
+const watchesByOwner = new Map<string, Map<string, WatchRecord>>();
+
+function snapshot(record: WatchRecord): UrlWatch {
+  return { ...record.state };
+}
+
+function schedule(record: WatchRecord): void {
+  if (record.controller.signal.aborted) return;
+  record.timer = setTimeout(() => {
+    void runCheck(record).finally(() => {
+      schedule(record);
+    });
+  }, record.state.intervalSeconds * 1000);
+  record.timer.unref();
+}
+
+async function runCheck(record: WatchRecord): Promise<void> {
+  const { state } = record;
+  try {
+    const markdown = await record.check(record.controller.signal);
+    if (record.controller.signal.aborted) return;
+
+    const contentHash = hashMarkdownContent(markdown);
+    const now = new Date().toISOString();
+    state.checks += 1;
+    state.lastCheckedAt = now;
+    delete state.lastError;
+    if (contentHash !== state.contentHash) {
+      state.contentHash = contentHash;
+      state.changes += 1;
+      state.lastChangedAt = now;
+      logDebug('Watched URL changed', { url: state.url });
+    }
+  } catch (error: unknown) {
+    if (record.controller.signal.aborted) return;
+    state.checks += 1;
+    state.lastCheckedAt = new Date().toISOString();
+    state.lastError = getErrorMessage(error);
+    logWarn('Watch check failed', { url: state.url, error: state.lastError });
+  }
+}
+
+function stopRecord(record: WatchRecord): void {
+  record.controller.abort();
+  if (record.timer) clearTimeout(record.timer);
+}
+
+/**
+ * Starts re-fetching a URL every `intervalSeconds`. A watch with the same
+ * key and owner is replaced, so changing the interval does not count
+ * against the per-session limit.
+ */
+export function startWatch(options: StartWatchOptions): UrlWatch {
+  const watches =
+    watchesByOwner.get(options.ownerKey) ?? new Map<string, WatchRecord>();
+  const existing = watches.get(options.key);
+  const limit = config.tools.watchMaxPerSession;
+  if (!existing && watches.size >= limit) {
+    throw new FetchError(
+      `At most ${limit} watches can be active per session`,
+      options.url,
+      429,
+      { reason: 'watch_limit', limit }
+    );
+  }
+  if (existing) stopRecord(existing);
+
+  const record: WatchRecord = {
+    state: {
+      url: options.url,
+      key: options.key,
+      intervalSeconds: options.intervalSeconds,
+      startedAt: new Date().toISOString(),
+      checks: 0,
+      changes: 0,
+      contentHash: hashMarkdownContent(options.markdown),
+    },
+    check: options.check,
+    controller: new AbortController(),
+  };
+  watches.set(options.key, record);
+  watchesByOwner.set(options.ownerKey, watches);
+  schedule(record);
+  return snapshot(record);
+}
+
+/** Stops one watch; returns false when the owner had no watch for `key`. */
+export function stopWatch(ownerKey: string, key: string): boolean {
+  const watches = watchesByOwner.get(ownerKey);
+  const record = watches?.get(key);
+  if (!watches || !record) return false;
+
+  stopRecord(record);
+  watches.delete(key);
+  if (watches.size === 0) watchesByOwner.delete(ownerKey);
+  return true;
+}
+
+export function listWatches(ownerKey: string): UrlWatch[] {
+  const watches = watchesByOwner.get(ownerKey);
+  return watches ? [...watches.values()].map(snapshot) : [];
+}
+
+export function stopWatchesForOwner(ownerKey: string): number {
+  const watches = watchesByOwner.get(ownerKey);
+  if (!watches) return 0;
+
+  for (const record of watches.values()) stopRecord(record);
+  watchesByOwner.delete(ownerKey);
+  return watches.size;
+}
+
+export function stopAllWatches(): void {
+  for (const ownerKey of [...watchesByOwner.keys()]) {
+    stopWatchesForOwner(ownerKey);
+  }
+}
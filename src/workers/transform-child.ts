@@ -1,6 +1,7 @@
 import process from 'node:process';
 
 import { FetchError, getErrorMessage } from '../errors.js';
+import type { MarkdownTransformResult } from '../transform-types.js';
 import { transformHtmlToMarkdownInProcess } from '../transform.js';
 
 const send = process.send?.bind(process);
@@ -41,6 +42,10 @@ function postError(id: string, url: string, error: unknown): void {
   });
 }
 
+function isOptional(value: unknown, type: 'string' | 'boolean'): boolean {
+  return value === undefined || typeof value === type;
+}
+
 function isValidMessage(msg: Record<string, unknown>): msg is {
   id: string;
   url: string;
@@ -50,6 +55,10 @@ function isValidMessage(msg: Record<string, unknown>): msg is {
   includeMetadata: boolean;
   skipNoiseRemoval?: boolean;
   inputTruncated?: boolean;
+  selector?: string;
+  heading?: string;
+  includeLinks?: boolean;
+  includeHtml?: boolean;
 } {
   const {
     id,
@@ -60,6 +69,10 @@ function isValidMessage(msg: Record<string, unknown>): msg is {
     includeMetadata,
     skipNoiseRemoval,
     inputTruncated,
+    selector,
+    heading,
+    includeLinks,
+    includeHtml,
   } = msg;
   if (typeof id !== 'string') return false;
   if (typeof url !== 'string') return false;
@@ -67,12 +80,15 @@ function isValidMessage(msg: Record<string, unknown>): msg is {
   if (html !== undefined && typeof html !== 'string') return false;
   if (htmlBuffer !== undefined && !(htmlBuffer instanceof Uint8Array))
     return false;
-  if (encoding !== undefined && typeof encoding !== 'string') return false;
-  if (skipNoiseRemoval !== undefined && typeof skipNoiseRemoval !== 'boolean')
-    return false;
-  if (inputTruncated !== undefined && typeof inputTruncated !== 'boolean')
-    return false;
-  return true;
+  return (
+    isOptional(encoding, 'string') &&
+    isOptional(skipNoiseRemoval, 'boolean') &&
+    isOptional(inputTruncated, 'boolean') &&
+    isOptional(selector, 'string') &&
+    isOptional(heading, 'string') &&
+    isOptional(includeLinks, 'boolean') &&
+    isOptional(includeHtml, 'boolean')
+  );
 }
 
 function postValidationError(id: string, url: string, message: string): void {
@@ -98,6 +114,30 @@ function decodeHtml(
   }
 }
 
+function toResultPayload({
+  markdown,
+  metadata,
+  title,
+  truncated,
+  links,
+  images,
+  structuredData,
+  html,
+  spaShell,
+}: MarkdownTransformResult): Record<string, unknown> {
+  return {
+    markdown,
+    ...(metadata ? { metadata } : {}),
+    ...(links ? { links } : {}),
+    ...(images ? { images } : {}),
+    ...(structuredData ? { structuredData } : {}),
+    ...(html === undefined ? {} : { html }),
+    ...(spaShell ? { spaShell } : {}),
+    ...(title === undefined ? {} : { title }),
+    truncated,
+  };
+}
+
 function handleTransform(msg: Record<string, unknown>): void {
   if (!isValidMessage(msg)) return;
 
@@ -110,6 +150,10 @@ function handleTransform(msg: Record<string, unknown>): void {
     includeMetadata,
     skipNoiseRemoval,
     inputTruncated,
+    selector,
+    heading,
+    includeLinks,
+    includeHtml,
   } = msg;
 
   if (!id.trim()) {
@@ -133,26 +177,13 @@ function handleTransform(msg: Record<string, unknown>): void {
       signal: controller.signal,
       ...(skipNoiseRemoval ? { skipNoiseRemoval: true } : {}),
       ...(inputTruncated ? { inputTruncated: true } : {}),
+      ...(selector ? { selector } : {}),
+      ...(heading ? { heading } : {}),
+      ...(includeLinks ? { includeLinks: true } : {}),
+      ...(includeHtml ? { includeHtml: true } : {}),
     });
 
-    const { markdown, metadata, title, truncated } = result;
-    postMessage({
-      type: 'result',
-      id,
-      result:
-        title === undefined
-          ? {
-              markdown,
-              ...(metadata ? { metadata } : {}),
-              truncated,
-            }
-          : {
-              markdown,
-              ...(metadata ? { metadata } : {}),
-              title,
-              truncated,
-            },
-    });
+    postMessage({ type: 'result', id, result: toResultPayload(result) });
   } catch (error: unknown) {
     postError(id, url, error);
   } finally {
@@ -1,6 +1,7 @@
 import { parentPort } from 'node:worker_threads';
 
 import { FetchError, getErrorMessage } from '../errors.js';
+import type { MarkdownTransformResult } from '../transform-types.js';
 import { transformHtmlToMarkdownInProcess } from '../transform.js';
 
 if (!parentPort) throw new Error('transform-worker started without parentPort');
@@ -45,6 +46,10 @@ function isValidMessage(msg: Record<string, unknown>): msg is {
   includeMetadata: boolean;
   skipNoiseRemoval?: boolean;
   inputTruncated?: boolean;
+  selector?: string;
+  heading?: string;
+  includeLinks?: boolean;
+  includeHtml?: boolean;
 } {
   const {
     id,
@@ -55,6 +60,10 @@ function isValidMessage(msg: Record<string, unknown>): msg is {
     includeMetadata,
     skipNoiseRemoval,
     inputTruncated,
+    selector,
+    heading,
+    includeLinks,
+    includeHtml,
   } = msg;
   return (
     typeof id === 'string' &&
@@ -64,7 +73,11 @@ function isValidMessage(msg: Record<string, unknown>): msg is {
     (htmlBuffer === undefined || htmlBuffer instanceof Uint8Array) &&
     (encoding === undefined || typeof encoding === 'string') &&
     (skipNoiseRemoval === undefined || typeof skipNoiseRemoval === 'boolean') &&
-    (inputTruncated === undefined || typeof inputTruncated === 'boolean')
+    (inputTruncated === undefined || typeof inputTruncated === 'boolean') &&
+    (selector === undefined || typeof selector === 'string') &&
+    (heading === undefined || typeof heading === 'string') &&
+    (includeLinks === undefined || typeof includeLinks === 'boolean') &&
+    (includeHtml === undefined || typeof includeHtml === 'boolean')
   );
 }
 
@@ -96,6 +109,30 @@ function resolveHtmlContent(
   return htmlBuffer ? decodeHtmlBuffer(htmlBuffer, encoding) : (html ?? '');
 }
 
+function toResultPayload({
+  markdown,
+  metadata,
+  title,
+  truncated,
+  links,
+  images,
+  structuredData,
+  html,
+  spaShell,
+}: MarkdownTransformResult): Record<string, unknown> {
+  return {
+    markdown,
+    ...(metadata ? { metadata } : {}),
+    ...(links ? { links } : {}),
+    ...(images ? { images } : {}),
+    ...(structuredData ? { structuredData } : {}),
+    ...(html === undefined ? {} : { html }),
+    ...(spaShell ? { spaShell } : {}),
+    ...(title === undefined ? {} : { title }),
+    truncated,
+  };
+}
+
 function handleTransform(msg: Record<string, unknown>): void {
   if (!isValidMessage(msg)) return;
 
@@ -108,6 +145,10 @@ function handleTransform(msg: Record<string, unknown>): void {
     includeMetadata,
     skipNoiseRemoval,
     inputTruncated,
+    selector,
+    heading,
+    includeLinks,
+    includeHtml,
   } = msg;
 
   if (!id.trim()) {
@@ -131,26 +172,13 @@ function handleTransform(msg: Record<string, unknown>): void {
       signal: controller.signal,
       ...(skipNoiseRemoval ? { skipNoiseRemoval: true } : {}),
       ...(inputTruncated ? { inputTruncated: true } : {}),
+      ...(selector ? { selector } : {}),
+      ...(heading ? { heading } : {}),
+      ...(includeLinks ? { includeLinks: true } : {}),
+      ...(includeHtml ? { includeHtml: true } : {}),
     });
 
-    const { markdown, metadata, title, truncated } = result;
-    port.postMessage({
-      type: 'result',
-      id,
-      result:
-        title === undefined
-          ? {
-              markdown,
-              ...(metadata ? { metadata } : {}),
-              truncated,
-            }
-          : {
-              markdown,
-              ...(metadata ? { metadata } : {}),
-              title,
-              truncated,
-            },
-    });
+    port.postMessage({ type: 'result', id, result: toResultPayload(result) });
   } catch (error: unknown) {
     postError(id, url, error);
   } finally {
@@ -0,0 +1,280 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+import { FileSystemCacheStorage } from '../dist/cache.js';
+
+const RESULT_MARKER = '__RESULT__';
+const CHILD_TIMEOUT_MS = 20000;
+
+const tempDirs: string[] = [];
+
+after(() => {
+  for (const dir of tempDirs) rmSync(dir, { recursive: true, force: true });
+});
+
+function createTempDir(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'fetch-url-mcp-cache-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+function createRecord(url: string, content: string, ttlMs = 60_000) {
+  const now = Date.now();
+  return {
+    url,
+    fetchedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMs).toISOString(),
+    expiresAtMs: now + ttlMs,
+    size: content.length,
+  };
+}
+
+function listObjects(dir: string): string[] {
+  return readdirSync(join(dir, 'objects'));
+}
+
+function runIsolatedNode(
+  script: string,
+  env: Record<string, string | undefined>
+): { stdout: string; stderr: string; status: number | null } {
+  const result = spawnSync(
+    process.execPath,
+    ['--input-type=module', '-e', script],
+    {
+      cwd: fileURLToPath(new URL('..', import.meta.url)),
+      encoding: 'utf8',
+      timeout: CHILD_TIMEOUT_MS,
+      killSignal: 'SIGKILL',
+      env: {
+        ...process.env,
+        ...env,
+      },
+    }
+  );
+
+  return {
+    stdout: result.stdout ?? '',
+    stderr: result.stderr ?? '',
+    status: result.status,
+  };
+}
+
+function parseMarkedJson<T>(output: string): T {
+  const markerIndex = output.lastIndexOf(RESULT_MARKER);
+  assert.ok(markerIndex >= 0, `Missing result marker. stderr: ${output}`);
+  return JSON.parse(output.slice(markerIndex + RESULT_MARKER.length)) as T;
+}
+
+describe('FileSystemCacheStorage', () => {
+  it('persists entries across instances', async () => {
+    const dir = createTempDir();
+    const first = new FileSystemCacheStorage(dir);
+    assert.deepEqual([...first.load()], []);
+
+    const record = createRecord('https://example.com/a', 'alpha');
+    first.write('markdown:aaaaaaaa', record, 'alpha');
+    first.write('markdown:bbbbbbbb', record, 'alpha');
+    first.remove('markdown:bbbbbbbb');
+    assert.equal(existsSync(join(dir, 'index.json')), false);
+    await first.flush();
+
+    const second = new FileSystemCacheStorage(dir);
+    const restored = [...second.load()];
+    assert.deepEqual(restored, [['markdown:aaaaaaaa', record]]);
+    assert.equal(second.read('markdown:aaaaaaaa'), 'alpha');
+  });
+
+  it('stores identical content once and removes unreferenced objects', async () => {
+    const dir = createTempDir();
+    const storage = new FileSystemCacheStorage(dir);
+    storage.load();
+
+    const record = createRecord('https://example.com/a', 'shared');
+    storage.write('markdown:aaaaaaaa', record, 'shared');
+    storage.write('markdown:bbbbbbbb', record, 'shared');
+    await storage.flush();
+    assert.equal(listObjects(dir).length, 1);
+
+    storage.remove('markdown:aaaaaaaa');
+    await storage.flush();
+    assert.equal(listObjects(dir).length, 1);
+    assert.equal(storage.read('markdown:bbbbbbbb'), 'shared');
+
+    storage.write('markdown:bbbbbbbb', record, 'replaced');
+    // Served from memory until the queued blob write lands.
+    assert.equal(storage.read('markdown:bbbbbbbb'), 'replaced');
+    await storage.flush();
+    assert.equal(listObjects(dir).length, 1);
+    assert.equal(storage.read('markdown:bbbbbbbb'), 'replaced');
+
+    storage.remove('markdown:bbbbbbbb');
+    await storage.flush();
+    assert.deepEqual(listObjects(dir), []);
+  });
+
+  it('copies entries without duplicating their content', async () => {
+    const dir = createTempDir();
+    const storage = new FileSystemCacheStorage(dir);
+    storage.load();
+
+    const record = createRecord('https://example.com/a', 'first');
+    storage.write('markdown:aaaaaaaa', record, 'first');
+    assert.equal(storage.copy('markdown:aaaaaaaa', 'previous:a'), true);
+    assert.equal(storage.copy('markdown:missing', 'previous:b'), false);
+
+    storage.write('markdown:aaaaaaaa', record, 'second');
+    assert.equal(storage.read('previous:a'), 'first');
+    await storage.flush();
+    assert.equal(listObjects(dir).length, 2);
+
+    const restarted = new FileSystemCacheStorage(dir);
+    restarted.load();
+    assert.equal(restarted.read('previous:a'), 'first');
+  });
+
+  it('ignores a corrupt index file', () => {
+    const dir = createTempDir();
+    writeFileSync(join(dir, 'index.json'), '{not json', 'utf8');
+
+    const storage = new FileSystemCacheStorage(dir);
+    assert.deepEqual([...storage.load()], []);
+    assert.equal(storage.read('markdown:aaaaaaaa'), undefined);
+  });
+});
+
+describe('file-system cache backend', () => {
+  it('serves entries written before a restart and emits updates', () => {
+    const dir = createTempDir();
+    const env = { CACHE_BACKEND: 'filesystem', CACHE_DIR: dir };
+
+    const writer = runIsolatedNode(
+      `
+      import * as cache from './dist/cache.js';
+      const events = [];
+      cache.onCacheUpdate((event) => events.push(event));
+      cache.set('markdown:abcdef12', '{"markdown":"# Saved"}', {
+        url: 'https://example.com/saved',
+        title: 'Saved',
+      });
+      console.error('${RESULT_MARKER}' + JSON.stringify(events));
+      `,
+      env
+    );
+    assert.equal(writer.status, 0, writer.stderr);
+    const events = parseMarkedJson<
+      { cacheKey: string; listChanged: boolean }[]
+    >(writer.stderr);
+    assert.deepEqual(
+      events.map(({ cacheKey, listChanged }) => ({ cacheKey, listChanged })),
+      [{ cacheKey: 'markdown:abcdef12', listChanged: true }]
+    );
+
+    const reader = runIsolatedNode(
+      `
+      import * as cache from './dist/cache.js';
+      const entry = cache.get('markdown:abcdef12');
+      console.error('${RESULT_MARKER}' + JSON.stringify({
+        keys: cache.keys(),
+        entry,
+      }));
+      `,
+      env
+    );
+    assert.equal(reader.status, 0, reader.stderr);
+    const result = parseMarkedJson<{
+      keys: string[];
+      entry?: { url: string; title?: string; content: string };
+    }>(reader.stderr);
+    assert.deepEqual(result.keys, ['markdown:abcdef12']);
+    assert.equal(result.entry?.url, 'https://example.com/saved');
+    assert.equal(result.entry?.title, 'Saved');
+    assert.equal(result.entry?.content, '{"markdown":"# Saved"}');
+  });
+
+  it('keeps the replaced version across a restart', () => {
+    const dir = createTempDir();
+    const env = { CACHE_BACKEND: 'filesystem', CACHE_DIR: dir };
+
+    const writer = runIsolatedNode(
+      `
+      import * as cache from './dist/cache.js';
+      const metadata = { url: 'https://example.com/versions' };
+      cache.set('markdown:12345678', 'first', metadata);
+      cache.set('markdown:12345678', 'second', metadata, { force: true });
+      `,
+      env
+    );
+    assert.equal(writer.status, 0, writer.stderr);
+
+    const reader = runIsolatedNode(
+      `
+      import * as cache from './dist/cache.js';
+      console.error('${RESULT_MARKER}' + JSON.stringify({
+        keys: cache.keys(),
+        current: cache.get('markdown:12345678')?.content,
+        previous: cache.getPrevious('markdown:12345678')?.content,
+      }));
+      `,
+      env
+    );
+    assert.equal(reader.status, 0, reader.stderr);
+    assert.deepEqual(
+      parseMarkedJson<{ keys: string[]; current: string; previous: string }>(
+        reader.stderr
+      ),
+      { keys: ['markdown:12345678'], current: 'second', previous: 'first' }
+    );
+  });
+
+  it('reports a baseline when the kept version is lost', () => {
+    const dir = createTempDir();
+    const result = runIsolatedNode(
+      `
+      import { rmSync, writeFileSync } from 'node:fs';
+      import { join } from 'node:path';
+      let version = 0;
+      globalThis.fetch = async () => {
+        version += 1;
+        return new Response(
+          '<html><body><main><h1>Log</h1><p>Version ' + version + '</p></main></body></html>',
+          { status: 200, headers: { 'content-type': 'text/html' } }
+        );
+      };
+      const { diffUrlToolHandler } = await import('./dist/tools.js');
+      const { flush } = await import('./dist/cache.js');
+      const { shutdownTransformWorkerPool } = await import('./dist/transform.js');
+      const url = 'https://example.com/log';
+      const statuses = [];
+      for (let i = 0; i < 2; i += 1) {
+        statuses.push((await diffUrlToolHandler({ url })).structuredContent.status);
+      }
+      // Stored blobs are gone and can no longer be written.
+      const objects = join(process.env.CACHE_DIR, 'objects');
+      rmSync(objects, { recursive: true, force: true });
+      writeFileSync(objects, '');
+      statuses.push((await diffUrlToolHandler({ url })).structuredContent.status);
+      await flush();
+      await shutdownTransformWorkerPool();
+      console.error('${RESULT_MARKER}' + JSON.stringify(statuses));
+      `,
+      { CACHE_BACKEND: 'filesystem', CACHE_DIR: dir }
+    );
+    assert.equal(result.status, 0, result.stderr);
+    assert.deepEqual(parseMarkedJson<string[]>(result.stderr), [
+      'baseline',
+      'changed',
+      'baseline',
+    ]);
+  });
+});
@@ -72,6 +72,55 @@ function registerKeysTest(): void {
     const keys = cache.keys();
     assert.ok(keys.includes(cacheKey));
   });
+
+  it('checks for entries without refreshing their LRU position', () => {
+    const first = createCacheKey('has-first');
+    const second = createCacheKey('has-second');
+    cache.set(first, 'one', { url: 'https://example.com/has/1' });
+    cache.set(second, 'two', { url: 'https://example.com/has/2' });
+
+    const order = (): string[] =>
+      cache.keys().filter((key) => key === first || key === second);
+
+    assert.equal(cache.has(first), true);
+    assert.equal(cache.has(createCacheKey('has-missing')), false);
+    assert.deepEqual(order(), [first, second]);
+
+    cache.get(first);
+    assert.deepEqual(order(), [second, first]);
+  });
+}
+
+function registerPreviousVersionTest(): void {
+  it('keeps the version replaced by the latest write', () => {
+    const cacheKey = createCacheKey('previous');
+    const metadata = { url: 'https://example.com/previous' };
+
+    cache.set(cacheKey, 'first', metadata);
+    assert.equal(cache.getPrevious(cacheKey), undefined);
+
+    cache.set(cacheKey, 'second', metadata, { force: true });
+    assert.equal(cache.getPrevious(cacheKey)?.content, 'first');
+    assert.equal(cache.get(cacheKey)?.content, 'second');
+
+    cache.set(cacheKey, 'second', metadata);
+    assert.equal(cache.getPrevious(cacheKey)?.content, 'second');
+  });
+
+  it('keeps at most maxPreviousKeys snapshots, dropping the oldest', () => {
+    const keys = Array.from(
+      { length: config.cache.maxPreviousKeys + 1 },
+      (_, index) => createCacheKey(`previous-limit-${index}`)
+    );
+    for (const key of keys) {
+      const metadata = { url: `https://example.com/${key}` };
+      cache.set(key, 'old', metadata);
+      cache.set(key, 'new', metadata, { force: true });
+    }
+
+    assert.equal(cache.getPrevious(keys[0]), undefined);
+    assert.equal(cache.getPrevious(keys.at(-1))?.content, 'old');
+  });
 }
 
 function registerEnabledTest(): void {
@@ -181,6 +230,19 @@ function registerCachedPayloadParsingTest(): void {
     assert.strictEqual(parsed.content, 'Plain text content');
   });
 
+  it('parses fetch-url payloads with extra fields', () => {
+    const raw = JSON.stringify({
+      markdown: '# Test Content',
+      metadata: { title: 'Test Title' },
+      truncated: false,
+      outline: [],
+    });
+
+    const parsed = cache.parseCachedPayload(raw);
+    assert.ok(parsed, 'Should ignore fields it does not use');
+    assert.strictEqual(parsed.markdown, '# Test Content');
+  });
+
   it('returns null for invalid JSON', () => {
     const parsed = cache.parseCachedPayload('not json{]');
     assert.strictEqual(parsed, null, 'Should return null for invalid JSON');
@@ -703,6 +765,7 @@ describe('cache', () => {
   registerEmptyContentTest();
   registerUpdateListenerTest();
   registerKeysTest();
+  registerPreviousVersionTest();
   registerEnabledTest();
   registerNullKeyTest();
   registerCacheKeyGenerationTest();
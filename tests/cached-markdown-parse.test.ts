@@ -26,6 +26,15 @@ describe('parseCachedMarkdownResult', () => {
     assert.equal(parsed.truncated, true);
   });
 
+  it('restores the cached outline', () => {
+    const outline = [{ level: 2, text: 'Usage', anchor: 'usage', offset: 0 }];
+    const cached = JSON.stringify({ markdown: '## Usage', outline });
+    const parsed = parseCachedMarkdownResult(cached);
+
+    assert.ok(parsed);
+    assert.deepEqual(parsed.outline, outline);
+  });
+
   it('rejects invalid JSON', () => {
     const parsed = parseCachedMarkdownResult('{');
     assert.equal(parsed, undefined);
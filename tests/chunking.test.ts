@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { chunkMarkdown } from '../dist/chunking.js';
+
+const words = (count: number, word = 'word'): string =>
+  Array.from({ length: count }, () => word).join(' ');
+
+describe('chunkMarkdown', () => {
+  it('starts a chunk at each heading and records the breadcrumb and range', () => {
+    const markdown = [
+      '# Guide',
+      '',
+      'Intro text.',
+      '',
+      '## Install',
+      '',
+      'Run the installer.',
+      '',
+      '### Linux',
+      '',
+      'Use the package.',
+      '',
+      '## Usage',
+      '',
+      'Call it.',
+    ].join('\n');
+
+    const chunks = chunkMarkdown(markdown, { size: 500 });
+
+    assert.deepEqual(
+      chunks.map((chunk) => chunk.headings),
+      [
+        ['Guide'],
+        ['Guide', 'Install'],
+        ['Guide', 'Install', 'Linux'],
+        ['Guide', 'Usage'],
+      ]
+    );
+    assert.equal(chunks[1]?.text, '## Install\n\nRun the installer.');
+    for (const chunk of chunks) {
+      assert.equal(markdown.slice(chunk.start, chunk.end), chunk.text);
+    }
+    assert.deepEqual(
+      chunks.map((chunk) => chunk.index),
+      [0, 1, 2, 3]
+    );
+  });
+
+  it('keeps a parent heading with its first subsection when it has no text', () => {
+    const chunks = chunkMarkdown('# Guide\n\n## Install\n\nRun it.', {
+      size: 500,
+    });
+
+    assert.equal(chunks.length, 1);
+    assert.equal(chunks[0]?.text, '# Guide\n\n## Install\n\nRun it.');
+    assert.deepEqual(chunks[0]?.headings, ['Guide', 'Install']);
+  });
+
+  it('never splits code fences, tables or lists', () => {
+    const fence = [
+      '```js',
+      words(60, 'code'),
+      '',
+      words(60, 'more'),
+      '```',
+    ].join('\n');
+    const table = [
+      '| A | B |',
+      '| --- | --- |',
+      ...Array.from({ length: 20 }, () => '| cell | cell |'),
+    ].join('\n');
+    const list = ['- one', '', '- two', '  continued', '', '- three'].join(
+      '\n'
+    );
+    const markdown = ['## Code', '', fence, '', table, '', list].join('\n');
+
+    const chunks = chunkMarkdown(markdown, { size: 50 });
+
+    assert.ok(chunks.some((chunk) => chunk.text.endsWith(fence)));
+    assert.ok(chunks.some((chunk) => chunk.text === table));
+    assert.ok(chunks.some((chunk) => chunk.text === list));
+    for (const chunk of chunks) {
+      assert.deepEqual(chunk.headings, ['Code']);
+    }
+  });
+
+  it('packs paragraphs up to the target size and splits long ones at sentences', () => {
+    const sentence = `${words(20)}.`;
+    const paragraph = Array.from({ length: 10 }, () => sentence).join(' ');
+    const chunks = chunkMarkdown(paragraph, { size: 60 });
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(chunk.text.endsWith('.'));
+      assert.ok(chunk.estimatedTokens <= 60);
+    }
+  });
+
+  it('repeats whole trailing blocks as overlap within a section', () => {
+    const paragraphs = ['First.', 'Second.', 'Third.', 'Fourth.'].map(
+      (start) => `${start} ${words(16)}`
+    );
+    const markdown = paragraphs.join('\n\n');
+
+    const chunks = chunkMarkdown(markdown, { size: 40, overlap: 20 });
+
+    assert.deepEqual(
+      chunks.map((chunk) =>
+        chunk.text.split('\n\n').map((p) => p.split(' ')[0])
+      ),
+      [
+        ['First.', 'Second.'],
+        ['Second.', 'Third.'],
+        ['Third.', 'Fourth.'],
+      ]
+    );
+    assert.ok((chunks[1]?.start ?? 0) < (chunks[0]?.end ?? 0));
+  });
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  contentBlocksToText,
+  markdownToContentBlocks,
+} from '../dist/content-blocks.js';
+
+const MARKDOWN = [
+  '<!-- Page 1 -->',
+  '',
+  '# Getting **Started**',
+  '',
+  'Install the [CLI](https://example.com/cli) with `npm i my_tool` and *go*.',
+  '',
+  '> Quoted line one',
+  '> quoted line two',
+  '',
+  '```sh',
+  'npm install --save my_tool',
+  '```',
+  '',
+  '1. First step',
+  '2. Second step',
+  '   continues here',
+  '',
+  '- nested parent',
+  '  - nested child',
+  '',
+  '---',
+  '',
+  '| Name | Type |',
+  '| --- | :---: |',
+  '| `id` | uint32 |',
+  '',
+  '![diagram](https://example.com/d.png)',
+].join('\n');
+
+describe('markdownToContentBlocks', () => {
+  it('splits Markdown into typed blocks without inline formatting', () => {
+    assert.deepEqual(markdownToContentBlocks(MARKDOWN), [
+      { type: 'heading', level: 1, text: 'Getting Started' },
+      {
+        type: 'paragraph',
+        text: 'Install the CLI with npm i my_tool and go.',
+      },
+      { type: 'paragraph', text: 'Quoted line one\nquoted line two' },
+      { type: 'code', language: 'sh', text: 'npm install --save my_tool' },
+      {
+        type: 'list',
+        ordered: true,
+        items: ['First step', 'Second step\ncontinues here'],
+      },
+      {
+        type: 'list',
+        ordered: false,
+        items: ['nested parent', 'nested child'],
+      },
+      {
+        type: 'table',
+        rows: [
+          ['Name', 'Type'],
+          ['id', 'uint32'],
+        ],
+      },
+    ]);
+  });
+
+  it('keeps unterminated code blocks', () => {
+    assert.deepEqual(markdownToContentBlocks('```js\nconst a = 1;'), [
+      { type: 'code', language: 'js', text: 'const a = 1;' },
+    ]);
+  });
+});
+
+describe('contentBlocksToText', () => {
+  it('renders lists with markers and tables with tabs', () => {
+    const text = contentBlocksToText(markdownToContentBlocks(MARKDOWN));
+
+    assert.ok(text.startsWith('Getting Started\n\nInstall the CLI'));
+    assert.match(
+      text,
+      /\n\n1\. First step\n2\. Second step\ncontinues here\n\n/
+    );
+    assert.match(text, /\n\n- nested parent\n- nested child\n\n/);
+    assert.ok(text.endsWith('Name\tType\nid\tuint32'));
+  });
+});
@@ -336,3 +336,255 @@ describe('transformHtmlToMarkdown favicon rendering', () => {
     assert.ok(!result.markdown.includes('<img'));
   });
 });
+
+describe('transformHtmlToMarkdown section scoping', () => {
+  const html = `
+    <html>
+      <head><title>Scoped Page</title></head>
+      <body>
+        <nav class="menu"><a href="/a">Home</a></nav>
+        <main>
+          <h1>Manual</h1>
+          <p>Overview paragraph.</p>
+          <h2>Configuration</h2>
+          <p>Set the options.</p>
+          <h3>Advanced</h3>
+          <p>Tune the pool.</p>
+          <h2>Troubleshooting</h2>
+          <p>Check the logs.</p>
+        </main>
+      </body>
+    </html>
+  `;
+
+  it('converts only elements matching the selector', async () => {
+    const result = await withWorkerPoolDisabled(() =>
+      transformHtmlToMarkdown(html, 'https://example.com/docs', {
+        includeMetadata: false,
+        selector: 'nav.menu',
+      })
+    );
+
+    assert.match(result.markdown, /\[Home\]\(https:\/\/example\.com\/a\)/);
+    assert.ok(!result.markdown.includes('Overview paragraph.'));
+  });
+
+  it('returns the section under a heading in worker mode', async () => {
+    const result = await withWorkerPoolEnabled(() =>
+      transformHtmlToMarkdown(html, 'https://example.com/docs', {
+        includeMetadata: false,
+        heading: 'configuration',
+      })
+    );
+
+    assert.match(result.markdown, /^## Configuration/);
+    assert.ok(result.markdown.includes('Tune the pool.'));
+    assert.ok(!result.markdown.includes('Check the logs.'));
+    assert.ok(!result.markdown.includes('Overview paragraph.'));
+  });
+
+  it('fails with section_not_found when nothing matches', async () => {
+    await withWorkerPoolDisabled(async () => {
+      await assert.rejects(
+        transformHtmlToMarkdown(html, 'https://example.com/docs', {
+          includeMetadata: false,
+          heading: 'Changelog',
+        }),
+        (error: unknown) =>
+          error instanceof FetchError &&
+          error.statusCode === 422 &&
+          error.details['reason'] === 'section_not_found'
+      );
+      await assert.rejects(
+        transformHtmlToMarkdown(html, 'https://example.com/docs', {
+          includeMetadata: false,
+          selector: 'article.missing',
+        }),
+        (error: unknown) =>
+          error instanceof FetchError &&
+          error.details['reason'] === 'section_not_found'
+      );
+    });
+  });
+
+  it('rejects invalid selectors', async () => {
+    await withWorkerPoolDisabled(async () => {
+      await assert.rejects(
+        transformHtmlToMarkdown(html, 'https://example.com/docs', {
+          includeMetadata: false,
+          selector: 'main[[',
+        }),
+        (error: unknown) =>
+          error instanceof FetchError &&
+          error.statusCode === 400 &&
+          error.details['reason'] === 'invalid_selector'
+      );
+    });
+  });
+});
+
+describe('transformHtmlToMarkdown link inventory', () => {
+  const html = `
+    <html>
+      <head><title>Links Page</title></head>
+      <body>
+        <main>
+          <h1>Guide</h1>
+          <p>
+            Read the <a href="/docs/setup">setup guide</a> and the
+            <a href="https://other.example.org/ref" rel="nofollow noopener">reference</a>.
+            <a href="/docs/setup">Setup again</a>
+            <a href="#usage">Jump</a>
+            <a href="mailto:team@example.com">Mail</a>
+          </p>
+          <p><a href="/home"><img src="/img/logo.png" alt="Home"></a></p>
+          <p><img data-src="/img/lazy.png" alt=" Lazy  diagram "><img src="/img/logo.png" alt="Duplicate"></p>
+        </main>
+      </body>
+    </html>
+  `;
+
+  const expectedLinks = [
+    {
+      href: 'https://example.com/docs/setup',
+      text: 'setup guide',
+      internal: true,
+    },
+    {
+      href: 'https://other.example.org/ref',
+      text: 'reference',
+      internal: false,
+      rel: 'nofollow noopener',
+    },
+    { href: 'https://example.com/home', text: 'Home', internal: true },
+  ];
+  const expectedImages = [
+    { src: 'https://example.com/img/logo.png', alt: 'Home' },
+    { src: 'https://example.com/img/lazy.png', alt: 'Lazy diagram' },
+  ];
+
+  it('returns deduplicated links and images when requested', async () => {
+    const result = await withWorkerPoolDisabled(() =>
+      transformHtmlToMarkdown(html, 'https://example.com/guide', {
+        includeMetadata: false,
+        includeLinks: true,
+      })
+    );
+
+    assert.deepEqual(result.links, expectedLinks);
+    assert.deepEqual(result.images, expectedImages);
+  });
+
+  it('returns the inventory from worker mode', async () => {
+    const result = await withWorkerPoolEnabled(() =>
+      transformHtmlToMarkdown(html, 'https://example.com/guide', {
+        includeMetadata: false,
+        includeLinks: true,
+      })
+    );
+
+    assert.deepEqual(result.links, expectedLinks);
+    assert.deepEqual(result.images, expectedImages);
+  });
+
+  it('omits the inventory by default', async () => {
+    const result = await withWorkerPoolDisabled(() =>
+      transformHtmlToMarkdown(html, 'https://example.com/guide', {
+        includeMetadata: false,
+      })
+    );
+
+    assert.equal(result.links, undefined);
+    assert.equal(result.images, undefined);
+  });
+});
+
+describe('transformHtmlToMarkdown structured data', () => {
+  const html = `
+    <html>
+      <head>
+        <title>Widget | Shop</title>
+        <script type="application/ld+json">
+          <!--
+          {
+            "@context": "https://schema.org",
+            "@graph": [
+              {
+                "@type": ["Product", "Thing"],
+                "@id": "#product",
+                "name": "  Widget  ",
+                "offers": { "@type": "https://schema.org/Offer", "price": 9.5 },
+                "color": { "@value": "red" }
+              },
+              { "@id": "#untyped", "name": "skipped" }
+            ]
+          }
+          -->
+        </script>
+        <script type="application/ld+json">{ not json</script>
+      </head>
+      <body>
+        <main>
+          <h1>Widget</h1>
+          <p>A widget for every workshop, built to last for many years of use.</p>
+          <div itemscope itemtype="https://schema.org/Review">
+            <span itemprop="name">Solid</span>
+            <img itemprop="image" src="/review.jpg" alt="">
+            <time itemprop="datePublished" datetime="2024-05-01">May 1</time>
+            <span itemprop="keywords">sturdy</span>
+            <span itemprop="keywords">cheap</span>
+            <div itemprop="author" itemscope itemtype="https://schema.org/Person">
+              <span itemprop="name">Ada</span>
+            </div>
+            <meta itemprop="ratingValue" content="5">
+          </div>
+        </main>
+      </body>
+    </html>
+  `;
+
+  const expected = [
+    {
+      type: 'Product',
+      source: 'json-ld',
+      properties: {
+        name: 'Widget',
+        offers: { '@type': 'Offer', price: 9.5 },
+        color: 'red',
+      },
+    },
+    {
+      type: 'Review',
+      source: 'microdata',
+      properties: {
+        name: 'Solid',
+        image: 'https://example.com/review.jpg',
+        datePublished: '2024-05-01',
+        keywords: ['sturdy', 'cheap'],
+        author: { '@type': 'Person', name: 'Ada' },
+        ratingValue: '5',
+      },
+    },
+  ];
+
+  it('normalizes JSON-LD and microdata items', async () => {
+    const result = await withWorkerPoolDisabled(() =>
+      transformHtmlToMarkdown(html, 'https://example.com/shop/widget', {
+        includeMetadata: false,
+      })
+    );
+
+    assert.deepEqual(result.structuredData, expected);
+    assert.equal(result.title, 'Widget');
+  });
+
+  it('returns structured data from worker mode', async () => {
+    const result = await withWorkerPoolEnabled(() =>
+      transformHtmlToMarkdown(html, 'https://example.com/shop/widget', {
+        includeMetadata: false,
+      })
+    );
+
+    assert.deepEqual(result.structuredData, expected);
+  });
+});
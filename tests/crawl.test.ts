@@ -0,0 +1,341 @@
+import assert from 'node:assert/strict';
+import { after, describe, it, type TestContext } from 'node:test';
+
+import { crawl, extractSameOriginLinks } from '../dist/crawl.js';
+import { createMcpServer } from '../dist/server.js';
+import { crawlToolHandler } from '../dist/tools.js';
+import { shutdownTransformWorkerPool } from '../dist/transform.js';
+
+after(async () => {
+  await shutdownTransformWorkerPool();
+});
+
+type RequestHandler = (request: unknown, extra?: unknown) => Promise<unknown>;
+
+type HandlerMap = Map<string, RequestHandler>;
+
+type CrawledPage = {
+  url: string;
+  depth: number;
+  title?: string;
+  cacheResourceUri?: string;
+  error?: string;
+  statusCode?: number;
+};
+
+const SITE: Record<string, string> = {
+  '/crawl': `
+    <h1>Home</h1>
+    <p><a href="/crawl/docs/intro">Intro</a></p>
+    <p><a href="/crawl/blog/post">Post</a></p>
+    <p><a href="/crawl/missing">Missing</a></p>
+    <p><a href="https://other.example/away">Elsewhere</a></p>`,
+  '/crawl/docs/intro': `
+    <h1>Intro</h1>
+    <p><a href="/crawl/docs/deep#section">Deep</a></p>
+    <p><a href="/crawl">Home</a></p>`,
+  '/crawl/docs/deep': '<h1>Deep</h1><p>Deep page.</p>',
+  '/crawl/blog/post': '<h1>Post</h1><p>Blog post.</p>',
+};
+
+function getRequestHandler(
+  server: Awaited<ReturnType<typeof createMcpServer>>,
+  method: string
+): RequestHandler {
+  const handlers = (
+    server.server as unknown as { _requestHandlers: HandlerMap }
+  )._requestHandlers;
+  const handler = handlers.get(method);
+  assert.ok(handler, `${method} handler should be registered`);
+  return handler;
+}
+
+function mockSite(t: TestContext): string[] {
+  const requested: string[] = [];
+  t.mock.method(globalThis, 'fetch', async (input: RequestInfo | URL) => {
+    const url = new URL(String(input));
+    requested.push(url.pathname);
+    const body = SITE[url.pathname];
+    if (body === undefined) {
+      return new Response('not found', { status: 404 });
+    }
+    return new Response(
+      `<html><head><title>${url.pathname}</title></head><body>${body}</body></html>`,
+      { status: 200, headers: { 'content-type': 'text/html' } }
+    );
+  });
+  return requested;
+}
+
+describe('extractSameOriginLinks', () => {
+  it('resolves relative links and skips images, assets and other origins', () => {
+    const markdown = [
+      '[Docs](/docs/start#top) and [Guide](guide "Title")',
+      '![Logo](/logo.png) [![Badge](/badge)](/home)',
+      '[Archive](/files/site.zip) [Away](https://other.example/page)',
+      '[Mail](mailto:team@example.com) [Docs again](/docs/start)',
+    ].join('\n');
+
+    assert.deepEqual(
+      extractSameOriginLinks(
+        markdown,
+        'https://example.com/base/',
+        'https://example.com'
+      ),
+      [
+        'https://example.com/docs/start',
+        'https://example.com/base/guide',
+        'https://example.com/home',
+      ]
+    );
+  });
+});
+
+describe('crawl', () => {
+  it('visits pages breadth-first within depth and page limits', async () => {
+    const links: Record<string, string> = {
+      'https://example.com/': '[A](/a) [B](/b)',
+      'https://example.com/a': '[C](/c) [B](/b)',
+      'https://example.com/b': '[D](/d)',
+      'https://example.com/c': '[E](/e)',
+    };
+
+    const visited: string[] = [];
+    const result = await crawl({
+      startUrl: 'https://example.com/',
+      maxDepth: 2,
+      maxPages: 10,
+      fetchPage: async (url, depth) => {
+        visited.push(`${depth}:${url}`);
+        return { page: url, markdown: links[url] ?? '' };
+      },
+    });
+
+    assert.deepEqual(visited, [
+      '0:https://example.com/',
+      '1:https://example.com/a',
+      '1:https://example.com/b',
+      '2:https://example.com/c',
+      '2:https://example.com/d',
+    ]);
+    assert.equal(result.truncated, false);
+
+    const limited = await crawl({
+      startUrl: 'https://example.com/',
+      maxDepth: 2,
+      maxPages: 2,
+      fetchPage: async (url) => ({ page: url, markdown: links[url] ?? '' }),
+    });
+    assert.deepEqual(limited.pages, [
+      'https://example.com/',
+      'https://example.com/a',
+    ]);
+    assert.equal(limited.truncated, true);
+  });
+
+  it('applies include and exclude pathname patterns to discovered links', async () => {
+    const result = await crawl({
+      startUrl: 'https://example.com/',
+      maxDepth: 1,
+      maxPages: 10,
+      include: ['/docs/*'],
+      exclude: ['/docs/private/*'],
+      fetchPage: async (url) => ({
+        page: url,
+        markdown:
+          '[One](/docs/one) [Secret](/docs/private/key) [Blog](/blog/post)',
+      }),
+    });
+
+    assert.deepEqual(result.pages, [
+      'https://example.com/',
+      'https://example.com/docs/one',
+    ]);
+  });
+
+  it('scopes the crawl to the origin the start page redirected to', async () => {
+    const result = await crawl({
+      startUrl: 'http://example.com/',
+      maxDepth: 1,
+      maxPages: 10,
+      fetchPage: async (url) =>
+        url === 'http://example.com/'
+          ? {
+              page: url,
+              markdown: '[Home](/) [Docs](/docs) [Old](http://example.com/old)',
+              finalUrl: 'https://www.example.com/',
+            }
+          : { page: url, markdown: '' },
+    });
+
+    assert.deepEqual(result.pages, [
+      'http://example.com/',
+      'https://www.example.com/docs',
+    ]);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+
+    await assert.rejects(
+      crawl({
+        startUrl: 'https://example.com/',
+        maxDepth: 3,
+        maxPages: 10,
+        signal: controller.signal,
+        fetchPage: async (url) => {
+          controller.abort();
+          return { page: url, markdown: '[Next](/next)' };
+        },
+      }),
+      { name: 'AbortError' }
+    );
+  });
+});
+
+describe('crawlToolHandler', () => {
+  it('returns a manifest of cached pages and per-page errors', async (t) => {
+    const requested = mockSite(t);
+
+    const response = await crawlToolHandler({
+      url: 'https://example.com/crawl',
+      maxDepth: 2,
+      exclude: ['/crawl/blog/*'],
+      forceRefresh: true,
+    });
+
+    assert.equal(response.isError, undefined);
+    const structured = response.structuredContent as {
+      pages: CrawledPage[];
+      crawled: number;
+      failed: number;
+      truncated: boolean;
+    };
+
+    assert.deepEqual(
+      structured.pages.map(({ url, depth }) => ({ url, depth })),
+      [
+        { url: 'https://example.com/crawl', depth: 0 },
+        { url: 'https://example.com/crawl/docs/intro', depth: 1 },
+        { url: 'https://example.com/crawl/missing', depth: 1 },
+        { url: 'https://example.com/crawl/docs/deep', depth: 2 },
+      ]
+    );
+    assert.equal(structured.crawled, 4);
+    assert.equal(structured.failed, 1);
+    assert.equal(structured.truncated, false);
+    assert.equal(requested.includes('/crawl/blog/post'), false);
+
+    const missing = structured.pages.find((page) => page.error);
+    assert.equal(missing?.statusCode, 404);
+
+    const cached = structured.pages.filter((page) => page.cacheResourceUri);
+    assert.equal(cached.length, 3);
+    for (const page of cached) {
+      assert.match(page.cacheResourceUri ?? '', /^internal:\/\/cache\//);
+    }
+
+    const resourceLinks = response.content.filter(
+      (block) => block.type === 'resource_link'
+    );
+    assert.equal(resourceLinks.length, 3);
+  });
+});
+
+describe('crawl task execution', () => {
+  it('requires task augmentation', async () => {
+    const server = await createMcpServer();
+
+    try {
+      const listTools = getRequestHandler(server, 'tools/list');
+      const callTool = getRequestHandler(server, 'tools/call');
+
+      const toolsResult = (await listTools({ method: 'tools/list' })) as {
+        tools?: { name: string; execution?: { taskSupport?: string } }[];
+      };
+      const crawlTool = toolsResult.tools?.find(
+        (tool) => tool.name === 'crawl'
+      );
+      assert.equal(crawlTool?.execution?.taskSupport, 'required');
+
+      await assert.rejects(
+        () =>
+          callTool({
+            method: 'tools/call',
+            params: {
+              name: 'crawl',
+              arguments: { url: 'https://example.com/crawl' },
+            },
+          }),
+        /requires task execution/
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('runs as a task and returns the manifest', async (t) => {
+    const server = await createMcpServer();
+    mockSite(t);
+
+    try {
+      const callTool = getRequestHandler(server, 'tools/call');
+      const getTaskResult = getRequestHandler(server, 'tasks/result');
+
+      const createResult = (await callTool({
+        method: 'tools/call',
+        params: {
+          name: 'crawl',
+          arguments: {
+            url: 'https://example.com/crawl',
+            maxDepth: 1,
+            maxPages: 2,
+          },
+          task: { ttl: 10_000 },
+        },
+      })) as { task?: { taskId?: string } };
+
+      const taskId = createResult.task?.taskId;
+      assert.ok(taskId, 'task id should be returned');
+
+      const result = (await getTaskResult({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tasks/result',
+        params: { taskId },
+      })) as {
+        structuredContent?: { crawled?: number; truncated?: boolean };
+      };
+
+      assert.equal(result.structuredContent?.crawled, 2);
+      assert.equal(result.structuredContent?.truncated, true);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('rejects invalid path patterns', async () => {
+    const server = await createMcpServer();
+
+    try {
+      const callTool = getRequestHandler(server, 'tools/call');
+      await assert.rejects(
+        () =>
+          callTool({
+            method: 'tools/call',
+            params: {
+              name: 'crawl',
+              arguments: {
+                url: 'https://example.com/crawl',
+                include: ['/docs/(unclosed'],
+              },
+              task: { ttl: 10_000 },
+            },
+          }),
+        /Invalid arguments for crawl/
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+
+import { diffUrlToolHandler, fetchUrlToolHandler } from '../dist/tools.js';
+import { shutdownTransformWorkerPool } from '../dist/transform.js';
+
+after(async () => {
+  await shutdownTransformWorkerPool();
+});
+
+type DiffContent = {
+  status?: string;
+  previousFetchedAt?: string;
+  summary?: {
+    addedLines: number;
+    removedLines: number;
+    addedHeadings: string[];
+    removedHeadings: string[];
+  };
+  diff?: string;
+  sections?: { heading?: string; status: string; diff: string }[];
+};
+
+function page(items: string[]): string {
+  const sections = items
+    .map((item) => `<h2>${item}</h2><p>Notes for ${item}.</p>`)
+    .join('');
+  return `<html><head><title>Changelog</title></head><body><main><h1>Changelog</h1>${sections}</main></body></html>`;
+}
+
+describe('diffUrlToolHandler', () => {
+  it('records a baseline, then reports changes against the cached version', async (t) => {
+    const versions = [page(['1.0.0']), page(['1.1.0', '1.0.0'])];
+    let calls = 0;
+    t.mock.method(globalThis, 'fetch', async () => {
+      const html = versions[Math.min(calls, versions.length - 1)] ?? '';
+      calls += 1;
+      return new Response(html, {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    const url = 'https://example.com/changelog';
+    const baseline = await diffUrlToolHandler({ url });
+    const changed = await diffUrlToolHandler({ url });
+    const unchanged = await diffUrlToolHandler({ url, mode: 'sections' });
+
+    const first = baseline.structuredContent as DiffContent;
+    assert.equal(first.status, 'baseline');
+    assert.equal(first.summary, undefined);
+
+    const second = changed.structuredContent as DiffContent;
+    assert.equal(second.status, 'changed');
+    assert.ok(second.previousFetchedAt);
+    assert.deepEqual(second.summary?.addedHeadings, ['1.1.0']);
+    assert.deepEqual(second.summary?.removedHeadings, []);
+    assert.match(second.diff ?? '', /^--- previous\t/);
+    assert.match(second.diff ?? '', /^\+## 1\.1\.0$/m);
+
+    const third = unchanged.structuredContent as DiffContent;
+    assert.equal(third.status, 'unchanged');
+    assert.deepEqual(third.sections, []);
+    assert.equal(calls, 3);
+  });
+
+  it('compares against the version cached by a forced fetch-url refresh', async (t) => {
+    const versions = [
+      page(['2.0.0']),
+      page(['2.1.0', '2.0.0']),
+      page(['2.1.0', '2.0.0']),
+    ];
+    let calls = 0;
+    t.mock.method(globalThis, 'fetch', async () => {
+      const html = versions[Math.min(calls, versions.length - 1)] ?? '';
+      calls += 1;
+      return new Response(html, {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    const url = 'https://example.com/forced-changelog';
+    await fetchUrlToolHandler({ url, forceRefresh: true });
+    await fetchUrlToolHandler({ url, forceRefresh: true });
+    const response = await diffUrlToolHandler({ url, mode: 'sections' });
+
+    const content = response.structuredContent as DiffContent;
+    assert.equal(content.status, 'unchanged');
+    assert.deepEqual(content.summary?.addedHeadings, []);
+  });
+});
@@ -0,0 +1,288 @@
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+import { gzipSync } from 'node:zlib';
+
+import { discoverUrls, parseUrlDocument } from '../dist/discover.js';
+import { FetchError } from '../dist/errors.js';
+import { discoverUrlsToolHandler } from '../dist/tools.js';
+import { shutdownTransformWorkerPool } from '../dist/transform.js';
+
+after(async () => {
+  await shutdownTransformWorkerPool();
+});
+
+const SITEMAP = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+        xmlns:news="http://www.google.com/schemas/sitemap-news/0.9">
+  <url><loc>https://example.com/blog/new</loc><lastmod>2024-05-01</lastmod></url>
+  <url><loc>https://example.com/blog/old</loc><lastmod>2023-01-01T10:00:00+02:00</lastmod></url>
+  <url><loc>/about</loc></url>
+  <url><loc>mailto:team@example.com</loc></url>
+  <url>
+    <loc>https://example.com/news/launch</loc>
+    <news:news>
+      <news:title>Launch day</news:title>
+      <news:publication_date>2024-06-01</news:publication_date>
+    </news:news>
+  </url>
+</urlset>`;
+
+const RSS = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Example Blog</title>
+    <item>
+      <title>First post</title>
+      <link>https://example.com/posts/1</link>
+      <pubDate>Tue, 02 Jan 2024 08:00:00 GMT</pubDate>
+      <description><![CDATA[<p>Hello <b>world</b> &amp; friends</p>]]></description>
+    </item>
+    <item>
+      <title>Guid only</title>
+      <guid>https://example.com/posts/2</guid>
+      <dc:date>2024-02-03T00:00:00Z</dc:date>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Example Atom</title>
+  <entry>
+    <title>Atom entry</title>
+    <link rel="self" href="https://example.com/feed/entry-1"/>
+    <link rel="alternate" href="/entries/1"/>
+    <published>2024-03-01T12:00:00Z</published>
+    <updated>2024-03-05T12:00:00Z</updated>
+    <summary type="html">&lt;p&gt;Short &lt;em&gt;summary&lt;/em&gt;&lt;/p&gt;</summary>
+  </entry>
+</feed>`;
+
+describe('parseUrlDocument', () => {
+  it('reads sitemap entries and resolves relative URLs', () => {
+    const document = parseUrlDocument(
+      SITEMAP,
+      'https://example.com/sitemap.xml'
+    );
+
+    assert.equal(document.type, 'sitemap');
+    assert.deepEqual(document.entries, [
+      {
+        url: 'https://example.com/blog/new',
+        lastmod: '2024-05-01T00:00:00.000Z',
+      },
+      {
+        url: 'https://example.com/blog/old',
+        lastmod: '2023-01-01T08:00:00.000Z',
+      },
+      { url: 'https://example.com/about' },
+      {
+        url: 'https://example.com/news/launch',
+        title: 'Launch day',
+        published: '2024-06-01T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('reads the child sitemaps of a sitemap index', () => {
+    const document = parseUrlDocument(
+      `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <sitemap><loc>https://example.com/posts.xml.gz</loc><lastmod>2024-05-01</lastmod></sitemap>
+      </sitemapindex>`,
+      'https://example.com/sitemap.xml'
+    );
+
+    assert.equal(document.type, 'sitemap-index');
+    assert.deepEqual(document.entries, [
+      {
+        url: 'https://example.com/posts.xml.gz',
+        lastmod: '2024-05-01T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('reads RSS items with plain-text summaries', () => {
+    const document = parseUrlDocument(RSS, 'https://example.com/feed.xml');
+
+    assert.equal(document.type, 'rss');
+    assert.equal(document.title, 'Example Blog');
+    assert.deepEqual(document.entries, [
+      {
+        url: 'https://example.com/posts/1',
+        title: 'First post',
+        published: '2024-01-02T08:00:00.000Z',
+        summary: 'Hello world & friends',
+      },
+      {
+        url: 'https://example.com/posts/2',
+        title: 'Guid only',
+        published: '2024-02-03T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('reads Atom entries using their alternate link', () => {
+    const document = parseUrlDocument(ATOM, 'https://example.com/atom.xml');
+
+    assert.equal(document.type, 'atom');
+    assert.equal(document.title, 'Example Atom');
+    assert.deepEqual(document.entries, [
+      {
+        url: 'https://example.com/entries/1',
+        title: 'Atom entry',
+        lastmod: '2024-03-05T12:00:00.000Z',
+        published: '2024-03-01T12:00:00.000Z',
+        summary: 'Short summary',
+      },
+    ]);
+  });
+
+  it('rejects documents that are not sitemaps or feeds', () => {
+    assert.throws(
+      () =>
+        parseUrlDocument(
+          '<html><body>Not a feed</body></html>',
+          'https://example.com/'
+        ),
+      (error: unknown) => {
+        assert.ok(error instanceof FetchError);
+        assert.equal(error.statusCode, 422);
+        assert.equal(error.details.reason, 'unsupported_document');
+        return true;
+      }
+    );
+  });
+});
+
+describe('discoverUrls', () => {
+  it('filters by path prefix and date and caps the entries', async () => {
+    const result = await discoverUrls({
+      url: 'https://example.com/sitemap.xml',
+      pathPrefix: '/blog/',
+      since: '2024-01-01',
+      maxEntries: 10,
+      maxSitemaps: 5,
+      fetchDocument: async (url) => ({ text: SITEMAP, finalUrl: url }),
+    });
+
+    assert.deepEqual(
+      result.entries.map((entry) => entry.url),
+      ['https://example.com/blog/new']
+    );
+    assert.equal(result.matched, 1);
+    assert.equal(result.truncated, false);
+
+    const capped = await discoverUrls({
+      url: 'https://example.com/sitemap.xml',
+      maxEntries: 2,
+      maxSitemaps: 5,
+      fetchDocument: async (url) => ({ text: SITEMAP, finalUrl: url }),
+    });
+    assert.equal(capped.entries.length, 2);
+    assert.equal(capped.matched, 4);
+    assert.equal(capped.truncated, true);
+  });
+
+  it('skips stale and failing child sitemaps of an index', async () => {
+    const documents: Record<string, string> = {
+      'https://example.com/sitemap.xml': `<sitemapindex>
+        <sitemap><loc>https://example.com/old.xml</loc><lastmod>2022-01-01</lastmod></sitemap>
+        <sitemap><loc>https://example.com/broken.xml</loc></sitemap>
+        <sitemap><loc>https://example.com/recent.xml</loc><lastmod>2024-05-01</lastmod></sitemap>
+      </sitemapindex>`,
+      'https://example.com/broken.xml': '<html></html>',
+      'https://example.com/recent.xml': SITEMAP,
+    };
+    const requested: string[] = [];
+
+    const result = await discoverUrls({
+      url: 'https://example.com/sitemap.xml',
+      since: '2024-01-01',
+      maxEntries: 10,
+      maxSitemaps: 5,
+      fetchDocument: async (url) => {
+        requested.push(url);
+        const text = documents[url];
+        if (text === undefined) throw new Error(`unexpected fetch: ${url}`);
+        return { text, finalUrl: url };
+      },
+    });
+
+    assert.equal(result.type, 'sitemap-index');
+    assert.deepEqual(requested, [
+      'https://example.com/sitemap.xml',
+      'https://example.com/broken.xml',
+      'https://example.com/recent.xml',
+    ]);
+    assert.equal(result.sitemapsFetched, 2);
+    assert.equal(result.failedSitemaps, 1);
+    assert.deepEqual(
+      result.entries.map((entry) => entry.url),
+      ['https://example.com/blog/new', 'https://example.com/news/launch']
+    );
+  });
+});
+
+describe('discover-urls tool', () => {
+  it('follows a sitemap index into a gzipped child sitemap', async (t) => {
+    t.mock.method(globalThis, 'fetch', async (input: RequestInfo | URL) => {
+      const url = input instanceof Request ? input.url : String(input);
+      if (url === 'https://discover.example.com/sitemap.xml') {
+        return new Response(
+          `<sitemapindex><sitemap><loc>https://discover.example.com/pages.xml.gz</loc></sitemap></sitemapindex>`,
+          { status: 200, headers: { 'content-type': 'application/xml' } }
+        );
+      }
+      if (url === 'https://discover.example.com/pages.xml.gz') {
+        return new Response(gzipSync(SITEMAP), {
+          status: 200,
+          headers: { 'content-type': 'application/gzip' },
+        });
+      }
+      return new Response('missing', { status: 404, statusText: 'Not Found' });
+    });
+
+    const response = await discoverUrlsToolHandler({
+      url: 'https://discover.example.com/sitemap.xml',
+      pathPrefix: '/news/',
+    });
+
+    assert.equal(response.isError, undefined);
+    const structured = response.structuredContent as {
+      type: string;
+      entries: { url: string; title?: string }[];
+      sitemapsFetched: number;
+    };
+    assert.equal(structured.type, 'sitemap-index');
+    assert.equal(structured.sitemapsFetched, 1);
+    assert.deepEqual(structured.entries, [
+      {
+        url: 'https://example.com/news/launch',
+        title: 'Launch day',
+        published: '2024-06-01T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('rejects octet-stream bodies that are not gzip data', async (t) => {
+    t.mock.method(
+      globalThis,
+      'fetch',
+      async () =>
+        new Response(new Uint8Array([0x50, 0x4b, 0x03, 0x04]), {
+          status: 200,
+          headers: { 'content-type': 'application/octet-stream' },
+        })
+    );
+
+    const response = await discoverUrlsToolHandler({
+      url: 'https://discover.example.com/archive.zip',
+    });
+
+    assert.equal(response.isError, true);
+    assert.match(
+      JSON.stringify(response.content),
+      /Unsupported content type: application\/octet-stream/
+    );
+  });
+});
@@ -330,3 +330,40 @@ describe('Noise scan limits', () => {
     );
   });
 });
+
+describe('URL resolution', () => {
+  it('reports the link and image elements it resolved', () => {
+    const html = `
+      <html>
+        <body>
+          <main>
+            <p><a href="/docs">Docs</a> <img src="img/a.png" alt="A"></p>
+            <p><img data-src="/lazy.png" alt="Lazy"></p>
+          </main>
+        </body>
+      </html>
+    `;
+    let reported: readonly Element[] = [];
+
+    removeNoiseFromHtml(
+      html,
+      undefined,
+      'https://example.com/guide/',
+      (elements) => {
+        reported = elements;
+      }
+    );
+
+    assert.deepEqual(
+      reported.map((element) => [
+        element.tagName.toLowerCase(),
+        element.getAttribute('href') ?? element.getAttribute('src'),
+      ]),
+      [
+        ['a', 'https://example.com/docs'],
+        ['img', 'https://example.com/guide/img/a.png'],
+        ['img', null],
+      ]
+    );
+  });
+});
@@ -219,4 +219,61 @@ describe('extractContent', () => {
     // The metadata may or may not include favicon depending on implementation
     assert.doesNotThrow(() => result.metadata.favicon);
   });
+
+  it('falls back to JSON-LD for title, author and dates', () => {
+    const html = `
+      <html>
+        <head>
+          <title>Recipe | Example Kitchen</title>
+          <script type="application/ld+json">
+            {
+              "@context": "https://schema.org",
+              "@graph": [
+                { "@type": "WebSite", "name": "Example Kitchen" },
+                {
+                  "@type": "Recipe",
+                  "name": "Tomato Soup",
+                  "author": [{ "@type": "Person", "name": "Ada" }, "Grace"],
+                  "datePublished": "2024-05-01",
+                  "dateModified": "2024-06-01"
+                }
+              ]
+            }
+          </script>
+        </head>
+        <body><p>Content</p></body>
+      </html>
+    `;
+
+    const { metadata } = extractContent(html, 'https://example.com', {
+      extractArticle: false,
+    });
+
+    assert.equal(metadata.title, 'Tomato Soup');
+    assert.equal(metadata.author, 'Ada, Grace');
+    assert.equal(metadata.publishedAt, '2024-05-01');
+    assert.equal(metadata.modifiedAt, '2024-06-01');
+  });
+
+  it('keeps meta tags ahead of structured data', () => {
+    const html = `
+      <html>
+        <head>
+          <meta property="og:title" content="OG Title" />
+          <meta name="author" content="Meta Author" />
+          <script type="application/ld+json">
+            { "@type": "Article", "headline": "LD Headline", "author": "LD Author" }
+          </script>
+        </head>
+        <body><p>Content</p></body>
+      </html>
+    `;
+
+    const { metadata } = extractContent(html, 'https://example.com', {
+      extractArticle: false,
+    });
+
+    assert.equal(metadata.title, 'OG Title');
+    assert.equal(metadata.author, 'Meta Author');
+  });
 });
@@ -293,4 +293,114 @@ describe('executeFetchPipeline', () => {
       config.cache.enabled = originalCacheEnabled;
     }
   });
+
+  it('revalidates stale entries with conditional requests', async (t) => {
+    const url = 'https://example.com/revalidate-etag';
+    const cacheNamespace = 'pipeline-test-revalidate';
+    const requests: Headers[] = [];
+    let transformCalls = 0;
+
+    t.mock.method(
+      globalThis,
+      'fetch',
+      async (_input: RequestInfo | URL, init?: RequestInit) => {
+        const headers = new Headers(init?.headers);
+        requests.push(headers);
+        if (headers.get('if-none-match') === '"v1"') {
+          return new Response(null, { status: 304, headers: { etag: '"v1"' } });
+        }
+        return new Response('<p>fresh</p>', {
+          status: 200,
+          headers: {
+            'content-type': 'text/html',
+            etag: '"v1"',
+            'last-modified': 'Wed, 21 Oct 2015 07:28:00 GMT',
+          },
+        });
+      }
+    );
+
+    const runPipeline = () =>
+      executeFetchPipeline<string>({
+        url,
+        cacheNamespace,
+        serialize: serializeString,
+        deserialize: deserializeString,
+        transform: async (input) => {
+          transformCalls += 1;
+          return new TextDecoder(input.encoding).decode(input.buffer);
+        },
+      });
+
+    const first = await runPipeline();
+    assert.equal(first.fromCache, false);
+
+    const cacheKey = createCacheKey(
+      cacheNamespace,
+      normalizeUrl(url).normalizedUrl
+    );
+    const entry = cache.get(cacheKey);
+    assert.equal(entry?.etag, '"v1"');
+    assert.equal(entry?.lastModified, 'Wed, 21 Oct 2015 07:28:00 GMT');
+
+    t.mock.timers.enable({
+      apis: ['Date'],
+      now: Date.now() + (config.cache.ttl + 1) * 1000,
+    });
+    assert.equal(cache.get(cacheKey), undefined);
+
+    const revalidated = await runPipeline();
+    assert.equal(revalidated.fromCache, true);
+    assert.equal(revalidated.data, '<p>fresh</p>');
+    assert.equal(requests.length, 2);
+    assert.equal(
+      requests[1]?.get('if-modified-since'),
+      'Wed, 21 Oct 2015 07:28:00 GMT'
+    );
+
+    const cached = await runPipeline();
+    assert.equal(cached.fromCache, true);
+    assert.equal(requests.length, 2);
+    assert.equal(transformCalls, 1);
+  });
+
+  it('does not send validators when forceRefresh is set', async (t) => {
+    const url = 'https://example.com/revalidate-force';
+    const cacheNamespace = 'pipeline-test-revalidate-force';
+    const requests: Headers[] = [];
+
+    t.mock.method(
+      globalThis,
+      'fetch',
+      async (_input: RequestInfo | URL, init?: RequestInit) => {
+        requests.push(new Headers(init?.headers));
+        return new Response('<p>fresh</p>', {
+          status: 200,
+          headers: { 'content-type': 'text/html', etag: '"v2"' },
+        });
+      }
+    );
+
+    const options = {
+      url,
+      cacheNamespace,
+      serialize: serializeString,
+      deserialize: deserializeString,
+      transform: async () => 'payload',
+    };
+
+    await executeFetchPipeline<string>(options);
+    t.mock.timers.enable({
+      apis: ['Date'],
+      now: Date.now() + (config.cache.ttl + 1) * 1000,
+    });
+    const result = await executeFetchPipeline<string>({
+      ...options,
+      forceRefresh: true,
+    });
+
+    assert.equal(result.fromCache, false);
+    assert.equal(requests.length, 2);
+    assert.equal(requests[1]?.has('if-none-match'), false);
+  });
 });
@@ -0,0 +1,229 @@
+import assert from 'node:assert/strict';
+import diagnosticsChannel from 'node:diagnostics_channel';
+import { after, describe, it } from 'node:test';
+
+import { config } from '../dist/config.js';
+import { FetchError } from '../dist/errors.js';
+import { fetchNormalizedUrl } from '../dist/fetch.js';
+import { fetchUrlToolHandler } from '../dist/tools.js';
+import { shutdownTransformWorkerPool } from '../dist/transform.js';
+
+after(async () => {
+  await shutdownTransformWorkerPool();
+});
+
+type FetchMock = () => Promise<Response>;
+
+function respondInSequence(responses: (() => Response)[]): {
+  fetch: FetchMock;
+  calls: () => number;
+} {
+  let calls = 0;
+  return {
+    fetch: async () => {
+      const next = responses[Math.min(calls, responses.length - 1)];
+      calls += 1;
+      assert.ok(next);
+      return next();
+    },
+    calls: () => calls,
+  };
+}
+
+const unavailable = (retryAfter?: string) => () =>
+  new Response('unavailable', {
+    status: 503,
+    statusText: 'Service Unavailable',
+    ...(retryAfter ? { headers: { 'retry-after': retryAfter } } : {}),
+  });
+
+const ok = () =>
+  new Response('<p>recovered</p>', {
+    status: 200,
+    headers: { 'content-type': 'text/html' },
+  });
+
+describe('fetch retries', () => {
+  it('retries a transient failure and reports each retry', async (t) => {
+    const sequence = respondInSequence([unavailable('0'), ok]);
+    t.mock.method(globalThis, 'fetch', sequence.fetch);
+
+    const channel = diagnosticsChannel.channel('fetch-url-mcp.fetch');
+    const events: { type: string; attempt?: number; delay?: number }[] = [];
+    const listener = (event: unknown) => {
+      events.push(event as (typeof events)[number]);
+    };
+    channel.subscribe(listener);
+
+    const retries: { attempt: number; delayMs: number; status: number }[] = [];
+    try {
+      const body = await fetchNormalizedUrl('https://retry-once.example.com/', {
+        onRetry: ({ attempt, delayMs, status }) => {
+          retries.push({ attempt, delayMs, status });
+        },
+      });
+      assert.equal(body, '<p>recovered</p>');
+    } finally {
+      channel.unsubscribe(listener);
+    }
+
+    assert.equal(sequence.calls(), 2);
+    assert.deepEqual(retries, [{ attempt: 2, delayMs: 0, status: 503 }]);
+    assert.deepEqual(
+      events.map(({ type }) => type),
+      ['start', 'error', 'retry', 'start', 'end']
+    );
+    assert.equal(events[2]?.attempt, 2);
+  });
+
+  it('gives up after the configured number of attempts', async (t) => {
+    const sequence = respondInSequence([unavailable('0')]);
+    t.mock.method(globalThis, 'fetch', sequence.fetch);
+
+    await assert.rejects(
+      fetchNormalizedUrl('https://retry-exhausted.example.com/'),
+      { statusCode: 503 }
+    );
+    assert.equal(sequence.calls(), config.fetcher.retry.maxAttempts);
+  });
+
+  it('backs off exponentially when no Retry-After is sent', async (t) => {
+    const sequence = respondInSequence([unavailable(), unavailable(), ok]);
+    t.mock.method(globalThis, 'fetch', sequence.fetch);
+
+    const delays: number[] = [];
+    await fetchNormalizedUrl('https://retry-backoff.example.com/', {
+      onRetry: ({ delayMs }) => {
+        delays.push(delayMs);
+      },
+    });
+
+    const { baseDelayMs } = config.fetcher.retry;
+    assert.equal(delays.length, 2);
+    assert.ok(delays[0]! >= baseDelayMs / 2 && delays[0]! <= baseDelayMs);
+    assert.ok(delays[1]! >= baseDelayMs && delays[1]! <= baseDelayMs * 2);
+  });
+
+  it('backs off exponentially on a 429 without Retry-After', async (t) => {
+    const sequence = respondInSequence([
+      () =>
+        new Response('slow down', {
+          status: 429,
+          statusText: 'Too Many Requests',
+        }),
+      ok,
+    ]);
+    t.mock.method(globalThis, 'fetch', sequence.fetch);
+
+    const retries: { delayMs: number; status: number }[] = [];
+    const body = await fetchNormalizedUrl(
+      'https://retry-rate-limited.example.com/',
+      {
+        onRetry: ({ delayMs, status }) => {
+          retries.push({ delayMs, status });
+        },
+      }
+    );
+
+    assert.equal(body, '<p>recovered</p>');
+    assert.equal(sequence.calls(), 2);
+    assert.equal(retries[0]?.status, 429);
+    assert.ok(retries[0]!.delayMs <= config.fetcher.retry.baseDelayMs);
+  });
+
+  it('does not retry a Retry-After beyond the cap or non-transient errors', async (t) => {
+    const sequence = respondInSequence([unavailable('3600')]);
+    t.mock.method(globalThis, 'fetch', sequence.fetch);
+
+    await assert.rejects(
+      fetchNormalizedUrl('https://retry-later.example.com/'),
+      (error: unknown) => {
+        assert.ok(error instanceof FetchError);
+        assert.equal(error.details.retryAfter, 3600);
+        return true;
+      }
+    );
+    assert.equal(sequence.calls(), 1);
+
+    const notFound = respondInSequence([
+      () => new Response('missing', { status: 404, statusText: 'Not Found' }),
+    ]);
+    t.mock.method(globalThis, 'fetch', notFound.fetch);
+    await assert.rejects(
+      fetchNormalizedUrl('https://retry-missing.example.com/'),
+      { statusCode: 404 }
+    );
+    assert.equal(notFound.calls(), 1);
+  });
+
+  it('does not retry unsupported content or broken redirects', async (t) => {
+    const archive = respondInSequence([
+      () =>
+        new Response(new Uint8Array([0x50, 0x4b, 0x03, 0x04]), {
+          status: 200,
+          headers: { 'content-type': 'application/zip' },
+        }),
+    ]);
+    t.mock.method(globalThis, 'fetch', archive.fetch);
+    await assert.rejects(
+      fetchNormalizedUrl('https://retry-archive.example.com/'),
+      { statusCode: 415 }
+    );
+    assert.equal(archive.calls(), 1);
+
+    const redirect = respondInSequence([
+      () => new Response(null, { status: 302 }),
+    ]);
+    t.mock.method(globalThis, 'fetch', redirect.fetch);
+    await assert.rejects(
+      fetchNormalizedUrl('https://retry-redirect.example.com/'),
+      { message: 'Redirect response missing Location header' }
+    );
+    assert.equal(redirect.calls(), 1);
+  });
+
+  it('stops waiting when the caller aborts', async (t) => {
+    const sequence = respondInSequence([unavailable()]);
+    t.mock.method(globalThis, 'fetch', sequence.fetch);
+    const controller = new AbortController();
+
+    await assert.rejects(
+      fetchNormalizedUrl('https://retry-abort.example.com/', {
+        signal: controller.signal,
+        onRetry: () => {
+          controller.abort();
+        },
+      }),
+      { statusCode: 499 }
+    );
+    assert.equal(sequence.calls(), 1);
+  });
+
+  it('sends a progress notification for each retry', async (t) => {
+    const sequence = respondInSequence([unavailable('0'), ok]);
+    t.mock.method(globalThis, 'fetch', sequence.fetch);
+
+    const notifications: { progress: number; message?: string }[] = [];
+    await fetchUrlToolHandler(
+      { url: 'https://retry-progress.example.com/', forceRefresh: true },
+      {
+        _meta: { progressToken: 'retry-token' },
+        sendNotification: async (notification) => {
+          notifications.push(notification.params);
+        },
+      }
+    );
+
+    const retry = notifications.find(({ message }) =>
+      message?.startsWith('Retrying')
+    );
+    assert.ok(retry);
+    assert.ok(retry.progress > 2 && retry.progress < 3);
+    assert.match(retry.message ?? '', /attempt 2\/3\): HTTP 503/);
+    const progress = notifications.map((entry) => entry.progress);
+    assert.deepEqual(
+      progress,
+      [...progress].sort((a, b) => a - b)
+    );
+  });
+});
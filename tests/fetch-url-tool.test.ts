@@ -220,6 +220,253 @@ describe('fetchUrlToolHandler', () => {
     }
   });
 
+  it('condenses pages to the maxTokens budget and reports token counts', async (t) => {
+    const sections = ['Install', 'Configure', 'Deploy']
+      .map(
+        (name) =>
+          `<h2>${name}</h2><p>${name} first paragraph.</p><p>${'filler words '.repeat(200)}</p>`
+      )
+      .join('');
+    const html = `<html><body><main><h1>Guide</h1>${sections}</main></body></html>`;
+
+    t.mock.method(globalThis, 'fetch', async () => {
+      return new Response(html, {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    const response = await fetchUrlToolHandler({
+      url: 'https://example.com/token-budget',
+      maxTokens: 200,
+    });
+
+    const structured = response.structuredContent;
+    assert.equal(structured.truncated, true);
+    assert.equal(typeof structured.estimatedTokens, 'number');
+    assert.ok((structured.estimatedTokens as number) <= 200);
+    const markdown = String(structured.markdown);
+    for (const name of ['Install', 'Configure', 'Deploy']) {
+      assert.ok(markdown.includes(`## ${name}\n\n${name} first paragraph.`));
+    }
+    assert.ok(markdown.endsWith('...[truncated]'));
+    assertTextBlockMatchesStructured(response);
+  });
+
+  it('returns the heading outline and restores it from cache', async (t) => {
+    const html =
+      '<html><head><title>Outline Page</title></head><body><main><h2>Setup</h2><p>Install it.</p><h3>Linux</h3><p>Use apt.</p></main></body></html>';
+    const fetchMock = t.mock.method(globalThis, 'fetch', async () => {
+      return new Response(html, {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    const url = 'https://example.com/outline';
+    const first = await fetchUrlToolHandler({ url, forceRefresh: true });
+    const second = await fetchUrlToolHandler({ url });
+
+    const outline = first.structuredContent.outline as {
+      text: string;
+      anchor: string;
+      offset: number;
+    }[];
+    assert.deepEqual(
+      outline.map(({ text, anchor }) => [text, anchor]),
+      [
+        ['Outline Page', 'outline-page'],
+        ['Setup', 'setup'],
+        ['Linux', 'linux'],
+      ]
+    );
+    const markdown = String(first.structuredContent.markdown);
+    for (const entry of outline) {
+      assert.ok(markdown.slice(entry.offset).startsWith('#'));
+    }
+    assert.equal(second.structuredContent.fromCache, true);
+    assert.deepEqual(second.structuredContent.outline, outline);
+    assert.equal(fetchMock.mock.callCount(), 1);
+  });
+
+  it('returns heading-aware chunks and caches them per chunk size', async (t) => {
+    const html =
+      '<html><head><title>Chunks</title></head><body><main><h2>Setup</h2><p>Install it.</p><h3>Linux</h3><p>Use apt.</p></main></body></html>';
+    const fetchMock = t.mock.method(globalThis, 'fetch', async () => {
+      return new Response(html, {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    const url = 'https://example.com/chunks';
+    const plain = await fetchUrlToolHandler({ url, forceRefresh: true });
+    const first = await fetchUrlToolHandler({ url, chunkSize: 100 });
+    const second = await fetchUrlToolHandler({ url, chunkSize: 100 });
+
+    assert.equal(plain.structuredContent.chunks, undefined);
+    const chunks = first.structuredContent.chunks as {
+      text: string;
+      headings: string[];
+      url: string;
+      start: number;
+      end: number;
+    }[];
+    const linux = chunks.find((chunk) => chunk.headings.includes('Linux'));
+    assert.deepEqual(linux?.headings, ['Chunks', 'Setup', 'Linux']);
+    assert.equal(linux?.url, url);
+    const markdown = String(first.structuredContent.markdown);
+    for (const chunk of chunks) {
+      assert.equal(markdown.slice(chunk.start, chunk.end), chunk.text);
+    }
+    assert.equal(second.structuredContent.fromCache, true);
+    assert.deepEqual(second.structuredContent.chunks, chunks);
+    assert.equal(fetchMock.mock.callCount(), 2);
+  });
+
+  it('rejects chunkOverlap that is not smaller than chunkSize', async () => {
+    const response = await fetchUrlToolHandler({
+      url: 'https://example.com/chunk-overlap',
+      chunkSize: 100,
+      chunkOverlap: 100,
+    });
+
+    assert.equal(response.isError, true);
+    const structured = response.structuredContent as {
+      statusCode?: number;
+      details?: Record<string, unknown>;
+    };
+    assert.equal(structured.statusCode, 400);
+    assert.equal(structured.details?.['reason'], 'unsupported_option');
+  });
+
+  it('returns links and images only when includeLinks is set', async (t) => {
+    const html =
+      '<html><head><title>Links</title></head><body><main><h1>Links</h1><p>See <a href="/docs">the docs</a> and <a href="https://other.example.org/">elsewhere</a>.</p><img src="/a.png" alt="Chart"></main></body></html>';
+    const fetchMock = t.mock.method(globalThis, 'fetch', async () => {
+      return new Response(html, {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    const url = 'https://example.com/link-inventory';
+    const plain = await fetchUrlToolHandler({ url, forceRefresh: true });
+    const first = await fetchUrlToolHandler({ url, includeLinks: true });
+    const second = await fetchUrlToolHandler({ url, includeLinks: true });
+
+    assert.equal(plain.structuredContent.links, undefined);
+    assert.deepEqual(first.structuredContent.links, [
+      { href: 'https://example.com/docs', text: 'the docs', internal: true },
+      {
+        href: 'https://other.example.org/',
+        text: 'elsewhere',
+        internal: false,
+      },
+    ]);
+    assert.deepEqual(first.structuredContent.images, [
+      { src: 'https://example.com/a.png', alt: 'Chart' },
+    ]);
+    assert.equal(second.structuredContent.fromCache, true);
+    assert.deepEqual(
+      second.structuredContent.links,
+      first.structuredContent.links
+    );
+    assert.equal(fetchMock.mock.callCount(), 2);
+  });
+
+  it('returns structured data and restores it from cache', async (t) => {
+    const html =
+      '<html><head><title>Post</title><script type="application/ld+json">{"@type":"BlogPosting","headline":"Release Notes","author":{"@type":"Person","name":"Ada"}}</script></head><body><main><h1>Release Notes</h1><p>Version 2 is out.</p></main></body></html>';
+    t.mock.method(globalThis, 'fetch', async () => {
+      return new Response(html, {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    const url = 'https://example.com/structured-data';
+    const first = await fetchUrlToolHandler({ url, forceRefresh: true });
+    const second = await fetchUrlToolHandler({ url });
+
+    const expected = [
+      {
+        type: 'BlogPosting',
+        source: 'json-ld',
+        properties: {
+          headline: 'Release Notes',
+          author: { '@type': 'Person', name: 'Ada' },
+        },
+      },
+    ];
+    assert.deepEqual(first.structuredContent.structuredData, expected);
+    assert.equal(
+      (first.structuredContent.metadata as { author?: string }).author,
+      'Ada'
+    );
+    assert.equal(second.structuredContent.fromCache, true);
+    assert.deepEqual(second.structuredContent.structuredData, expected);
+  });
+
+  it('returns text, html and blocks formats from separate cache entries', async (t) => {
+    const html =
+      '<html><head><title>Formats</title></head><body><main><h1>Formats</h1><p>Use <strong>any</strong> format.</p><ul><li>One</li><li>Two</li></ul><script>track()</script></main></body></html>';
+    const fetchMock = t.mock.method(globalThis, 'fetch', async () => {
+      return new Response(html, {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    const url = 'https://example.com/formats';
+    const text = await fetchUrlToolHandler({
+      url,
+      forceRefresh: true,
+      format: 'text',
+    });
+    const cleaned = await fetchUrlToolHandler({ url, format: 'html' });
+    const blocks = await fetchUrlToolHandler({ url, format: 'blocks' });
+    const cachedHtml = await fetchUrlToolHandler({ url, format: 'html' });
+
+    assert.equal(text.structuredContent.markdown, undefined);
+    assert.equal(text.structuredContent.format, 'text');
+    assert.ok(
+      String(text.structuredContent.content).startsWith(
+        'Formats\n\nUse any format.\n\n- One\n- Two\n\n'
+      )
+    );
+
+    const cleanedHtml = String(cleaned.structuredContent.content);
+    assert.match(cleanedHtml, /<strong>any<\/strong>/);
+    assert.ok(!cleanedHtml.includes('track()'));
+    assert.equal(cachedHtml.structuredContent.fromCache, true);
+    assert.equal(cachedHtml.structuredContent.content, cleanedHtml);
+
+    assert.deepEqual(blocks.structuredContent.blocks?.slice(0, 3), [
+      { type: 'heading', level: 1, text: 'Formats' },
+      { type: 'paragraph', text: 'Use any format.' },
+      { type: 'list', ordered: false, items: ['One', 'Two'] },
+    ]);
+    // Each format is cached under its own key.
+    assert.equal(fetchMock.mock.callCount(), 3);
+  });
+
+  it('rejects heading and maxTokens with the html format', async () => {
+    const response = await fetchUrlToolHandler({
+      url: 'https://example.com/html-heading',
+      format: 'html',
+      heading: 'Intro',
+    });
+
+    assert.equal(response.isError, true);
+    const structured = response.structuredContent as {
+      statusCode?: number;
+      details?: Record<string, unknown>;
+    };
+    assert.equal(structured.statusCode, 400);
+    assert.equal(structured.details?.['reason'], 'unsupported_option');
+  });
+
   it('exposes truncated flag when cached transform indicates truncation', async () => {
     const url = 'https://example.com/html-truncation';
     const normalizedUrl = normalizeUrl(url).normalizedUrl;
@@ -0,0 +1,189 @@
+import assert from 'node:assert/strict';
+import { after, describe, it, type TestContext } from 'node:test';
+
+import { createMcpServer } from '../dist/server.js';
+import { fetchUrlsToolHandler } from '../dist/tools.js';
+import { shutdownTransformWorkerPool } from '../dist/transform.js';
+
+after(async () => {
+  await shutdownTransformWorkerPool();
+});
+
+type RequestHandler = (request: unknown, extra?: unknown) => Promise<unknown>;
+
+type HandlerMap = Map<string, RequestHandler>;
+
+type BatchResult = {
+  url: string;
+  markdown?: string;
+  error?: string;
+  statusCode?: number;
+};
+
+function getRequestHandler(
+  server: Awaited<ReturnType<typeof createMcpServer>>,
+  method: string
+): RequestHandler {
+  const handlers = (
+    server.server as unknown as { _requestHandlers: HandlerMap }
+  )._requestHandlers;
+  const handler = handlers.get(method);
+  assert.ok(handler, `${method} handler should be registered`);
+  return handler;
+}
+
+function mockBatchFetch(t: TestContext): void {
+  t.mock.method(globalThis, 'fetch', async (input: RequestInfo | URL) => {
+    const url = String(input);
+    if (url.includes('missing')) {
+      return new Response('not found', { status: 404 });
+    }
+    return new Response(`<html><body><p>Page ${url}</p></body></html>`, {
+      status: 200,
+      headers: { 'content-type': 'text/html' },
+    });
+  });
+}
+
+describe('fetchUrlsToolHandler', () => {
+  it('returns per-URL results in input order', async (t) => {
+    mockBatchFetch(t);
+
+    const urls = [
+      'https://example.com/batch-one',
+      'https://example.com/batch-missing',
+      'https://example.com/batch-two',
+    ];
+    const response = await fetchUrlsToolHandler({
+      urls,
+      forceRefresh: true,
+    });
+
+    assert.equal(response.isError, undefined);
+    const structured = response.structuredContent as {
+      results: BatchResult[];
+      succeeded: number;
+      failed: number;
+    };
+    assert.deepEqual(
+      structured.results.map((result) => result.url),
+      urls
+    );
+    assert.equal(structured.succeeded, 2);
+    assert.equal(structured.failed, 1);
+
+    const [first, missing, second] = structured.results;
+    assert.match(first?.markdown ?? '', /batch-one/);
+    assert.match(second?.markdown ?? '', /batch-two/);
+    assert.equal(missing?.statusCode, 404);
+    assert.equal(typeof missing?.error, 'string');
+  });
+
+  it('sends a progress notification per completed URL', async (t) => {
+    mockBatchFetch(t);
+
+    const notifications: { progress: number; total?: number }[] = [];
+    await fetchUrlsToolHandler(
+      {
+        urls: [
+          'https://example.com/batch-progress-a',
+          'https://example.com/batch-progress-b',
+        ],
+        forceRefresh: true,
+      },
+      {
+        _meta: { progressToken: 'batch-token' },
+        sendNotification: async (notification) => {
+          notifications.push(notification.params);
+        },
+      }
+    );
+
+    assert.deepEqual(
+      notifications.map(({ progress, total }) => ({ progress, total })),
+      [
+        { progress: 1, total: 2 },
+        { progress: 2, total: 2 },
+      ]
+    );
+  });
+
+  it('flags the response as an error when every URL fails', async (t) => {
+    mockBatchFetch(t);
+
+    const response = await fetchUrlsToolHandler({
+      urls: ['https://example.com/batch-missing-only'],
+      forceRefresh: true,
+    });
+
+    assert.equal(response.isError, true);
+  });
+});
+
+describe('fetch-urls task execution', () => {
+  it('supports task-augmented fetch-urls calls', async (t) => {
+    const server = await createMcpServer();
+    mockBatchFetch(t);
+
+    try {
+      const listTools = getRequestHandler(server, 'tools/list');
+      const callTool = getRequestHandler(server, 'tools/call');
+      const getTaskResult = getRequestHandler(server, 'tasks/result');
+
+      const toolsResult = (await listTools({ method: 'tools/list' })) as {
+        tools?: { name: string; execution?: { taskSupport?: string } }[];
+      };
+      const batchTool = toolsResult.tools?.find(
+        (tool) => tool.name === 'fetch-urls'
+      );
+      assert.ok(batchTool, 'fetch-urls tool should be registered');
+      assert.equal(batchTool.execution?.taskSupport, 'optional');
+
+      const createResult = (await callTool({
+        method: 'tools/call',
+        params: {
+          name: 'fetch-urls',
+          arguments: {
+            urls: [
+              'https://example.com/batch-task-a',
+              'https://example.com/batch-task-b',
+            ],
+          },
+          task: { ttl: 10_000 },
+        },
+      })) as { task?: { taskId?: string } };
+
+      const taskId = createResult.task?.taskId;
+      assert.ok(taskId, 'task id should be returned');
+
+      const result = (await getTaskResult({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tasks/result',
+        params: { taskId },
+      })) as { structuredContent?: { succeeded?: number } };
+
+      assert.equal(result.structuredContent?.succeeded, 2);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('rejects invalid fetch-urls arguments', async () => {
+    const server = await createMcpServer();
+
+    try {
+      const callTool = getRequestHandler(server, 'tools/call');
+      await assert.rejects(
+        () =>
+          callTool({
+            method: 'tools/call',
+            params: { name: 'fetch-urls', arguments: { urls: [] } },
+          }),
+        /Invalid arguments for fetch-urls/
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});
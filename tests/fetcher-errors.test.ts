@@ -232,3 +232,30 @@ test('fetchNormalizedUrl ignores no-data CNAME errors and continues', async (t)
   const result = await fetchNormalizedUrl('https://example.com');
   assert.equal(result, 'ok');
 });
+
+test('fetchNormalizedUrl re-checks addresses of a cached hostname', async (t) => {
+  let address = '93.184.216.34';
+  t.mock.method(dns.promises, 'resolveCname', async () => []);
+  t.mock.method(dns.promises, 'resolve4', async () => [
+    { address: '93.184.216.34', ttl: 300 },
+  ]);
+  t.mock.method(dns.promises, 'resolve6', async () => []);
+  t.mock.method(dns.promises, 'lookup', async () => [{ address, family: 4 }]);
+  t.mock.method(globalThis, 'fetch', async () => {
+    return new Response('ok', {
+      status: 200,
+      headers: { 'content-type': 'text/plain; charset=utf-8' },
+    });
+  });
+
+  assert.equal(await fetchNormalizedUrl('https://rebind.example.com/'), 'ok');
+  address = '127.0.0.1';
+  await assert.rejects(
+    () => fetchNormalizedUrl('https://rebind.example.com/again'),
+    (error: unknown) => {
+      assert.ok(error instanceof FetchError);
+      assert.ok(error.message.includes('Blocked IP'), error.message);
+      return true;
+    }
+  );
+});
@@ -164,6 +164,11 @@ describe('health endpoint', () => {
             activeWorkers: number;
             capacity: number;
           };
+          hostCache: {
+            dns: { entries: number; hits: number; misses: number };
+            redirects: { entries: number; hits: number };
+            backoff: { backedOffHosts: number; rejected: number };
+          };
         };
       };
     }>(stdout);
@@ -177,5 +182,8 @@ describe('health endpoint', () => {
     assert.equal(typeof result.body.stats.workerPool.queueDepth, 'number');
     assert.equal(typeof result.body.stats.workerPool.activeWorkers, 'number');
     assert.equal(typeof result.body.stats.workerPool.capacity, 'number');
+    assert.equal(result.body.stats.hostCache.dns.entries, 0);
+    assert.equal(typeof result.body.stats.hostCache.redirects.hits, 'number');
+    assert.equal(result.body.stats.hostCache.backoff.backedOffHosts, 0);
   });
 });
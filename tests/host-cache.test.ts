@@ -0,0 +1,171 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { FetchError } from '../dist/errors.js';
+import { fetchNormalizedUrl } from '../dist/fetch.js';
+import { HostCache } from '../dist/host-cache.js';
+
+const OPTIONS = {
+  maxEntries: 3,
+  dnsFallbackTtlMs: 60_000,
+  dnsMaxTtlMs: 300_000,
+  redirectTtlMs: 3_600_000,
+  failureThreshold: 2,
+  backoffBaseMs: 10_000,
+  backoffMaxMs: 60_000,
+};
+
+function createCache(): { cache: HostCache; advance: (ms: number) => void } {
+  let now = 1_000_000;
+  const cache = new HostCache(OPTIONS, () => now);
+  return {
+    cache,
+    advance: (ms) => {
+      now += ms;
+    },
+  };
+}
+
+describe('HostCache', () => {
+  it('remembers validated hostnames for their DNS TTL', () => {
+    const { cache, advance } = createCache();
+    assert.equal(cache.isHostnameValidated('a.example'), false);
+
+    cache.rememberValidatedHostname('a.example', 30_000);
+    cache.rememberValidatedHostname('b.example', 10 * 60_000);
+    cache.rememberValidatedHostname('c.example', 0);
+    cache.rememberValidatedHostname('d.example');
+
+    advance(29_000);
+    assert.equal(cache.isHostnameValidated('a.example'), true);
+    assert.equal(cache.isHostnameValidated('c.example'), false);
+    advance(2_000);
+    assert.equal(cache.isHostnameValidated('a.example'), false);
+    assert.equal(cache.isHostnameValidated('d.example'), true);
+
+    // Capped at dnsMaxTtlMs.
+    advance(300_000);
+    assert.equal(cache.isHostnameValidated('b.example'), false);
+
+    const { dns } = cache.stats();
+    assert.equal(dns.hits, 2);
+    assert.equal(dns.misses, 4);
+  });
+
+  it('evicts the oldest entries beyond maxEntries', () => {
+    const { cache } = createCache();
+    for (const host of ['a', 'b', 'c', 'd']) {
+      cache.rememberValidatedHostname(`${host}.example`);
+    }
+    assert.equal(cache.stats().dns.entries, 3);
+    assert.equal(cache.isHostnameValidated('a.example'), false);
+    assert.equal(cache.isHostnameValidated('d.example'), true);
+  });
+
+  it('backs off hosts after consecutive failures', () => {
+    const { cache, advance } = createCache();
+    cache.recordFailure('down.example');
+    assert.equal(cache.backoffRemainingMs('down.example'), 0);
+
+    cache.recordFailure('down.example');
+    assert.equal(cache.backoffRemainingMs('down.example'), 10_000);
+
+    cache.recordFailure('down.example');
+    assert.equal(cache.backoffRemainingMs('down.example'), 20_000);
+
+    // Retry-After wins when it is longer, within backoffMaxMs.
+    cache.recordFailure('down.example', 45_000);
+    assert.equal(cache.backoffRemainingMs('down.example'), 45_000);
+    cache.recordFailure('down.example', 600_000);
+    assert.equal(cache.backoffRemainingMs('down.example'), 60_000);
+
+    advance(60_000);
+    assert.equal(cache.backoffRemainingMs('down.example'), 0);
+    assert.deepEqual(cache.stats().backoff, {
+      failingHosts: 1,
+      backedOffHosts: 0,
+      rejected: 4,
+    });
+
+    cache.recordSuccess('down.example');
+    cache.recordFailure('down.example');
+    assert.equal(cache.backoffRemainingMs('down.example'), 0);
+  });
+
+  it('remembers permanent redirects until they expire', () => {
+    const { cache, advance } = createCache();
+    cache.rememberPermanentRedirect(
+      'https://old.example/',
+      'https://new.example/'
+    );
+    cache.rememberPermanentRedirect(
+      'https://same.example/',
+      'https://same.example/'
+    );
+
+    assert.equal(
+      cache.permanentRedirectFor('https://old.example/'),
+      'https://new.example/'
+    );
+    assert.equal(
+      cache.permanentRedirectFor('https://same.example/'),
+      undefined
+    );
+
+    advance(3_600_000);
+    assert.equal(cache.permanentRedirectFor('https://old.example/'), undefined);
+    assert.equal(cache.stats().redirects.hits, 1);
+  });
+});
+
+describe('fetcher host cache', () => {
+  it('skips a known permanent redirect hop', async (t) => {
+    const requested: string[] = [];
+    t.mock.method(globalThis, 'fetch', async (input: RequestInfo | URL) => {
+      const url = String(input);
+      requested.push(url);
+      if (url === 'https://moved.example.com/old') {
+        return new Response(null, {
+          status: 301,
+          headers: { location: 'https://moved.example.com/new' },
+        });
+      }
+      return new Response('<p>new home</p>', {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    await fetchNormalizedUrl('https://moved.example.com/old');
+    const body = await fetchNormalizedUrl('https://moved.example.com/old');
+
+    assert.equal(body, '<p>new home</p>');
+    assert.deepEqual(requested, [
+      'https://moved.example.com/old',
+      'https://moved.example.com/new',
+      'https://moved.example.com/new',
+    ]);
+  });
+
+  it('fast-fails a host that keeps failing', async (t) => {
+    let calls = 0;
+    t.mock.method(globalThis, 'fetch', async () => {
+      calls += 1;
+      return new Response('broken', { status: 500 });
+    });
+
+    const url = 'https://flaky.example.com/';
+    for (let i = 0; i < 5; i += 1) {
+      await assert.rejects(fetchNormalizedUrl(url), { statusCode: 500 });
+    }
+
+    await assert.rejects(fetchNormalizedUrl(url), (error: unknown) => {
+      assert.ok(error instanceof FetchError);
+      assert.equal(error.statusCode, 503);
+      assert.equal(error.details.reason, 'host_backoff');
+      assert.equal(error.details.retryAfter, 30);
+      return true;
+    });
+    assert.equal(calls, 5);
+  });
+});
@@ -0,0 +1,246 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import { HostHeaders } from '../dist/host-headers.js';
+import {
+  logWarn,
+  registerLogSecrets,
+  setMcpServer,
+} from '../dist/observability.js';
+
+const RESULT_MARKER = '__RESULT__';
+const CHILD_TIMEOUT_MS = 20000;
+
+function runIsolatedNode(
+  script: string,
+  env: Record<string, string | undefined>
+): { stdout: string; stderr: string; status: number | null } {
+  const result = spawnSync(
+    process.execPath,
+    ['--input-type=module', '-e', script],
+    {
+      cwd: fileURLToPath(new URL('..', import.meta.url)),
+      encoding: 'utf8',
+      timeout: CHILD_TIMEOUT_MS,
+      killSignal: 'SIGKILL',
+      env: {
+        ...process.env,
+        ...env,
+      },
+    }
+  );
+
+  return {
+    stdout: result.stdout ?? '',
+    stderr: result.stderr ?? '',
+    status: result.status,
+  };
+}
+
+function parseMarkedJson<T>(output: string): T {
+  const markerIndex = output.lastIndexOf(RESULT_MARKER);
+  assert.ok(markerIndex >= 0, `Missing result marker. stderr: ${output}`);
+  return JSON.parse(output.slice(markerIndex + RESULT_MARKER.length)) as T;
+}
+
+describe('HostHeaders', () => {
+  const hostHeaders = HostHeaders.parse(
+    {
+      'https://api.example.com': {
+        headers: { Authorization: 'Bearer api-token' },
+      },
+      '*.example.com': {
+        headers: { 'X-Team': 'docs' },
+        cookies: { session: 'abc123', theme: 'dark' },
+      },
+    },
+    'test.json'
+  );
+
+  it('returns the headers of the first matching pattern', () => {
+    assert.deepEqual(hostHeaders.headersFor('https://api.example.com/v1'), {
+      authorization: 'Bearer api-token',
+    });
+    assert.deepEqual(hostHeaders.headersFor('http://docs.example.com/'), {
+      'x-team': 'docs',
+      cookie: 'session=abc123; theme=dark',
+    });
+    assert.equal(hostHeaders.headersFor('https://example.org/'), undefined);
+  });
+
+  it('matches origin patterns on scheme and port', () => {
+    const originOnly = HostHeaders.parse(
+      { 'https://api.example.com': { headers: { 'X-Key': 'k' } } },
+      'test.json'
+    );
+    assert.deepEqual(originOnly.headersFor('https://api.example.com/v1'), {
+      'x-key': 'k',
+    });
+    assert.equal(originOnly.headersFor('http://api.example.com/v1'), undefined);
+    assert.equal(
+      originOnly.headersFor('https://api.example.com:8443/v1'),
+      undefined
+    );
+  });
+
+  it('lists configured values for log redaction', () => {
+    const secrets = hostHeaders.secretValues();
+    assert.ok(secrets.includes('Bearer api-token'));
+    assert.ok(secrets.includes('abc123'));
+  });
+
+  it('rejects invalid or protected headers', () => {
+    assert.throws(
+      () =>
+        HostHeaders.parse({ 'example.com': { headers: { Host: 'x' } } }, 'f'),
+      /header cannot be overridden[\s\S]*headers\.Host/
+    );
+    assert.throws(
+      () =>
+        HostHeaders.parse(
+          { 'example.com': { headers: { 'X-A': 'a\r\nX-B: b' } } },
+          'f'
+        ),
+      /single-line/
+    );
+    assert.throws(
+      () => HostHeaders.parse({ 'example.com': { token: 'x' } }, 'f'),
+      /Invalid host headers file f/
+    );
+  });
+});
+
+describe('host headers on outbound fetches', () => {
+  it('sends configured credentials and strips them after a cross-origin redirect', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'host-headers-'));
+    const file = join(dir, 'hosts.json');
+    writeFileSync(
+      file,
+      JSON.stringify({
+        'docs.example.com': {
+          headers: { Authorization: 'Bearer s3cret-token' },
+          cookies: { session: 'cookie-value' },
+        },
+      })
+    );
+
+    try {
+      const result = runIsolatedNode(
+        `
+        const hops = [];
+        globalThis.fetch = async (input, init) => {
+          const url = new URL(String(input));
+          const headers = new Headers(init?.headers);
+          hops.push({
+            url: url.href,
+            authorization: headers.get('authorization'),
+            cookie: headers.get('cookie'),
+          });
+          const redirects = {
+            '/start': 'https://docs.example.com/moved',
+            '/moved': 'https://other.example.net/landing',
+            '/landing': 'https://docs.example.com/back',
+          };
+          const location = redirects[url.pathname];
+          if (location) {
+            return new Response(null, { status: 302, headers: { location } });
+          }
+          return new Response('<p>done</p>', {
+            status: 200,
+            headers: { 'content-type': 'text/html' },
+          });
+        };
+
+        const { fetchNormalizedUrl } = await import('./dist/fetch.js');
+        const { logInfo } = await import('./dist/observability.js');
+        await fetchNormalizedUrl('https://docs.example.com/start');
+        logInfo('auth header Bearer s3cret-token', { cookie: 'cookie-value' });
+        console.error('${RESULT_MARKER}' + JSON.stringify({ hops }));
+        `,
+        { FETCH_HOST_HEADERS_FILE: file, LOG_LEVEL: 'info' }
+      );
+      assert.equal(result.status, 0, result.stderr);
+
+      const { hops } = parseMarkedJson<{
+        hops: {
+          url: string;
+          authorization: string | null;
+          cookie: string | null;
+        }[];
+      }>(result.stderr);
+
+      assert.deepEqual(hops, [
+        {
+          url: 'https://docs.example.com/start',
+          authorization: 'Bearer s3cret-token',
+          cookie: 'session=cookie-value',
+        },
+        {
+          url: 'https://docs.example.com/moved',
+          authorization: 'Bearer s3cret-token',
+          cookie: 'session=cookie-value',
+        },
+        {
+          url: 'https://other.example.net/landing',
+          authorization: null,
+          cookie: null,
+        },
+        // Once the chain has left the origin, returning to it stays credential-free.
+        {
+          url: 'https://docs.example.com/back',
+          authorization: null,
+          cookie: null,
+        },
+      ]);
+
+      const logs = result.stderr.slice(
+        0,
+        result.stderr.lastIndexOf(RESULT_MARKER)
+      );
+      assert.match(logs, /auth header \[REDACTED\]/);
+      assert.doesNotMatch(logs, /s3cret-token|cookie-value/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('MCP log redaction', () => {
+  it('redacts nested strings without serializing the metadata', () => {
+    const sent: unknown[] = [];
+    setMcpServer({
+      server: {
+        sendLoggingMessage: async (params: { data: unknown }) => {
+          sent.push(params.data);
+        },
+      },
+    } as unknown as McpServer);
+    registerLogSecrets(['Bearer log-secret']);
+
+    const circular: Record<string, unknown> = { note: 'Bearer log-secret' };
+    circular['self'] = circular;
+    logWarn('request failed', {
+      error: new Error('denied for Bearer log-secret'),
+      size: 10n,
+      headers: ['Bearer log-secret'],
+      circular,
+    });
+
+    assert.deepEqual(sent, [
+      {
+        message: 'request failed',
+        error: { name: 'Error', message: 'denied for [REDACTED]' },
+        size: 10n,
+        headers: ['[REDACTED]'],
+        circular: { note: '[REDACTED]', self: '[Circular]' },
+      },
+    ]);
+  });
+});
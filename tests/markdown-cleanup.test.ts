@@ -1,7 +1,13 @@
 import assert from 'node:assert/strict';
 import { describe, it } from 'node:test';
 
-import { cleanupMarkdownArtifacts } from '../dist/markdown-cleanup.js';
+import {
+  buildMarkdownOutline,
+  buildMetadataFooter,
+  cleanupMarkdownArtifacts,
+  extractMarkdownSection,
+  stripMetadataFooter,
+} from '../dist/markdown-cleanup.js';
 
 describe('markdown cleanup', () => {
   it('preserves bold code key-value pairs not TypeDoc artifacts', () => {
@@ -55,3 +61,120 @@ describe('markdown cleanup', () => {
     assert.equal(cleaned.includes('[Intro](#intro)'), false);
   });
 });
+
+describe('extractMarkdownSection', () => {
+  const doc = [
+    '# Guide',
+    'Intro.',
+    '',
+    '## Install',
+    'Run the installer.',
+    '',
+    '### Linux',
+    'Use the package.',
+    '',
+    '```sh',
+    '# not a heading',
+    '```',
+    '',
+    '## Install Notes',
+    'Notes.',
+    '',
+    '## Usage ##',
+    'Call it.',
+  ].join('\n');
+
+  it('returns the section up to the next heading of the same level', () => {
+    const section = extractMarkdownSection(doc, 'install');
+
+    assert.equal(
+      section,
+      [
+        '## Install',
+        'Run the installer.',
+        '',
+        '### Linux',
+        'Use the package.',
+        '',
+        '```sh',
+        '# not a heading',
+        '```',
+      ].join('\n')
+    );
+  });
+
+  it('falls back to substring matches and strips closing hashes', () => {
+    assert.equal(
+      extractMarkdownSection(doc, 'notes'),
+      '## Install Notes\nNotes.'
+    );
+    assert.equal(extractMarkdownSection(doc, 'Usage'), '## Usage ##\nCall it.');
+  });
+
+  it('ignores headings inside code fences', () => {
+    assert.equal(extractMarkdownSection(doc, 'not a heading'), null);
+  });
+});
+
+describe('buildMarkdownOutline', () => {
+  it('lists headings with anchors and offsets, skipping code fences', () => {
+    const doc = [
+      '# ![example.com](https://example.com/favicon.ico) The *Guide*',
+      '',
+      '## Install [npm](https://npmjs.com)',
+      '```sh',
+      '# comment',
+      '```',
+      '## Install npm',
+      '### API: `fetch()` & more',
+    ].join('\n');
+
+    assert.deepEqual(buildMarkdownOutline(doc), [
+      { level: 1, text: 'The Guide', anchor: 'the-guide', offset: 0 },
+      {
+        level: 2,
+        text: 'Install npm',
+        anchor: 'install-npm',
+        offset: doc.indexOf('## Install ['),
+      },
+      {
+        level: 2,
+        text: 'Install npm',
+        anchor: 'install-npm-1',
+        offset: doc.indexOf('## Install npm'),
+      },
+      {
+        level: 3,
+        text: 'API: fetch() & more',
+        anchor: 'api-fetch--more',
+        offset: doc.indexOf('### API'),
+      },
+    ]);
+  });
+});
+
+describe('stripMetadataFooter', () => {
+  it('removes a footer built by buildMetadataFooter', () => {
+    const footer = buildMetadataFooter(
+      {
+        type: 'metadata',
+        title: 'Page',
+        url: 'https://example.com',
+        fetchedAt: '2026-01-02T00:00:00.000Z',
+        description: 'About the page',
+      },
+      'https://example.com'
+    );
+
+    assert.equal(
+      stripMetadataFooter(`# Page\n\nBody.\n\n${footer}`),
+      '# Page\n\nBody.'
+    );
+    assert.equal(stripMetadataFooter(footer), '');
+  });
+
+  it('keeps a closing thematic break that is not a footer', () => {
+    const doc = '# Page\n\nBody.\n\n---\n\nLast paragraph.';
+    assert.equal(stripMetadataFooter(doc), doc);
+  });
+});
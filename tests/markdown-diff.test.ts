@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { diffMarkdown } from '../dist/markdown-diff.js';
+
+const BEFORE = [
+  '# Changelog',
+  '',
+  '## 1.1.0',
+  '',
+  '- Added retries.',
+  '',
+  '## 1.0.0',
+  '',
+  '- First release.',
+].join('\n');
+
+const AFTER = [
+  '# Changelog',
+  '',
+  '## 1.2.0',
+  '',
+  '- Added caching.',
+  '',
+  '## 1.1.0',
+  '',
+  '- Added retries with backoff.',
+  '',
+  '## 1.0.0',
+  '',
+  '- First release.',
+].join('\n');
+
+describe('diffMarkdown', () => {
+  it('returns a unified diff with merged hunks and a heading summary', () => {
+    const result = diffMarkdown(BEFORE, AFTER, {
+      mode: 'unified',
+      context: 1,
+    });
+
+    assert.equal(result.changed, true);
+    assert.equal(result.addedLines, 5);
+    assert.equal(result.removedLines, 1);
+    assert.deepEqual(result.addedHeadings, ['1.2.0']);
+    assert.deepEqual(result.removedHeadings, []);
+    assert.equal(
+      result.unified,
+      [
+        '--- previous',
+        '+++ current',
+        '@@ -2,5 +2,9 @@',
+        ' ',
+        '+## 1.2.0',
+        '+',
+        '+- Added caching.',
+        '+',
+        ' ## 1.1.0',
+        ' ',
+        '-- Added retries.',
+        '+- Added retries with backoff.',
+        ' ',
+      ].join('\n')
+    );
+  });
+
+  it('reports added, changed and removed sections', () => {
+    const after = AFTER.replace('## 1.0.0\n\n- First release.', '').trimEnd();
+    const result = diffMarkdown(BEFORE, after, {
+      mode: 'sections',
+      context: 0,
+    });
+
+    assert.equal(result.unified, undefined);
+    assert.deepEqual(result.removedHeadings, ['1.0.0']);
+    assert.deepEqual(result.sections, [
+      {
+        heading: '## 1.2.0',
+        status: 'added',
+        diff: '@@ -0,0 +1 @@\n+- Added caching.',
+      },
+      {
+        heading: '## 1.1.0',
+        status: 'changed',
+        diff: '@@ -1 +1 @@\n-- Added retries.\n+- Added retries with backoff.',
+      },
+      {
+        heading: '## 1.0.0',
+        status: 'removed',
+        diff: '@@ -1 +0,0 @@\n-- First release.',
+      },
+    ]);
+  });
+
+  it('reports identical documents as unchanged', () => {
+    const result = diffMarkdown(BEFORE, BEFORE, {
+      mode: 'unified',
+      context: 3,
+    });
+
+    assert.equal(result.changed, false);
+    assert.equal(result.unified, undefined);
+    assert.equal(result.addedLines + result.removedLines, 0);
+  });
+
+  it('does not count a moved heading as added or removed', () => {
+    const result = diffMarkdown('## A\n\n## B', '## B\n\n## A', {
+      mode: 'unified',
+      context: 0,
+    });
+
+    assert.equal(result.changed, true);
+    assert.deepEqual(result.addedHeadings, []);
+    assert.deepEqual(result.removedHeadings, []);
+  });
+});
@@ -92,4 +92,52 @@ describe('resource subscriptions', () => {
       sentUris = [];
     }
   });
+
+  it('skips resources/updated when the Markdown is unchanged', async () => {
+    const server = await createMcpServer();
+    const mutableServer = server as unknown as MutableServerMethods;
+    const mutableProtocol = server.server as unknown as MutableProtocolMethods;
+    const originalIsConnected = mutableServer.isConnected;
+    const originalSendResourceListChanged =
+      mutableServer.sendResourceListChanged;
+    const originalSendResourceUpdated = mutableProtocol.sendResourceUpdated;
+
+    const sentUris: string[] = [];
+    mutableServer.isConnected = () => true;
+    mutableServer.sendResourceListChanged = () => {};
+    mutableProtocol.sendResourceUpdated = async ({ uri }) => {
+      sentUris.push(uri);
+    };
+
+    const subscribe = getSubscriptionHandler(server, 'resources/subscribe');
+    const url = `https://example.com/unchanged-${randomUUID()}`;
+    const cacheKey = cache.createCacheKey('markdown', url);
+    assert.ok(cacheKey);
+    const parsed = cache.parseCacheKey(cacheKey);
+    assert.ok(parsed);
+    const cacheUri = `internal://cache/${parsed.namespace}/${parsed.urlHash}`;
+    const withFooter = (body: string, day: number): string =>
+      JSON.stringify({
+        markdown: `${body}\n\n---\n\n _Page_ | _2026-01-0${day}_`,
+      });
+
+    try {
+      await subscribe({
+        method: 'resources/subscribe',
+        params: { uri: cacheUri },
+      });
+
+      cache.set(cacheKey, withFooter('# one', 1), { url });
+      cache.set(cacheKey, withFooter('# one', 2), { url });
+      assert.deepEqual(sentUris, [cacheUri]);
+
+      cache.set(cacheKey, withFooter('# two', 3), { url });
+      assert.deepEqual(sentUris, [cacheUri, cacheUri]);
+    } finally {
+      mutableServer.isConnected = originalIsConnected;
+      mutableServer.sendResourceListChanged = originalSendResourceListChanged;
+      mutableProtocol.sendResourceUpdated = originalSendResourceUpdated;
+      await server.close();
+    }
+  });
 });
@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { fetchNormalizedUrl } from '../dist/fetch.js';
+import { OriginScheduler, type ReleaseSlot } from '../dist/origin-scheduler.js';
+
+const ORIGIN = 'https://example.com';
+
+function settled(promise: Promise<unknown>): () => boolean {
+  let done = false;
+  promise.then(
+    () => {
+      done = true;
+    },
+    () => {
+      done = true;
+    }
+  );
+  return () => done;
+}
+
+async function flush(): Promise<void> {
+  await new Promise<void>((resolve) => setImmediate(resolve));
+}
+
+describe('OriginScheduler', () => {
+  it('caps concurrent requests per origin and serves waiters in order', async () => {
+    const scheduler = new OriginScheduler({
+      maxConcurrent: 2,
+      maxRequests: 100,
+      intervalMs: 1000,
+    });
+    const first = await scheduler.acquire(ORIGIN);
+    await scheduler.acquire(ORIGIN);
+
+    const order: string[] = [];
+    const third = scheduler.acquire(ORIGIN).then((release) => {
+      order.push('third');
+      return release;
+    });
+    const fourth = scheduler.acquire(ORIGIN).then((release) => {
+      order.push('fourth');
+      return release;
+    });
+    // Other origins are not affected.
+    await scheduler.acquire('https://other.example.com');
+
+    await flush();
+    assert.deepEqual(order, []);
+
+    first();
+    first();
+    await flush();
+    assert.deepEqual(order, ['third']);
+
+    (await third)();
+    await fourth;
+    assert.deepEqual(order, ['third', 'fourth']);
+  });
+
+  it('limits request starts within the rate interval', async () => {
+    let now = 0;
+    const scheduler = new OriginScheduler(
+      { maxConcurrent: 10, maxRequests: 2, intervalMs: 50 },
+      undefined,
+      () => now
+    );
+    (await scheduler.acquire(ORIGIN))();
+    (await scheduler.acquire(ORIGIN))();
+
+    const isDone = settled(scheduler.acquire(ORIGIN));
+    await flush();
+    assert.equal(isDone(), false);
+
+    now = 50;
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    assert.equal(isDone(), true);
+  });
+
+  it('spaces request starts by the crawl-delay of the origin', async () => {
+    let now = 0;
+    const scheduler = new OriginScheduler(
+      { maxConcurrent: 10, maxRequests: 100, intervalMs: 1000 },
+      (origin) => (origin === ORIGIN ? 30 : undefined),
+      () => now
+    );
+    (await scheduler.acquire(ORIGIN))();
+    (await scheduler.acquire('https://other.example.com'))();
+    (await scheduler.acquire('https://other.example.com'))();
+
+    const isDone = settled(scheduler.acquire(ORIGIN));
+    await flush();
+    assert.equal(isDone(), false);
+
+    now = 30;
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    assert.equal(isDone(), true);
+  });
+
+  it('rejects a queued request when its signal aborts', async () => {
+    const scheduler = new OriginScheduler({
+      maxConcurrent: 1,
+      maxRequests: 100,
+      intervalMs: 1000,
+    });
+    const release = await scheduler.acquire(ORIGIN);
+    const controller = new AbortController();
+    const queued = scheduler.acquire(ORIGIN, controller.signal);
+    const next = scheduler.acquire(ORIGIN);
+
+    controller.abort();
+    await assert.rejects(queued, { name: 'AbortError' });
+
+    release();
+    const nextRelease: ReleaseSlot = await next;
+    nextRelease();
+
+    await assert.rejects(scheduler.acquire(ORIGIN, controller.signal), {
+      name: 'AbortError',
+    });
+  });
+});
+
+describe('fetcher origin scheduling', () => {
+  it('cancels a fetch that is still queued for its origin', async (t) => {
+    let inFlight = 0;
+    let peak = 0;
+    const pending: (() => void)[] = [];
+    t.mock.method(globalThis, 'fetch', async () => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await new Promise<void>((resolve) => pending.push(resolve));
+      inFlight -= 1;
+      return new Response('<p>ok</p>', {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    const url = 'https://queued.example.com/';
+    const running = Array.from({ length: 4 }, (_, index) =>
+      fetchNormalizedUrl(`${url}?page=${index}`)
+    );
+    const controller = new AbortController();
+    const queued = fetchNormalizedUrl(`${url}?page=queued`, {
+      signal: controller.signal,
+    });
+
+    while (pending.length < 4) await flush();
+    controller.abort();
+    await assert.rejects(queued, { statusCode: 499 });
+
+    for (const resolve of pending.splice(0)) resolve();
+    await Promise.all(running);
+    assert.equal(peak, 4);
+  });
+});
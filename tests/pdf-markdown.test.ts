@@ -0,0 +1,193 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { FetchError } from '../dist/errors.js';
+import { fetchNormalizedUrlBuffer } from '../dist/fetch.js';
+import { pdfTextToMarkdown } from '../dist/pdf-markdown.js';
+import { transformBufferToMarkdown } from '../dist/transform.js';
+
+interface PdfTextRun {
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+}
+
+function escapePdfString(value: string): string {
+  return value.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+// Builds a minimal single-font PDF with one page per entry in `pages`.
+function buildPdf(pages: PdfTextRun[][], title?: string): Uint8Array {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+  const infoId = 4 + pages.length * 2;
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+
+  pages.forEach((runs, index) => {
+    const pageId = pageIds[index] ?? 0;
+    const stream = runs
+      .map(
+        (run) =>
+          `BT /F1 ${run.size} Tf ${run.x} ${run.y} Td (${escapePdfString(run.text)}) Tj ET`
+      )
+      .join('\n');
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] =
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+  if (title) objects[infoId] = `<< /Title (${escapePdfString(title)}) >>`;
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    const object = objects[id];
+    if (object === undefined) continue;
+    offsets[id] = body.length;
+    body += `${id} 0 obj\n${object}\nendobj\n`;
+  }
+
+  const xrefOffset = body.length;
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    const offset = offsets[id];
+    body +=
+      offset === undefined
+        ? '0000000000 65535 f \n'
+        : `${String(offset).padStart(10, '0')} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R${title ? ` /Info ${infoId} 0 R` : ''} >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(body);
+}
+
+const SPEC_PAGES: PdfTextRun[][] = [
+  [
+    { text: 'Widget Specification', x: 72, y: 720, size: 24 },
+    { text: 'Scope', x: 72, y: 680, size: 16 },
+    { text: 'This document describes the', x: 72, y: 655, size: 11 },
+    { text: 'widget wire format.', x: 72, y: 641, size: 11 },
+    { text: 'Field', x: 72, y: 600, size: 11 },
+    { text: 'Type', x: 250, y: 600, size: 11 },
+    { text: 'id', x: 72, y: 585, size: 11 },
+    { text: 'uint32', x: 250, y: 585, size: 11 },
+  ],
+  [{ text: 'Appendix text lives here.', x: 72, y: 720, size: 11 }],
+];
+
+describe('pdfTextToMarkdown', () => {
+  it('renders headings, paragraphs, tables and page markers', () => {
+    const item = (str: string, x: number, y: number, fontSize: number) => ({
+      str,
+      x,
+      y,
+      width: str.length * fontSize * 0.5,
+      fontSize,
+      hasEOL: false,
+    });
+
+    const { markdown, firstHeading } = pdfTextToMarkdown([
+      [
+        item('Title', 72, 720, 24),
+        item('Intro line one', 72, 690, 11),
+        item('continues here.', 72, 676, 11),
+        item('• first point', 72, 650, 11),
+        item('A', 72, 620, 11),
+        item('B', 200, 620, 11),
+        item('1', 72, 606, 11),
+        item('2', 200, 606, 11),
+      ],
+      [item('Next page.', 72, 720, 11)],
+    ]);
+
+    assert.equal(firstHeading, 'Title');
+    assert.equal(
+      markdown,
+      [
+        '<!-- Page 1 -->',
+        '# Title',
+        'Intro line one continues here.',
+        '- first point',
+        '| A | B |\n| --- | --- |\n| 1 | 2 |',
+        '<!-- Page 2 -->',
+        'Next page.',
+      ].join('\n\n')
+    );
+  });
+});
+
+describe('transformBufferToMarkdown with PDFs', () => {
+  it('converts PDF text to Markdown with page markers', async () => {
+    const result = await transformBufferToMarkdown(
+      buildPdf(SPEC_PAGES, 'Widget Spec'),
+      'https://example.com/spec.pdf',
+      { includeMetadata: false, mediaType: 'application/pdf' }
+    );
+
+    assert.equal(result.title, 'Widget Spec');
+    assert.equal(result.metadata?.title, 'Widget Spec');
+    assert.match(result.markdown, /^<!-- Page 1 -->\n\n# Widget Specification/);
+    assert.match(result.markdown, /\n## Scope\n/);
+    assert.match(
+      result.markdown,
+      /This document describes the widget wire format\./
+    );
+    assert.match(result.markdown, /\| Field \| Type \|\n\| --- \| --- \|/);
+    assert.match(
+      result.markdown,
+      /<!-- Page 2 -->\n\nAppendix text lives here\./
+    );
+  });
+
+  it('rejects PDFs cut off at the content length limit', async () => {
+    await assert.rejects(
+      transformBufferToMarkdown(
+        buildPdf(SPEC_PAGES),
+        'https://example.com/spec.pdf',
+        {
+          includeMetadata: false,
+          mediaType: 'application/pdf',
+          inputTruncated: true,
+        }
+      ),
+      (error: unknown) =>
+        error instanceof FetchError &&
+        error.statusCode === 413 &&
+        error.details['reason'] === 'pdf_too_large'
+    );
+  });
+
+  it('rejects malformed PDFs', async () => {
+    await assert.rejects(
+      transformBufferToMarkdown(
+        new TextEncoder().encode('%PDF-1.4\nnot really a pdf'),
+        'https://example.com/broken.pdf',
+        { includeMetadata: false, mediaType: 'application/pdf' }
+      ),
+      (error: unknown) =>
+        error instanceof FetchError && error.statusCode === 422
+    );
+  });
+});
+
+describe('fetchNormalizedUrlBuffer with PDFs', () => {
+  it('accepts application/pdf and reports the media type', async (t) => {
+    const pdf = buildPdf(SPEC_PAGES);
+    t.mock.method(globalThis, 'fetch', async () => {
+      return new Response(pdf, {
+        status: 200,
+        headers: { 'content-type': 'application/pdf' },
+      });
+    });
+
+    const fetched = await fetchNormalizedUrlBuffer(
+      'https://example.com/spec.pdf'
+    );
+    assert.equal(fetched.mediaType, 'application/pdf');
+    assert.deepEqual(new Uint8Array(fetched.buffer), pdf);
+  });
+});
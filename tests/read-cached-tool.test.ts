@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import * as cache from '../dist/cache.js';
+import { createMcpServer } from '../dist/server.js';
+import { readCachedToolHandler } from '../dist/tools.js';
+
+type PageContent = {
+  markdown?: string;
+  offset?: number;
+  contentSize?: number;
+  nextCursor?: string;
+  title?: string;
+  error?: string;
+  statusCode?: number;
+  details?: Record<string, unknown>;
+};
+
+function storeMarkdown(url: string, markdown: string): string {
+  const cacheKey = cache.createCacheKey('markdown', url);
+  assert.ok(cacheKey);
+  cache.set(cacheKey, JSON.stringify({ markdown, title: 'Cached Doc' }), {
+    url,
+  });
+  const parts = cache.parseCacheKey(cacheKey);
+  assert.ok(parts);
+  return `internal://cache/${parts.namespace}/${parts.urlHash}`;
+}
+
+async function readAll(uri: string, maxChars: number): Promise<PageContent[]> {
+  const pages: PageContent[] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await readCachedToolHandler({
+      uri,
+      maxChars,
+      ...(cursor ? { cursor } : {}),
+    });
+    assert.equal(result.isError, undefined);
+    const page = result.structuredContent as PageContent;
+    pages.push(page);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+describe('read-cached tool', () => {
+  it('pages through cached markdown on paragraph boundaries', async () => {
+    const paragraphs = Array.from({ length: 40 }, (_, index) =>
+      `Paragraph ${index} ${'text '.repeat(40)}`.trim()
+    );
+    const markdown = paragraphs.join('\n\n');
+    const uri = storeMarkdown(
+      'https://example.com/read-cached-paging',
+      markdown
+    );
+
+    const pages = await readAll(uri, 2_000);
+
+    assert.ok(pages.length > 1);
+    assert.equal(pages[0]?.title, 'Cached Doc');
+    assert.equal(pages[0]?.contentSize, markdown.length);
+    assert.equal(pages.map((page) => page.markdown).join(''), markdown);
+    for (const page of pages.slice(0, -1)) {
+      assert.ok(page.markdown?.endsWith('\n\n'));
+      assert.ok((page.markdown?.length ?? 0) <= 2_000);
+    }
+  });
+
+  it('closes and reopens code fences that span pages', async () => {
+    const code = Array.from({ length: 200 }, (_, i) => `line ${i};`).join('\n');
+    const markdown = `Intro.\n\n\`\`\`js\n${code}\n\`\`\`\n\nOutro.`;
+    const uri = storeMarkdown(
+      'https://example.com/read-cached-fence',
+      markdown
+    );
+
+    const pages = await readAll(uri, 1_000);
+
+    assert.ok(pages.length > 2);
+    assert.equal(pages[0]?.markdown, 'Intro.\n\n');
+    assert.match(pages[1]?.markdown ?? '', /^```js\nline 0;\n/);
+    assert.match(pages[1]?.markdown ?? '', /\n```\n$/);
+    for (const page of pages.slice(2, -1)) {
+      assert.match(page.markdown ?? '', /^```\n/);
+      assert.match(page.markdown ?? '', /\n```\n$/);
+    }
+    assert.ok(pages.at(-1)?.markdown?.endsWith('```\n\nOutro.'));
+  });
+
+  it('is callable through an MCP client', async () => {
+    const uri = storeMarkdown(
+      'https://example.com/read-cached-client',
+      'Read through the client.'
+    );
+    const server = await createMcpServer();
+    const client = new Client({ name: 'read-cached-test', version: '1.0.0' });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+
+    try {
+      await Promise.all([
+        server.connect(serverTransport),
+        client.connect(clientTransport),
+      ]);
+      const result = await client.callTool({
+        name: 'read-cached',
+        arguments: { uri },
+      });
+
+      assert.equal(result.isError, undefined);
+      assert.equal(
+        (result.structuredContent as PageContent).markdown,
+        'Read through the client.'
+      );
+    } finally {
+      await client.close();
+      await server.close();
+    }
+  });
+
+  it('reports missing entries and bad cursors', async () => {
+    const missing = await readCachedToolHandler({
+      uri: 'internal://cache/markdown/0123456789abcdef',
+    });
+    assert.equal(missing.isError, true);
+    assert.equal(
+      (missing.structuredContent as PageContent).details?.['reason'],
+      'cache_entry_not_found'
+    );
+
+    const uri = storeMarkdown('https://example.com/read-cached-short', 'Hi.');
+    const pastEnd = await readCachedToolHandler({ uri, cursor: '99' });
+    assert.equal(pastEnd.isError, true);
+    assert.equal((pastEnd.structuredContent as PageContent).statusCode, 400);
+
+    const invalid = await readCachedToolHandler({ uri: 'https://example.com' });
+    assert.equal(
+      (invalid.structuredContent as PageContent).details?.['reason'],
+      'invalid_cache_uri'
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, describe, it } from 'node:test';
+
+import { parseHTML } from 'linkedom';
+
+import {
+  createEndpointRenderer,
+  renderPage,
+  setPageRenderer,
+} from '../dist/renderer.js';
+import { fetchUrlToolHandler } from '../dist/tools.js';
+import { isSpaShell, shutdownTransformWorkerPool } from '../dist/transform.js';
+
+after(async () => {
+  setPageRenderer(null);
+  await shutdownTransformWorkerPool();
+});
+
+const SHELL_HTML =
+  '<html><head><title>App</title></head><body><div id="root"></div><noscript>You need to enable JavaScript to run this app.</noscript><script src="/main.js"></script></body></html>';
+
+const RENDERED_HTML =
+  '<html><head><title>App</title></head><body><main><h1>Dashboard</h1><p>Rendered content that only exists after the scripts ran.</p></main></body></html>';
+
+function documentOf(html: string): Document {
+  return parseHTML(html).document as unknown as Document;
+}
+
+async function startStub(
+  handler: (body: string) => { status: number; body: string }
+): Promise<{ url: URL; requests: string[]; close: () => Promise<void> }> {
+  const requests: string[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    req.on('end', () => {
+      requests.push(body);
+      const reply = handler(body);
+      res.writeHead(reply.status, { 'content-type': 'text/html' });
+      res.end(reply.body);
+    });
+  });
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: new URL(`http://127.0.0.1:${port}/render`),
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => {
+          resolve();
+        });
+      }),
+  };
+}
+
+describe('isSpaShell', () => {
+  it('detects an app mount point without visible text', () => {
+    assert.equal(isSpaShell(documentOf(SHELL_HTML)), true);
+  });
+
+  it('ignores server-rendered pages and pages without scripts', () => {
+    assert.equal(isSpaShell(documentOf(RENDERED_HTML)), false);
+    assert.equal(
+      isSpaShell(documentOf('<html><body><div id="root"></div></body></html>')),
+      false
+    );
+  });
+});
+
+describe('renderPage', () => {
+  it('posts the page URL to the renderer endpoint and returns its HTML', async () => {
+    const stub = await startStub(() => ({ status: 200, body: RENDERED_HTML }));
+    setPageRenderer(createEndpointRenderer(stub.url));
+    try {
+      const html = await renderPage('https://example.com/app');
+      assert.equal(html, RENDERED_HTML);
+      assert.deepEqual(
+        stub.requests.map((body) => JSON.parse(body) as unknown),
+        [{ url: 'https://example.com/app' }]
+      );
+    } finally {
+      setPageRenderer(null);
+      await stub.close();
+    }
+  });
+
+  it('applies the fetcher URL checks before calling the renderer', async () => {
+    let calls = 0;
+    setPageRenderer({
+      render: async () => {
+        calls += 1;
+        return RENDERED_HTML;
+      },
+    });
+    try {
+      await assert.rejects(renderPage('http://localhost:8080/app'));
+      await assert.rejects(renderPage('http://169.254.169.254/latest'));
+      assert.equal(calls, 0);
+    } finally {
+      setPageRenderer(null);
+    }
+  });
+
+  it('fails with render_failed when the endpoint returns an error', async () => {
+    const stub = await startStub(() => ({ status: 500, body: 'boom' }));
+    setPageRenderer(createEndpointRenderer(stub.url));
+    try {
+      await assert.rejects(renderPage('https://example.com/app'), {
+        name: 'FetchError',
+        details: {
+          url: 'https://example.com/app',
+          httpStatus: 502,
+          reason: 'render_failed',
+          rendererStatus: 500,
+        },
+      });
+    } finally {
+      setPageRenderer(null);
+      await stub.close();
+    }
+  });
+
+  it('resolves to null when no renderer is configured', async () => {
+    setPageRenderer(null);
+    assert.equal(await renderPage('https://example.com/app'), null);
+  });
+});
+
+describe('fetch-url with a renderer', () => {
+  it('converts the rendered HTML of a single-page app shell', async (t) => {
+    t.mock.method(globalThis, 'fetch', async () => {
+      return new Response(SHELL_HTML, {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+    const rendered: string[] = [];
+    setPageRenderer({
+      render: async ({ url }) => {
+        rendered.push(url);
+        return RENDERED_HTML;
+      },
+    });
+
+    try {
+      const response = await fetchUrlToolHandler({
+        url: 'https://example.com/spa-dashboard',
+        forceRefresh: true,
+      });
+      const content = response.structuredContent as { markdown?: string };
+      assert.deepEqual(rendered, ['https://example.com/spa-dashboard']);
+      assert.match(content.markdown ?? '', /Rendered content that only exists/);
+    } finally {
+      setPageRenderer(null);
+    }
+  });
+
+  it('keeps the shell output when rendering fails', async (t) => {
+    t.mock.method(globalThis, 'fetch', async () => {
+      return new Response(SHELL_HTML, {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+    setPageRenderer({
+      render: async () => {
+        throw new Error('renderer offline');
+      },
+    });
+
+    try {
+      const response = await fetchUrlToolHandler({
+        url: 'https://example.com/spa-offline',
+        forceRefresh: true,
+      });
+      assert.equal(response.isError, undefined);
+    } finally {
+      setPageRenderer(null);
+    }
+  });
+});
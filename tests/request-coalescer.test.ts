@@ -0,0 +1,229 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import * as cache from '../dist/cache.js';
+import { createCacheKey } from '../dist/cache.js';
+import { normalizeUrl } from '../dist/fetch.js';
+import { RequestCoalescer } from '../dist/request-coalescer.js';
+import { executeFetchPipeline } from '../dist/tools.js';
+
+function deferred<T>(): {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+} {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe('RequestCoalescer', () => {
+  it('shares one run between concurrent callers with the same key', async () => {
+    const coalescer = new RequestCoalescer();
+    const gate = deferred<string>();
+    let runs = 0;
+    const task = async () => {
+      runs += 1;
+      return gate.promise;
+    };
+
+    const first = coalescer.run('a', task);
+    const second = coalescer.run('a', task);
+    const other = coalescer.run('b', async () => 'other');
+    assert.equal(coalescer.size, 2);
+
+    gate.resolve('shared');
+    assert.deepEqual(await Promise.all([first, second, other]), [
+      'shared',
+      'shared',
+      'other',
+    ]);
+    assert.equal(runs, 1);
+    assert.equal(coalescer.size, 0);
+
+    // Once settled, the next caller starts a new run.
+    await coalescer.run('a', async () => {
+      runs += 1;
+      return 'fresh';
+    });
+    assert.equal(runs, 2);
+  });
+
+  it('aborts the task only after every caller has aborted', async () => {
+    const coalescer = new RequestCoalescer();
+    let taskSignal: AbortSignal | undefined;
+    const task = (signal: AbortSignal) => {
+      taskSignal = signal;
+      return new Promise<string>((_, reject) => {
+        signal.addEventListener('abort', () => {
+          reject(new Error('task aborted'));
+        });
+      });
+    };
+
+    const firstController = new AbortController();
+    const secondController = new AbortController();
+    const first = coalescer.run('a', task, firstController.signal);
+    const second = coalescer.run('a', task, secondController.signal);
+
+    firstController.abort();
+    await assert.rejects(first, { name: 'AbortError' });
+    assert.equal(taskSignal?.aborted, false);
+
+    secondController.abort();
+    await assert.rejects(second, { name: 'AbortError' });
+    assert.equal(taskSignal?.aborted, true);
+    assert.equal(coalescer.size, 0);
+  });
+
+  it('keeps the task running while a caller without a signal waits', async () => {
+    const coalescer = new RequestCoalescer();
+    const gate = deferred<string>();
+    let taskSignal: AbortSignal | undefined;
+    const task = async (signal: AbortSignal) => {
+      taskSignal = signal;
+      return gate.promise;
+    };
+
+    const controller = new AbortController();
+    const aborted = coalescer.run('a', task, controller.signal);
+    const waiting = coalescer.run('a', task);
+    controller.abort();
+    await assert.rejects(aborted, { name: 'AbortError' });
+
+    gate.resolve('done');
+    assert.equal(await waiting, 'done');
+    assert.equal(taskSignal?.aborted, false);
+  });
+});
+
+describe('executeFetchPipeline coalescing', () => {
+  it('fetches and transforms a URL once for concurrent callers', async (t) => {
+    const gate = deferred<void>();
+    let fetches = 0;
+    t.mock.method(globalThis, 'fetch', async () => {
+      fetches += 1;
+      await gate.promise;
+      return new Response('<p>popular</p>', {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    let transforms = 0;
+    const options = {
+      url: 'https://example.com/popular',
+      cacheNamespace: 'coalesce-test',
+      forceRefresh: true,
+      transform: async (input: { buffer: Uint8Array; encoding: string }) => {
+        transforms += 1;
+        return new TextDecoder(input.encoding).decode(input.buffer);
+      },
+    };
+
+    const controller = new AbortController();
+    const canceled = executeFetchPipeline<string>({
+      ...options,
+      signal: controller.signal,
+    });
+    const callers = [
+      executeFetchPipeline<string>(options),
+      executeFetchPipeline<string>(options),
+    ];
+    controller.abort();
+    await assert.rejects(canceled, {
+      name: 'FetchError',
+      statusCode: 499,
+    });
+
+    gate.resolve();
+    const results = await Promise.all(callers);
+    assert.deepEqual(
+      results.map((result) => result.data),
+      ['<p>popular</p>', '<p>popular</p>']
+    );
+    assert.equal(fetches, 1);
+    assert.equal(transforms, 1);
+  });
+
+  it('forwards retry events to every attached caller', async (t) => {
+    let fetches = 0;
+    t.mock.method(globalThis, 'fetch', async () => {
+      fetches += 1;
+      if (fetches === 1) {
+        return new Response('busy', {
+          status: 503,
+          headers: { 'retry-after': '0' },
+        });
+      }
+      return new Response('<p>retried</p>', {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    const events: string[] = [];
+    const run = (caller: string) =>
+      executeFetchPipeline<string>({
+        url: 'https://example.com/retried',
+        cacheNamespace: 'coalesce-retry-test',
+        forceRefresh: true,
+        onRetry: () => events.push(caller),
+        transform: async (input) =>
+          new TextDecoder(input.encoding).decode(input.buffer),
+      });
+
+    await Promise.all([run('first'), run('second')]);
+    assert.equal(fetches, 2);
+    assert.deepEqual(events.sort(), ['first', 'second']);
+  });
+
+  it('does not share a conditional request with a forced refresh', async (t) => {
+    const url = 'https://example.com/conditional';
+    const cacheNamespace = 'coalesce-conditional-test';
+    const cacheKey = createCacheKey(
+      cacheNamespace,
+      normalizeUrl(url).normalizedUrl
+    );
+    assert.ok(cacheKey);
+    cache.set(cacheKey, JSON.stringify('<p>old</p>'), { url, etag: '"v1"' });
+
+    const gate = deferred<void>();
+    t.mock.method(
+      globalThis,
+      'fetch',
+      async (_input: RequestInfo | URL, init?: RequestInit) => {
+        await gate.promise;
+        if (new Headers(init?.headers).get('if-none-match') === '"v1"') {
+          return new Response(null, { status: 304, headers: { etag: '"v1"' } });
+        }
+        return new Response('<p>new</p>', {
+          status: 200,
+          headers: { 'content-type': 'text/html', etag: '"v2"' },
+        });
+      }
+    );
+
+    const options = {
+      url,
+      cacheNamespace,
+      serialize: (value: string) => JSON.stringify(value),
+      deserialize: (value: string) => JSON.parse(value) as string,
+      transform: async (input: { buffer: Uint8Array; encoding: string }) =>
+        new TextDecoder(input.encoding).decode(input.buffer),
+    };
+    const revalidated = executeFetchPipeline<string>({
+      ...options,
+      revalidate: true,
+    });
+    const refreshed = executeFetchPipeline<string>({
+      ...options,
+      forceRefresh: true,
+    });
+
+    gate.resolve();
+    assert.equal((await revalidated).data, '<p>old</p>');
+    assert.equal((await refreshed).data, '<p>new</p>');
+  });
+});
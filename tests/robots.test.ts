@@ -0,0 +1,227 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+import { parseRobotsTxt, resolveProductToken } from '../dist/robots.js';
+
+const RESULT_MARKER = '__RESULT__';
+const CHILD_TIMEOUT_MS = 20000;
+
+type FetchOutcome = {
+  private:
+    | { ok: true }
+    | { message: string; statusCode: number; reason: string };
+  requests: string[];
+};
+
+const ROBOTS_TXT = `
+User-agent: other-bot
+Disallow: /
+
+User-agent: *
+Disallow: /private
+Crawl-delay: 0
+`;
+
+function runIsolatedNode(
+  script: string,
+  env: Record<string, string | undefined>
+): { stdout: string; stderr: string; status: number | null } {
+  const result = spawnSync(
+    process.execPath,
+    ['--input-type=module', '-e', script],
+    {
+      cwd: fileURLToPath(new URL('..', import.meta.url)),
+      encoding: 'utf8',
+      timeout: CHILD_TIMEOUT_MS,
+      killSignal: 'SIGKILL',
+      env: {
+        ...process.env,
+        ...env,
+      },
+    }
+  );
+
+  return {
+    stdout: result.stdout ?? '',
+    stderr: result.stderr ?? '',
+    status: result.status,
+  };
+}
+
+function parseMarkedJson<T>(output: string): T {
+  const markerIndex = output.lastIndexOf(RESULT_MARKER);
+  assert.ok(markerIndex >= 0, `Missing result marker. stderr: ${output}`);
+  return JSON.parse(output.slice(markerIndex + RESULT_MARKER.length)) as T;
+}
+
+function runFetchWithRobots(mode: string | undefined): FetchOutcome {
+  const result = runIsolatedNode(
+    `
+    const requests = [];
+    globalThis.fetch = async (input) => {
+      const url = new URL(String(input));
+      requests.push(url.pathname);
+      if (url.pathname === '/robots.txt') {
+        return new Response(${JSON.stringify(ROBOTS_TXT)}, {
+          status: 200,
+          headers: { 'content-type': 'text/plain' },
+        });
+      }
+      return new Response('<p>ok</p>', {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    };
+
+    const { fetchNormalizedUrl } = await import('./dist/fetch.js');
+    let outcome;
+    try {
+      await fetchNormalizedUrl('https://example.com/private/page');
+      outcome = { ok: true };
+    } catch (error) {
+      outcome = {
+        message: error.message,
+        statusCode: error.statusCode,
+        reason: error.details?.reason,
+      };
+    }
+    await fetchNormalizedUrl('https://example.com/public');
+    console.error('${RESULT_MARKER}' + JSON.stringify({ private: outcome, requests }));
+    `,
+    { ROBOTS_TXT: mode }
+  );
+  assert.equal(result.status, 0, result.stderr);
+  return parseMarkedJson<FetchOutcome>(result.stderr);
+}
+
+describe('parseRobotsTxt', () => {
+  it('uses the group matching the product token before the wildcard group', () => {
+    const robots = `
+      User-agent: *
+      Disallow: /
+
+      User-agent: fetch-url-mcp
+      User-agent: other
+      Disallow: /admin
+      Crawl-delay: 2
+      Sitemap: https://example.com/sitemap.xml
+    `;
+
+    const rules = parseRobotsTxt(robots, 'Fetch-URL-MCP');
+    assert.equal(rules.evaluate('/docs').allowed, true);
+    assert.deepEqual(rules.evaluate('/admin/users'), {
+      allowed: false,
+      rule: '/admin',
+    });
+    assert.equal(rules.crawlDelaySeconds, 2);
+    assert.deepEqual(rules.sitemaps, ['https://example.com/sitemap.xml']);
+
+    const fallback = parseRobotsTxt(robots, 'unknown-bot');
+    assert.equal(fallback.evaluate('/docs').allowed, false);
+    assert.equal(fallback.evaluate('/robots.txt').allowed, true);
+  });
+
+  it('applies the longest matching rule with wildcards and end anchors', () => {
+    const rules = parseRobotsTxt(
+      `
+      User-agent: *
+      Disallow: /docs/
+      Allow: /docs/public/
+      Disallow: /*.pdf$
+      Disallow: /search?*q=
+      Disallow:
+      `,
+      'fetch-url-mcp'
+    );
+
+    assert.equal(rules.evaluate('/docs/internal').allowed, false);
+    assert.equal(rules.evaluate('/docs/public/guide').allowed, true);
+    assert.equal(rules.evaluate('/files/report.pdf').allowed, false);
+    assert.equal(rules.evaluate('/files/report.pdf.html').allowed, true);
+    assert.equal(rules.evaluate('/search?lang=en&q=test').allowed, false);
+    assert.equal(rules.evaluate('/search?lang=en').allowed, true);
+    assert.equal(rules.evaluate('/other').allowed, true);
+  });
+
+  it('derives the product token from the user agent', () => {
+    assert.equal(
+      resolveProductToken('fetch-url-mcp/1.2.0 (+https://example.com)'),
+      'fetch-url-mcp'
+    );
+    assert.equal(resolveProductToken('  '), '*');
+  });
+});
+
+describe('robots.txt policy', () => {
+  it('rejects disallowed URLs with a robots_disallowed reason when enforced', () => {
+    const outcome = runFetchWithRobots('enforce');
+
+    assert.deepEqual(outcome.private, {
+      message: 'Blocked by robots.txt',
+      statusCode: 403,
+      reason: 'robots_disallowed',
+    });
+    // robots.txt is fetched once per origin and cached.
+    assert.deepEqual(outcome.requests, ['/robots.txt', '/public']);
+  });
+
+  it('only logs disallowed URLs in warn mode', () => {
+    const outcome = runFetchWithRobots('warn');
+
+    assert.deepEqual(outcome.private, { ok: true });
+    assert.deepEqual(outcome.requests, [
+      '/robots.txt',
+      '/private/page',
+      '/public',
+    ]);
+  });
+
+  it('spaces requests by crawl-delay once, in the origin scheduler', () => {
+    const result = runIsolatedNode(
+      `
+      const startedAt = {};
+      globalThis.fetch = async (input) => {
+        const url = new URL(String(input));
+        startedAt[url.pathname] = Date.now();
+        if (url.pathname === '/robots.txt') {
+          await new Promise((resolve) => setTimeout(resolve, 600));
+          return new Response('User-agent: *\\nCrawl-delay: 1\\n', {
+            status: 200,
+            headers: { 'content-type': 'text/plain' },
+          });
+        }
+        return new Response('<p>ok</p>', {
+          status: 200,
+          headers: { 'content-type': 'text/html' },
+        });
+      };
+
+      const { fetchNormalizedUrl } = await import('./dist/fetch.js');
+      await fetchNormalizedUrl('https://example.com/a');
+      await fetchNormalizedUrl('https://example.com/b');
+      console.error('${RESULT_MARKER}' + JSON.stringify(startedAt));
+      `,
+      { ROBOTS_TXT: 'enforce' }
+    );
+    assert.equal(result.status, 0, result.stderr);
+    const startedAt = parseMarkedJson<Record<string, number>>(result.stderr);
+    const robotsAt = startedAt['/robots.txt'] ?? 0;
+    const firstAt = startedAt['/a'] ?? 0;
+    const secondAt = startedAt['/b'] ?? 0;
+
+    // The delay runs from the first slot, which the robots.txt fetch opened.
+    assert.ok(secondAt - robotsAt >= 950, `gap ${secondAt - robotsAt}ms`);
+    // Without a second sleep in the preflight, the slow robots.txt fetch
+    // counts towards the delay.
+    assert.ok(secondAt - firstAt < 900, `gap ${secondAt - firstAt}ms`);
+  });
+
+  it('does not fetch robots.txt by default', () => {
+    const outcome = runFetchWithRobots(undefined);
+
+    assert.deepEqual(outcome.private, { ok: true });
+    assert.deepEqual(outcome.requests, ['/private/page', '/public']);
+  });
+});
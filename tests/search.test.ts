@@ -0,0 +1,237 @@
+import assert from 'node:assert/strict';
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, describe, it } from 'node:test';
+
+import { createSearchProvider, setSearchProvider } from '../dist/search.js';
+import { searchToolHandler } from '../dist/tools.js';
+import { shutdownTransformWorkerPool } from '../dist/transform.js';
+
+after(async () => {
+  setSearchProvider(null);
+  await shutdownTransformWorkerPool();
+});
+
+interface StubRequest {
+  url: URL;
+  headers: IncomingHttpHeaders;
+}
+
+async function startStub(
+  status: number,
+  body: unknown
+): Promise<{ url: URL; requests: StubRequest[]; close: () => Promise<void> }> {
+  const requests: StubRequest[] = [];
+  const server = createServer((req, res) => {
+    requests.push({
+      url: new URL(req.url ?? '/', 'http://stub'),
+      headers: req.headers,
+    });
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: new URL(`http://127.0.0.1:${port}/search`),
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => {
+          resolve();
+        });
+      }),
+  };
+}
+
+describe('search providers', () => {
+  it('queries a SearXNG endpoint and normalizes its results', async () => {
+    const stub = await startStub(200, {
+      results: [
+        {
+          title: 'Fetch API',
+          url: 'https://developer.mozilla.org/docs/Web/API/Fetch_API',
+          content:
+            'The Fetch API provides an interface for fetching resources.',
+        },
+        {
+          title: 'Duplicate',
+          url: 'https://developer.mozilla.org/docs/Web/API/Fetch_API',
+        },
+        { title: 'Not a web page', url: 'ftp://files.example.com/' },
+        { title: 'Node.js fetch', url: 'https://nodejs.org/api/globals.html' },
+        { title: 'Beyond the limit', url: 'https://example.com/' },
+      ],
+    });
+    try {
+      const provider = createSearchProvider('searxng', { endpoint: stub.url });
+      const results = await provider.search({ query: 'fetch api', limit: 2 });
+
+      assert.deepEqual(results, [
+        {
+          title: 'Fetch API',
+          url: 'https://developer.mozilla.org/docs/Web/API/Fetch_API',
+          snippet:
+            'The Fetch API provides an interface for fetching resources.',
+        },
+        { title: 'Node.js fetch', url: 'https://nodejs.org/api/globals.html' },
+      ]);
+      assert.equal(stub.requests[0]?.url.searchParams.get('q'), 'fetch api');
+      assert.equal(stub.requests[0]?.url.searchParams.get('format'), 'json');
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('sends the API key to Brave and strips snippet markup', async () => {
+    const stub = await startStub(200, {
+      web: {
+        results: [
+          {
+            title: 'Streams &amp; fetch',
+            url: 'https://example.com/streams',
+            description: 'Use <strong>fetch</strong> with &#x27;streams&#x27;',
+          },
+        ],
+      },
+    });
+    try {
+      const provider = createSearchProvider('brave', {
+        endpoint: stub.url,
+        apiKey: 'brave-key',
+      });
+      const results = await provider.search({ query: 'streams', limit: 5 });
+
+      assert.deepEqual(results, [
+        {
+          title: 'Streams & fetch',
+          url: 'https://example.com/streams',
+          snippet: "Use fetch with 'streams'",
+        },
+      ]);
+      assert.equal(
+        stub.requests[0]?.headers['x-subscription-token'],
+        'brave-key'
+      );
+      assert.equal(stub.requests[0]?.url.searchParams.get('count'), '5');
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('reads Bing web pages', async () => {
+    const stub = await startStub(200, {
+      webPages: {
+        value: [
+          {
+            name: 'Bing result',
+            url: 'https://example.com/bing',
+            snippet: 'From Bing',
+          },
+        ],
+      },
+    });
+    try {
+      const provider = createSearchProvider('bing', {
+        endpoint: stub.url,
+        apiKey: 'bing-key',
+      });
+      const results = await provider.search({ query: 'bing', limit: 5 });
+
+      assert.deepEqual(results, [
+        {
+          title: 'Bing result',
+          url: 'https://example.com/bing',
+          snippet: 'From Bing',
+        },
+      ]);
+      assert.equal(
+        stub.requests[0]?.headers['ocp-apim-subscription-key'],
+        'bing-key'
+      );
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('fails with search_failed when the provider returns an error', async () => {
+    const stub = await startStub(429, { error: 'rate limited' });
+    try {
+      const provider = createSearchProvider('searxng', { endpoint: stub.url });
+      await assert.rejects(provider.search({ query: 'busy', limit: 5 }), {
+        name: 'FetchError',
+        details: {
+          url: stub.url.href,
+          httpStatus: 502,
+          reason: 'search_failed',
+          providerStatus: 429,
+        },
+      });
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('requires an endpoint for SearXNG and an API key for Brave and Bing', () => {
+    assert.throws(() => createSearchProvider('searxng'), /endpoint URL/);
+    assert.throws(() => createSearchProvider('brave'), /API key/);
+    assert.throws(() => createSearchProvider('bing'), /API key/);
+  });
+});
+
+describe('search tool', () => {
+  it('returns results and fetches the top ones through the pipeline', async (t) => {
+    setSearchProvider({
+      name: 'stub',
+      search: async ({ limit }) =>
+        [
+          { title: 'First', url: 'https://example.com/search-first' },
+          { title: 'Second', url: 'https://example.com/search-second' },
+          { title: 'Third', url: 'https://example.com/search-third' },
+        ].slice(0, limit),
+    });
+    const fetched: string[] = [];
+    t.mock.method(globalThis, 'fetch', async (input: RequestInfo | URL) => {
+      fetched.push(String(input));
+      return new Response('<h1>First page</h1><p>Found by search.</p>', {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    try {
+      const response = await searchToolHandler({
+        query: 'example',
+        maxResults: 2,
+        fetchTop: 1,
+        forceRefresh: true,
+      });
+      const content = response.structuredContent as {
+        provider: string;
+        results: { url: string }[];
+        pages: { url: string; markdown?: string }[];
+      };
+
+      assert.equal(response.isError, undefined);
+      assert.equal(content.provider, 'stub');
+      assert.equal(content.results.length, 2);
+      assert.deepEqual(fetched, ['https://example.com/search-first']);
+      assert.equal(content.pages.length, 1);
+      assert.match(content.pages[0]?.markdown ?? '', /Found by search/);
+    } finally {
+      setSearchProvider(null);
+    }
+  });
+
+  it('fails with search_disabled without a provider', async () => {
+    setSearchProvider(null);
+    const response = await searchToolHandler({ query: 'anything' });
+    assert.equal(response.isError, true);
+    const content = response.structuredContent as {
+      details?: { reason?: string };
+    };
+    assert.equal(content.details?.reason, 'search_disabled');
+  });
+});
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { splitMarkdownSections } from '../dist/markdown-cleanup.js';
+import {
+  condenseMarkdownToTokenBudget,
+  estimateTokens,
+} from '../dist/token-budget.js';
+
+describe('estimateTokens', () => {
+  it('counts words by length, punctuation and CJK characters individually', () => {
+    assert.equal(estimateTokens(''), 0);
+    assert.equal(estimateTokens('The cat sat.'), 4);
+    assert.equal(estimateTokens('internationalization'), 5);
+    assert.equal(estimateTokens('東京都'), 3);
+  });
+});
+
+describe('splitMarkdownSections', () => {
+  it('groups blocks under headings and keeps fenced code whole', () => {
+    const sections = splitMarkdownSections(
+      [
+        'Preamble.',
+        '',
+        '## A',
+        'One',
+        'line two',
+        '',
+        '```',
+        'x',
+        '',
+        'y',
+        '```',
+      ].join('\n')
+    );
+
+    assert.deepEqual(sections, [
+      { blocks: ['Preamble.'] },
+      { heading: '## A', blocks: ['One\nline two', '```\nx\n\ny\n```'] },
+    ]);
+  });
+});
+
+describe('condenseMarkdownToTokenBudget', () => {
+  const filler = 'lorem ipsum dolor sit amet '.repeat(30).trim();
+  const markdown = [
+    '# Guide',
+    '## One',
+    'First of one.',
+    filler,
+    '## Two',
+    'First of two.',
+    filler,
+    '### Two A',
+    'First of two A.',
+  ].join('\n\n');
+
+  it('returns content within budget unchanged', () => {
+    assert.equal(
+      condenseMarkdownToTokenBudget('# Hi\n\nThere.', 100),
+      '# Hi\n\nThere.'
+    );
+  });
+
+  it('keeps every heading and the first paragraph of each section', () => {
+    const condensed = condenseMarkdownToTokenBudget(markdown, 60);
+
+    assert.equal(
+      condensed,
+      [
+        '# Guide',
+        '## One',
+        'First of one.',
+        '## Two',
+        'First of two.',
+        '### Two A',
+        'First of two A.',
+      ].join('\n\n')
+    );
+    assert.ok(estimateTokens(condensed) <= 60);
+  });
+
+  it('clips a first paragraph that does not fit', () => {
+    const condensed = condenseMarkdownToTokenBudget(filler, 12);
+
+    assert.match(condensed, /^lorem ipsum dolor sit amet lorem .*…$/);
+    assert.ok(estimateTokens(condensed) <= 12);
+  });
+});
@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import { createMcpServer } from '../dist/server.js';
+import { watchUrlToolHandler } from '../dist/tools.js';
+import { shutdownTransformWorkerPool } from '../dist/transform.js';
+import { listWatches, stopAllWatches } from '../dist/watch.js';
+
+after(async () => {
+  stopAllWatches();
+  await shutdownTransformWorkerPool();
+});
+
+type WatchContent = {
+  watching?: boolean;
+  cacheResourceUri?: string;
+  watches?: {
+    url: string;
+    cacheResourceUri?: string;
+    intervalSeconds: number;
+    checks: number;
+  }[];
+};
+
+function readHeader(init: unknown, name: string): string | null {
+  const headers = (init as { headers?: HeadersInit } | undefined)?.headers;
+  return new Headers(headers).get(name);
+}
+
+describe('watchUrlToolHandler', () => {
+  it('starts a watch that revalidates with the cached ETag', async (t) => {
+    const requests: (string | null)[] = [];
+    const { promise: revalidated, resolve } = Promise.withResolvers<void>();
+    t.mock.method(globalThis, 'fetch', async (_url: unknown, init: unknown) => {
+      const ifNoneMatch = readHeader(init, 'if-none-match');
+      requests.push(ifNoneMatch);
+      if (ifNoneMatch === '"v1"') {
+        resolve();
+        return new Response(null, { status: 304 });
+      }
+      return new Response(
+        '<html><head><title>Status</title></head><body><main><h1>Status</h1><p>All systems operational.</p></main></body></html>',
+        {
+          status: 200,
+          headers: { 'content-type': 'text/html', etag: '"v1"' },
+        }
+      );
+    });
+
+    t.mock.timers.enable({ apis: ['setTimeout'] });
+    const url = 'https://example.com/status';
+    const started = await watchUrlToolHandler(
+      { url, intervalSeconds: 60 },
+      { sessionId: 'watch-session' }
+    );
+    const content = started.structuredContent as WatchContent;
+    assert.equal(content.watching, true);
+    assert.match(content.cacheResourceUri ?? '', /^internal:\/\/cache\//);
+    assert.equal(content.watches?.length, 1);
+    assert.equal(
+      content.watches?.[0]?.cacheResourceUri,
+      content.cacheResourceUri
+    );
+
+    t.mock.timers.tick(60_000);
+    await revalidated;
+    assert.deepEqual(requests, [null, '"v1"']);
+
+    const stopped = await watchUrlToolHandler(
+      { url, action: 'stop' },
+      { sessionId: 'watch-session' }
+    );
+    const stoppedContent = stopped.structuredContent as WatchContent;
+    assert.equal(stoppedContent.watching, false);
+    assert.deepEqual(stoppedContent.watches, []);
+  });
+
+  it('keeps watches of different sessions apart', async (t) => {
+    t.mock.method(globalThis, 'fetch', async () => {
+      return new Response('<html><body><p>Hello there.</p></body></html>', {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    const url = 'https://example.com/sessions';
+    await watchUrlToolHandler({ url }, { sessionId: 'session-one' });
+    const other = await watchUrlToolHandler(
+      { url: 'https://example.com/other' },
+      { sessionId: 'session-two' }
+    );
+
+    const content = other.structuredContent as WatchContent;
+    assert.deepEqual(
+      content.watches?.map((watch) => watch.url),
+      ['https://example.com/other']
+    );
+    assert.equal(content.watches?.[0]?.intervalSeconds, 300);
+  });
+
+  it('is callable through an MCP client and keys watches by session', async (t) => {
+    t.mock.method(globalThis, 'fetch', async () => {
+      return new Response('<html><body><p>Client watch.</p></body></html>', {
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    const server = await createMcpServer();
+    const client = new Client({ name: 'watch-url-test', version: '1.0.0' });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    serverTransport.sessionId = 'client-session';
+    const url = 'https://example.com/client-watch';
+
+    try {
+      await Promise.all([
+        server.connect(serverTransport),
+        client.connect(clientTransport),
+      ]);
+      const started = await client.callTool({
+        name: 'watch-url',
+        arguments: { url },
+      });
+      assert.equal(started.isError, undefined);
+      assert.equal((started.structuredContent as WatchContent).watching, true);
+      assert.deepEqual(
+        listWatches('session:client-session').map((watch) => watch.url),
+        [url]
+      );
+
+      const stopped = await client.callTool({
+        name: 'watch-url',
+        arguments: { url, action: 'stop' },
+      });
+      assert.deepEqual((stopped.structuredContent as WatchContent).watches, []);
+    } finally {
+      await client.close();
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { config } from '../dist/config.js';
+import {
+  listWatches,
+  startWatch,
+  stopWatch,
+  stopWatchesForOwner,
+} from '../dist/watch.js';
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i += 1) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+describe('url watches', () => {
+  it('counts a change only when the Markdown outside the footer changes', async (t) => {
+    t.mock.timers.enable({ apis: ['setTimeout'] });
+    const footer = (day: number): string =>
+      `\n\n---\n\n _Page_ | _2026-01-0${day}_`;
+    const versions = [`# One${footer(2)}`, `# Two${footer(3)}`];
+    let calls = 0;
+
+    startWatch({
+      ownerKey: 'owner-a',
+      key: 'markdown:watch-a',
+      url: 'https://example.com/a',
+      intervalSeconds: 60,
+      markdown: `# One${footer(1)}`,
+      check: async () => versions[calls++] ?? '',
+    });
+
+    try {
+      t.mock.timers.tick(60_000);
+      await flush();
+      const [first] = listWatches('owner-a');
+      assert.equal(first?.checks, 1);
+      assert.equal(first?.changes, 0);
+      assert.equal(first?.lastChangedAt, undefined);
+
+      t.mock.timers.tick(60_000);
+      await flush();
+      const [second] = listWatches('owner-a');
+      assert.equal(second?.checks, 2);
+      assert.equal(second?.changes, 1);
+      assert.notEqual(second?.contentHash, first?.contentHash);
+    } finally {
+      stopWatchesForOwner('owner-a');
+    }
+  });
+
+  it('records failed checks and keeps watching', async (t) => {
+    t.mock.timers.enable({ apis: ['setTimeout'] });
+    let calls = 0;
+    startWatch({
+      ownerKey: 'owner-b',
+      key: 'markdown:watch-b',
+      url: 'https://example.com/b',
+      intervalSeconds: 60,
+      markdown: '# Page',
+      check: async () => {
+        calls += 1;
+        if (calls === 1) throw new Error('upstream down');
+        return '# Page';
+      },
+    });
+
+    try {
+      t.mock.timers.tick(60_000);
+      await flush();
+      assert.equal(listWatches('owner-b')[0]?.lastError, 'upstream down');
+
+      t.mock.timers.tick(60_000);
+      await flush();
+      const [watch] = listWatches('owner-b');
+      assert.equal(watch?.lastError, undefined);
+      assert.equal(watch?.checks, 2);
+    } finally {
+      stopWatchesForOwner('owner-b');
+    }
+  });
+
+  it('limits active watches per owner but allows replacing one', () => {
+    const limit = config.tools.watchMaxPerSession;
+    const start = (key: string, intervalSeconds = 60) =>
+      startWatch({
+        ownerKey: 'owner-c',
+        key,
+        url: `https://example.com/${key}`,
+        intervalSeconds,
+        markdown: '',
+        check: async () => '',
+      });
+
+    try {
+      for (let i = 0; i < limit; i += 1) start(`markdown:c-${i}`);
+      assert.throws(() => start('markdown:c-extra'), {
+        name: 'FetchError',
+        statusCode: 429,
+      });
+
+      start('markdown:c-0', 120);
+      assert.equal(listWatches('owner-c').length, limit);
+      assert.equal(
+        listWatches('owner-c').find((watch) => watch.key === 'markdown:c-0')
+          ?.intervalSeconds,
+        120
+      );
+
+      assert.equal(stopWatch('owner-c', 'markdown:c-0'), true);
+      assert.equal(stopWatch('owner-c', 'markdown:c-0'), false);
+      assert.equal(listWatches('owner-c').length, limit - 1);
+      assert.equal(listWatches('owner-d').length, 0);
+    } finally {
+      stopWatchesForOwner('owner-c');
+    }
+    assert.deepEqual(listWatches('owner-c'), []);
+  });
+});